@@ -1,31 +1,257 @@
-import { useEffect, useRef, useState } from "react";
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from "react";
 import * as THREE from "three";
-import { useXRStore } from "./stores/xrStore";
+import { useShallow } from "zustand/react/shallow";
+import { XRState, useXRStore } from "./stores/xrStore";
+import { CommandHistory } from "./core/CommandHistory";
+import { ObjectInspector } from "./components/ObjectInspector";
+import { ObjectSidebar } from "./components/ObjectSidebar";
+import { HudItem, XRHud } from "./components/XRHud";
+import { ControlPanel } from "./core/ControlPanel";
+import { ControllerShortcuts } from "./core/ControllerShortcuts";
+import { DesktopInlineProvider } from "./core/DesktopInlineProvider";
+import { HIGHLIGHT_STYLES, createHighlightStrategies } from "./core/HighlightStrategies";
 import { HitTestManager } from "./core/HitTestManager";
+import type { HitTestHandedness } from "./core/HitTestSourcePolicy";
 import { InteractionManager } from "./core/InteractionManager";
+import { LightingManager } from "./core/LightingManager";
+import { OcclusionManager } from "./core/OcclusionManager";
+import { PhysicsManager } from "./core/PhysicsManager";
+import { ManipulationManager } from "./core/ManipulationManager";
+import { LayoutSchemaError, downloadFile, parseLayout } from "./core/LayoutSerializer";
+import type { SnapMode } from "./core/PlacementConstraints";
+import { PlacedObjectSync } from "./core/PlacedObjectSync";
+import { PlaneManager } from "./core/PlaneManager";
+import { SelectionOperations } from "./core/SelectionOperations";
+import { VirtualEnvironment } from "./core/VirtualEnvironment";
+import type { XREmulator } from "./core/XREmulator";
+import { XRRecorder } from "./core/XRRecorder";
+import { RecordingSchemaError, XRRecording, parseRecording } from "./core/XRRecording";
+import { XRReplayDriver } from "./core/XRReplayDriver";
+import {
+  SESSION_MODE_LABELS,
+  XRSessionController,
+  XRSessionErrorKind,
+  createWebXRSessionProvider,
+} from "./core/XRSessionController";
+import { useXREvent } from "./hooks/useXREvent";
+
+// レイアウト操作ボタンのスタイル
+const layoutButtonStyle = {
+  padding: "8px 12px",
+  background: "rgba(0, 0, 0, 0.8)",
+  color: "white",
+  border: "1px solid #444",
+  borderRadius: "4px",
+  fontSize: "13px",
+  cursor: "pointer",
+};
+
+// エラー表示のボタンのスタイル
+const errorButtonStyle = {
+  marginTop: "15px",
+  marginRight: "8px",
+  padding: "8px 16px",
+  background: "white",
+  color: "#dc2626",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+  fontWeight: "bold",
+};
+
+// セッションのエラーの見出し
+const SESSION_ERROR_TITLES: Record<XRSessionErrorKind, string> = {
+  "permission-denied": "Permission denied",
+  "hit-test-unavailable": "Hit test unavailable",
+  "reference-space-fallback": "Reference space unavailable",
+  "session-failed": "XR session failed",
+};
+
+// スナップ設定ボタンで切り替える順番
+const SNAP_MODES: SnapMode[] = ["none", "grid", "neighbor"];
+// 使う手の設定ボタンで切り替える順番
+const HANDEDNESS_OPTIONS: HitTestHandedness[] = ["right", "left", "both"];
+// グリッドのセルサイズの選択肢（m）
+const GRID_SIZES = [0.05, 0.1, 0.2];
+// ?emulateでデスクトップのARエミュレーターを最初から有効にする
+const EMULATE_ON_LOAD = new URLSearchParams(window.location.search).has("emulate");
+// エミュレーター（IWER）は開発時か?emulateのときだけ使える
+const EMULATION_AVAILABLE = import.meta.env.DEV || EMULATE_ON_LOAD;
 
 function App() {
   const containerRef = useRef<HTMLDivElement>(null);
-  const { setRenderer, setScene, setCamera, error, reticleVisible } = useXRStore();
+  // dom-overlayでセッション中に表示する要素
+  const overlayRootRef = useRef<HTMLDivElement>(null);
+  const {
+    setRenderer,
+    setScene,
+    setCamera,
+    error,
+    xrState,
+    sessionError,
+    sessionWarnings,
+    referenceSpaceType,
+    enabledFeatures,
+    sessionMode,
+    supportedSessionModes,
+    emulating,
+    setEmulating,
+    hitTestHandedness,
+    setHitTestHandedness,
+    lightingSource,
+    occlusionSources,
+    showOccluders,
+    setShowOccluders,
+    physicsEnabled,
+    setPhysicsEnabled,
+    physicsBodyCount,
+    awakeBodyCount,
+    recordSessions,
+    setRecordSessions,
+    recordedFrameCount,
+    replayState,
+    reticleVisible,
+    hitTestSource,
+    surfaceType,
+    placementAllowed,
+    canUndo,
+    canRedo,
+    selectedObjectIds,
+    selectionMarquee,
+    xrSelectMode,
+    setXRSelectMode,
+    hoverHighlight,
+    selectHighlight,
+    setHoverHighlight,
+    setSelectHighlight,
+    snapMode,
+    gridSize,
+    collisionMode,
+    setSnapMode,
+    setGridSize,
+    setCollisionMode,
+    restrictHitTestToPlanes,
+    setRestrictHitTestToPlanes,
+    detectedPlaneCount,
+    floorExtents,
+    roomBounds,
+  } = useXRStore(
+    useShallow((state) => ({
+      setRenderer: state.setRenderer,
+      setScene: state.setScene,
+      setCamera: state.setCamera,
+      error: state.error,
+      xrState: state.xrState,
+      sessionError: state.sessionError,
+      sessionWarnings: state.sessionWarnings,
+      referenceSpaceType: state.referenceSpaceType,
+      enabledFeatures: state.enabledFeatures,
+      sessionMode: state.sessionMode,
+      supportedSessionModes: state.supportedSessionModes,
+      emulating: state.emulating,
+      setEmulating: state.setEmulating,
+      hitTestHandedness: state.hitTestHandedness,
+      setHitTestHandedness: state.setHitTestHandedness,
+      lightingSource: state.lightingSource,
+      occlusionSources: state.occlusionSources,
+      showOccluders: state.showOccluders,
+      setShowOccluders: state.setShowOccluders,
+      physicsEnabled: state.physicsEnabled,
+      setPhysicsEnabled: state.setPhysicsEnabled,
+      physicsBodyCount: state.physicsBodyCount,
+      awakeBodyCount: state.awakeBodyCount,
+      recordSessions: state.recordSessions,
+      setRecordSessions: state.setRecordSessions,
+      recordedFrameCount: state.recordedFrameCount,
+      replayState: state.replayState,
+      reticleVisible: state.reticleVisible,
+      hitTestSource: state.hitTestSource,
+      surfaceType: state.surfaceType,
+      placementAllowed: state.placementAllowed,
+      canUndo: state.canUndo,
+      canRedo: state.canRedo,
+      selectedObjectIds: state.selectedObjectIds,
+      selectionMarquee: state.selectionMarquee,
+      xrSelectMode: state.xrSelectMode,
+      setXRSelectMode: state.setXRSelectMode,
+      hoverHighlight: state.hoverHighlight,
+      selectHighlight: state.selectHighlight,
+      setHoverHighlight: state.setHoverHighlight,
+      setSelectHighlight: state.setSelectHighlight,
+      snapMode: state.snapMode,
+      gridSize: state.gridSize,
+      collisionMode: state.collisionMode,
+      setSnapMode: state.setSnapMode,
+      setGridSize: state.setGridSize,
+      setCollisionMode: state.setCollisionMode,
+      restrictHitTestToPlanes: state.restrictHitTestToPlanes,
+      setRestrictHitTestToPlanes: state.setRestrictHitTestToPlanes,
+      detectedPlaneCount: state.detectedPlaneCount,
+      floorExtents: state.floorExtents,
+      roomBounds: state.roomBounds,
+    }))
+  );
   const [isInitializing, setIsInitializing] = useState(false);
-  const [xrSupported, setXrSupported] = useState(false);
+  // HUDのパレットに表示するアイテム
+  const [spawnItems, setSpawnItems] = useState<HudItem[]>([]);
+  // 最後の配置・削除イベント（デバッグ表示用）
+  const [lastEvent, setLastEvent] = useState<string | null>(null);
+
+  useXREvent("place", (event) => {
+    const surface = event.plane?.label ?? event.surface.type;
+    setLastEvent(`place ${event.catalogId} on ${surface} (${event.handedness})`);
+  });
+  useXREvent("remove", (event) => setLastEvent(`remove ${event.object.name}`));
 
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const hitTestManagerRef = useRef<HitTestManager | null>(null);
   const interactionManagerRef = useRef<InteractionManager | null>(null);
+  const historyRef = useRef<CommandHistory | null>(null);
+  const selectionOperationsRef = useRef<SelectionOperations | null>(null);
+  const highlightsRef = useRef<ReturnType<typeof createHighlightStrategies> | null>(null);
+  const sessionControllerRef = useRef<XRSessionController | null>(null);
+  const recorderRef = useRef<XRRecorder | null>(null);
+  const lastRecordingRef = useRef<XRRecording | null>(null);
+  const replayRef = useRef<XRReplayDriver | null>(null);
+  const emulatorRef = useRef<XREmulator | null>(null);
+  const environmentRef = useRef<VirtualEnvironment | null>(null);
+  // 1フレーム分のmanagerの更新（再生時はXRReplayDriverから呼ぶ）
+  const updateFrameRef = useRef<((frame?: XRFrame) => void) | null>(null);
+
+  // 一覧からの選択（idから配置済みオブジェクトを探す）
+  const selectPlacedObject = useCallback((id: string, additive: boolean) => {
+    const object = hitTestManagerRef.current
+      ?.getPlacedObjects()
+      .find((placed) => placed.uuid === id);
+    if (object) interactionManagerRef.current?.select(object, additive);
+  }, []);
+
+  // 選択中のオブジェクトを削除
+  const deleteSelectedObject = useCallback(() => {
+    selectionOperationsRef.current?.deleteSelected();
+  }, []);
+
+  // デスクトップのARエミュレーター（IWERを含むため、初めて有効にするときに読み込む）
+  const ensureEmulator = useCallback(async (): Promise<XREmulator | null> => {
+    if (emulatorRef.current) return emulatorRef.current;
+
+    const { XREmulator } = await import("./core/XREmulator");
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (emulatorRef.current || !renderer || !scene || !camera) return emulatorRef.current;
+
+    const emulator = new XREmulator(renderer, scene, camera);
+    emulatorRef.current = emulator;
+    if (import.meta.env.DEV) window.mrroomEmulator = emulator;
+    return emulator;
+  }, []);
 
   useEffect(() => {
     if (!containerRef.current) return;
 
-    // WebXRサポート確認
-    if (navigator.xr) {
-      navigator.xr.isSessionSupported("immersive-ar").then((supported) => {
-        setXrSupported(supported);
-      });
-    }
-
     setIsInitializing(true);
 
     // シーンのセットアップ
@@ -56,29 +282,198 @@ function App() {
     rendererRef.current = renderer;
     setRenderer(renderer);
 
-    // ライトの追加
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
-    scene.add(ambientLight);
+    // 操作履歴（undo/redo）
+    const history = new CommandHistory();
+    historyRef.current = history;
 
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5);
-    directionalLight.position.set(0, 10, 10);
-    scene.add(directionalLight);
+    // 平面検出（ヒットテストマネージャーから毎フレーム更新される）
+    const planeManager = new PlaneManager(scene);
 
-    // ヒットテストマネージャーの初期化
-    hitTestManagerRef.current = new HitTestManager(renderer, scene);
+    // ホバー・選択のハイライト（ストアの設定で切り替える）
+    const highlights = createHighlightStrategies(renderer, scene, camera);
+    highlightsRef.current = highlights;
 
     // インタラクションマネージャーの初期化
-    interactionManagerRef.current = new InteractionManager(renderer, scene, camera);
+    const { hoverHighlight, selectHighlight } = useXRStore.getState();
+    const interactionManager = new InteractionManager(renderer, scene, camera, history, {
+      hover: highlights[hoverHighlight],
+      select: highlights[selectHighlight],
+    });
+    interactionManagerRef.current = interactionManager;
 
-    // アニメーションループ
-    renderer.setAnimationLoop((_time, frame) => {
+    // ワールド空間のコントロールパネル（読み込み後に表示）
+    let controlPanel: ControlPanel | null = null;
+    let disposed = false;
+
+    // ヒットテストマネージャーの初期化（パネル・オブジェクトを指すselectは配置しない）
+    hitTestManagerRef.current = new HitTestManager(renderer, scene, {
+      history,
+      planeManager,
+      selectArbiter: {
+        claimsSelect: (event) =>
+          controlPanel?.claimsSelect(event) === true || interactionManager.claimsSelect(event),
+      },
+      // 物理演算で掴んだsqueezeではプレビューをキャンセルしない
+      squeezeArbiter: {
+        claimsSelect: (event) => physicsManager.claimsSqueeze(event),
+      },
+    });
+
+    // 選択中のオブジェクトの移動・回転・拡大縮小
+    const manipulationManager = new ManipulationManager(
+      renderer,
+      scene,
+      camera,
+      interactionManager,
+      hitTestManagerRef.current
+    );
+
+    // ライト推定による照明と配置したオブジェクトの影（推定できなければ固定のライト）
+    const lightingManager = new LightingManager(renderer, scene, camera, hitTestManagerRef.current);
+
+    // 現実の物体による遮蔽（depth-sensingの深度と、mesh-detectionの部屋のメッシュ）
+    const occlusionManager = new OcclusionManager(renderer, scene, hitTestManagerRef.current);
+
+    // 配置済みオブジェクトの物理演算（検出された平面・ヒットした表面・床で止まり、squeezeで投げる）
+    const physicsManager = new PhysicsManager(renderer, {
+      hitTestManager: hitTestManagerRef.current,
+      interactionManager,
+      manipulationManager,
+      planeManager,
+      squeezeArbiter: {
+        claimsSelect: (event) => controlPanel?.claimsSelect(event) === true,
+      },
+    });
+
+    // 選択中のオブジェクトすべてに対する操作
+    const selectionOperations = new SelectionOperations(
+      hitTestManagerRef.current,
+      interactionManager
+    );
+    selectionOperationsRef.current = selectionOperations;
+
+    // XRセッションの記録（設定が有効な場合、終了時に保存できるようにする）
+    const hitTestManager = hitTestManagerRef.current;
+    setSpawnItems(
+      hitTestManager
+        .getCatalog()
+        .list()
+        .map(({ id, label }) => ({ id, label }))
+    );
+    const recorder = new XRRecorder(renderer, hitTestManager);
+    recorderRef.current = recorder;
+
+    // VR・デスクトップでヒットテストの代わりになる仮想の部屋と地面
+    const environment = new VirtualEnvironment(scene);
+    environmentRef.current = environment;
+
+    // XRセッションのライフサイクル（開始時にヒットテストを初期化）
+    const sessionController = new XRSessionController(renderer, {
+      domOverlayRoot: overlayRootRef.current,
+      onSessionStart: async (session, referenceSpaceType, mode) => {
+        const hitTestProvider = environment.enter(session, mode);
+        hitTestManager.setPolicy({ handedness: useXRStore.getState().hitTestHandedness });
+        await hitTestManager.onSessionStart(session, referenceSpaceType, hitTestProvider);
+        if (!useXRStore.getState().recordSessions) return;
+
+        recorder.start(session, mode, referenceSpaceType);
+        session.addEventListener("end", () => {
+          const recording = recorder.stop();
+          if (!recording) return;
+          lastRecordingRef.current = recording;
+          useXRStore.getState().setRecordedFrameCount(recording.frames.length);
+        });
+      },
+    });
+    sessionControllerRef.current = sessionController;
+
+    // コントロールパネル（ui/control-panel.uikitml）の状態表示とボタン
+    ControlPanel.load(renderer, scene, camera, {
+      enterSession: () => sessionController.start(),
+      endSession: () => sessionController.end(),
+      clearObjects: () => hitTestManager.removeObjects(hitTestManager.getPlacedObjects()),
+    })
+      .then((panel) => {
+        if (disposed) {
+          panel.dispose();
+        } else {
+          controlPanel = panel;
+        }
+      })
+      .catch((error) => console.warn("⚠️ Control panel unavailable:", error));
+
+    // デスクトップのinlineセッション（OrbitControlsとマウスで配置）
+    const inlineProvider = new DesktopInlineProvider(renderer, scene, camera);
+    sessionController.setProvider(inlineProvider, ["inline"]);
+
+    // デスクトップのARエミュレーター（?emulateで最初から有効）
+    const emulate = EMULATION_AVAILABLE && (useXRStore.getState().emulating || EMULATE_ON_LOAD);
+    useXRStore.getState().setEmulating(emulate);
+    if (emulate) {
+      ensureEmulator()
+        .then(async (emulator) => {
+          if (disposed || !emulator) return;
+          await sessionController.setProvider(emulator, ["immersive-ar"]);
+          sessionController.setMode("immersive-ar");
+        })
+        .catch((error) => {
+          console.warn("⚠️ AR emulator unavailable:", error);
+          useXRStore.getState().setEmulating(false);
+        });
+    }
+
+    // 配置済みオブジェクトとストアのレコードの同期（一覧・インスペクター用）
+    const placedObjectSync = new PlacedObjectSync(hitTestManagerRef.current, history);
+
+    // コントローラーのボタン: 左X=undo, 左Y=redo, 右A=選択モード切り替え, 右B=削除
+    const controllerShortcuts = new ControllerShortcuts([
+      { handedness: "left", button: 4, action: () => history.undo() },
+      { handedness: "left", button: 5, action: () => history.redo() },
+      {
+        handedness: "right",
+        button: 4,
+        action: () => {
+          const store = useXRStore.getState();
+          store.setXRSelectMode(!store.xrSelectMode);
+        },
+      },
+      { handedness: "right", button: 5, action: () => deleteSelectedObject() },
+    ]);
+
+    // 1フレーム分のmanagerの更新
+    const updateFrame = (frame?: XRFrame) => {
       if (hitTestManagerRef.current) {
         hitTestManagerRef.current.update(frame);
       }
       if (interactionManagerRef.current) {
-        interactionManagerRef.current.update();
+        interactionManagerRef.current.update(frame);
+      }
+      manipulationManager.update(frame);
+      physicsManager.update(frame);
+      controllerShortcuts.update(frame);
+      controlPanel?.update(frame);
+      lightingManager.update(frame);
+      occlusionManager.update(frame);
+      placedObjectSync.update();
+    };
+    updateFrameRef.current = updateFrame;
+
+    // アニメーションループ
+    renderer.setAnimationLoop((time, frame) => {
+      // 再生中は記録されたフレームでmanagerを更新
+      if (replayRef.current) {
+        replayRef.current.tick();
+      } else {
+        // デスクトップのセッション中は仮想のフレームを使う
+        const currentFrame = inlineProvider.getFrame() ?? frame;
+        updateFrame(currentFrame);
+        recorder.capture(currentFrame);
+      }
+      physicsManager.step(time);
+      // 輪郭線のハイライトがあればポストプロセスで描画
+      if (!highlights.outline.render()) {
+        renderer.render(scene, camera);
       }
-      renderer.render(scene, camera);
     });
 
     // リサイズ処理
@@ -86,91 +481,210 @@ function App() {
       camera.aspect = window.innerWidth / window.innerHeight;
       camera.updateProjectionMatrix();
       renderer.setSize(window.innerWidth, window.innerHeight);
+      highlights.outline.setSize(window.innerWidth, window.innerHeight);
     };
     window.addEventListener("resize", handleResize);
 
+    // キーボードショートカット: Ctrl+Z / Ctrl+Shift+Z / Delete
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+
+      const modifier = event.ctrlKey || event.metaKey;
+      if (modifier && event.key.toLowerCase() === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          history.redo();
+        } else {
+          history.undo();
+        }
+      } else if (modifier && event.key.toLowerCase() === "y") {
+        event.preventDefault();
+        history.redo();
+      } else if (modifier && event.key.toLowerCase() === "d") {
+        event.preventDefault();
+        selectionOperations.duplicateSelected();
+      } else if (modifier && event.key.toLowerCase() === "g") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          selectionOperations.ungroupSelected();
+        } else {
+          selectionOperations.groupSelected();
+        }
+      } else if (event.key === "Delete" || event.key === "Backspace") {
+        deleteSelectedObject();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+
     setIsInitializing(false);
 
     // クリーンアップ
     return () => {
+      disposed = true;
+      controlPanel?.dispose();
       window.removeEventListener("resize", handleResize);
+      window.removeEventListener("keydown", handleKeyDown);
       renderer.setAnimationLoop(null);
+      sessionController.dispose();
+      recorder.dispose();
+      const emulator = emulatorRef.current;
+      emulator?.dispose();
+      emulatorRef.current = null;
+      inlineProvider.dispose();
+      environment.dispose();
+      environmentRef.current = null;
+      if (emulator && window.mrroomEmulator === emulator) delete window.mrroomEmulator;
+      replayRef.current?.stop();
+      replayRef.current = null;
       if (containerRef.current?.contains(renderer.domElement)) {
         containerRef.current.removeChild(renderer.domElement);
       }
       renderer.dispose();
+      manipulationManager.dispose();
+      lightingManager.dispose();
+      occlusionManager.dispose();
+      physicsManager.dispose();
+      placedObjectSync.dispose();
       hitTestManagerRef.current?.dispose();
       interactionManagerRef.current?.dispose();
+      Object.values(highlights).forEach((strategy) => strategy.dispose());
+      planeManager.dispose();
+      history.clear();
     };
-  }, [setRenderer, setScene, setCamera]);
+  }, [setRenderer, setScene, setCamera, deleteSelectedObject, ensureEmulator]);
 
-  // XRセッション開始
-  const handleEnterAR = async () => {
-    if (!rendererRef.current || !navigator.xr) return;
+  // ハイライトの表示方法の変更を反映
+  useEffect(() => {
+    const highlights = highlightsRef.current;
+    const interactionManager = interactionManagerRef.current;
+    if (!highlights || !interactionManager) return;
 
-    try {
-      const session = await navigator.xr.requestSession("immersive-ar", {
-        requiredFeatures: ["hit-test"],
-        optionalFeatures: ["local-floor", "bounded-floor", "hand-tracking"],
+    interactionManager.setHighlightStrategy("hover", highlights[hoverHighlight]);
+    interactionManager.setHighlightStrategy("select", highlights[selectHighlight]);
+  }, [hoverHighlight, selectHighlight]);
+
+  // XRセッション開始（選択中のモード）
+  const handleEnterSession = () => {
+    sessionControllerRef.current?.start();
+  };
+
+  // セッションを終了（HUDのExit）
+  const handleExitSession = () => {
+    sessionControllerRef.current?.end();
+  };
+
+  // 配置済みオブジェクトをすべて削除（1回のundoで戻る）
+  const handleClearObjects = () => {
+    const hitTestManager = hitTestManagerRef.current;
+    hitTestManager?.removeObjects(hitTestManager.getPlacedObjects());
+  };
+
+  // デスクトップのエミュレーションの切り替え（セッション中でないときのみ）
+  const handleToggleEmulation = () => {
+    const renderer = rendererRef.current;
+    const sessionController = sessionControllerRef.current;
+    if (!renderer || !sessionController) return;
+
+    const next = !emulating;
+    setEmulating(next);
+    const provider = next
+      ? ensureEmulator()
+      : Promise.resolve(createWebXRSessionProvider(renderer));
+    provider
+      .then(async (provider) => {
+        if (!provider) return;
+        await sessionController.setProvider(provider, ["immersive-ar"]);
+        if (next) sessionController.setMode("immersive-ar");
+      })
+      .catch((error) => {
+        console.warn("⚠️ Failed to switch AR emulation:", error);
+        if (next) setEmulating(false);
       });
+  };
 
-      await rendererRef.current.xr.setSession(session);
+  // 記録したセッションを保存
+  const handleSaveRecording = () => {
+    const recording = lastRecordingRef.current;
+    if (!recording) return;
+    downloadFile(JSON.stringify(recording), "mrroom-session.json", "application/json");
+  };
 
-      // セッション開始時にヒットテストを初期化
-      if (hitTestManagerRef.current) {
-        hitTestManagerRef.current.onSessionStart(session);
-      }
+  // 記録したセッションを読み込んで再生
+  const handleReplayRecording = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    const renderer = rendererRef.current;
+    const camera = cameraRef.current;
+    const hitTestManager = hitTestManagerRef.current;
+    const environment = environmentRef.current;
+    if (!file || !renderer || !camera || !hitTestManager || !environment || replayRef.current) {
+      return;
+    }
 
-      session.addEventListener("end", () => {
-        console.log("XR session ended");
+    try {
+      const recording = parseRecording(await file.text());
+      const replay = new XRReplayDriver(renderer, camera, recording, {
+        // 仮想の部屋・地面は表示だけ（ヒットは記録されたものを使う）
+        onSessionStart: (session, referenceSpaceType) => {
+          environment.enter(session, recording.mode);
+          hitTestManager.setPolicy({ handedness: useXRStore.getState().hitTestHandedness });
+          return hitTestManager.onSessionStart(session, referenceSpaceType);
+        },
+        onFrame: (frame) => updateFrameRef.current?.(frame),
       });
+      await replay.start();
+      replayRef.current = replay;
     } catch (err) {
-      console.error("Failed to start AR session:", err);
-      useXRStore.getState().setError("AR session failed to start");
+      console.error("Failed to replay recording:", err);
+      useXRStore
+        .getState()
+        .setError(err instanceof RecordingSchemaError ? err.message : "Failed to replay recording");
     }
   };
 
-  // エラー表示
-  if (error) {
-    return (
-      <div
-        style={{
-          position: "absolute",
-          top: "50%",
-          left: "50%",
-          transform: "translate(-50%, -50%)",
-          padding: "20px",
-          background: "rgba(220, 38, 38, 0.9)",
-          color: "white",
-          borderRadius: "8px",
-          fontFamily: "monospace",
-          maxWidth: "80%",
-          zIndex: 1000,
-        }}
-      >
-        <h2 style={{ margin: "0 0 10px 0" }}>Error</h2>
-        <p style={{ margin: 0 }}>{error}</p>
-        <button
-          onClick={() => {
-            useXRStore.getState().setError(null);
-            window.location.reload();
-          }}
-          style={{
-            marginTop: "15px",
-            padding: "8px 16px",
-            background: "white",
-            color: "#dc2626",
-            border: "none",
-            borderRadius: "4px",
-            cursor: "pointer",
-            fontWeight: "bold",
-          }}
-        >
-          Reload
-        </button>
-      </div>
-    );
-  }
+  // 再生を終了
+  const handleStopReplay = async () => {
+    const replay = replayRef.current;
+    replayRef.current = null;
+    await replay?.stop();
+  };
+
+  // レイアウトをJSONで書き出し
+  const handleExportLayout = () => {
+    const layout = hitTestManagerRef.current?.exportLayout();
+    if (!layout) return;
+    downloadFile(JSON.stringify(layout, null, 2), "mrroom-layout.json", "application/json");
+  };
+
+  // レイアウトを.glbで書き出し
+  const handleExportGLB = async () => {
+    if (!hitTestManagerRef.current) return;
+
+    try {
+      const glb = await hitTestManagerRef.current.exportGLB();
+      downloadFile(glb, "mrroom-layout.glb", "model/gltf-binary");
+    } catch (err) {
+      console.error("Failed to export GLB:", err);
+      useXRStore.getState().setError("Failed to export GLB");
+    }
+  };
+
+  // レイアウトJSONの読み込み
+  const handleImportLayout = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !hitTestManagerRef.current) return;
+
+    try {
+      const layout = parseLayout(await file.text());
+      hitTestManagerRef.current.importLayout(layout);
+    } catch (err) {
+      console.error("Failed to import layout:", err);
+      useXRStore
+        .getState()
+        .setError(err instanceof LayoutSchemaError ? err.message : "Failed to import layout");
+    }
+  };
 
   // ローディング表示
   if (isInitializing) {
@@ -207,28 +721,436 @@ function App() {
         }}
       />
 
-      {/* AR開始ボタン */}
-      {xrSupported && !rendererRef.current?.xr.isPresenting && (
-        <button
-          onClick={handleEnterAR}
+      {/* エラー表示（シーンと配置済みオブジェクトは残したまま） */}
+      {(sessionError || error) && (
+        <div
           style={{
             position: "absolute",
-            bottom: "40px",
+            top: "50%",
             left: "50%",
-            transform: "translateX(-50%)",
-            padding: "15px 30px",
-            background: "#0066ff",
+            transform: "translate(-50%, -50%)",
+            padding: "20px",
+            background: "rgba(220, 38, 38, 0.9)",
             color: "white",
-            border: "none",
             borderRadius: "8px",
-            fontSize: "18px",
-            fontWeight: "bold",
-            cursor: "pointer",
+            fontFamily: "monospace",
+            maxWidth: "80%",
+            zIndex: 1000,
+          }}
+        >
+          <h2 style={{ margin: "0 0 10px 0" }}>
+            {sessionError ? SESSION_ERROR_TITLES[sessionError.kind] : "Error"}
+          </h2>
+          <p style={{ margin: 0 }}>{sessionError?.message ?? error}</p>
+          {sessionError ? (
+            <>
+              {sessionError.recoverable && (
+                <button
+                  onClick={() => sessionControllerRef.current?.retry()}
+                  style={errorButtonStyle}
+                >
+                  Retry
+                </button>
+              )}
+              <button
+                onClick={() => sessionControllerRef.current?.dismissError()}
+                style={errorButtonStyle}
+              >
+                Dismiss
+              </button>
+            </>
+          ) : (
+            <button onClick={() => useXRStore.getState().setError(null)} style={errorButtonStyle}>
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* セッションのモード選択と開始ボタン */}
+      {(xrState === XRState.Idle || xrState === XRState.Requesting) && !replayState && (
+        <div
+          style={{
+            position: "absolute",
+            bottom: "40px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: "8px",
             zIndex: 999,
           }}
         >
-          Enter AR
+          {supportedSessionModes.length > 1 && (
+            <div style={{ display: "flex", gap: "6px" }}>
+              {supportedSessionModes.map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => sessionControllerRef.current?.setMode(mode)}
+                  disabled={xrState === XRState.Requesting}
+                  style={{
+                    ...layoutButtonStyle,
+                    background: mode === sessionMode ? "#0066ff" : layoutButtonStyle.background,
+                  }}
+                >
+                  {SESSION_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={handleEnterSession}
+            style={{
+              padding: "15px 30px",
+              background: "#0066ff",
+              color: "white",
+              border: "none",
+              borderRadius: "8px",
+              fontSize: "18px",
+              fontWeight: "bold",
+              cursor: "pointer",
+              opacity: xrState === XRState.Requesting ? 0.6 : 1,
+            }}
+            disabled={xrState === XRState.Requesting}
+          >
+            {xrState === XRState.Requesting
+              ? `Starting ${SESSION_MODE_LABELS[sessionMode]}...`
+              : `Enter ${SESSION_MODE_LABELS[sessionMode]}`}
+          </button>
+        </div>
+      )}
+
+      {/* セッション中のHUD（ARではdom-overlayとして表示） */}
+      <div
+        ref={overlayRootRef}
+        style={{ position: "absolute", inset: 0, pointerEvents: "none", zIndex: 1000 }}
+      >
+        {(xrState === XRState.Active || xrState === XRState.VisibleBlurred) && !replayState && (
+          <XRHud
+            items={spawnItems}
+            onUndo={() => historyRef.current?.undo()}
+            onDelete={deleteSelectedObject}
+            onClear={handleClearObjects}
+            onExit={handleExitSession}
+          />
+        )}
+      </div>
+
+      {/* レイアウトの書き出し・読み込み */}
+      <div
+        style={{
+          position: "absolute",
+          top: "10px",
+          right: "10px",
+          display: "flex",
+          gap: "6px",
+          zIndex: 999,
+        }}
+      >
+        <button
+          onClick={() => historyRef.current?.undo()}
+          disabled={!canUndo}
+          style={{ ...layoutButtonStyle, opacity: canUndo ? 1 : 0.4 }}
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => historyRef.current?.redo()}
+          disabled={!canRedo}
+          style={{ ...layoutButtonStyle, opacity: canRedo ? 1 : 0.4 }}
+        >
+          Redo
+        </button>
+        <button
+          onClick={deleteSelectedObject}
+          disabled={selectedObjectIds.length === 0}
+          style={{ ...layoutButtonStyle, opacity: selectedObjectIds.length > 0 ? 1 : 0.4 }}
+        >
+          Delete
+        </button>
+        <button onClick={handleExportLayout} style={layoutButtonStyle}>
+          Export JSON
+        </button>
+        <button onClick={handleExportGLB} style={layoutButtonStyle}>
+          Export GLB
+        </button>
+        <button
+          onClick={() =>
+            setSnapMode(SNAP_MODES[(SNAP_MODES.indexOf(snapMode) + 1) % SNAP_MODES.length])
+          }
+          style={layoutButtonStyle}
+        >
+          Snap: {snapMode}
+        </button>
+        {snapMode === "grid" && (
+          <select
+            value={gridSize}
+            onChange={(event) => setGridSize(Number(event.target.value))}
+            style={layoutButtonStyle}
+          >
+            {GRID_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size * 100} cm
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setCollisionMode(collisionMode === "nudge" ? "reject" : "nudge")}
+          style={layoutButtonStyle}
+        >
+          Overlap: {collisionMode}
+        </button>
+        <button
+          onClick={() => setRestrictHitTestToPlanes(!restrictHitTestToPlanes)}
+          style={layoutButtonStyle}
+        >
+          Planes only: {restrictHitTestToPlanes ? "on" : "off"}
+        </button>
+        <button
+          onClick={() =>
+            setHitTestHandedness(
+              HANDEDNESS_OPTIONS[
+                (HANDEDNESS_OPTIONS.indexOf(hitTestHandedness) + 1) % HANDEDNESS_OPTIONS.length
+              ]
+            )
+          }
+          style={layoutButtonStyle}
+        >
+          Hand: {hitTestHandedness}
+        </button>
+        <button onClick={() => setShowOccluders(!showOccluders)} style={layoutButtonStyle}>
+          Occluders: {showOccluders ? "shown" : "hidden"}
+        </button>
+        <button onClick={() => setPhysicsEnabled(!physicsEnabled)} style={layoutButtonStyle}>
+          Physics: {physicsEnabled ? "on" : "off"}
+        </button>
+        <label style={layoutButtonStyle}>
+          Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportLayout}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+
+      {/* 複数選択の操作 */}
+      <div
+        style={{
+          position: "absolute",
+          top: "50px",
+          right: "10px",
+          display: "flex",
+          gap: "6px",
+          zIndex: 999,
+        }}
+      >
+        <button
+          onClick={() => selectionOperationsRef.current?.duplicateSelected()}
+          disabled={selectedObjectIds.length === 0}
+          style={{ ...layoutButtonStyle, opacity: selectedObjectIds.length > 0 ? 1 : 0.4 }}
+        >
+          Duplicate
+        </button>
+        {(["x", "z"] as const).map((axis) => (
+          <button
+            key={`align-${axis}`}
+            onClick={() => selectionOperationsRef.current?.alignSelected(axis)}
+            disabled={selectedObjectIds.length < 2}
+            style={{ ...layoutButtonStyle, opacity: selectedObjectIds.length >= 2 ? 1 : 0.4 }}
+          >
+            Align {axis.toUpperCase()}
+          </button>
+        ))}
+        {(["x", "z"] as const).map((axis) => (
+          <button
+            key={`distribute-${axis}`}
+            onClick={() => selectionOperationsRef.current?.distributeSelected(axis)}
+            disabled={selectedObjectIds.length < 3}
+            style={{ ...layoutButtonStyle, opacity: selectedObjectIds.length >= 3 ? 1 : 0.4 }}
+          >
+            Distribute {axis.toUpperCase()}
+          </button>
+        ))}
+        <button
+          onClick={() => selectionOperationsRef.current?.groupSelected()}
+          disabled={selectedObjectIds.length < 2}
+          style={{ ...layoutButtonStyle, opacity: selectedObjectIds.length >= 2 ? 1 : 0.4 }}
+        >
+          Group
         </button>
+        <button
+          onClick={() => selectionOperationsRef.current?.ungroupSelected()}
+          disabled={selectedObjectIds.length === 0}
+          style={{ ...layoutButtonStyle, opacity: selectedObjectIds.length > 0 ? 1 : 0.4 }}
+        >
+          Ungroup
+        </button>
+        <button onClick={() => setXRSelectMode(!xrSelectMode)} style={layoutButtonStyle}>
+          Select mode: {xrSelectMode ? "on" : "off"}
+        </button>
+        <button
+          onClick={() =>
+            setHoverHighlight(
+              HIGHLIGHT_STYLES[(HIGHLIGHT_STYLES.indexOf(hoverHighlight) + 1) % HIGHLIGHT_STYLES.length]
+            )
+          }
+          style={layoutButtonStyle}
+        >
+          Hover: {hoverHighlight}
+        </button>
+        <button
+          onClick={() =>
+            setSelectHighlight(
+              HIGHLIGHT_STYLES[(HIGHLIGHT_STYLES.indexOf(selectHighlight) + 1) % HIGHLIGHT_STYLES.length]
+            )
+          }
+          style={layoutButtonStyle}
+        >
+          Selection: {selectHighlight}
+        </button>
+      </div>
+
+      {/* セッションの記録と再生 */}
+      {!replayState && (xrState === XRState.Idle || xrState === XRState.Unsupported) && (
+        <div
+          style={{
+            position: "absolute",
+            bottom: "10px",
+            left: "10px",
+            display: "flex",
+            gap: "6px",
+            zIndex: 999,
+          }}
+        >
+          {EMULATION_AVAILABLE && (
+            <button onClick={handleToggleEmulation} style={layoutButtonStyle}>
+              Emulate AR: {emulating ? "on" : "off"}
+            </button>
+          )}
+          {xrState === XRState.Idle && (
+            <button onClick={() => setRecordSessions(!recordSessions)} style={layoutButtonStyle}>
+              Record: {recordSessions ? "on" : "off"}
+            </button>
+          )}
+          {recordedFrameCount > 0 && (
+            <button onClick={handleSaveRecording} style={layoutButtonStyle}>
+              Save recording ({recordedFrameCount} frames)
+            </button>
+          )}
+          <label style={layoutButtonStyle}>
+            Replay
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleReplayRecording}
+              style={{ display: "none" }}
+            />
+          </label>
+        </div>
+      )}
+
+      {/* 再生の操作 */}
+      {replayState && (
+        <div
+          style={{
+            position: "absolute",
+            bottom: "10px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            display: "flex",
+            alignItems: "center",
+            gap: "6px",
+            padding: "6px",
+            background: "rgba(0, 0, 0, 0.8)",
+            borderRadius: "4px",
+            color: "white",
+            fontFamily: "monospace",
+            fontSize: "13px",
+            zIndex: 999,
+          }}
+        >
+          <button
+            onClick={() =>
+              replayState.playing ? replayRef.current?.pause() : replayRef.current?.play()
+            }
+            style={layoutButtonStyle}
+          >
+            {replayState.playing ? "Pause" : "Play"}
+          </button>
+          <button onClick={() => replayRef.current?.step()} style={layoutButtonStyle}>
+            Step
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={replayState.frameCount - 1}
+            value={Math.max(replayState.frame, 0)}
+            onChange={(event) => replayRef.current?.seek(Number(event.target.value))}
+            style={{ width: "240px" }}
+          />
+          <span>
+            {replayState.frame + 1}/{replayState.frameCount} ({(replayState.time / 1000).toFixed(1)}s /{" "}
+            {(replayState.duration / 1000).toFixed(1)}s)
+          </span>
+          <button onClick={handleStopReplay} style={layoutButtonStyle}>
+            Stop
+          </button>
+        </div>
+      )}
+
+      {/* 配置済みオブジェクトの一覧とインスペクター */}
+      <div
+        style={{
+          position: "absolute",
+          top: "90px",
+          right: "10px",
+          width: "260px",
+          display: "flex",
+          flexDirection: "column",
+          gap: "6px",
+          zIndex: 999,
+        }}
+      >
+        <ObjectSidebar onSelect={selectPlacedObject} />
+        <ObjectInspector />
+      </div>
+
+      {/* 範囲選択（矩形・投げ縄） */}
+      {selectionMarquee && (
+        <svg
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            pointerEvents: "none",
+            zIndex: 998,
+          }}
+        >
+          {selectionMarquee.shape === "box" && selectionMarquee.points.length >= 2 ? (
+            <rect
+              x={Math.min(selectionMarquee.points[0][0], selectionMarquee.points[1][0])}
+              y={Math.min(selectionMarquee.points[0][1], selectionMarquee.points[1][1])}
+              width={Math.abs(selectionMarquee.points[1][0] - selectionMarquee.points[0][0])}
+              height={Math.abs(selectionMarquee.points[1][1] - selectionMarquee.points[0][1])}
+              fill="rgba(255, 0, 255, 0.15)"
+              stroke="#ff00ff"
+              strokeDasharray="4 2"
+            />
+          ) : (
+            <polygon
+              points={selectionMarquee.points.map(([x, y]) => `${x},${y}`).join(" ")}
+              fill="rgba(255, 0, 255, 0.15)"
+              stroke="#ff00ff"
+              strokeDasharray="4 2"
+            />
+          )}
+        </svg>
       )}
 
       {/* デバッグ情報 */}
@@ -250,13 +1172,49 @@ function App() {
           }}
         >
           <div>MR Room - Debug Info</div>
-          <div>WebXR: {xrSupported ? "✓" : "✗"}</div>
-          <div>Session: {rendererRef.current?.xr.isPresenting ? "Active" : "Inactive"}</div>
+          <div>
+            Modes: {supportedSessionModes.map((mode) => SESSION_MODE_LABELS[mode]).join(", ") || "✗"}
+            {emulating && " (AR emulated)"}
+          </div>
+          <div>
+            Session: {replayState ? "replay" : xrState} ({SESSION_MODE_LABELS[sessionMode]})
+          </div>
+          {referenceSpaceType && <div>Reference space: {referenceSpaceType}</div>}
+          {enabledFeatures.length > 0 && <div>Features: {enabledFeatures.join(", ")}</div>}
+          <div>Lighting: {lightingSource === "estimated" ? "💡 Estimated" : "Fixed"}</div>
+          <div>
+            Occlusion: {occlusionSources.length > 0 ? `🧱 ${occlusionSources.join(" + ")}` : "Off"}
+          </div>
+          <div>
+            Physics:{" "}
+            {physicsEnabled ? `🎲 ${physicsBodyCount} bodies (${awakeBodyCount} awake)` : "Off"}
+          </div>
+          {sessionWarnings.map((warning) => (
+            <div key={warning.kind}>⚠️ {warning.message}</div>
+          ))}
           <div>Reticle: {reticleVisible ? "🎯 Visible" : "👻 Hidden"}</div>
+          <div>Hit Source: {hitTestSource ?? "-"}</div>
+          <div>
+            Surface: {surfaceType ?? "-"} {surfaceType && (placementAllowed ? "✓" : "🚫")}
+          </div>
+          <div>Selected: {selectedObjectIds.length}</div>
+          <div>Last event: {lastEvent ?? "-"}</div>
+          <div>Planes: {detectedPlaneCount}</div>
+          {floorExtents && (
+            <div>
+              Floor: {(floorExtents.max.x - floorExtents.min.x).toFixed(2)} x{" "}
+              {(floorExtents.max.z - floorExtents.min.z).toFixed(2)} m
+            </div>
+          )}
+          {roomBounds && (
+            <div>Room height: {(roomBounds.max.y - roomBounds.min.y).toFixed(2)} m</div>
+          )}
           <div style={{ marginTop: "5px", fontSize: "12px", color: "#888" }}>
-            {reticleVisible
-              ? "Surface detected - Tap to place!"
-              : "Point at floor/wall to detect surface"}
+            {!reticleVisible
+              ? "Point at floor/wall to detect surface"
+              : placementAllowed
+                ? "Surface detected - Tap to place!"
+                : "Not allowed here - try another surface"}
           </div>
         </div>
       )}
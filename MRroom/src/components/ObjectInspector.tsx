@@ -0,0 +1,79 @@
+import { useShallow } from "zustand/react/shallow";
+import { MAX_SCALE, MIN_SCALE } from "../core/ManipulationManager";
+import { useXRStore } from "../stores/xrStore";
+
+/**
+ * ObjectInspector
+ * 選択中のオブジェクト（操作の基準となるもの）の色・拡大率・遮蔽を編集する
+ * 変更はストアを経由してすぐにシーンに反映される
+ */
+export function ObjectInspector() {
+  const { placedObjects, selectedObjectId, updatePlacedObject } = useXRStore(
+    useShallow((state) => ({
+      placedObjects: state.placedObjects,
+      selectedObjectId: state.selectedObjectId,
+      updatePlacedObject: state.updatePlacedObject,
+    }))
+  );
+  const record = selectedObjectId ? placedObjects[selectedObjectId] : undefined;
+  if (!record) return null;
+
+  const scale = record.transform.scale[0];
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "6px",
+        padding: "8px",
+        background: "rgba(0, 0, 0, 0.8)",
+        color: "white",
+        border: "1px solid #444",
+        borderRadius: "4px",
+        fontFamily: "Arial, sans-serif",
+        fontSize: "13px",
+      }}
+    >
+      <div style={{ fontWeight: "bold" }}>{record.name || record.type}</div>
+      {record.color && (
+        <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+          Color
+          <input
+            type="color"
+            value={record.color}
+            onChange={(event) => updatePlacedObject(record.id, { color: event.target.value })}
+          />
+        </label>
+      )}
+      <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+        Scale
+        <input
+          type="range"
+          min={MIN_SCALE}
+          max={MAX_SCALE}
+          step={0.05}
+          value={scale}
+          onChange={(event) => {
+            const value = Number(event.target.value);
+            updatePlacedObject(record.id, {
+              transform: { ...record.transform, scale: [value, value, value] },
+            });
+          }}
+        />
+        {scale.toFixed(2)}x
+      </label>
+      <label
+        style={{ display: "flex", alignItems: "center", gap: "6px" }}
+        title="Hide the object behind real-world surfaces (depth sensing / room mesh)"
+      >
+        <input
+          type="checkbox"
+          checked={record.occlusion}
+          onChange={(event) => updatePlacedObject(record.id, { occlusion: event.target.checked })}
+        />
+        Occlusion
+      </label>
+    </div>
+  );
+}
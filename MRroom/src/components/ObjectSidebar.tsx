@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { PlacedObjectRecord, useXRStore } from "../stores/xrStore";
+
+interface ObjectSidebarProps {
+  // 一覧の行をクリックしたときの選択（Shift/Ctrlで追加）
+  onSelect: (id: string, additive: boolean) => void;
+}
+
+// 一覧の行のボタンのスタイル
+const rowButtonStyle = {
+  padding: "2px 6px",
+  background: "transparent",
+  color: "white",
+  border: "1px solid #444",
+  borderRadius: "4px",
+  fontSize: "12px",
+  cursor: "pointer",
+};
+
+/**
+ * アンカーの状態の表示
+ */
+function anchorLabel(record: PlacedObjectRecord): string {
+  if (!record.anchor?.attached) return "";
+  return record.anchor.tracked ? "⚓" : "⚓?";
+}
+
+/**
+ * ObjectSidebar
+ * 配置済みオブジェクトの一覧（名前の変更・表示の切り替え・削除）
+ * ダブルクリックで名前を編集する
+ */
+export function ObjectSidebar({ onSelect }: ObjectSidebarProps) {
+  const {
+    placedObjects,
+    placedObjectIds,
+    selectedObjectIds,
+    updatePlacedObject,
+    removePlacedObject,
+  } = useXRStore(
+    useShallow((state) => ({
+      placedObjects: state.placedObjects,
+      placedObjectIds: state.placedObjectIds,
+      selectedObjectIds: state.selectedObjectIds,
+      updatePlacedObject: state.updatePlacedObject,
+      removePlacedObject: state.removePlacedObject,
+    }))
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div
+      style={{
+        background: "rgba(0, 0, 0, 0.8)",
+        color: "white",
+        border: "1px solid #444",
+        borderRadius: "4px",
+        fontFamily: "Arial, sans-serif",
+        fontSize: "13px",
+        maxHeight: "40vh",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{ padding: "6px 8px", borderBottom: "1px solid #444", fontWeight: "bold" }}>
+        Objects ({placedObjectIds.length})
+      </div>
+      {placedObjectIds.length === 0 && (
+        <div style={{ padding: "6px 8px", color: "#888" }}>No objects placed</div>
+      )}
+      {placedObjectIds.map((id) => {
+        const record = placedObjects[id];
+        const selected = selectedObjectIds.includes(id);
+        return (
+          <div
+            key={id}
+            onClick={(event) => onSelect(id, event.shiftKey || event.ctrlKey || event.metaKey)}
+            onDoubleClick={() => setEditingId(id)}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+              padding: "4px 8px",
+              background: selected ? "rgba(255, 0, 255, 0.3)" : "transparent",
+              opacity: record.visible ? 1 : 0.5,
+              cursor: "pointer",
+            }}
+          >
+            <button
+              onClick={(event) => {
+                event.stopPropagation();
+                updatePlacedObject(id, { visible: !record.visible });
+              }}
+              title={record.visible ? "Hide" : "Show"}
+              style={rowButtonStyle}
+            >
+              {record.visible ? "👁" : "—"}
+            </button>
+            {editingId === id ? (
+              <input
+                autoFocus
+                defaultValue={record.name}
+                onClick={(event) => event.stopPropagation()}
+                onBlur={(event) => {
+                  const name = event.target.value.trim();
+                  if (name && name !== record.name) updatePlacedObject(id, { name });
+                  setEditingId(null);
+                }}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") event.currentTarget.blur();
+                  if (event.key === "Escape") setEditingId(null);
+                }}
+                style={{ flex: 1, minWidth: 0, fontSize: "12px" }}
+              />
+            ) : (
+              <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis" }}>
+                {record.name || record.type}
+              </span>
+            )}
+            <span style={{ color: "#888", fontSize: "11px" }}>{record.type}</span>
+            <span title={record.anchor?.handle ?? undefined}>{anchorLabel(record)}</span>
+            <button
+              onClick={(event) => {
+                event.stopPropagation();
+                removePlacedObject(id);
+              }}
+              title="Delete"
+              style={rowButtonStyle}
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
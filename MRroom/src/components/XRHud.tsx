@@ -0,0 +1,190 @@
+import { useEffect, useRef } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { XRState, useXRStore } from "../stores/xrStore";
+
+/**
+ * パレットに表示する配置可能なアイテム
+ */
+export interface HudItem {
+  id: string;
+  label: string;
+}
+
+interface XRHudProps {
+  items: HudItem[];
+  onUndo: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+  onExit: () => void;
+}
+
+// HUDのボタンのスタイル（指で押しやすい大きさ）
+const hudButtonStyle = {
+  padding: "10px 14px",
+  background: "rgba(0, 0, 0, 0.7)",
+  color: "white",
+  border: "1px solid #555",
+  borderRadius: "8px",
+  fontSize: "14px",
+  cursor: "pointer",
+  pointerEvents: "auto" as const,
+};
+
+/**
+ * 状態に合わせた操作のヒント
+ */
+function useHint(items: HudItem[]): string {
+  const {
+    xrState,
+    reticleVisible,
+    placementAllowed,
+    surfaceType,
+    activeSpawnItemId,
+  } = useXRStore(
+    useShallow((state) => ({
+      xrState: state.xrState,
+      reticleVisible: state.reticleVisible,
+      placementAllowed: state.placementAllowed,
+      surfaceType: state.surfaceType,
+      activeSpawnItemId: state.activeSpawnItemId,
+    }))
+  );
+  const label = items.find((item) => item.id === activeSpawnItemId)?.label ?? activeSpawnItemId;
+
+  if (xrState === XRState.VisibleBlurred) return "Paused";
+  if (!reticleVisible) return `Point at a surface to place ${label}`;
+  if (!placementAllowed) return `${label} can't be placed on the ${surfaceType ?? "surface"}`;
+  return `Tap to place ${label}`;
+}
+
+/**
+ * XRHud
+ * ARセッション中にdom-overlayで表示するHUD（配置するアイテムのパレット・操作ボタン・ヒント）
+ * HUDの上のタップはbeforexrselectで取り消し、セッションのselect（配置）にしない
+ */
+export function XRHud({ items, onUndo, onDelete, onClear, onExit }: XRHudProps) {
+  const {
+    activeSpawnItemId,
+    setActiveSpawnItem,
+    canUndo,
+    selectedObjectIds,
+    placedObjectIds,
+    hitTestSource,
+    xrState,
+  } = useXRStore(
+    useShallow((state) => ({
+      activeSpawnItemId: state.activeSpawnItemId,
+      setActiveSpawnItem: state.setActiveSpawnItem,
+      canUndo: state.canUndo,
+      selectedObjectIds: state.selectedObjectIds,
+      placedObjectIds: state.placedObjectIds,
+      hitTestSource: state.hitTestSource,
+      xrState: state.xrState,
+    }))
+  );
+  const hint = useHint(items);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // HUDの要素へのタップはselectを発生させない（何もない場所のタップは配置に使う）
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const handleBeforeXRSelect = (event: Event) => {
+      if (event.target !== root) event.preventDefault();
+    };
+    root.addEventListener("beforexrselect", handleBeforeXRSelect);
+    return () => root.removeEventListener("beforexrselect", handleBeforeXRSelect);
+  }, []);
+
+  return (
+    <div
+      ref={rootRef}
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "flex-end",
+        alignItems: "center",
+        gap: "8px",
+        padding: "12px",
+        fontFamily: "Arial, sans-serif",
+        color: "white",
+        pointerEvents: "none",
+      }}
+    >
+      {/* ヒント（デスクトップのツールバー・デバッグ表示と重ならないよう下部にまとめる） */}
+      <div
+        style={{
+          maxWidth: "420px",
+          padding: "8px 12px",
+          background: "rgba(0, 0, 0, 0.5)",
+          borderRadius: "8px",
+          fontSize: "15px",
+          textAlign: "center",
+        }}
+      >
+        {hint}
+        {import.meta.env.DEV && (
+          <div style={{ fontSize: "11px", color: "#aaa", marginTop: "4px" }}>
+            {xrState} · hit: {hitTestSource ?? "-"}
+          </div>
+        )}
+      </div>
+
+      {/* 操作ボタン */}
+      <div style={{ display: "flex", gap: "8px" }}>
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          style={{ ...hudButtonStyle, opacity: canUndo ? 1 : 0.4 }}
+        >
+          Undo
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={selectedObjectIds.length === 0}
+          style={{ ...hudButtonStyle, opacity: selectedObjectIds.length > 0 ? 1 : 0.4 }}
+        >
+          Delete
+        </button>
+        <button
+          onClick={onClear}
+          disabled={placedObjectIds.length === 0}
+          style={{ ...hudButtonStyle, opacity: placedObjectIds.length > 0 ? 1 : 0.4 }}
+        >
+          Clear
+        </button>
+        <button onClick={onExit} style={hudButtonStyle}>
+          Exit
+        </button>
+      </div>
+
+      {/* 配置するアイテムのパレット */}
+      <div
+        style={{
+          display: "flex",
+          gap: "8px",
+          maxWidth: "100%",
+          overflowX: "auto",
+          pointerEvents: "auto",
+        }}
+      >
+        {items.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => setActiveSpawnItem(item.id)}
+            style={{
+              ...hudButtonStyle,
+              flexShrink: 0,
+              background: item.id === activeSpawnItemId ? "#0066ff" : hudButtonStyle.background,
+            }}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import * as THREE from "three";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AnchorManager } from "./AnchorManager";
+
+/**
+ * フレームのコールバックの間だけ有効なXRFrame
+ * 無効になった後のcreateAnchorはブラウザと同じくInvalidStateErrorを投げる
+ */
+class FakeFrame {
+  active = true;
+  createAnchor = vi.fn((): Promise<XRAnchor> => {
+    if (!this.active) {
+      throw new DOMException("Frame is not active", "InvalidStateError");
+    }
+    return Promise.resolve(createAnchor());
+  });
+
+  asXRFrame(): XRFrame {
+    return this as unknown as XRFrame;
+  }
+}
+
+function createAnchor(): XRAnchor {
+  return { anchorSpace: {}, delete: vi.fn() } as unknown as XRAnchor;
+}
+
+function createManager(session: Partial<XRSession> = {}): AnchorManager {
+  const manager = new AnchorManager();
+  manager.setSession(session as XRSession, {} as XRReferenceSpace);
+  return manager;
+}
+
+// localStorageの代わり（Nodeにはない）
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+const STORAGE_KEY = "mrroom.persistent-anchors";
+
+beforeEach(() => {
+  vi.stubGlobal(
+    "XRRigidTransform",
+    class {
+      constructor(
+        readonly position: DOMPointInit,
+        readonly orientation: DOMPointInit
+      ) {}
+    }
+  );
+  vi.stubGlobal("localStorage", createStorage());
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("AnchorManager.anchorObject", () => {
+  it("anchors to the hit result when it supports anchors", async () => {
+    const manager = createManager();
+    const frame = new FakeFrame();
+    const object = new THREE.Object3D();
+    const hit = { createAnchor: vi.fn(() => Promise.resolve(createAnchor())) };
+
+    const placing = manager.anchorObject(
+      object,
+      "cube",
+      new THREE.Matrix4(),
+      hit as unknown as XRHitTestResult,
+      frame.asXRFrame()
+    );
+    frame.active = false;
+    await placing;
+
+    expect(hit.createAnchor).toHaveBeenCalledOnce();
+    expect(frame.createAnchor).not.toHaveBeenCalled();
+    expect(manager.getAnchorInfo(object)?.attached).toBe(true);
+  });
+
+  it("requests the frame anchor within the frame when the hit cannot create one", async () => {
+    const manager = createManager();
+    const frame = new FakeFrame();
+    const object = new THREE.Object3D();
+    const hit = {
+      createAnchor: vi.fn(() => {
+        throw new DOMException("Anchors are not supported", "NotSupportedError");
+      }),
+    };
+
+    const placing = manager.anchorObject(
+      object,
+      "cube",
+      new THREE.Matrix4().makeTranslation(0, 0.75, -1),
+      hit as unknown as XRHitTestResult,
+      frame.asXRFrame()
+    );
+    // awaitの後ではフレームは無効になっている
+    frame.active = false;
+    await placing;
+
+    expect(frame.createAnchor).toHaveBeenCalledOnce();
+    const [transform] = frame.createAnchor.mock.calls[0] as unknown as [XRRigidTransform];
+    expect(transform.position).toMatchObject({ x: 0, y: 0.75, z: -1 });
+    expect(manager.getAnchorInfo(object)?.attached).toBe(true);
+  });
+
+  it("places the object without an anchor when the hit anchor is rejected later", async () => {
+    const manager = createManager();
+    const frame = new FakeFrame();
+    const object = new THREE.Object3D();
+    const hit = { createAnchor: vi.fn(() => Promise.reject(new Error("Tracking lost"))) };
+
+    const placing = manager.anchorObject(
+      object,
+      "cube",
+      new THREE.Matrix4(),
+      hit as unknown as XRHitTestResult,
+      frame.asXRFrame()
+    );
+    frame.active = false;
+    await placing;
+
+    // 無効になったフレームでは作り直さない
+    expect(frame.createAnchor).not.toHaveBeenCalled();
+    expect(manager.getAnchorInfo(object)).toMatchObject({ attached: false, handle: null });
+  });
+});
+
+describe("AnchorManager.restore", () => {
+  function createSession(handles: string[]) {
+    return {
+      persistentAnchors: handles,
+      restorePersistentAnchor: vi.fn(() => Promise.resolve(createAnchor())),
+      deletePersistentAnchor: vi.fn(() => Promise.resolve()),
+    };
+  }
+
+  const offset = new THREE.Matrix4().makeTranslation(0, 0.05, 0).toArray();
+
+  it("restores records saved with a catalog id", async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([{ handle: "a", catalogId: "sphere", offset }])
+    );
+    const manager = createManager(createSession(["a"]));
+    const spawn = vi.fn(() => new THREE.Object3D());
+
+    await manager.restore(spawn);
+
+    expect(spawn).toHaveBeenCalledWith("sphere");
+    expect(manager.hasHandle("a")).toBe(true);
+  });
+
+  it("maps legacy objectType records to catalog ids", async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        { handle: "a", objectType: 0, offset },
+        { handle: "b", objectType: 1, offset },
+        { handle: "c", objectType: 2, offset },
+      ])
+    );
+    const manager = createManager(createSession(["a", "b", "c"]));
+    const spawn = vi.fn(() => new THREE.Object3D());
+
+    await manager.restore(spawn);
+
+    expect(spawn.mock.calls).toEqual([["cube"], ["sphere"], ["cylinder"]]);
+    expect(["a", "b", "c"].every((handle) => manager.hasHandle(handle))).toBe(true);
+  });
+
+  it("drops records whose type can no longer be spawned", async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        { handle: "a", objectType: 7, offset },
+        { handle: "b", catalogId: "cube", offset },
+      ])
+    );
+    const session = createSession(["a", "b"]);
+    const manager = createManager(session);
+
+    await manager.restore((catalogId) => (catalogId === "cube" ? new THREE.Object3D() : null));
+
+    expect(session.deletePersistentAnchor).toHaveBeenCalledWith("a");
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual([
+      { handle: "b", catalogId: "cube", offset },
+    ]);
+  });
+});
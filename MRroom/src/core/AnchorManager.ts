@@ -0,0 +1,564 @@
+import * as THREE from "three";
+
+/**
+ * アンカーに紐づいた配置情報
+ */
+interface AnchoredPlacement {
+  object: THREE.Object3D;
+  anchor: XRAnchor | null;
+  // 最後に取得したアンカーの姿勢
+  anchorMatrix: THREE.Matrix4;
+  // アンカー空間から見たオブジェクトの相対姿勢（nullなら最初の姿勢取得時に現在位置から計算）
+  offset: THREE.Matrix4 | null;
+  handle: string | null;
+  catalogId: string;
+  tracked: boolean;
+}
+
+/**
+ * localStorageに保存する永続アンカーのレコード
+ */
+export interface PersistedAnchorRecord {
+  handle: string;
+  catalogId: string;
+  offset: number[];
+}
+
+/**
+ * オブジェクトのアンカーの状態（UIやストアへの表示用）
+ */
+export interface AnchorInfo {
+  // XRAnchorが作成されている
+  attached: boolean;
+  // 最後のフレームでアンカーの姿勢を取得できた
+  tracked: boolean;
+  // 永続ハンドル
+  handle: string | null;
+}
+
+/**
+ * SpawnCatalog導入前のレコード（objectTypeは0: キューブ, 1: 球体, 2: 円柱）
+ */
+interface LegacyPersistedAnchorRecord {
+  handle: string;
+  objectType: number;
+  offset: number[];
+}
+
+const STORAGE_KEY = "mrroom.persistent-anchors";
+
+// 旧レコードのobjectTypeに対応するカタログのid
+const LEGACY_CATALOG_IDS = ["cube", "sphere", "cylinder"];
+
+/**
+ * AnchorManager
+ * 配置したオブジェクトをXRAnchorに紐づけ、毎フレームアンカーの姿勢で更新する
+ * - トラッキングの再ローカライズに追従
+ * - 永続ハンドルをlocalStorageに保存し、次回セッションで復元
+ * - グループ化されたオブジェクトもワールド座標でアンカーに追従する
+ *   （syncOffset・suspend・resume・detachは配下のオブジェクトにも適用される）
+ */
+export class AnchorManager {
+  private session: XRSession | null = null;
+  private referenceSpace: XRReferenceSpace | null = null;
+  private placements: Map<THREE.Object3D, AnchoredPlacement> = new Map();
+  // undoなどで一時的にシーンから外された配置
+  private suspended: Map<THREE.Object3D, AnchoredPlacement> = new Map();
+  // 操作中のため、アンカーの姿勢を反映しないオブジェクト
+  private held: Set<THREE.Object3D> = new Set();
+  private tempMatrix: THREE.Matrix4 = new THREE.Matrix4();
+  private parentInverse: THREE.Matrix4 = new THREE.Matrix4();
+
+  /**
+   * XRセッション開始時の処理
+   */
+  setSession(session: XRSession, referenceSpace: XRReferenceSpace) {
+    this.session = session;
+    this.referenceSpace = referenceSpace;
+  }
+
+  /**
+   * ヒット結果からアンカーを作成してオブジェクトを紐づける
+   * hit.createAnchor → frame.createAnchor → アンカーなし の順にフォールバックする
+   * （どちらを使うかは呼び出したフレームの中で決めるため、XRフレームのコールバック内で呼ぶ）
+   */
+  async anchorObject(
+    object: THREE.Object3D,
+    catalogId: string,
+    hitMatrix: THREE.Matrix4,
+    hit: XRHitTestResult | null,
+    frame: XRFrame
+  ): Promise<void> {
+    const placement: AnchoredPlacement = {
+      object,
+      anchor: null,
+      anchorMatrix: hitMatrix.clone(),
+      offset: this.computeOffset(hitMatrix, object),
+      handle: null,
+      catalogId,
+      tracked: false,
+    };
+    this.placements.set(object, placement);
+
+    const anchor = await this.createAnchor(hitMatrix, hit, frame);
+    if (!anchor) {
+      console.warn("⚠️ Anchor unavailable, object placed without anchor");
+      return;
+    }
+
+    // 生成待ちの間にオブジェクトが削除された場合
+    if (this.placements.get(object) !== placement) {
+      anchor.delete();
+      return;
+    }
+
+    placement.anchor = anchor;
+    placement.tracked = true;
+    console.log("⚓ Anchor created");
+
+    await this.persist(placement);
+  }
+
+  /**
+   * アンカーの作成（失敗時はnull）
+   */
+  private async createAnchor(
+    hitMatrix: THREE.Matrix4,
+    hit: XRHitTestResult | null,
+    frame: XRFrame
+  ): Promise<XRAnchor | null> {
+    const request = this.requestAnchor(hitMatrix, hit, frame);
+    if (!request) return null;
+
+    try {
+      return await request;
+    } catch (error) {
+      console.warn("⚠️ Failed to create anchor:", error);
+      return null;
+    }
+  }
+
+  /**
+   * アンカーを要求する
+   * フレームが有効なうちに同期的に呼ぶ（awaitの後ではフレームが無効になりInvalidStateErrorになる）
+   */
+  private requestAnchor(
+    hitMatrix: THREE.Matrix4,
+    hit: XRHitTestResult | null,
+    frame: XRFrame
+  ): Promise<XRAnchor> | null {
+    if (hit?.createAnchor) {
+      try {
+        const request = hit.createAnchor();
+        if (request) return request;
+      } catch (error) {
+        console.warn("⚠️ Failed to create anchor from hit result:", error);
+      }
+    }
+
+    if (frame.createAnchor && this.referenceSpace) {
+      try {
+        const position = new THREE.Vector3();
+        const quaternion = new THREE.Quaternion();
+        hitMatrix.decompose(position, quaternion, new THREE.Vector3());
+        const transform = new XRRigidTransform(
+          { x: position.x, y: position.y, z: position.z },
+          { x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w }
+        );
+        const request = frame.createAnchor(transform, this.referenceSpace);
+        if (request) return request;
+      } catch (error) {
+        console.warn("⚠️ Failed to create anchor from frame:", error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 永続ハンドルを取得して保存
+   */
+  private async persist(placement: AnchoredPlacement) {
+    if (!placement.anchor?.requestPersistentHandle) return;
+
+    try {
+      placement.handle = await placement.anchor.requestPersistentHandle();
+      this.upsertRecord(placement);
+      console.log(`💾 Anchor persisted: ${placement.handle}`);
+    } catch (error) {
+      console.warn("⚠️ Failed to persist anchor:", error);
+    }
+  }
+
+  /**
+   * 保存済みアンカーを復元する
+   * 既に同じハンドルのオブジェクトがあれば再利用し、なければspawnで生成する
+   * spawnがnullを返したレコードは破棄する
+   */
+  async restore(spawn: (catalogId: string) => THREE.Object3D | null) {
+    const session = this.session;
+    if (!session?.restorePersistentAnchor) return;
+
+    const records = this.loadRecords();
+    if (records.length === 0) return;
+
+    const known = session.persistentAnchors;
+    const staleHandles: string[] = [];
+
+    for (const record of records) {
+      if (known && !known.includes(record.handle)) {
+        staleHandles.push(record.handle);
+        continue;
+      }
+
+      try {
+        const anchor = await session.restorePersistentAnchor(record.handle);
+        if (this.session !== session) {
+          anchor.delete();
+          return;
+        }
+
+        let placement = this.findByHandle(record.handle);
+        if (!placement) {
+          const object = spawn(record.catalogId);
+          if (!object) {
+            // カタログから削除された種類は復元しない
+            anchor.delete();
+            staleHandles.push(record.handle);
+            continue;
+          }
+          // 初回の姿勢が得られるまで非表示
+          object.visible = false;
+          placement = {
+            object,
+            anchor: null,
+            anchorMatrix: new THREE.Matrix4(),
+            offset: new THREE.Matrix4().fromArray(record.offset),
+            handle: record.handle,
+            catalogId: record.catalogId,
+            tracked: false,
+          };
+          this.placements.set(object, placement);
+        }
+
+        placement.anchor = anchor;
+        placement.tracked = true;
+      } catch (error) {
+        console.warn(`⚠️ Failed to restore anchor ${record.handle}:`, error);
+        staleHandles.push(record.handle);
+      }
+    }
+
+    if (staleHandles.length > 0) {
+      // 復元できないハンドルは破棄
+      staleHandles.forEach((handle) => {
+        session.deletePersistentAnchor?.(handle).catch(() => undefined);
+      });
+      this.saveRecords(records.filter((record) => !staleHandles.includes(record.handle)));
+    }
+
+    console.log(`✅ Restored ${records.length - staleHandles.length} persistent anchors`);
+  }
+
+  /**
+   * 既存の永続ハンドルでオブジェクトをアンカーに紐づける（レイアウトの読み込み用）
+   * アンカーとの相対姿勢は、最初にアンカー姿勢が得られた時点のオブジェクト位置から計算する
+   */
+  async attachPersistent(object: THREE.Object3D, catalogId: string, handle: string): Promise<boolean> {
+    const session = this.session;
+    if (!session?.restorePersistentAnchor) return false;
+    if (session.persistentAnchors && !session.persistentAnchors.includes(handle)) return false;
+
+    try {
+      const anchor = await session.restorePersistentAnchor(handle);
+      if (this.session !== session) {
+        anchor.delete();
+        return false;
+      }
+
+      this.placements.set(object, {
+        object,
+        anchor,
+        anchorMatrix: new THREE.Matrix4(),
+        offset: null,
+        handle,
+        catalogId,
+        tracked: true,
+      });
+      return true;
+    } catch (error) {
+      console.warn(`⚠️ Failed to restore anchor ${handle}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 永続ハンドルが既に配置に使われているか
+   */
+  hasHandle(handle: string): boolean {
+    return this.findByHandle(handle) !== undefined;
+  }
+
+  /**
+   * オブジェクトの永続ハンドルを取得
+   */
+  getHandle(object: THREE.Object3D): string | null {
+    return this.placements.get(object)?.handle ?? null;
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame: XRFrame) {
+    if (!this.referenceSpace) return;
+
+    this.placements.forEach((placement) => {
+      const { anchor, object } = placement;
+      if (!anchor) return;
+
+      // トラッキングが失われた場合は最後の姿勢を保持
+      if (frame.trackedAnchors && !frame.trackedAnchors.has(anchor)) {
+        if (placement.tracked) {
+          placement.tracked = false;
+          console.warn("⚠️ Anchor lost tracking, keeping last known pose");
+        }
+        return;
+      }
+
+      const pose = frame.getPose(anchor.anchorSpace, this.referenceSpace!);
+      if (!pose) return;
+
+      placement.tracked = true;
+      placement.anchorMatrix.fromArray(pose.transform.matrix);
+      if (!placement.offset) {
+        placement.offset = this.computeOffset(placement.anchorMatrix, object);
+        if (placement.handle) {
+          this.upsertRecord(placement);
+        }
+        return;
+      }
+      if (this.isHeld(object)) return;
+      this.tempMatrix.copy(placement.anchorMatrix).multiply(placement.offset);
+      // グループの子はワールド姿勢を親のローカル座標に変換
+      const parent = object.parent;
+      if (parent && !(parent instanceof THREE.Scene)) {
+        parent.updateWorldMatrix(true, false);
+        this.tempMatrix.premultiply(this.parentInverse.copy(parent.matrixWorld).invert());
+      }
+      this.tempMatrix.decompose(object.position, object.quaternion, object.scale);
+      object.visible = true;
+    });
+  }
+
+  /**
+   * オブジェクトの現在姿勢からアンカーとの相対姿勢を再計算する
+   * オブジェクトを移動させた後に呼び出す
+   */
+  syncOffset(object: THREE.Object3D) {
+    object.traverse((child) => {
+      const placement = this.placements.get(child);
+      if (!placement) return;
+
+      placement.offset = this.computeOffset(placement.anchorMatrix, child);
+      if (placement.handle) {
+        this.upsertRecord(placement);
+      }
+    });
+  }
+
+  /**
+   * 移動・回転などの操作中はアンカーの姿勢を反映しない
+   */
+  hold(object: THREE.Object3D) {
+    this.held.add(object);
+  }
+
+  /**
+   * 操作を終了し、現在の姿勢でアンカーとの相対姿勢を更新
+   */
+  release(object: THREE.Object3D) {
+    if (!this.held.delete(object)) return;
+    this.syncOffset(object);
+  }
+
+  /**
+   * 配置を一時停止（アンカーは保持し、永続レコードのみ外す）
+   */
+  suspend(object: THREE.Object3D) {
+    object.traverse((child) => {
+      const placement = this.placements.get(child);
+      if (!placement) return;
+
+      this.placements.delete(child);
+      this.suspended.set(child, placement);
+
+      if (placement.handle) {
+        const handle = placement.handle;
+        this.saveRecords(this.loadRecords().filter((record) => record.handle !== handle));
+      }
+    });
+  }
+
+  /**
+   * 一時停止した配置を再開
+   */
+  resume(object: THREE.Object3D) {
+    object.traverse((child) => {
+      const placement = this.suspended.get(child);
+      if (!placement) return;
+
+      this.suspended.delete(child);
+      this.placements.set(child, placement);
+      this.upsertRecord(placement);
+    });
+  }
+
+  /**
+   * オブジェクトのアンカーを破棄
+   */
+  detach(object: THREE.Object3D) {
+    object.traverse((child) => {
+      this.held.delete(child);
+      const placement = this.placements.get(child) ?? this.suspended.get(child);
+      if (!placement) return;
+
+      this.placements.delete(child);
+      this.suspended.delete(child);
+      placement.anchor?.delete();
+
+      if (placement.handle) {
+        const handle = placement.handle;
+        this.session?.deletePersistentAnchor?.(handle).catch(() => undefined);
+        this.saveRecords(this.loadRecords().filter((record) => record.handle !== handle));
+      }
+    });
+  }
+
+  /**
+   * オブジェクトのアンカーの状態（紐づいていなければnull）
+   */
+  getAnchorInfo(object: THREE.Object3D): AnchorInfo | null {
+    const placement = this.placements.get(object) ?? this.suspended.get(object);
+    if (!placement) return null;
+    return {
+      attached: placement.anchor !== null,
+      tracked: placement.tracked,
+      handle: placement.handle,
+    };
+  }
+
+  /**
+   * アンカーに紐づいているか（一時停止中を含む）
+   */
+  isAnchored(object: THREE.Object3D): boolean {
+    return this.placements.has(object) || this.suspended.has(object);
+  }
+
+  /**
+   * XRセッション終了時の処理
+   * アンカーは無効になるが、永続ハンドルとオブジェクトの対応は保持する
+   */
+  onSessionEnd() {
+    [...this.placements.values(), ...this.suspended.values()].forEach((placement) => {
+      placement.anchor = null;
+      placement.tracked = false;
+    });
+    this.session = null;
+    this.referenceSpace = null;
+  }
+
+  /**
+   * クリーンアップ
+   */
+  dispose() {
+    [...this.placements.values(), ...this.suspended.values()].forEach((placement) =>
+      placement.anchor?.delete()
+    );
+    this.placements.clear();
+    this.suspended.clear();
+    this.held.clear();
+    this.session = null;
+    this.referenceSpace = null;
+  }
+
+  /**
+   * アンカー姿勢から見たオブジェクトの相対姿勢（ワールド座標）
+   */
+  private computeOffset(anchorMatrix: THREE.Matrix4, object: THREE.Object3D): THREE.Matrix4 {
+    object.updateWorldMatrix(true, false);
+    return anchorMatrix.clone().invert().multiply(object.matrixWorld);
+  }
+
+  /**
+   * オブジェクトまたは親（グループ）が操作中か
+   */
+  private isHeld(object: THREE.Object3D): boolean {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (this.held.has(current)) return true;
+    }
+    return false;
+  }
+
+  private findByHandle(handle: string): AnchoredPlacement | undefined {
+    for (const placement of this.placements.values()) {
+      if (placement.handle === handle) return placement;
+    }
+    return undefined;
+  }
+
+  /**
+   * 保存済みレコードの読み込み
+   */
+  private loadRecords(): PersistedAnchorRecord[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const records = raw
+        ? (JSON.parse(raw) as (PersistedAnchorRecord | LegacyPersistedAnchorRecord)[])
+        : [];
+      return records.map((record) => this.migrateRecord(record));
+    } catch (error) {
+      console.warn("⚠️ Failed to read persisted anchors:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 旧レコードのobjectTypeをカタログのidに変換（未知の種類は復元時に破棄される）
+   */
+  private migrateRecord(
+    record: PersistedAnchorRecord | LegacyPersistedAnchorRecord
+  ): PersistedAnchorRecord {
+    if ("catalogId" in record) return record;
+    return {
+      handle: record.handle,
+      catalogId: LEGACY_CATALOG_IDS[record.objectType] ?? `legacy-${record.objectType}`,
+      offset: record.offset,
+    };
+  }
+
+  /**
+   * 配置のレコードを追加・更新
+   */
+  private upsertRecord(placement: AnchoredPlacement) {
+    if (!placement.handle || !placement.offset) return;
+
+    const record: PersistedAnchorRecord = {
+      handle: placement.handle,
+      catalogId: placement.catalogId,
+      offset: placement.offset.toArray(),
+    };
+    const records = this.loadRecords().filter((item) => item.handle !== record.handle);
+    this.saveRecords([...records, record]);
+  }
+
+  /**
+   * レコードの保存
+   */
+  private saveRecords(records: PersistedAnchorRecord[]) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    } catch (error) {
+      console.warn("⚠️ Failed to save persisted anchors:", error);
+    }
+  }
+}
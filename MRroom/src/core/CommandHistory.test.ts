@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useXRStore } from "../stores/xrStore";
+import { CommandHistory, type Command } from "./CommandHistory";
+
+// valueを変更するコマンド
+function setValue(target: { value: number }, value: number, mergeKey?: string): Command {
+  const before = target.value;
+  return {
+    label: `Set ${value}`,
+    execute: () => {
+      target.value = value;
+    },
+    undo: () => {
+      target.value = before;
+    },
+    dispose: vi.fn(),
+    mergeKey,
+  };
+}
+
+let now = 0;
+
+beforeEach(() => {
+  now = 0;
+  vi.spyOn(performance, "now").mockImplementation(() => now);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("CommandHistory", () => {
+  it("undoes and redoes commands in order", () => {
+    const history = new CommandHistory();
+    const target = { value: 0 };
+
+    history.execute(setValue(target, 1));
+    history.execute(setValue(target, 2));
+    expect(target.value).toBe(2);
+
+    history.undo();
+    expect(target.value).toBe(1);
+    history.undo();
+    expect(target.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(target.value).toBe(2);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("records commands that were already executed without running them", () => {
+    const history = new CommandHistory();
+    const command = setValue({ value: 0 }, 1);
+    const execute = vi.spyOn(command, "execute");
+
+    history.record(command);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(history.canUndo()).toBe(true);
+  });
+
+  it("ignores undo and redo with an empty history", () => {
+    const history = new CommandHistory();
+
+    expect(() => {
+      history.undo();
+      history.redo();
+    }).not.toThrow();
+  });
+
+  it("discards and disposes the redo history when a new command is recorded", () => {
+    const history = new CommandHistory();
+    const target = { value: 0 };
+    const undone = setValue(target, 1);
+
+    history.execute(undone);
+    history.undo();
+    history.execute(setValue(target, 2));
+
+    expect(history.canRedo()).toBe(false);
+    expect(undone.dispose).toHaveBeenCalledWith("undone");
+  });
+
+  it("drops and disposes the oldest commands beyond the maximum size", () => {
+    const history = new CommandHistory(2);
+    const target = { value: 0 };
+    const oldest = setValue(target, 1);
+
+    history.execute(oldest);
+    history.execute(setValue(target, 2));
+    history.execute(setValue(target, 3));
+
+    expect(oldest.dispose).toHaveBeenCalledWith("done");
+    history.undo();
+    history.undo();
+    history.undo();
+    expect(target.value).toBe(1);
+  });
+
+  it("disposes every command on clear", () => {
+    const history = new CommandHistory();
+    const target = { value: 0 };
+    const done = setValue(target, 1);
+    const undone = setValue(target, 2);
+
+    history.execute(done);
+    history.execute(undone);
+    history.undo();
+    history.clear();
+
+    expect(done.dispose).toHaveBeenCalledWith("done");
+    expect(undone.dispose).toHaveBeenCalledWith("undone");
+    expect(history.canUndo() || history.canRedo()).toBe(false);
+  });
+
+  describe("merging", () => {
+    it("merges commands with the same key recorded within a second", () => {
+      const history = new CommandHistory();
+      const target = { value: 0 };
+
+      history.execute(setValue(target, 1, "slider"));
+      now = 500;
+      history.execute(setValue(target, 2, "slider"));
+      now = 900;
+      history.execute(setValue(target, 3, "slider"));
+
+      // 最初のコマンドの前の値に戻る
+      history.undo();
+      expect(target.value).toBe(0);
+      expect(history.canUndo()).toBe(false);
+
+      // 最後のコマンドでやり直す
+      history.redo();
+      expect(target.value).toBe(3);
+    });
+
+    it("does not merge commands recorded more than a second apart", () => {
+      const history = new CommandHistory();
+      const target = { value: 0 };
+
+      history.execute(setValue(target, 1, "slider"));
+      now = 1500;
+      history.execute(setValue(target, 2, "slider"));
+
+      history.undo();
+      expect(target.value).toBe(1);
+    });
+
+    it("does not merge commands with different or missing keys", () => {
+      const history = new CommandHistory();
+      const target = { value: 0 };
+
+      history.execute(setValue(target, 1, "color"));
+      history.execute(setValue(target, 2, "scale"));
+      history.execute(setValue(target, 3));
+      history.execute(setValue(target, 4));
+
+      history.undo();
+      history.undo();
+      history.undo();
+      expect(target.value).toBe(1);
+    });
+
+    it("does not merge into a command after an undo", () => {
+      const history = new CommandHistory();
+      const target = { value: 0 };
+
+      history.execute(setValue(target, 1, "slider"));
+      history.execute(setValue(target, 2));
+      history.undo();
+      history.execute(setValue(target, 3, "slider"));
+
+      history.undo();
+      expect(target.value).toBe(1);
+      history.undo();
+      expect(target.value).toBe(0);
+    });
+  });
+
+  it("mirrors the undo/redo availability in the store", () => {
+    const history = new CommandHistory();
+    const target = { value: 0 };
+
+    history.execute(setValue(target, 1));
+    expect(useXRStore.getState()).toMatchObject({ canUndo: true, canRedo: false });
+
+    history.undo();
+    expect(useXRStore.getState()).toMatchObject({ canUndo: false, canRedo: true });
+  });
+});
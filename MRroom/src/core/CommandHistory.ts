@@ -0,0 +1,133 @@
+import { useXRStore } from "../stores/xrStore";
+
+/**
+ * 履歴から外れたときのコマンドの状態
+ * - done: 実行済みのまま外れた（古い履歴の削除）
+ * - undone: 取り消されたまま外れた（redo履歴の破棄）
+ */
+export type CommandDisposeState = "done" | "undone";
+
+/**
+ * 元に戻せる操作
+ */
+export interface Command {
+  label: string;
+  execute: () => void;
+  undo: () => void;
+  // 履歴から外れて二度と実行されなくなったときに呼ばれる（リソース破棄用）
+  dispose?: (state: CommandDisposeState) => void;
+  // 同じキーのコマンドが続けて記録された場合は1つにまとめる（スライダーの連続した変更など）
+  mergeKey?: string;
+}
+
+const DEFAULT_MAX_SIZE = 50;
+// この時間内に記録された同じキーのコマンドをまとめる（ms）
+const MERGE_WINDOW = 1000;
+
+/**
+ * CommandHistory
+ * 配置・選択・削除などの操作をコマンドとして記録し、undo/redoを提供する
+ * - 履歴のサイズは上限付き
+ * - 履歴から外れたコマンドはdisposeでリソースを破棄する
+ */
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private maxSize: number;
+  private lastRecordTime = 0;
+
+  constructor(maxSize: number = DEFAULT_MAX_SIZE) {
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * コマンドを実行して記録
+   */
+  execute(command: Command) {
+    command.execute();
+    this.record(command);
+  }
+
+  /**
+   * 実行済みのコマンドを記録
+   */
+  record(command: Command) {
+    const now = performance.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    const mergeable =
+      command.mergeKey !== undefined &&
+      last?.mergeKey === command.mergeKey &&
+      this.redoStack.length === 0 &&
+      now - this.lastRecordTime < MERGE_WINDOW;
+    this.lastRecordTime = now;
+
+    // まとめる場合は最初のコマンドのundoを引き継ぐ
+    if (mergeable) {
+      this.undoStack[this.undoStack.length - 1] = { ...command, undo: last.undo };
+      return;
+    }
+
+    // 新しい操作をした時点でredo履歴は破棄
+    this.redoStack.forEach((item) => item.dispose?.("undone"));
+    this.redoStack = [];
+
+    this.undoStack.push(command);
+    while (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift()?.dispose?.("done");
+    }
+
+    this.syncStore();
+  }
+
+  /**
+   * 直前の操作を取り消す
+   */
+  undo() {
+    const command = this.undoStack.pop();
+    if (!command) return;
+
+    command.undo();
+    this.redoStack.push(command);
+    console.log(`↩️ Undo: ${command.label}`);
+    this.syncStore();
+  }
+
+  /**
+   * 取り消した操作をやり直す
+   */
+  redo() {
+    const command = this.redoStack.pop();
+    if (!command) return;
+
+    command.execute();
+    this.undoStack.push(command);
+    console.log(`↪️ Redo: ${command.label}`);
+    this.syncStore();
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 履歴をすべて破棄
+   */
+  clear() {
+    this.undoStack.forEach((command) => command.dispose?.("done"));
+    this.redoStack.forEach((command) => command.dispose?.("undone"));
+    this.undoStack = [];
+    this.redoStack = [];
+    this.syncStore();
+  }
+
+  /**
+   * undo/redoの可否をストアに反映
+   */
+  private syncStore() {
+    useXRStore.getState().setHistoryState(this.canUndo(), this.canRedo());
+  }
+}
@@ -0,0 +1,158 @@
+import * as THREE from "three";
+import { XRState, useXRStore } from "../stores/xrStore";
+import type { SelectArbiter } from "./HitTestManager";
+import { SpatialPanel } from "./SpatialPanel";
+import { UIKitPanel, loadUIKitDocument } from "./UIKitPanel";
+import { SESSION_MODE_LABELS } from "./XRSessionController";
+
+/**
+ * コンパイル済みのコントロールパネル（ui/control-panel.uikitml）
+ */
+export const CONTROL_PANEL_URL = `${import.meta.env.BASE_URL}ui/control-panel.json`;
+
+type XRStoreState = ReturnType<typeof useXRStore.getState>;
+
+// パネルの要素のid
+const STATUS_TEXT_ID = "status-text";
+const XR_BUTTON_ID = "xr-button";
+const RESET_BUTTON_ID = "reset-button";
+
+/**
+ * パネルのボタンで行う操作
+ */
+export interface ControlPanelActions {
+  // 選択中のモードでセッションを開始
+  enterSession: () => void;
+  endSession: () => void;
+  // 配置済みオブジェクトをすべて削除
+  clearObjects: () => void;
+}
+
+/**
+ * セッションの状態の表示
+ */
+function describeStatus(state: XRStoreState): string {
+  const label = SESSION_MODE_LABELS[state.sessionMode];
+  switch (state.xrState) {
+    case XRState.Unsupported:
+      return "Status: XR not supported";
+    case XRState.Idle:
+      return "Status: Ready";
+    case XRState.Requesting:
+      return `Status: Starting ${label}...`;
+    case XRState.Active:
+      return `Status: ${label} session active`;
+    case XRState.VisibleBlurred:
+      return "Status: Paused";
+    case XRState.Ending:
+      return "Status: Ending session...";
+    case XRState.Error:
+      return `Status: ${state.sessionError?.message ?? "XR session failed"}`;
+  }
+}
+
+/**
+ * セッションのボタンの表示
+ */
+function describeSessionButton(state: XRStoreState): string {
+  const label = SESSION_MODE_LABELS[state.sessionMode];
+  switch (state.xrState) {
+    case XRState.Active:
+    case XRState.VisibleBlurred:
+      return `Exit ${label}`;
+    case XRState.Requesting:
+      return "Starting...";
+    case XRState.Ending:
+      return "Exiting...";
+    case XRState.Error:
+      return "Retry";
+    default:
+      return `Enter ${label}`;
+  }
+}
+
+/**
+ * ControlPanel
+ * コントロールパネル（UIKit）をシーンに表示し、アプリの状態と操作につなぐ
+ * - status-text: xrStoreのセッションの状態
+ * - xr-button: セッションの開始・終了
+ * - reset-button: 配置済みオブジェクトの削除
+ */
+export class ControlPanel implements SelectArbiter {
+  private spatialPanel: SpatialPanel;
+  private actions: ControlPanelActions;
+  private unsubscribe: () => void;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    panel: UIKitPanel,
+    actions: ControlPanelActions
+  ) {
+    this.actions = actions;
+    this.spatialPanel = new SpatialPanel(renderer, scene, camera, panel, {
+      onPress: (id) => this.onPress(id),
+    });
+
+    this.applyState(useXRStore.getState());
+    this.unsubscribe = useXRStore.subscribe((state, previous) => {
+      if (
+        state.xrState === previous.xrState &&
+        state.sessionMode === previous.sessionMode &&
+        state.sessionError === previous.sessionError
+      ) {
+        return;
+      }
+      this.applyState(state);
+    });
+  }
+
+  /**
+   * 読み込んでシーンに表示する
+   */
+  static async load(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    actions: ControlPanelActions,
+    url: string = CONTROL_PANEL_URL
+  ): Promise<ControlPanel> {
+    const document = await loadUIKitDocument(url);
+    return new ControlPanel(renderer, scene, camera, new UIKitPanel(document), actions);
+  }
+
+  private applyState(state: XRStoreState) {
+    this.spatialPanel.setText(STATUS_TEXT_ID, describeStatus(state));
+    this.spatialPanel.setText(XR_BUTTON_ID, describeSessionButton(state));
+  }
+
+  private onPress(id: string) {
+    if (id === XR_BUTTON_ID) {
+      const { xrState } = useXRStore.getState();
+      if (xrState === XRState.Active || xrState === XRState.VisibleBlurred) {
+        this.actions.endSession();
+      } else if (xrState === XRState.Idle || xrState === XRState.Error) {
+        this.actions.enterSession();
+      }
+    } else if (id === RESET_BUTTON_ID) {
+      this.actions.clearObjects();
+    }
+  }
+
+  claimsSelect(event: XRInputSourceEvent): boolean {
+    return this.spatialPanel.claimsSelect(event);
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame?: XRFrame) {
+    this.spatialPanel.update(frame);
+  }
+
+  dispose() {
+    this.unsubscribe();
+    this.spatialPanel.dispose();
+  }
+}
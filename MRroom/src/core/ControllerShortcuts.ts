@@ -0,0 +1,52 @@
+/**
+ * コントローラーのボタン割り当て
+ * buttonはxr-standardマッピングのインデックス（4: A/X, 5: B/Y）
+ */
+export interface ControllerButtonBinding {
+  handedness: XRHandedness;
+  button: number;
+  action: () => void;
+}
+
+/**
+ * ControllerShortcuts
+ * コントローラーのボタンが押された瞬間に割り当てた操作を実行する
+ */
+export class ControllerShortcuts {
+  private bindings: ControllerButtonBinding[];
+  private pressedButtons: Set<string> = new Set();
+
+  constructor(bindings: ControllerButtonBinding[]) {
+    this.bindings = bindings;
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame?: XRFrame) {
+    if (!frame) {
+      this.pressedButtons.clear();
+      return;
+    }
+
+    frame.session.inputSources.forEach((inputSource) => {
+      const gamepad = inputSource.gamepad;
+      if (!gamepad) return;
+
+      this.bindings.forEach((binding) => {
+        if (binding.handedness !== inputSource.handedness) return;
+
+        const key = `${binding.handedness}:${binding.button}`;
+        const pressed = gamepad.buttons[binding.button]?.pressed === true;
+
+        // 押された瞬間のみ実行
+        if (pressed && !this.pressedButtons.has(key)) {
+          this.pressedButtons.add(key);
+          binding.action();
+        } else if (!pressed) {
+          this.pressedButtons.delete(key);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { interactiveRegistry } from "./InteractiveRegistry";
+import type { XRSessionProvider } from "./XRSessionController";
+import {
+  VirtualFrame,
+  VirtualInputSource,
+  VirtualSession,
+  installVirtualSession,
+  toRecordedPose,
+} from "./VirtualXRSession";
+import type { RecordedEvent } from "./XRRecording";
+
+// デスクトップのセッションが提供するreference space
+const INLINE_FEATURES = ["local", "local-floor", "viewer"];
+
+// これ以上動かしたらクリックではなく視点の操作とみなす（px）
+const CLICK_THRESHOLD = 5;
+// 視点の回転の中心（地面の上、初期のカメラの正面）
+const ORBIT_TARGET = new THREE.Vector3(0, 0, 0);
+
+type InputEventType = Extract<RecordedEvent, { input: number }>["type"];
+
+/**
+ * DesktopInlineProvider
+ * デスクトップのブラウザで、マウスを画面タップの代わりにするinlineセッションを提供する
+ * - 視点はOrbitControls（ドラッグで回転、ホイールでズーム、右ドラッグで移動）
+ * - マウスの位置が画面タップの入力ソース（targetRayMode: screen）のレイになる
+ * - クリックでselect、オブジェクトの上で押した場合はそのままドラッグで操作できる
+ * ヒットテストはHitTestManagerに渡す仮想の地面で代用する
+ */
+export class DesktopInlineProvider implements XRSessionProvider {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private session: VirtualSession | null = null;
+  private pointerInput: VirtualInputSource;
+  private controls: OrbitControls | null = null;
+  private uninstall: (() => void) | null = null;
+  // inline開始前のカメラの姿勢
+  private cameraMatrix: THREE.Matrix4 = new THREE.Matrix4();
+
+  // マウスの位置（NDC）
+  private pointer: THREE.Vector2 = new THREE.Vector2();
+  // 左ボタンを押した位置と、オブジェクトの上で押したか
+  private press: { x: number; y: number; onObject: boolean } | null = null;
+  private pendingEvents: InputEventType[] = [];
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+
+  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.pointerInput = new VirtualInputSource({
+      id: 0,
+      handedness: "none",
+      targetRayMode: "screen",
+      profiles: ["generic-touchscreen"],
+      hasGrip: false,
+      hasGamepad: false,
+    });
+  }
+
+  async isSessionSupported(mode: XRSessionMode): Promise<boolean> {
+    return mode === "inline";
+  }
+
+  /**
+   * 仮想のinlineセッションを作成（必須機能に対応していなければNotSupportedError）
+   */
+  async requestSession(mode: XRSessionMode, init: XRSessionInit): Promise<XRSession> {
+    const required = (init.requiredFeatures ?? []).map(String);
+    const unsupported = required.find((feature) => !INLINE_FEATURES.includes(feature));
+    if (mode !== "inline" || unsupported) {
+      throw new DOMException(
+        `Desktop session does not support ${unsupported ? `"${unsupported}"` : mode}`,
+        "NotSupportedError"
+      );
+    }
+
+    const session = new VirtualSession(INLINE_FEATURES);
+    session.inputSources = [this.pointerInput];
+    return session as unknown as XRSession;
+  }
+
+  /**
+   * renderer.xrを仮想のセッションに差し替え、視点とマウスの操作を有効にする
+   */
+  async setSession(session: XRSession) {
+    if (!(session instanceof VirtualSession)) {
+      throw new Error("DesktopInlineProvider can only present its own sessions");
+    }
+
+    this.session = session;
+    this.camera.updateMatrix();
+    this.cameraMatrix.copy(this.camera.matrix);
+    this.pendingEvents = [];
+    this.press = null;
+
+    const controls = new OrbitControls(this.camera, this.renderer.domElement);
+    controls.target.copy(ORBIT_TARGET);
+    controls.maxPolarAngle = Math.PI / 2 - 0.05;
+    controls.update();
+    this.controls = controls;
+
+    this.uninstall = installVirtualSession(this.renderer, session);
+    session.addEventListener("end", this.onSessionEnd);
+    this.attachControls();
+    console.log("🖥️ Desktop session started");
+  }
+
+  /**
+   * 現在の視点とマウスで1フレーム分のXRFrameを作る（セッション中でなければundefined）
+   * 溜まっているselectのイベントはこのフレームで発生させる
+   */
+  getFrame(): XRFrame | undefined {
+    const session = this.session;
+    if (!session || !this.controls) return undefined;
+
+    this.controls.update();
+    this.camera.updateMatrixWorld();
+
+    // 画面タップのレイはカメラからマウスの方向
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const orientation = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 0, -1),
+      this.raycaster.ray.direction
+    );
+
+    const frame = new VirtualFrame(session, {
+      viewer: toRecordedPose(this.camera.position, this.camera.quaternion),
+      inputs: [
+        {
+          id: this.pointerInput.id,
+          ray: toRecordedPose(this.raycaster.ray.origin, orientation),
+        },
+      ],
+      hits: {},
+    });
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach((type) => session.dispatchInputEvent(type, this.pointerInput, frame));
+    return frame.asXRFrame();
+  }
+
+  private attachControls() {
+    const canvas = this.renderer.domElement;
+    // OrbitControlsより先に処理し、オブジェクトの上で押した場合は視点を動かさない
+    canvas.addEventListener("pointerdown", this.onPointerDown, { capture: true });
+    canvas.addEventListener("pointermove", this.onPointerMove);
+    canvas.addEventListener("pointerup", this.onPointerUp);
+  }
+
+  private detachControls() {
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener("pointerdown", this.onPointerDown, { capture: true });
+    canvas.removeEventListener("pointermove", this.onPointerMove);
+    canvas.removeEventListener("pointerup", this.onPointerUp);
+  }
+
+  private updatePointer(event: PointerEvent) {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  }
+
+  private onPointerMove = (event: PointerEvent) => {
+    this.updatePointer(event);
+  };
+
+  private onPointerDown = (event: PointerEvent) => {
+    if (event.button !== 0 || !this.controls) return;
+
+    this.updatePointer(event);
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const onObject = interactiveRegistry.intersect(this.raycaster, this.scene).length > 0;
+    this.press = { x: event.clientX, y: event.clientY, onObject };
+
+    // オブジェクトの上ではselectstartを発生させ、ドラッグで操作できるようにする
+    if (onObject) {
+      this.controls.enabled = false;
+      this.pendingEvents.push("selectstart");
+    }
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    const press = this.press;
+    if (event.button !== 0 || !press) return;
+    this.press = null;
+
+    if (press.onObject) {
+      if (this.controls) this.controls.enabled = true;
+      this.pendingEvents.push("select", "selectend");
+      return;
+    }
+
+    // 視点を動かさずに離した場合だけクリックとみなす
+    const moved = Math.hypot(event.clientX - press.x, event.clientY - press.y);
+    if (moved <= CLICK_THRESHOLD) {
+      this.pendingEvents.push("selectstart", "select", "selectend");
+    }
+  };
+
+  /**
+   * セッション終了時に操作を外し、renderer.xrとカメラを元に戻す
+   */
+  private onSessionEnd = () => {
+    this.session?.removeEventListener("end", this.onSessionEnd);
+    this.session = null;
+    this.detachControls();
+    this.controls?.dispose();
+    this.controls = null;
+    this.uninstall?.();
+    this.uninstall = null;
+    this.cameraMatrix.decompose(this.camera.position, this.camera.quaternion, this.camera.scale);
+    console.log("🖥️ Desktop session ended");
+  };
+
+  dispose() {
+    this.session?.end();
+  }
+}
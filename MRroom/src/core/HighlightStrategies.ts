@@ -0,0 +1,417 @@
+import * as THREE from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { OutlinePass } from "three/examples/jsm/postprocessing/OutlinePass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { computeLocalBounds } from "./ObjectBounds";
+
+/**
+ * ハイライトの表示方法
+ * 同じオブジェクトにapplyが繰り返し呼ばれても（色だけ変えて）問題ないようにする
+ */
+export interface HighlightStrategy {
+  apply(object: THREE.Object3D, color: number): void;
+  // ハイライトしていないオブジェクトに呼ばれても何もしない
+  remove(object: THREE.Object3D): void;
+  // 毎フレームの更新（オーバーレイをオブジェクトに追従させるなど）
+  update(): void;
+  dispose(): void;
+}
+
+/**
+ * 組み込みのハイライトの種類
+ * - tint: マテリアルを発光色で色付け
+ * - outline: スクリーンスペースの輪郭線（XRでは枠線で代用）
+ * - bounds: バウンディングボックスの枠線
+ * - wireframe: ワイヤーフレームの重ね表示
+ */
+export type HighlightStyle = "tint" | "outline" | "bounds" | "wireframe";
+
+export const HIGHLIGHT_STYLES: HighlightStyle[] = ["tint", "outline", "bounds", "wireframe"];
+
+// 発光色に加えるハイライト色の強さ
+const TINT_EMISSIVE_STRENGTH = 0.4;
+// 発光しないマテリアルで元の色に混ぜる割合
+const TINT_COLOR_BLEND = 0.5;
+
+// 輪郭線の太さ・強さ
+const OUTLINE_EDGE_STRENGTH = 4;
+const OUTLINE_EDGE_THICKNESS = 1.5;
+
+// 枠線の描画順（オブジェクトより手前に表示）
+const OVERLAY_RENDER_ORDER = 998;
+
+// 色付け中のメッシュの元のマテリアル（レイアウトの書き出しなどで参照）
+const originalMaterials: WeakMap<THREE.Mesh, THREE.Material | THREE.Material[]> = new WeakMap();
+
+/**
+ * メッシュの元のマテリアル（色付け中でなければ現在のマテリアル）
+ */
+export function getOriginalMaterial(mesh: THREE.Mesh): THREE.Material | THREE.Material[] {
+  return originalMaterials.get(mesh) ?? mesh.material;
+}
+
+type EmissiveMaterial = THREE.Material & { emissive: THREE.Color; emissiveIntensity: number };
+type ColorMaterial = THREE.Material & { color: THREE.Color };
+
+function hasEmissive(material: THREE.Material): material is EmissiveMaterial {
+  return (material as Partial<EmissiveMaterial>).emissive instanceof THREE.Color;
+}
+
+function hasColor(material: THREE.Material): material is ColorMaterial {
+  return (material as Partial<ColorMaterial>).color instanceof THREE.Color;
+}
+
+/**
+ * 色付け中のメッシュ
+ */
+interface TintedMesh {
+  original: THREE.Material | THREE.Material[];
+  tinted: THREE.Material[];
+}
+
+/**
+ * EmissiveTintHighlight
+ * マテリアルの複製を発光色で色付けし、解除時に元のマテリアルに戻す
+ * 元のマテリアルは変更しないので、共有マテリアルや意図的な発光色も保たれる
+ */
+export class EmissiveTintHighlight implements HighlightStrategy {
+  private objects: Map<THREE.Object3D, Map<THREE.Mesh, TintedMesh>> = new Map();
+  private color = new THREE.Color();
+
+  apply(object: THREE.Object3D, color: number) {
+    let meshes = this.objects.get(object);
+    if (!meshes) {
+      meshes = new Map();
+      this.objects.set(object, meshes);
+    }
+    this.color.setHex(color);
+
+    // 非同期で読み込まれたメッシュも含め、まだ色付けしていないメッシュを複製に差し替え
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || meshes.has(child)) return;
+
+      const original = child.material as THREE.Material | THREE.Material[];
+      const tinted = (Array.isArray(original) ? original : [original]).map((material) =>
+        material.clone()
+      );
+      meshes.set(child, { original, tinted });
+      originalMaterials.set(child, original);
+      child.material = Array.isArray(original) ? tinted : tinted[0];
+    });
+
+    meshes.forEach(({ original, tinted }) => {
+      const originals = Array.isArray(original) ? original : [original];
+      tinted.forEach((material, index) => this.tint(material, originals[index]));
+    });
+  }
+
+  remove(object: THREE.Object3D) {
+    const meshes = this.objects.get(object);
+    if (!meshes) return;
+
+    meshes.forEach(({ original, tinted }, mesh) => {
+      // 色付け中に別のマテリアルに差し替えられた場合はそのままにする
+      const current = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      if (current.every((material, index) => material === tinted[index])) {
+        mesh.material = original;
+      }
+      originalMaterials.delete(mesh);
+      tinted.forEach((material) => material.dispose());
+    });
+    this.objects.delete(object);
+  }
+
+  update() {}
+
+  dispose() {
+    Array.from(this.objects.keys()).forEach((object) => this.remove(object));
+  }
+
+  /**
+   * 元のマテリアルの値にハイライト色を加える
+   */
+  private tint(material: THREE.Material, original: THREE.Material) {
+    if (hasEmissive(material) && hasEmissive(original)) {
+      material.emissive
+        .copy(original.emissive)
+        .multiplyScalar(original.emissiveIntensity)
+        .add(this.color.clone().multiplyScalar(TINT_EMISSIVE_STRENGTH));
+      material.emissiveIntensity = 1;
+    } else if (hasColor(material) && hasColor(original)) {
+      material.color.copy(original.color).lerp(this.color, TINT_COLOR_BLEND);
+    }
+  }
+}
+
+/**
+ * ハイライト中のオブジェクトの重ね表示
+ */
+interface Overlay {
+  root: THREE.Object3D;
+  material: THREE.LineBasicMaterial | THREE.MeshBasicMaterial;
+  // 重ね表示のメッシュと追従するメッシュ（ワイヤーフレーム）
+  meshes: [THREE.Mesh, THREE.Mesh][];
+}
+
+/**
+ * BoundsHighlight
+ * オブジェクトの向きに合わせたバウンディングボックス、またはワイヤーフレームを重ねて表示する
+ * 重ね表示はシーン直下に置き、オブジェクトの階層（書き出しやレイキャスト）には加えない
+ */
+export class BoundsHighlight implements HighlightStrategy {
+  private scene: THREE.Scene;
+  private mode: "box" | "wireframe";
+  private overlays: Map<THREE.Object3D, Overlay> = new Map();
+  private boxGeometry: THREE.BufferGeometry;
+
+  constructor(scene: THREE.Scene, mode: "box" | "wireframe" = "box") {
+    this.scene = scene;
+    this.mode = mode;
+    this.boxGeometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1));
+  }
+
+  apply(object: THREE.Object3D, color: number) {
+    const existing = this.overlays.get(object);
+    if (existing) {
+      existing.material.color.setHex(color);
+      return;
+    }
+
+    const overlay = this.mode === "box" ? this.createBox(color) : this.createWireframe(object, color);
+    overlay.root.matrixAutoUpdate = false;
+    this.scene.add(overlay.root);
+    this.overlays.set(object, overlay);
+    this.updateOverlay(object, overlay);
+  }
+
+  remove(object: THREE.Object3D) {
+    const overlay = this.overlays.get(object);
+    if (!overlay) return;
+
+    this.scene.remove(overlay.root);
+    overlay.material.dispose();
+    this.overlays.delete(object);
+  }
+
+  update() {
+    this.overlays.forEach((overlay, object) => this.updateOverlay(object, overlay));
+  }
+
+  dispose() {
+    Array.from(this.overlays.keys()).forEach((object) => this.remove(object));
+    this.boxGeometry.dispose();
+  }
+
+  private createBox(color: number): Overlay {
+    const material = new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true });
+    const root = new THREE.LineSegments(this.boxGeometry, material);
+    root.renderOrder = OVERLAY_RENDER_ORDER;
+    return { root, material, meshes: [] };
+  }
+
+  /**
+   * オブジェクトのメッシュとジオメトリを共有するワイヤーフレーム
+   */
+  private createWireframe(object: THREE.Object3D, color: number): Overlay {
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      wireframe: true,
+      transparent: true,
+      opacity: 0.6,
+      depthTest: false,
+    });
+    const root = new THREE.Group();
+    const meshes: [THREE.Mesh, THREE.Mesh][] = [];
+
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const wire = new THREE.Mesh(child.geometry, material);
+      wire.matrixAutoUpdate = false;
+      wire.renderOrder = OVERLAY_RENDER_ORDER;
+      root.add(wire);
+      meshes.push([wire, child]);
+    });
+
+    return { root, material, meshes };
+  }
+
+  /**
+   * 重ね表示をオブジェクトの現在の姿勢に合わせる
+   */
+  private updateOverlay(object: THREE.Object3D, overlay: Overlay) {
+    object.updateWorldMatrix(true, true);
+    overlay.root.visible = this.isVisible(object);
+
+    if (this.mode === "wireframe") {
+      overlay.meshes.forEach(([wire, mesh]) => wire.matrix.copy(mesh.matrixWorld));
+      overlay.root.matrixWorldNeedsUpdate = true;
+      return;
+    }
+
+    const bounds = computeLocalBounds(object);
+    if (bounds.isEmpty()) {
+      overlay.root.visible = false;
+      return;
+    }
+    overlay.root.matrix
+      .copy(object.matrixWorld)
+      .multiply(
+        new THREE.Matrix4().compose(
+          bounds.getCenter(new THREE.Vector3()),
+          new THREE.Quaternion(),
+          bounds.getSize(new THREE.Vector3())
+        )
+      );
+    overlay.root.matrixWorldNeedsUpdate = true;
+  }
+
+  /**
+   * オブジェクトと祖先がすべて表示されているか
+   */
+  private isVisible(object: THREE.Object3D): boolean {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (!current.visible) return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * OutlineHighlight
+ * OutlinePassによるスクリーンスペースの輪郭線（色ごとにパスを作成）
+ * EffectComposerはXRのフレームバッファに描画できないため、XRセッション中は代わりの方法で表示する
+ * 輪郭線の描画にはrenderer.renderの代わりにrender()を呼ぶ
+ */
+export class OutlineHighlight implements HighlightStrategy {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private composer: EffectComposer;
+  private outputPass: OutputPass;
+  private passes: Map<number, OutlinePass> = new Map();
+  private colors: Map<THREE.Object3D, number> = new Map();
+  private fallback: HighlightStrategy;
+  private fallbackActive = false;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    fallback: HighlightStrategy = new BoundsHighlight(scene)
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.fallback = fallback;
+
+    this.composer = new EffectComposer(renderer);
+    this.composer.addPass(new RenderPass(scene, camera));
+    this.outputPass = new OutputPass();
+    this.composer.addPass(this.outputPass);
+  }
+
+  apply(object: THREE.Object3D, color: number) {
+    this.colors.set(object, color);
+    if (this.fallbackActive) {
+      this.fallback.apply(object, color);
+    }
+    this.syncPasses();
+  }
+
+  remove(object: THREE.Object3D) {
+    if (!this.colors.delete(object)) return;
+    this.fallback.remove(object);
+    this.syncPasses();
+  }
+
+  update() {
+    // XRセッションの開始・終了に合わせて代わりの表示を切り替える
+    const presenting = this.renderer.xr.isPresenting;
+    if (presenting !== this.fallbackActive) {
+      this.fallbackActive = presenting;
+      this.colors.forEach((color, object) => {
+        if (presenting) {
+          this.fallback.apply(object, color);
+        } else {
+          this.fallback.remove(object);
+        }
+      });
+    }
+    this.fallback.update();
+  }
+
+  /**
+   * 輪郭線を含めてシーンを描画（描画しなかった場合はfalse）
+   */
+  render(): boolean {
+    if (this.fallbackActive || this.renderer.xr.isPresenting || this.colors.size === 0) {
+      return false;
+    }
+    this.composer.render();
+    return true;
+  }
+
+  /**
+   * 画面サイズの変更
+   */
+  setSize(width: number, height: number) {
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+    this.composer.setSize(width, height);
+  }
+
+  dispose() {
+    this.colors.clear();
+    this.fallback.dispose();
+    this.passes.forEach((pass) => pass.dispose());
+    this.passes.clear();
+    this.outputPass.dispose();
+    this.composer.dispose();
+  }
+
+  /**
+   * 色ごとの輪郭線パスに対象のオブジェクトを設定
+   */
+  private syncPasses() {
+    new Set(this.colors.values()).forEach((color) => this.ensurePass(color));
+
+    this.passes.forEach((pass, color) => {
+      pass.selectedObjects = Array.from(this.colors.entries())
+        .filter(([, objectColor]) => objectColor === color)
+        .map(([object]) => object);
+      pass.enabled = pass.selectedObjects.length > 0;
+    });
+  }
+
+  private ensurePass(color: number): OutlinePass {
+    const existing = this.passes.get(color);
+    if (existing) return existing;
+
+    const size = this.renderer.getSize(new THREE.Vector2());
+    const pass = new OutlinePass(size, this.scene, this.camera);
+    pass.visibleEdgeColor.setHex(color);
+    pass.hiddenEdgeColor.setHex(color);
+    pass.edgeStrength = OUTLINE_EDGE_STRENGTH;
+    pass.edgeThickness = OUTLINE_EDGE_THICKNESS;
+    // 出力パス（色空間変換）の前に挿入
+    this.composer.insertPass(pass, this.composer.passes.indexOf(this.outputPass));
+    this.passes.set(color, pass);
+    return pass;
+  }
+}
+
+/**
+ * 組み込みのハイライトをまとめて作成
+ */
+export function createHighlightStrategies(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera
+) {
+  return {
+    tint: new EmissiveTintHighlight(),
+    outline: new OutlineHighlight(renderer, scene, camera),
+    bounds: new BoundsHighlight(scene, "box"),
+    wireframe: new BoundsHighlight(scene, "wireframe"),
+  } satisfies Record<HighlightStyle, HighlightStrategy>;
+}
@@ -0,0 +1,133 @@
+import * as THREE from "three";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HitTestManager } from "./HitTestManager";
+
+/**
+ * 手のヒットテストソースの作成を待たせるXRSession
+ * resolveHandSourceを呼ぶまでrequestHitTestSource（targetRaySpace）は完了しない
+ */
+class FakeSession extends EventTarget {
+  inputSources: XRInputSource[];
+  readonly handSource = { cancel: vi.fn() };
+  resolveHandSource: () => void = () => {};
+
+  constructor(inputSources: XRInputSource[]) {
+    super();
+    this.inputSources = inputSources;
+  }
+
+  requestReferenceSpace = async () => ({}) as XRReferenceSpace;
+
+  requestHitTestSource = vi.fn(({ space }: XRHitTestOptionsInit): Promise<XRHitTestSource> => {
+    if (space === RIGHT_HAND.targetRaySpace) {
+      return new Promise((resolve) => {
+        this.resolveHandSource = () => resolve(this.handSource as unknown as XRHitTestSource);
+      });
+    }
+    return Promise.resolve({ cancel: vi.fn() } as unknown as XRHitTestSource);
+  });
+
+  removeInputSource(inputSource: XRInputSource) {
+    this.inputSources = this.inputSources.filter((source) => source !== inputSource);
+    const event = Object.assign(new Event("inputsourceschange"), {
+      added: [],
+      removed: [inputSource],
+    });
+    this.dispatchEvent(event);
+  }
+
+  asXRSession(): XRSession {
+    return this as unknown as XRSession;
+  }
+}
+
+const RIGHT_HAND = {
+  handedness: "right",
+  targetRayMode: "tracked-pointer",
+  targetRaySpace: { hand: "right" },
+} as unknown as XRInputSource;
+
+const LEFT_HAND = {
+  handedness: "left",
+  targetRayMode: "tracked-pointer",
+  targetRaySpace: { hand: "left" },
+} as unknown as XRInputSource;
+
+function createManager(): HitTestManager {
+  const renderer = { xr: new THREE.EventDispatcher() } as unknown as THREE.WebGLRenderer;
+  return new HitTestManager(renderer, new THREE.Scene());
+}
+
+// onSessionStartの中で手のヒットテストの要求が始まるまで待つ
+async function startSession(manager: HitTestManager, session: FakeSession) {
+  await manager.onSessionStart(session.asXRSession());
+  await vi.waitFor(() =>
+    expect(session.requestHitTestSource).toHaveBeenCalledWith({ space: RIGHT_HAND.targetRaySpace })
+  );
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => {} });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("HitTestManager hand hit test setup", () => {
+  it("cancels a source whose input source was removed while it was requested", async () => {
+    const manager = createManager();
+    const session = new FakeSession([RIGHT_HAND]);
+    await startSession(manager, session);
+
+    session.removeInputSource(RIGHT_HAND);
+    session.resolveHandSource();
+
+    await vi.waitFor(() => expect(session.handSource.cancel).toHaveBeenCalledOnce());
+  });
+
+  it("cancels a source that arrives after the session ended", async () => {
+    const manager = createManager();
+    const session = new FakeSession([RIGHT_HAND]);
+    await startSession(manager, session);
+
+    session.dispatchEvent(new Event("end"));
+    session.resolveHandSource();
+
+    await vi.waitFor(() => expect(session.handSource.cancel).toHaveBeenCalledOnce());
+  });
+
+  it("keeps a source whose input source is still connected", async () => {
+    const manager = createManager();
+    const session = new FakeSession([RIGHT_HAND]);
+    await startSession(manager, session);
+
+    session.resolveHandSource();
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(session.handSource.cancel).not.toHaveBeenCalled();
+  });
+});
+
+describe("HitTestManager policy", () => {
+  it("applies a new handedness from the next session", async () => {
+    const manager = createManager();
+    const first = new FakeSession([RIGHT_HAND, LEFT_HAND]);
+    await startSession(manager, first);
+    manager.setPolicy({ handedness: "left" });
+
+    // 実行中のセッションは右手のまま
+    expect(first.requestHitTestSource).not.toHaveBeenCalledWith({ space: LEFT_HAND.targetRaySpace });
+    first.dispatchEvent(new Event("end"));
+
+    const second = new FakeSession([RIGHT_HAND, LEFT_HAND]);
+    await manager.onSessionStart(second.asXRSession());
+    await vi.waitFor(() =>
+      expect(second.requestHitTestSource).toHaveBeenCalledWith({ space: LEFT_HAND.targetRaySpace })
+    );
+    expect(second.requestHitTestSource).not.toHaveBeenCalledWith({ space: RIGHT_HAND.targetRaySpace });
+  });
+});
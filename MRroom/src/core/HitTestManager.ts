@@ -1,176 +1,628 @@
 import * as THREE from "three";
 import { useXRStore } from "../stores/xrStore";
+import { AnchorInfo, AnchorManager } from "./AnchorManager";
+import { CommandHistory } from "./CommandHistory";
+import { HitTestProvider, rayFromPose } from "./HitTestProvider";
+import {
+  HitTestSourceKind,
+  HitTestSourcePolicy,
+  createHitTestSourcePolicy,
+  getPolicyHands,
+} from "./HitTestSourcePolicy";
+import {
+  GROUP_CATALOG_ID,
+  LayoutObjectRecord,
+  RoomLayout,
+  applyLayoutMaterials,
+  applyLayoutTransform,
+  exportLayoutAsGLB,
+  serializeLayout,
+  serializeObject,
+} from "./LayoutSerializer";
+import {
+  ObjectTransform,
+  applyTransform,
+  captureTransform,
+  transformsEqual,
+} from "./ObjectTransform";
+import { interactiveRegistry, registerInteractive } from "./InteractiveRegistry";
+import { PlacementConstraints } from "./PlacementConstraints";
+import { PlacementPreview, PreviewTransform } from "./PlacementPreview";
+import { PlaneManager } from "./PlaneManager";
+import { SpawnCatalog, SpawnFactory, createDefaultCatalog } from "./SpawnCatalog";
+import { SurfaceInfo, classifySurface, computeSurfaceAlignment } from "./SurfaceClassifier";
+import { createHitTestResult } from "./VirtualXRSession";
+import { describeInput, xrEvents } from "./XREventBus";
+import { XRHitTestUnavailableError } from "./XRSessionController";
+
+// レティクルの色
+const RETICLE_COLOR = 0x00ff00;
+const RETICLE_NOT_ALLOWED_COLOR = 0xff3333;
+const RETICLE_FEEDBACK_COLOR = 0xffff00;
+
+// 複製したオブジェクトをずらす距離（表面に沿ったオブジェクトのX方向）
+const DUPLICATE_OFFSET = 0.15;
+
+/**
+ * レティクルの種類
+ * - primary: 通常のレティクル（ポリシーの優先順位で選ばれたソース）
+ * - right / left: 両手モードでの各手のレティクル
+ */
+type ReticleSlotId = "primary" | "right" | "left";
+
+/**
+ * レティクルと、それを動かしているヒット結果
+ */
+interface ReticleSlot {
+  reticle: THREE.Mesh;
+  kind: HitTestSourceKind | null;
+  // 最後に得られたヒット結果（非表示になっても配置待ちのために保持）
+  hit: XRHitTestResult | null;
+  surface: SurfaceInfo | null;
+  // 選択中のオブジェクトをこの表面に置けるか
+  allowed: boolean;
+  // 配置フィードバックの色を表示中
+  flashing: boolean;
+}
+
+/**
+ * 手ごとのヒットテストソース
+ */
+interface HandHitTestSource {
+  source: XRHitTestSource;
+  inputSource: XRInputSource;
+}
+
+/**
+ * 制約を適用した配置姿勢
+ */
+interface PlacementResult extends PreviewTransform {
+  // 既存オブジェクトと重ならずに配置できるか
+  valid: boolean;
+}
+
+/**
+ * 配置より優先してselectを処理するもの
+ * オブジェクトを指しているselectは選択に使い、その奥に配置しない
+ */
+export interface SelectArbiter {
+  claimsSelect(event: XRInputSourceEvent): boolean;
+}
+
+/**
+ * 姿勢の変更（操作開始前の姿勢）
+ */
+export interface TransformChange {
+  object: THREE.Object3D;
+  before: ObjectTransform;
+}
+
+/**
+ * HitTestManagerのオプション
+ */
+export interface HitTestManagerOptions {
+  policy?: Partial<HitTestSourcePolicy>;
+  catalog?: SpawnCatalog;
+  // InteractionManagerなどと共有する操作履歴
+  history?: CommandHistory;
+  // 平面検出（指定するとヒットを検出された平面上に限定できる）
+  planeManager?: PlaneManager;
+  // selectを配置に使うかの判定（InteractionManagerなど）
+  selectArbiter?: SelectArbiter;
+  // squeezeをプレビューのキャンセルに使うかの判定（物理演算で掴む場合など）
+  squeezeArbiter?: SelectArbiter;
+}
 
 /**
  * HitTestManager
  * WebXRのヒットテストAPIを使用して現実世界の表面を検出し、
  * レティクル（照準マーカー）を表示する
+ * 配置・削除はxrEventsのplace/removeイベントで通知する
  */
 export class HitTestManager {
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
-  private reticleMesh: THREE.Mesh | null = null;
-  private hitTestSource: XRHitTestSource | null = null;
-  private rightHandHitTestSource: XRHitTestSource | null = null;
-  private rightHandInputSource: XRInputSource | null = null;
+  private policy: HitTestSourcePolicy;
+  // 次のセッションから使うポリシー（setPolicyで設定、onSessionStartで適用）
+  private nextPolicy: HitTestSourcePolicy | null = null;
+  private slots: Map<ReticleSlotId, ReticleSlot> = new Map();
+  private gazeHitTestSource: XRHitTestSource | null = null;
+  private transientHitTestSource: XRTransientInputHitTestSource | null = null;
+  private handHitTestSources: Map<XRHandedness, HandHitTestSource> = new Map();
   private referenceSpace: XRReferenceSpace | null = null;
+  // ヒットテストのないセッションで代わりに使うもの（VRの部屋・デスクトップの地面）
+  private hitTestProvider: HitTestProvider | null = null;
+  private viewerSpace: XRReferenceSpace | null = null;
+  // local-floorが使えない場合に上向きのヒットから推定した床の高さ
+  private floorHeight: number | null = null;
+  private hasFloorReferenceSpace = false;
   private lastHitPosition: THREE.Vector3 = new THREE.Vector3();
+  private activeHitTestSource: HitTestSourceKind | null = null;
+  // 現在のフレームのソースごとのヒット結果（絞り込み前、記録用）
+  private frameHitResults: Map<HitTestSourceKind, readonly XRHitTestResult[]> = new Map();
+  private pendingSpawnSlot: ReticleSlotId | null = null;
+  // 配置待ちのselectを発生させた入力ソース
+  private pendingSpawnInput: XRInputSource | null = null;
+  // 次のXRフレームでアンカーに紐づけるオブジェクト（複製など）
+  private pendingAnchors: THREE.Object3D[] = [];
+  private anchorManager: AnchorManager = new AnchorManager();
+  private preview: PlacementPreview;
+  private constraints: PlacementConstraints;
   private placedObjects: THREE.Object3D[] = [];
-  private objectCounter = 0;
+  // 破棄済みのオブジェクト（読み込み完了時の判定用）
+  private destroyedObjects: WeakSet<THREE.Object3D> = new WeakSet();
+  private catalog: SpawnCatalog;
+  private history: CommandHistory;
+  private planeManager: PlaneManager | null;
+  private selectArbiter: SelectArbiter | null;
+  private squeezeArbiter: SelectArbiter | null;
   private session: XRSession | null = null;
   private inputSourcesChangeListener: ((event: XRInputSourcesChangeEvent) => void) | null = null;
   private sessionEndListener: (() => void) | null = null;
 
-  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene) {
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    options: HitTestManagerOptions = {}
+  ) {
     this.renderer = renderer;
     this.scene = scene;
-    this.createReticle();
+    this.policy = createHitTestSourcePolicy(options.policy);
+    this.catalog = options.catalog ?? createDefaultCatalog();
+    this.history = options.history ?? new CommandHistory();
+    this.planeManager = options.planeManager ?? null;
+    this.selectArbiter = options.selectArbiter ?? null;
+    this.squeezeArbiter = options.squeezeArbiter ?? null;
+    this.preview = new PlacementPreview(scene);
+    this.constraints = new PlacementConstraints(scene);
+    this.createReticles();
     this.setupTapListener();
   }
 
+  /**
+   * レティクルの作成（両手モードでは左右の分も作成）
+   */
+  private createReticles() {
+    const slotIds: ReticleSlotId[] =
+      this.policy.handedness === "both" ? ["primary", "right", "left"] : ["primary"];
+
+    slotIds.forEach((slotId) => {
+      this.slots.set(slotId, {
+        reticle: this.createReticle(),
+        kind: null,
+        hit: null,
+        surface: null,
+        allowed: false,
+        flashing: false,
+      });
+    });
+  }
+
+  /**
+   * レティクルの破棄
+   */
+  private disposeReticles() {
+    this.slots.forEach(({ reticle }) => {
+      this.scene.remove(reticle);
+      reticle.geometry.dispose();
+      (reticle.material as THREE.Material).dispose();
+    });
+    this.slots.clear();
+  }
+
+  /**
+   * ヒットテストソースのポリシーを設定
+   * 実行中のセッションには影響せず、次のonSessionStartで適用する
+   */
+  setPolicy(policy: Partial<HitTestSourcePolicy>) {
+    this.nextPolicy = createHitTestSourcePolicy(policy);
+  }
+
   /**
    * レティクル（照準リング）の作成
    */
-  private createReticle() {
-    const geometry = new THREE.RingGeometry(0.1, 0.12, 32);
+  private createReticle(): THREE.Mesh {
+    // ヒット姿勢のY軸が法線なので、リングをXZ平面に寝かせる
+    const geometry = new THREE.RingGeometry(0.1, 0.12, 32).rotateX(-Math.PI / 2);
     const material = new THREE.MeshBasicMaterial({
-      color: 0x00ff00,
+      color: RETICLE_COLOR,
       opacity: 0.7,
       transparent: true,
       side: THREE.DoubleSide,
     });
 
-    this.reticleMesh = new THREE.Mesh(geometry, material);
-    this.reticleMesh.rotation.x = -Math.PI / 2; // 地面に平行に配置
-    this.reticleMesh.visible = false;
-    this.reticleMesh.matrixAutoUpdate = false;
+    const reticleMesh = new THREE.Mesh(geometry, material);
+    reticleMesh.visible = false;
+    reticleMesh.matrixAutoUpdate = false;
 
-    this.scene.add(this.reticleMesh);
+    this.scene.add(reticleMesh);
+    return reticleMesh;
   }
 
   /**
    * XRセッション開始時の処理
+   * referenceSpaceTypeはXRSessionControllerが確認済みのもの
+   * hitTestProviderを指定するとWebXRのヒットテストの代わりに、各ソースのレイをそれに当てる
+   * どちらも使えない場合はXRHitTestUnavailableErrorを投げる（セッション終了時に後片付けされる）
    */
-  async onSessionStart(session: XRSession) {
-    try {
-      this.session = session;
-      // reference spaceを取得（利用可能なものを順番に試す）
-      try {
-        this.referenceSpace = await session.requestReferenceSpace("local-floor");
-      } catch {
-        try {
-          this.referenceSpace = await session.requestReferenceSpace("local");
-        } catch {
-          this.referenceSpace = await session.requestReferenceSpace("viewer");
-        }
-      }
+  async onSessionStart(
+    session: XRSession,
+    referenceSpaceType: XRReferenceSpaceType = "local-floor",
+    hitTestProvider: HitTestProvider | null = null
+  ) {
+    // 使う手が変わるとレティクルの数も変わるので作り直す
+    if (this.nextPolicy) {
+      this.policy = this.nextPolicy;
+      this.nextPolicy = null;
+      this.disposeReticles();
+      this.createReticles();
+    }
 
-      // ヒットテストソースをセットアップ
-      const viewerSpace = await session.requestReferenceSpace("viewer");
-      if (session.requestHitTestSource) {
-        const hitTestSource = await session.requestHitTestSource({
-          space: viewerSpace,
-        });
-        this.hitTestSource = hitTestSource ?? null;
-      } else {
-        throw new Error("Hit test not supported");
+    this.session = session;
+    this.hitTestProvider = hitTestProvider;
+
+    const handleSessionEnd = () => {
+      this.clearHitTestSources();
+      this.anchorManager.onSessionEnd();
+      this.planeManager?.onSessionEnd();
+      this.referenceSpace = null;
+      this.hitTestProvider = null;
+      this.viewerSpace = null;
+      this.frameHitResults.clear();
+      this.pendingSpawnSlot = null;
+      this.pendingSpawnInput = null;
+      this.floorHeight = null;
+      this.preview.reset();
+      this.slots.forEach((slot) => {
+        slot.reticle.visible = false;
+        slot.kind = null;
+        slot.hit = null;
+        slot.surface = null;
+      });
+      this.setActiveHitTestSource(null);
+      if (this.session && this.inputSourcesChangeListener) {
+        this.session.removeEventListener("inputsourceschange", this.inputSourcesChangeListener);
       }
+      this.session = null;
+      this.sessionEndListener = null;
+      this.inputSourcesChangeListener = null;
+    };
 
-      // 右手入力ソースの監視とヒットテスト初期化
-      const trySetupRightHand = (inputSource: XRInputSource) => {
-        if (inputSource.handedness === "right" && inputSource.targetRaySpace) {
-          this.setupRightHandHitTest(session, inputSource);
-        }
-      };
+    session.addEventListener("end", handleSessionEnd);
+    this.sessionEndListener = handleSessionEnd;
 
-      session.inputSources.forEach((source) => trySetupRightHand(source));
+    this.referenceSpace = await session.requestReferenceSpace(referenceSpaceType);
+    // 床基準でない場合は上向きのヒットから床の高さを推定する
+    this.hasFloorReferenceSpace =
+      referenceSpaceType === "local-floor" || referenceSpaceType === "bounded-floor";
+    this.anchorManager.setSession(session, this.referenceSpace);
+    this.planeManager?.setSession(session, this.referenceSpace);
 
-      const handleInputSourcesChange = (event: XRInputSourcesChangeEvent) => {
-        event.added.forEach(trySetupRightHand);
+    // 代わりのヒットテストでは入力ソースのレイを毎フレーム当てる
+    if (hitTestProvider) {
+      this.viewerSpace = await session.requestReferenceSpace("viewer");
+      console.log("✅ Virtual hit test initialized");
+      await this.restoreAnchors();
+      return;
+    }
 
-        event.removed.forEach((inputSource: XRInputSource) => {
-          if (inputSource === this.rightHandInputSource) {
-            this.clearRightHandHitTest();
-          }
-        });
-      };
+    // ヒットテストソースをセットアップ
+    if (!session.requestHitTestSource) {
+      throw new XRHitTestUnavailableError();
+    }
+
+    if (this.policy.priority.includes("gaze")) {
+      const viewerSpace = await session.requestReferenceSpace("viewer");
+      const hitTestSource = await session.requestHitTestSource({
+        space: viewerSpace,
+      });
+      this.gazeHitTestSource = hitTestSource ?? null;
+    }
+
+    if (this.policy.priority.includes("transient")) {
+      await this.setupTransientHitTest(session);
+    }
+
+    // 手の入力ソースの監視とヒットテスト初期化
+    const hands = getPolicyHands(this.policy);
+    const trySetupHand = (inputSource: XRInputSource) => {
+      if (hands.includes(inputSource.handedness) && inputSource.targetRaySpace) {
+        this.setupHandHitTest(session, inputSource);
+      }
+    };
+
+    session.inputSources.forEach((source) => trySetupHand(source));
 
-      session.addEventListener("inputsourceschange", handleInputSourcesChange);
-      this.inputSourcesChangeListener = handleInputSourcesChange;
+    const handleInputSourcesChange = (event: XRInputSourcesChangeEvent) => {
+      event.added.forEach(trySetupHand);
 
-      const handleSessionEnd = () => {
-        this.clearRightHandHitTest();
-        if (this.session && this.inputSourcesChangeListener) {
-          this.session.removeEventListener("inputsourceschange", this.inputSourcesChangeListener);
+      event.removed.forEach((inputSource: XRInputSource) => {
+        if (this.handHitTestSources.get(inputSource.handedness)?.inputSource === inputSource) {
+          this.clearHandHitTest(inputSource.handedness);
         }
-        this.session = null;
-        this.sessionEndListener = null;
-        this.inputSourcesChangeListener = null;
-      };
+      });
+    };
 
-      session.addEventListener("end", handleSessionEnd);
-      this.sessionEndListener = handleSessionEnd;
+    session.addEventListener("inputsourceschange", handleInputSourcesChange);
+    this.inputSourcesChangeListener = handleInputSourcesChange;
 
-      console.log("✅ Hit test source initialized");
-      useXRStore.getState().setError(null);
-    } catch (error) {
-      console.error("❌ Failed to setup hit test:", error);
-      useXRStore.getState().setError("Hit test setup failed");
-    }
+    console.log("✅ Hit test source initialized");
+    await this.restoreAnchors();
+  }
+
+  /**
+   * 前回セッションで保存したアンカーを復元
+   */
+  private async restoreAnchors() {
+    await this.anchorManager.restore((catalogId) => {
+      const factory = this.catalog.get(catalogId);
+      if (!factory) return null;
+
+      const object = this.createPlacedObject(factory);
+      this.scene.add(object);
+      this.placedObjects.push(object);
+      return object;
+    });
   }
 
   /**
    * 毎フレーム実行される更新処理
    */
   update(frame?: XRFrame) {
-    if (!frame || !this.reticleMesh || !this.referenceSpace) {
+    if (!frame || !this.referenceSpace) {
       return;
     }
 
     try {
-      let hitTestResults: XRHitTestResult[] = [];
+      this.anchorManager.update(frame);
+      // ヒットの絞り込みに使うため、平面はヒットテストより先に更新
+      this.planeManager?.update(frame);
 
-      if (this.rightHandHitTestSource) {
-        hitTestResults = frame.getHitTestResults(this.rightHandHitTestSource);
-      }
+      const hits = this.collectHits(frame);
+      const bothHands = this.policy.handedness === "both";
+      const handHit = bothHands && (hits.has("right") || hits.has("left"));
+
+      // 通常のレティクルは優先順位で最初にヒットしたソースを使う
+      // 両手モードでは手のヒットがない場合のみ表示する
+      const primaryKind = handHit
+        ? null
+        : this.policy.priority.find(
+            (kind) => hits.has(kind) && !(bothHands && (kind === "right" || kind === "left"))
+          ) ?? null;
 
-      if (hitTestResults.length === 0 && this.hitTestSource) {
-        hitTestResults = frame.getHitTestResults(this.hitTestSource);
+      this.updateSlot("primary", primaryKind, hits);
+      if (bothHands) {
+        this.updateSlot("right", hits.has("right") ? "right" : null, hits);
+        this.updateSlot("left", hits.has("left") ? "left" : null, hits);
       }
 
-      if (hitTestResults.length > 0) {
-        const hit = hitTestResults[0];
-        const pose = hit.getPose(this.referenceSpace);
+      const visibleSlots = Array.from(this.slots.values()).filter((slot) => slot.reticle.visible);
+      const activeSlot = this.policy.priority
+        .map((kind) => visibleSlots.find((slot) => slot.kind === kind))
+        .find((slot) => slot !== undefined);
 
-        if (pose) {
-          // レティクルの位置と向きを更新
-          this.reticleMesh.matrix.fromArray(pose.transform.matrix);
-          this.reticleMesh.visible = true;
+      if (activeSlot) {
+        // 最後のヒット位置を保存
+        this.lastHitPosition.setFromMatrixPosition(activeSlot.reticle.matrix);
+      }
 
-          // 最後のヒット位置を保存
-          this.lastHitPosition.setFromMatrixPosition(this.reticleMesh.matrix);
+      // 配置予定のオブジェクトをレティクル位置にプレビュー
+      const factory = this.catalog.get(useXRStore.getState().activeSpawnItemId);
+      this.preview.setItem(factory);
+      const placement = activeSlot && factory ? this.computePlacement(activeSlot, factory) : null;
+      this.preview.update(frame, placement, (activeSlot?.allowed ?? false) && !!placement?.valid);
+      this.updateConstraintIndicator(activeSlot, placement);
 
-          // ストア更新
-          useXRStore.getState().setHitTestResults(hitTestResults);
-          useXRStore.getState().setReticleVisible(true);
-        }
-      } else {
-        // ヒット結果がない場合は非表示
-        this.reticleMesh.visible = false;
-        useXRStore.getState().setReticleVisible(false);
+      // タップされていれば、アクティブなフレーム内で配置（アンカー作成に必要）
+      if (this.pendingSpawnSlot) {
+        const slotId = this.pendingSpawnSlot;
+        const inputSource = this.pendingSpawnInput;
+        this.pendingSpawnSlot = null;
+        this.pendingSpawnInput = null;
+        this.spawnObjectAtHitPosition(slotId, frame, inputSource);
       }
+      this.anchorPendingObjects(frame);
+
+      // ストア更新
+      const store = useXRStore.getState();
+      const surfaceType = activeSlot?.surface?.type ?? null;
+      const placementAllowed = activeSlot?.allowed ?? false;
+      if (store.surfaceType !== surfaceType || store.placementAllowed !== placementAllowed) {
+        store.setPlacementSurface(surfaceType, placementAllowed);
+      }
+      store.setHitTestResults(
+        visibleSlots.map((slot) => slot.hit).filter((hit): hit is XRHitTestResult => !!hit)
+      );
+      store.setReticleVisible(visibleSlots.length > 0);
+      this.setActiveHitTestSource(activeSlot?.kind ?? null);
     } catch (error) {
       console.error("Hit test update error:", error);
     }
   }
 
+  /**
+   * 各ソースのヒット結果を収集
+   */
+  private collectHits(frame: XRFrame): Map<HitTestSourceKind, XRHitTestResult> {
+    const hits = new Map<HitTestSourceKind, XRHitTestResult>();
+    this.frameHitResults.clear();
+
+    if (this.hitTestProvider) {
+      this.collectProviderHits(frame, this.hitTestProvider).forEach((results, kind) => {
+        this.frameHitResults.set(kind, results);
+        const hit = this.pickHit(results);
+        if (hit) hits.set(kind, hit);
+      });
+      return hits;
+    }
+
+    this.handHitTestSources.forEach(({ source }, handedness) => {
+      const results = frame.getHitTestResults(source);
+      this.frameHitResults.set(handedness as HitTestSourceKind, results);
+      const hit = this.pickHit(results);
+      if (hit) {
+        hits.set(handedness as HitTestSourceKind, hit);
+      }
+    });
+
+    if (this.transientHitTestSource) {
+      const transientResults = frame.getHitTestResultsForTransientInput(
+        this.transientHitTestSource
+      );
+      for (const result of transientResults) {
+        this.frameHitResults.set("transient", result.results);
+        const hit = this.pickHit(result.results);
+        if (hit) {
+          hits.set("transient", hit);
+          break;
+        }
+      }
+    }
+
+    if (this.gazeHitTestSource) {
+      const results = frame.getHitTestResults(this.gazeHitTestSource);
+      this.frameHitResults.set("gaze", results);
+      const hit = this.pickHit(results);
+      if (hit) {
+        hits.set("gaze", hit);
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * 代わりのヒットテストで、ポリシーの各ソースのレイのヒット結果を求める
+   * 手はtargetRaySpace、transientは画面タップ、gazeはviewer空間のレイ
+   */
+  private collectProviderHits(
+    frame: XRFrame,
+    provider: HitTestProvider
+  ): Map<HitTestSourceKind, XRHitTestResult[]> {
+    const results = new Map<HitTestSourceKind, XRHitTestResult[]>();
+    const referenceSpace = this.referenceSpace;
+    if (!referenceSpace) return results;
+
+    const hitTest = (space: XRSpace | null) => {
+      const pose = space ? frame.getPose(space, referenceSpace) : undefined;
+      return pose ? provider.hitTest(rayFromPose(pose)).map(createHitTestResult) : [];
+    };
+
+    const hands = getPolicyHands(this.policy);
+    Array.from(frame.session.inputSources).forEach((inputSource) => {
+      if (hands.includes(inputSource.handedness) && inputSource.targetRayMode !== "screen") {
+        results.set(inputSource.handedness as HitTestSourceKind, hitTest(inputSource.targetRaySpace));
+      } else if (inputSource.targetRayMode === "screen" && this.policy.priority.includes("transient")) {
+        results.set("transient", hitTest(inputSource.targetRaySpace));
+      }
+    });
+
+    if (this.policy.priority.includes("gaze")) {
+      results.set("gaze", hitTest(this.viewerSpace));
+    }
+    return results;
+  }
+
+  /**
+   * 使用するヒット結果を選ぶ
+   * 平面に限定する設定では、検出された平面上にある最も近いヒットを使う
+   */
+  private pickHit(results: readonly XRHitTestResult[]): XRHitTestResult | null {
+    if (!this.planeManager || !useXRStore.getState().restrictHitTestToPlanes) {
+      return results[0] ?? null;
+    }
+
+    const matrix = new THREE.Matrix4();
+    return (
+      results.find((result) => {
+        const pose = this.referenceSpace && result.getPose(this.referenceSpace);
+        return !!pose && !!this.planeManager?.findPlaneAt(matrix.fromArray(pose.transform.matrix));
+      }) ?? null
+    );
+  }
+
+  /**
+   * レティクルの位置と向きを更新
+   */
+  private updateSlot(
+    slotId: ReticleSlotId,
+    kind: HitTestSourceKind | null,
+    hits: Map<HitTestSourceKind, XRHitTestResult>
+  ) {
+    const slot = this.slots.get(slotId);
+    if (!slot || !this.referenceSpace) return;
+
+    const hit = kind ? hits.get(kind) : undefined;
+    const pose = hit?.getPose(this.referenceSpace);
+
+    if (hit && pose) {
+      slot.reticle.matrix.fromArray(pose.transform.matrix);
+      slot.reticle.visible = true;
+      slot.kind = kind;
+      slot.hit = hit;
+
+      // 表面を分類し、選択中のオブジェクトが置けるか判定
+      const floorHeight = this.estimateFloorHeight(slot.reticle.matrix);
+      slot.surface = classifySurface(slot.reticle.matrix, floorHeight);
+      const factory = this.catalog.get(useXRStore.getState().activeSpawnItemId);
+      slot.allowed = factory?.surfaces.includes(slot.surface.type) ?? false;
+      if (!slot.flashing) {
+        this.setReticleColor(slot, slot.allowed ? RETICLE_COLOR : RETICLE_NOT_ALLOWED_COLOR);
+      }
+    } else {
+      // ヒット結果がない場合は非表示
+      slot.reticle.visible = false;
+      slot.kind = null;
+      slot.surface = slot.hit && this.pendingSpawnSlot === slotId ? slot.surface : null;
+      // 同じフレームの配置待ちがなければ結果を破棄
+      if (this.pendingSpawnSlot !== slotId) {
+        slot.hit = null;
+      }
+    }
+  }
+
+  /**
+   * 床の高さを取得
+   * local-floorが使えない場合は、これまでに見つかった最も低い上向きの面を床とみなす
+   */
+  private estimateFloorHeight(hitMatrix: THREE.Matrix4): number {
+    if (this.hasFloorReferenceSpace) {
+      return 0;
+    }
+
+    const upward = hitMatrix.elements[5] >= 0.75;
+    const height = hitMatrix.elements[13];
+    if (upward && (this.floorHeight === null || height < this.floorHeight)) {
+      this.floorHeight = height;
+    }
+    return this.floorHeight ?? height;
+  }
+
+  /**
+   * ヒットを生成したソースをストアに反映（変化した場合のみ）
+   */
+  private setActiveHitTestSource(kind: HitTestSourceKind | null) {
+    if (this.activeHitTestSource === kind) return;
+    this.activeHitTestSource = kind;
+    useXRStore.getState().setHitTestSource(kind);
+  }
+
   /**
    * タップイベントリスナーのセットアップ
    */
   private setupTapListener() {
-    const handleSelect = () => {
-      if (this.reticleMesh && this.reticleMesh.visible) {
-        this.spawnObjectAtHitPosition();
+    const handleSelect = (event: XRInputSourceEvent) => {
+      // オブジェクトを指している場合は選択を優先
+      if (this.selectArbiter?.claimsSelect(event)) return;
+
+      // ジェスチャー中やキャンセル直後のselectは配置しない
+      if (this.preview.consumeSelect()) return;
+
+      const slotId = this.resolveSelectSlot(event.inputSource);
+      if (slotId) {
+        // 配置は次のフレームのヒット結果で行う
+        this.pendingSpawnSlot = slotId;
+        this.pendingSpawnInput = event.inputSource;
       }
     };
 
@@ -179,73 +631,453 @@ export class HitTestManager {
       const session = this.renderer.xr.getSession();
       if (session) {
         session.addEventListener("select", handleSelect);
+        // squeezeでプレビューをキャンセル（オブジェクトを掴んだsqueezeは除く）
+        session.addEventListener("squeeze", (event) => {
+          if (this.squeezeArbiter?.claimsSelect(event)) return;
+          this.preview.cancel();
+        });
       }
     });
   }
 
   /**
-   * ヒット位置にオブジェクトを配置
+   * selectした入力ソースに対応するレティクルを決定
+   * 両手モードでは操作した手のレティクルを優先する
    */
-  private spawnObjectAtHitPosition() {
-    this.objectCounter++;
-    const objectType = this.objectCounter % 3;
+  private resolveSelectSlot(inputSource: XRInputSource): ReticleSlotId | null {
+    const isVisible = (slotId: ReticleSlotId) => this.slots.get(slotId)?.reticle.visible === true;
+    const isAllowed = (slotId: ReticleSlotId) =>
+      isVisible(slotId) && this.slots.get(slotId)?.allowed === true;
 
-    let geometry: THREE.BufferGeometry;
-    let material: THREE.Material;
+    if (
+      (inputSource.handedness === "right" || inputSource.handedness === "left") &&
+      isVisible(inputSource.handedness)
+    ) {
+      return isAllowed(inputSource.handedness) ? inputSource.handedness : null;
+    }
 
-    switch (objectType) {
-      case 0: // キューブ
-        geometry = new THREE.BoxGeometry(0.1, 0.1, 0.1);
-        material = new THREE.MeshStandardMaterial({
-          color: 0xff0000,
-          metalness: 0.3,
-          roughness: 0.7,
-        });
-        break;
-      case 1: // 球体
-        geometry = new THREE.SphereGeometry(0.05, 16, 16);
-        material = new THREE.MeshStandardMaterial({
-          color: 0x00ff00,
-          metalness: 0.5,
-          roughness: 0.5,
-        });
-        break;
-      case 2: // 円柱
-        geometry = new THREE.BoxGeometry(0.05, 0.15, 0.05);
-        material = new THREE.MeshStandardMaterial({
-          color: 0x0000ff,
-          metalness: 0.4,
-          roughness: 0.6,
-        });
-        break;
-      default:
-        return;
+    const candidates: ReticleSlotId[] = ["primary", "right", "left"];
+    const visibleSlot = candidates.find(isVisible);
+    if (visibleSlot && !isAllowed(visibleSlot)) {
+      console.log("🚫 The selected object cannot be placed on this surface");
+      return null;
+    }
+    return visibleSlot ?? null;
+  }
+
+  /**
+   * ヒット位置にストアで選択中のオブジェクトを配置し、アンカーに紐づける
+   */
+  private spawnObjectAtHitPosition(
+    slotId: ReticleSlotId,
+    frame: XRFrame,
+    inputSource: XRInputSource | null
+  ) {
+    const slot = this.slots.get(slotId);
+    if (!slot) return;
+
+    const itemId = useXRStore.getState().activeSpawnItemId;
+    const factory = this.catalog.get(itemId);
+    if (!factory) {
+      console.warn(`⚠️ Unknown spawn item: ${itemId}`);
+      return;
+    }
+
+    const hitMatrix = slot.reticle.matrix;
+    const surface = slot.surface;
+    const placement = this.computePlacement(slot, factory);
+    if (!surface || !placement || !factory.surfaces.includes(surface.type)) {
+      return;
+    }
+    if (!placement.valid) {
+      console.log("🚫 Placement overlaps an existing object");
+      return;
     }
 
-    const mesh = new THREE.Mesh(geometry, material);
-    mesh.position.copy(this.lastHitPosition);
-    mesh.position.y += 0.05; // 少し浮かせる
-    mesh.userData.interactive = true; // インタラクション可能フラグ
+    // プレビューで調整した向きと大きさで配置
+    const object = this.createPlacedObject(factory);
+    object.position.copy(placement.position);
+    object.quaternion.copy(placement.quaternion);
+    object.scale.setScalar(this.preview.getScale());
 
-    this.scene.add(mesh);
-    this.placedObjects.push(mesh);
+    this.scene.add(object);
+    this.placedObjects.push(object);
 
-    console.log(`✨ Object spawned (type: ${objectType})`);
+    void this.anchorManager.anchorObject(object, factory.id, hitMatrix, slot.hit, frame);
+
+    this.history.record({
+      label: `Spawn ${factory.id}`,
+      execute: () => this.attachObject(object),
+      undo: () => this.detachObject(object),
+      dispose: (state) => {
+        // 取り消されたまま履歴から外れた場合は二度と戻らない
+        if (state === "undone") this.destroyObject(object);
+      },
+    });
+
+    console.log(
+      `✨ Object spawned (type: ${factory.id}, surface: ${surface.type}, source: ${slot.kind ?? "last hit"})`
+    );
+    xrEvents.dispatchEvent({
+      type: "place",
+      object,
+      catalogId: factory.id,
+      pose: hitMatrix.clone(),
+      surface,
+      plane: this.planeManager?.findPlaneAt(hitMatrix) ?? null,
+      ...describeInput(inputSource),
+    });
 
     // レティクルの色を一時的に変更(フィードバック)
-    this.setReticleColor(0xffff00);
+    slot.flashing = true;
+    this.setReticleColor(slot, RETICLE_FEEDBACK_COLOR);
     setTimeout(() => {
-      this.setReticleColor(0x00ff00);
+      slot.flashing = false;
+      this.setReticleColor(slot, slot.allowed ? RETICLE_COLOR : RETICLE_NOT_ALLOWED_COLOR);
     }, 200);
   }
 
   /**
-   * レティクルの色を変更
+   * レティクル位置での配置姿勢を計算
+   * 表面の法線に合わせ、プレビューの回転と拡大率を適用する（オフセットも表面座標系）
+   * その後スナップと既存オブジェクトとの衝突判定を適用する
+   */
+  private computePlacement(slot: ReticleSlot, factory: SpawnFactory): PlacementResult | null {
+    if (!slot.surface) return null;
+
+    const hitMatrix = slot.reticle.matrix;
+    const quaternion = computeSurfaceAlignment(hitMatrix, slot.surface).multiply(
+      new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), this.preview.getRotation())
+    );
+    const offset = factory.placementOffset
+      .clone()
+      .multiplyScalar(this.preview.getScale())
+      .applyQuaternion(quaternion);
+
+    const constrained = this.constraints.apply(
+      new THREE.Vector3().setFromMatrixPosition(hitMatrix).add(offset),
+      quaternion,
+      this.preview.getScale(),
+      this.preview.getLocalBounds(),
+      slot.surface.normal,
+      this.placedObjects,
+      this.getConstraintSettings()
+    );
+
+    return { position: constrained.position, quaternion, valid: constrained.valid };
+  }
+
+  /**
+   * ストアからスナップと衝突判定の設定を取得
    */
-  private setReticleColor(color: number) {
-    if (this.reticleMesh) {
-      (this.reticleMesh.material as THREE.MeshBasicMaterial).color.setHex(color);
+  private getConstraintSettings() {
+    const { snapMode, gridSize, collisionMode } = useXRStore.getState();
+    return { snapMode, gridSize, collisionMode };
+  }
+
+  /**
+   * レティクル周りのスナップ・衝突判定の可視化を更新
+   */
+  private updateConstraintIndicator(slot: ReticleSlot | undefined, placement: PlacementResult | null) {
+    if (!slot?.surface || !placement || !slot.allowed) {
+      this.constraints.hideIndicator();
+      return;
     }
+
+    this.constraints.updateIndicator(
+      placement.position,
+      placement.valid,
+      new THREE.Vector3().setFromMatrixPosition(slot.reticle.matrix),
+      placement.quaternion,
+      this.preview.getScale(),
+      this.preview.getLocalBounds(),
+      slot.surface.normal,
+      this.getConstraintSettings()
+    );
+  }
+
+  /**
+   * ファクトリから配置用オブジェクトを生成
+   * 非同期のファクトリ（GLTFなど）に備えて、ルートのGroupは即座に返し中身は読み込み後に追加する
+   */
+  private createPlacedObject(
+    factory: SpawnFactory,
+    onContent?: (root: THREE.Group) => void
+  ): THREE.Group {
+    const root = new THREE.Group();
+    root.name = factory.id;
+    registerInteractive(root, factory.interactive); // インタラクション可能として登録
+    root.userData.catalogId = factory.id;
+
+    const attach = (content: THREE.Object3D) => {
+      // 読み込み中に破棄された場合は中身も破棄
+      if (this.destroyedObjects.has(root)) {
+        this.disposeObject(content);
+        return;
+      }
+      root.add(content);
+      onContent?.(root);
+    };
+
+    try {
+      const created = factory.create();
+      if (created instanceof Promise) {
+        created.then(attach).catch((error) => {
+          console.error(`❌ Failed to create "${factory.id}":`, error);
+        });
+      } else {
+        root.add(created);
+        onContent?.(root);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to create "${factory.id}":`, error);
+    }
+
+    return root;
+  }
+
+  /**
+   * 配置済みオブジェクトを削除（undo可能）
+   */
+  removeObject(object: THREE.Object3D) {
+    this.removeObjects([object]);
+  }
+
+  /**
+   * 複数のオブジェクトをまとめて削除（1回のundoで戻る）
+   */
+  removeObjects(objects: THREE.Object3D[]) {
+    const targets = objects.filter((object) => this.placedObjects.includes(object));
+    if (targets.length === 0) return;
+
+    this.history.execute({
+      label: targets.length === 1 ? `Delete ${targets[0].name}` : `Delete ${targets.length} objects`,
+      execute: () =>
+        targets.forEach((object) => {
+          this.detachObject(object);
+          xrEvents.dispatchEvent({ type: "remove", object });
+        }),
+      undo: () => targets.forEach((object) => this.attachObject(object)),
+      dispose: (state) => {
+        // 削除されたまま履歴から外れた場合はリソースを破棄
+        if (state === "done") targets.forEach((object) => this.destroyObject(object));
+      },
+    });
+  }
+
+  /**
+   * オブジェクトを複製（undo可能）
+   * 複製は元のオブジェクトの横に置き、次のXRフレームでアンカーに紐づける
+   */
+  duplicateObjects(objects: THREE.Object3D[]): THREE.Object3D[] {
+    const missing = new Set<string>();
+    const copies = objects
+      .filter((object) => this.placedObjects.includes(object))
+      .map((object) => {
+        const copy = this.createFromRecord(serializeObject(object, () => null), missing, false);
+        if (!copy) return null;
+
+        copy.position.add(
+          new THREE.Vector3(DUPLICATE_OFFSET, 0, 0).applyQuaternion(copy.quaternion)
+        );
+        return copy;
+      })
+      .filter((copy): copy is THREE.Object3D => copy !== null);
+
+    if (copies.length === 0) return [];
+
+    copies.forEach((copy) => {
+      this.attachObject(copy);
+      this.pendingAnchors.push(copy);
+    });
+
+    this.history.record({
+      label: `Duplicate ${copies.length} objects`,
+      execute: () => copies.forEach((copy) => this.attachObject(copy)),
+      undo: () => copies.forEach((copy) => this.detachObject(copy)),
+      dispose: (state) => {
+        if (state === "undone") copies.forEach((copy) => this.destroyObject(copy));
+      },
+    });
+
+    console.log(`📄 Duplicated ${copies.length} objects`);
+    return copies;
+  }
+
+  /**
+   * オブジェクトを1つのグループにまとめる（undo可能）
+   * グループは以降のレイキャストで1つのオブジェクトとして扱われる
+   */
+  groupObjects(objects: THREE.Object3D[]): THREE.Object3D | null {
+    const members = objects.filter((object) => this.placedObjects.includes(object));
+    if (members.length < 2) return null;
+
+    // グループの原点は底面の中心（拡大縮小しても表面から離れない）
+    const bounds = new THREE.Box3();
+    members.forEach((member) => bounds.expandByObject(member));
+    const center = bounds.getCenter(new THREE.Vector3());
+
+    const group = this.createGroup();
+    group.position.set(center.x, bounds.min.y, center.z);
+
+    const apply = () => {
+      this.scene.add(group);
+      this.placedObjects.push(group);
+      members.forEach((member) => group.attach(member));
+      this.placedObjects = this.placedObjects.filter((object) => !members.includes(object));
+    };
+    const revert = () => {
+      members.forEach((member) => this.scene.attach(member));
+      this.scene.remove(group);
+      this.placedObjects = this.placedObjects.filter((object) => object !== group);
+      this.placedObjects.push(...members);
+    };
+
+    this.history.execute({ label: "Group", execute: apply, undo: revert });
+    console.log(`🔗 Grouped ${members.length} objects`);
+    return group;
+  }
+
+  /**
+   * グループを解除（undo可能）
+   */
+  ungroupObject(group: THREE.Object3D): THREE.Object3D[] {
+    if (group.userData.catalogId !== GROUP_CATALOG_ID || !this.placedObjects.includes(group)) {
+      return [];
+    }
+
+    const members = group.children.filter((child) => interactiveRegistry.isRegistered(child));
+
+    const apply = () => {
+      members.forEach((member) => this.scene.attach(member));
+      this.scene.remove(group);
+      this.placedObjects = this.placedObjects.filter((object) => object !== group);
+      this.placedObjects.push(...members);
+    };
+    const revert = () => {
+      this.scene.add(group);
+      this.placedObjects.push(group);
+      members.forEach((member) => group.attach(member));
+      this.placedObjects = this.placedObjects.filter((object) => !members.includes(object));
+    };
+
+    this.history.execute({ label: "Ungroup", execute: apply, undo: revert });
+    console.log(`⛓️ Ungrouped ${members.length} objects`);
+    return members;
+  }
+
+  /**
+   * 移動・回転・拡大縮小の開始
+   * 操作中はアンカーの姿勢を反映せず、開始時の姿勢を返す
+   */
+  beginTransform(object: THREE.Object3D): ObjectTransform {
+    this.anchorManager.hold(object);
+    return captureTransform(object);
+  }
+
+  /**
+   * 移動・回転・拡大縮小の確定（undo可能）
+   * アンカーとの相対姿勢を現在の姿勢で更新する
+   */
+  commitTransform(object: THREE.Object3D, before: ObjectTransform) {
+    this.commitTransforms([{ object, before }]);
+  }
+
+  /**
+   * 複数のオブジェクトの姿勢の変更をまとめて確定（1回のundoで戻る）
+   * mergeKeyを指定すると、続けて確定した同じキーの変更を1回のundoにまとめる
+   */
+  commitTransforms(changes: TransformChange[], mergeKey?: string) {
+    changes.forEach(({ object }) => this.anchorManager.release(object));
+
+    const committed = changes
+      .filter(({ object }) => this.placedObjects.includes(object))
+      .map(({ object, before }) => ({ object, before, after: captureTransform(object) }))
+      .filter(({ before, after }) => !transformsEqual(before, after));
+    if (committed.length === 0) return;
+
+    const apply = (key: "before" | "after") => {
+      committed.forEach((change) => {
+        applyTransform(change.object, change[key]);
+        this.anchorManager.syncOffset(change.object);
+      });
+    };
+
+    this.history.record({
+      label:
+        committed.length === 1
+          ? `Transform ${committed[0].object.name}`
+          : `Transform ${committed.length} objects`,
+      execute: () => apply("after"),
+      undo: () => apply("before"),
+      mergeKey,
+    });
+  }
+
+  /**
+   * 物理演算で動いている間はアンカーの姿勢を反映しない
+   */
+  holdTransform(object: THREE.Object3D) {
+    this.anchorManager.hold(object);
+  }
+
+  /**
+   * 物理演算で止まった姿勢でアンカーとの相対姿勢を更新（undoには記録しない）
+   */
+  settleTransform(object: THREE.Object3D) {
+    this.anchorManager.release(object);
+  }
+
+  /**
+   * オブジェクトをシーンに戻す
+   */
+  private attachObject(object: THREE.Object3D) {
+    if (this.placedObjects.includes(object)) return;
+
+    this.scene.add(object);
+    this.placedObjects.push(object);
+    this.anchorManager.resume(object);
+  }
+
+  /**
+   * オブジェクトをシーンから外す（リソースは保持）
+   */
+  private detachObject(object: THREE.Object3D) {
+    this.scene.remove(object);
+    this.placedObjects = this.placedObjects.filter((item) => item !== object);
+    this.anchorManager.suspend(object);
+  }
+
+  /**
+   * オブジェクトとアンカーを完全に破棄
+   */
+  private destroyObject(object: THREE.Object3D) {
+    this.scene.remove(object);
+    this.placedObjects = this.placedObjects.filter((item) => item !== object);
+    this.anchorManager.detach(object);
+    this.destroyedObjects.add(object);
+    this.disposeObject(object);
+  }
+
+  /**
+   * オブジェクト配下のジオメトリとマテリアルを破棄
+   */
+  private disposeObject(object: THREE.Object3D) {
+    interactiveRegistry.unregisterTree(object);
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach((material: THREE.Material) => material.dispose());
+      }
+    });
+  }
+
+  /**
+   * レティクルの色を変更
+   */
+  private setReticleColor(slot: ReticleSlot, color: number) {
+    (slot.reticle.material as THREE.MeshBasicMaterial).color.setHex(color);
   }
 
   /**
@@ -255,6 +1087,13 @@ export class HitTestManager {
     return this.lastHitPosition.clone();
   }
 
+  /**
+   * スポーンカタログを取得（ファクトリの登録に使用）
+   */
+  getCatalog(): SpawnCatalog {
+    return this.catalog;
+  }
+
   /**
    * 配置済みオブジェクトを取得
    */
@@ -263,15 +1102,140 @@ export class HitTestManager {
   }
 
   /**
-   * クリーンアップ
+   * 現在のフレームのソースごとのヒット結果（update中のみ有効）
    */
-  dispose() {
-    this.clearRightHandHitTest();
+  getFrameHitResults(): ReadonlyMap<HitTestSourceKind, readonly XRHitTestResult[]> {
+    return this.frameHitResults;
+  }
+
+  /**
+   * オブジェクトのアンカーの状態
+   */
+  getAnchorInfo(object: THREE.Object3D): AnchorInfo | null {
+    return this.anchorManager.getAnchorInfo(object);
+  }
+
+  /**
+   * 配置済みオブジェクトをレイアウトとして書き出す
+   */
+  exportLayout(): RoomLayout {
+    return serializeLayout(this.placedObjects, (object) => this.anchorManager.getHandle(object));
+  }
 
-    if (this.hitTestSource) {
-      this.hitTestSource.cancel();
-      this.hitTestSource = null;
+  /**
+   * 配置済みオブジェクトを.glbとして書き出す
+   */
+  exportGLB(): Promise<ArrayBuffer> {
+    return exportLayoutAsGLB(this.placedObjects);
+  }
+
+  /**
+   * レイアウトからオブジェクトを再構築する
+   * カタログにない種類はスキップし、ストアのエラーとして報告する
+   */
+  importLayout(layout: RoomLayout) {
+    const missing = new Set<string>();
+    let imported = 0;
+
+    layout.objects.forEach((record) => {
+      // 同じ永続アンカーの配置が既にあれば重複させない
+      if (record.anchorHandle && this.anchorManager.hasHandle(record.anchorHandle)) {
+        return;
+      }
+
+      const object = this.createFromRecord(record, missing, true);
+      if (!object) return;
+
+      this.scene.add(object);
+      this.placedObjects.push(object);
+      imported++;
+    });
+
+    console.log(`📥 Layout imported (${imported} objects)`);
+
+    if (missing.size > 0) {
+      useXRStore
+        .getState()
+        .setError(`Layout contains unknown object types: ${Array.from(missing).join(", ")}`);
     }
+  }
+
+  /**
+   * レコードからオブジェクトを生成（グループは子も生成）
+   * カタログにない種類はmissingに追加してnullを返す
+   */
+  private createFromRecord(
+    record: LayoutObjectRecord,
+    missing: Set<string>,
+    attachAnchors: boolean
+  ): THREE.Object3D | null {
+    if (record.catalogId === GROUP_CATALOG_ID) {
+      const group = this.createGroup();
+      applyLayoutTransform(group, record);
+      record.children?.forEach((childRecord) => {
+        const child = this.createFromRecord(childRecord, missing, attachAnchors);
+        if (child) group.add(child);
+      });
+      return group;
+    }
+
+    const factory = this.catalog.get(record.catalogId);
+    if (!factory) {
+      missing.add(record.catalogId);
+      return null;
+    }
+
+    const object = this.createPlacedObject(factory, (root) => applyLayoutMaterials(root, record));
+    applyLayoutTransform(object, record);
+
+    if (attachAnchors && record.anchorHandle) {
+      void this.anchorManager.attachPersistent(object, factory.id, record.anchorHandle);
+    }
+    return object;
+  }
+
+  /**
+   * 空のグループを作成
+   */
+  private createGroup(): THREE.Group {
+    const group = new THREE.Group();
+    group.name = GROUP_CATALOG_ID;
+    registerInteractive(group);
+    group.userData.catalogId = GROUP_CATALOG_ID;
+    return group;
+  }
+
+  /**
+   * 複製などで追加したオブジェクトをアンカーに紐づける（グループは子ごと）
+   */
+  private anchorPendingObjects(frame: XRFrame) {
+    const pending = this.pendingAnchors;
+    this.pendingAnchors = [];
+
+    pending
+      .filter((object) => this.placedObjects.includes(object))
+      .forEach((root) =>
+        root.traverse((object) => {
+          const catalogId = object.userData.catalogId;
+          if (
+            typeof catalogId !== "string" ||
+            catalogId === GROUP_CATALOG_ID ||
+            this.anchorManager.isAnchored(object)
+          ) {
+            return;
+          }
+          object.updateWorldMatrix(true, false);
+          void this.anchorManager.anchorObject(object, catalogId, object.matrixWorld, null, frame);
+        })
+      );
+  }
+
+  /**
+   * クリーンアップ
+   */
+  dispose() {
+    this.clearHitTestSources();
+    this.preview.dispose();
 
     if (this.session && this.inputSourcesChangeListener) {
       this.session.removeEventListener("inputsourceschange", this.inputSourcesChangeListener);
@@ -285,34 +1249,56 @@ export class HitTestManager {
     this.inputSourcesChangeListener = null;
     this.sessionEndListener = null;
 
-    if (this.reticleMesh) {
-      this.scene.remove(this.reticleMesh);
-      this.reticleMesh.geometry.dispose();
-      (this.reticleMesh.material as THREE.Material).dispose();
-      this.reticleMesh = null;
-    }
+    this.disposeReticles();
 
     // 配置したオブジェクトをクリーンアップ
+    // 永続アンカーは次回セッションのために残す
+    this.anchorManager.dispose();
+    this.constraints.dispose();
     this.placedObjects.forEach((obj) => {
       this.scene.remove(obj);
-      if (obj instanceof THREE.Mesh) {
-        obj.geometry.dispose();
-        if (obj.material instanceof THREE.Material) {
-          obj.material.dispose();
-        }
-      }
+      this.destroyedObjects.add(obj);
+      this.disposeObject(obj);
     });
     this.placedObjects = [];
+    this.pendingAnchors = [];
+  }
+
+  /**
+   * 画面タップ（transient input）のヒットテストのセットアップ
+   */
+  private async setupTransientHitTest(session: XRSession) {
+    if (!session.requestHitTestSourceForTransientInput) {
+      console.warn("⚠️ Transient input hit test is unavailable on this session");
+      return;
+    }
+
+    try {
+      const source = await session.requestHitTestSourceForTransientInput({
+        profile: this.policy.transientProfile,
+      });
+      // 待機中にセッションが終了していれば破棄する（次のセッションに持ち越さない）
+      if (this.session !== session) {
+        source?.cancel();
+        return;
+      }
+      this.transientHitTestSource = source ?? null;
+      console.log("✅ Transient input hit test source initialized");
+    } catch (error) {
+      console.warn("⚠️ Failed to setup transient input hit test:", error);
+    }
   }
 
   /**
-   * 右手ヒットテストのセットアップ
+   * 手のヒットテストのセットアップ
    */
-  private async setupRightHandHitTest(session: XRSession, inputSource: XRInputSource) {
+  private async setupHandHitTest(session: XRSession, inputSource: XRInputSource) {
+    const handedness = inputSource.handedness;
+
     try {
       if (!inputSource.targetRaySpace) return;
 
-      this.clearRightHandHitTest();
+      this.clearHandHitTest(handedness);
 
       if (!session.requestHitTestSource) {
         console.warn("⚠️ requestHitTestSource is unavailable on this session");
@@ -322,23 +1308,50 @@ export class HitTestManager {
       const source = await session.requestHitTestSource({
         space: inputSource.targetRaySpace,
       });
+      if (!source) return;
 
-      this.rightHandHitTestSource = source ?? null;
-      this.rightHandInputSource = inputSource;
-      console.log("✅ Right-hand hit test source initialized");
+      // 待機中にセッションが終了した、または入力ソースが外れた場合は破棄する
+      if (this.session !== session || !Array.from(session.inputSources).includes(inputSource)) {
+        source.cancel();
+        return;
+      }
+
+      // 待機中に同じ手の別ソースが登録された場合は置き換える
+      this.clearHandHitTest(handedness);
+      this.handHitTestSources.set(handedness, { source, inputSource });
+      console.log(`✅ ${handedness}-hand hit test source initialized`);
     } catch (error) {
-      console.warn("⚠️ Failed to setup right-hand hit test:", error);
+      console.warn(`⚠️ Failed to setup ${handedness}-hand hit test:`, error);
     }
   }
 
   /**
-   * 右手ヒットテストの破棄
+   * 手のヒットテストの破棄
    */
-  private clearRightHandHitTest() {
-    if (this.rightHandHitTestSource) {
-      this.rightHandHitTestSource.cancel();
-      this.rightHandHitTestSource = null;
+  private clearHandHitTest(handedness: XRHandedness) {
+    const entry = this.handHitTestSources.get(handedness);
+    if (entry) {
+      entry.source.cancel();
+      this.handHitTestSources.delete(handedness);
+    }
+  }
+
+  /**
+   * すべてのヒットテストソースの破棄
+   */
+  private clearHitTestSources() {
+    Array.from(this.handHitTestSources.keys()).forEach((handedness) =>
+      this.clearHandHitTest(handedness)
+    );
+
+    if (this.gazeHitTestSource) {
+      this.gazeHitTestSource.cancel();
+      this.gazeHitTestSource = null;
+    }
+
+    if (this.transientHitTestSource) {
+      this.transientHitTestSource.cancel();
+      this.transientHitTestSource = null;
     }
-    this.rightHandInputSource = null;
   }
 }
@@ -0,0 +1,21 @@
+import * as THREE from "three";
+import type { RecordedPose } from "./XRRecording";
+
+/**
+ * レイに対するヒットテストの結果を返すもの（近い順の姿勢、Y軸が面の法線）
+ * ヒットテストのないセッション（VR・デスクトップ）では仮想の部屋や地面で代用する
+ */
+export interface HitTestProvider {
+  hitTest(ray: THREE.Ray): RecordedPose[];
+}
+
+/**
+ * XRの姿勢の-Z方向のレイ（targetRaySpace・viewer空間と同じ向き）
+ */
+export function rayFromPose(pose: XRPose): THREE.Ray {
+  const matrix = new THREE.Matrix4().fromArray(pose.transform.matrix);
+  return new THREE.Ray(
+    new THREE.Vector3().setFromMatrixPosition(matrix),
+    new THREE.Vector3(0, 0, -1).transformDirection(matrix)
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * ヒットテストソースの種類
+ * - right / left: 各手（コントローラー・ハンドトラッキング）のレイ
+ * - transient: スマートフォンの画面タップ（transient input）
+ * - gaze: 視線（viewer空間の正面方向）
+ */
+export type HitTestSourceKind = "right" | "left" | "transient" | "gaze";
+
+/**
+ * 使用する手
+ */
+export type HitTestHandedness = "right" | "left" | "both";
+
+/**
+ * HitTestSourcePolicy
+ * どのヒットテストソースをどの優先順位で使うかの設定
+ */
+export interface HitTestSourcePolicy {
+  // 使用する手（"both" の場合は左右それぞれにレティクルを表示）
+  handedness: HitTestHandedness;
+  // 優先順位（先頭ほど優先、含まれない種類は使用しない）
+  priority: HitTestSourceKind[];
+  // transient inputのプロファイル（画面タップ）
+  transientProfile: string;
+}
+
+export const DEFAULT_HIT_TEST_SOURCE_POLICY: HitTestSourcePolicy = {
+  handedness: "right",
+  priority: ["right", "left", "transient", "gaze"],
+  transientProfile: "generic-touchscreen",
+};
+
+/**
+ * 部分的な設定からポリシーを作成
+ */
+export function createHitTestSourcePolicy(
+  overrides: Partial<HitTestSourcePolicy> = {}
+): HitTestSourcePolicy {
+  return { ...DEFAULT_HIT_TEST_SOURCE_POLICY, ...overrides };
+}
+
+/**
+ * ポリシーで使用する手の一覧
+ */
+export function getPolicyHands(policy: HitTestSourcePolicy): XRHandedness[] {
+  const hands: XRHandedness[] =
+    policy.handedness === "both" ? ["right", "left"] : [policy.handedness];
+  return hands.filter((hand) => policy.priority.includes(hand as HitTestSourceKind));
+}
@@ -1,31 +1,129 @@
 import * as THREE from "three";
 import { useXRStore } from "../stores/xrStore";
+import { CommandHistory } from "./CommandHistory";
+import { EmissiveTintHighlight, HighlightStrategy } from "./HighlightStrategies";
+import type { SelectArbiter } from "./HitTestManager";
+import { interactiveRegistry } from "./InteractiveRegistry";
+import { XREventInput, createIntersectionPose, describeInput, xrEvents } from "./XREventBus";
+
+// ハイライトの色
+const HOVER_COLOR = 0x00ff00;
+const SELECT_COLOR = 0xff00ff;
+
+// レイの表示
+const RAY_COLOR = 0xffffff;
+const RAY_HOVER_COLOR = 0x00ff00;
+const RAY_DEFAULT_LENGTH = 2;
+const CURSOR_RADIUS = 0.01;
+
+/**
+ * ハイライトの用途（ホバーと選択で別の表示方法を使える）
+ */
+export type HighlightRole = "hover" | "select";
+
+const HIGHLIGHT_COLORS: Record<HighlightRole, number> = {
+  hover: HOVER_COLOR,
+  select: SELECT_COLOR,
+};
+
+/**
+ * ホバーしている入力（デスクトップのポインター、またはXRの入力ソース）
+ */
+type HoverSource = "pointer" | XRInputSource;
+
+/**
+ * スクリーン上の範囲選択（デスクトップ）
+ * - box: ドラッグした矩形
+ * - lasso: Altキーを押しながらなぞった多角形
+ */
+export type MarqueeShape = "box" | "lasso";
+
+interface ScreenSelection {
+  pointerId: number;
+  shape: MarqueeShape;
+  // Shift/Ctrlで既存の選択に追加
+  additive: boolean;
+  // キャンバス左上からのピクセル座標
+  points: THREE.Vector2[];
+  active: boolean;
+}
+
+// これ以上ドラッグしたら範囲選択とみなす（px）
+const MARQUEE_THRESHOLD = 5;
+
+/**
+ * XR入力ソースごとのレイ
+ */
+interface InputRay {
+  line: THREE.Line;
+  cursor: THREE.Mesh;
+  // selectstart時にレイが指していたオブジェクトと、その交差位置の姿勢
+  pressTarget: THREE.Object3D | null;
+  pressPose: THREE.Matrix4 | null;
+}
+
+/**
+ * selectの対象と交差位置の姿勢
+ */
+interface SelectTarget {
+  object: THREE.Object3D;
+  pose: THREE.Matrix4 | null;
+}
+
+/**
+ * 選択を変更した入力（select/deselectイベントに含める）
+ */
+interface SelectionOrigin extends XREventInput {
+  pose: THREE.Matrix4 | null;
+}
 
 /**
  * InteractionManager
  * 3Dオブジェクトとのインタラクションを管理
  * - レイキャスティングによるクリック/タップ検出
- * - ホバー効果
- * - ハイライト表示
+ * - XRでは各入力ソースのtargetRaySpaceからレイキャストし、レイとカーソルを表示
+ * - ホバー効果（手ごと）
+ * - 複数選択（Shift/Ctrlクリック、矩形・投げ縄選択、XRの選択モード）
+ * - ハイライト表示（用途ごとに差し替え可能なHighlightStrategy）
+ * - オブジェクトを指しているselectは配置より優先する（SelectArbiter）
+ * - ホバー・選択の変化はxrEventsのhover/hoverend/select/deselectイベントで通知する
  */
-export class InteractionManager {
+export class InteractionManager implements SelectArbiter {
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private raycaster: THREE.Raycaster;
   private pointer: THREE.Vector2;
-  private hoveredObject: THREE.Object3D | null = null;
-  private selectedObject: THREE.Object3D | null = null;
-  private originalColors: Map<number, THREE.Color> = new Map();
+  private hoveredObjects: Map<HoverSource, THREE.Object3D> = new Map();
+  // 選択中のオブジェクト（最後に選択したものが操作の基準）
+  private selectedObjects: THREE.Object3D[] = [];
+  private screenSelection: ScreenSelection | null = null;
+  private highlights: Record<HighlightRole, HighlightStrategy>;
+  private history: CommandHistory | null;
+  private rays: Map<XRInputSource, InputRay> = new Map();
+  private rayMatrix: THREE.Matrix4 = new THREE.Matrix4();
+  // 直前のレイキャストで最も近い交差
+  private lastIntersection: THREE.Intersection | null = null;
+  private session: XRSession | null = null;
+  // 次のクリック/selectを選択に使わない入力（ドラッグ操作の終了など）
+  private suppressedSelects: Set<HoverSource> = new Set();
 
   constructor(
     renderer: THREE.WebGLRenderer,
     scene: THREE.Scene,
-    camera: THREE.PerspectiveCamera
+    camera: THREE.PerspectiveCamera,
+    history: CommandHistory | null = null,
+    highlights: Partial<Record<HighlightRole, HighlightStrategy>> = {}
   ) {
     this.renderer = renderer;
     this.scene = scene;
     this.camera = camera;
+    this.history = history;
+    const defaultHighlight = new EmissiveTintHighlight();
+    this.highlights = {
+      hover: highlights.hover ?? defaultHighlight,
+      select: highlights.select ?? defaultHighlight,
+    };
     this.raycaster = new THREE.Raycaster();
     this.pointer = new THREE.Vector2();
 
@@ -38,167 +136,617 @@ export class InteractionManager {
   private setupEventListeners() {
     const canvas = this.renderer.domElement;
 
-    // ポインター移動
-    canvas.addEventListener("pointermove", this.onPointerMove.bind(this));
+    // ポインター移動と範囲選択
+    canvas.addEventListener("pointerdown", this.onPointerDown);
+    canvas.addEventListener("pointermove", this.onPointerMove);
+    canvas.addEventListener("pointerup", this.onPointerUp);
+    canvas.addEventListener("pointercancel", this.onPointerUp);
 
     // クリック/タップ
-    canvas.addEventListener("click", this.onClick.bind(this));
+    canvas.addEventListener("click", this.onClick);
 
     // XRセッションのselectイベント
-    this.renderer.xr.addEventListener("sessionstart", () => {
-      const session = this.renderer.xr.getSession();
-      if (session) {
-        // XR内でのselectイベントは別途処理する場合はここに追加
-      }
-    });
+    this.renderer.xr.addEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.addEventListener("sessionend", this.onSessionEnd);
   }
 
+  private onSessionStart = () => {
+    const session = this.renderer.xr.getSession();
+    if (!session) return;
+
+    this.session = session;
+    session.addEventListener("selectstart", this.onSelectStart);
+    session.addEventListener("select", this.onSelect);
+    session.addEventListener("selectend", this.onSelectEnd);
+    // デスクトップのポインターのホバーは解除
+    this.setHover("pointer", null);
+  };
+
+  private onSessionEnd = () => {
+    this.removeSessionListeners();
+    this.rays.forEach((_ray, inputSource) => this.removeRay(inputSource));
+  };
+
   /**
    * ポインター移動時の処理
    */
-  private onPointerMove(event: PointerEvent) {
+  private onPointerMove = (event: PointerEvent) => {
     // XRセッション中は無効
     if (this.renderer.xr.isPresenting) return;
 
     const rect = this.renderer.domElement.getBoundingClientRect();
     this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
     this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-  }
+
+    // 範囲選択
+    const selection = this.screenSelection;
+    if (!selection || selection.pointerId !== event.pointerId) return;
+
+    const point = new THREE.Vector2(event.clientX - rect.left, event.clientY - rect.top);
+    if (selection.shape === "lasso" || selection.points.length === 1) {
+      selection.points.push(point);
+    } else {
+      selection.points[1] = point;
+    }
+    if (!selection.active && point.distanceTo(selection.points[0]) > MARQUEE_THRESHOLD) {
+      selection.active = true;
+    }
+    if (selection.active) {
+      useXRStore.getState().setSelectionMarquee({
+        shape: selection.shape,
+        points: selection.points.map((p) => [p.x, p.y] as [number, number]),
+      });
+    }
+  };
+
+  /**
+   * 何もない場所を押したら範囲選択を開始
+   */
+  private onPointerDown = (event: PointerEvent) => {
+    if (this.renderer.xr.isPresenting || event.button !== 0 || this.screenSelection) return;
+
+    this.onPointerMove(event);
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    if (this.intersectInteractive()) return;
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.screenSelection = {
+      pointerId: event.pointerId,
+      shape: event.altKey ? "lasso" : "box",
+      additive: this.isAdditive(event),
+      points: [new THREE.Vector2(event.clientX - rect.left, event.clientY - rect.top)],
+      active: false,
+    };
+  };
+
+  /**
+   * 範囲選択の確定
+   */
+  private onPointerUp = (event: PointerEvent) => {
+    const selection = this.screenSelection;
+    if (!selection || selection.pointerId !== event.pointerId) return;
+
+    this.cancelScreenSelection();
+    if (!selection.active) return;
+
+    const inside = this.findObjectsInScreenSelection(selection);
+    const next = selection.additive
+      ? [...this.selectedObjects, ...inside.filter((object) => !this.selectedObjects.includes(object))]
+      : inside;
+    this.changeSelection(next, { ...describeInput(null), pose: null });
+
+    // 範囲選択の後のクリックで選択を解除しない
+    this.suppressNextSelect("pointer");
+  };
 
   /**
    * クリック時の処理
    */
-  private onClick() {
-    // XRセッション中は無効（ヒットテストで処理）
+  private onClick = (event: MouseEvent) => {
+    // XRセッション中は無効（selectイベントで処理）
     if (this.renderer.xr.isPresenting) return;
+    if (this.suppressedSelects.delete("pointer")) return;
 
-    const intersects = this.getIntersects();
-    if (intersects.length > 0) {
-      const object = intersects[0].object;
-      this.selectObject(object);
-    } else {
-      this.deselectObject();
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const object = this.intersectInteractive();
+    const origin = { ...describeInput(null), pose: this.getIntersectionPose() };
+    const additive = this.isAdditive(event);
+    if (object) {
+      this.selectObject(object, additive, origin);
+    } else if (!additive) {
+      this.deselectObject(origin);
+    }
+  };
+
+  /**
+   * 既存の選択に追加するか（Shift/Ctrl、または選択モード）
+   */
+  private isAdditive(event: MouseEvent): boolean {
+    return event.shiftKey || event.ctrlKey || event.metaKey || useXRStore.getState().xrSelectMode;
+  }
+
+  /**
+   * XRのselectstart: 押した時点でレイが指しているオブジェクトを記録
+   */
+  private onSelectStart = (event: XRInputSourceEvent) => {
+    const target = this.raycastInputSource(event.inputSource, event.frame);
+    const ray = this.ensureRay(event.inputSource);
+    ray.pressTarget = target;
+    ray.pressPose = target ? this.getIntersectionPose() : null;
+  };
+
+  /**
+   * XRのselect: オブジェクトを指していれば選択を切り替える
+   */
+  private onSelect = (event: XRInputSourceEvent) => {
+    if (this.suppressedSelects.delete(event.inputSource)) return;
+
+    // 選択モードでは1つずつ選択に追加する
+    const target = this.findSelectTarget(event);
+    if (target) {
+      this.selectObject(target.object, useXRStore.getState().xrSelectMode, {
+        ...describeInput(event.inputSource),
+        pose: target.pose,
+      });
+    }
+  };
+
+  private onSelectEnd = (event: XRInputSourceEvent) => {
+    // selectが発生しなかった場合（キャンセルなど）も抑制を解除
+    this.suppressedSelects.delete(event.inputSource);
+    const ray = this.rays.get(event.inputSource);
+    if (ray) {
+      ray.pressTarget = null;
+      ray.pressPose = null;
     }
+  };
+
+  /**
+   * 次のクリック（"pointer"）またはselectで選択を切り替えない
+   * ドラッグで移動した後に選択が解除されないようにする
+   */
+  suppressNextSelect(source: XRInputSource | "pointer") {
+    this.suppressedSelects.add(source);
+  }
+
+  /**
+   * 範囲選択を中止（オブジェクトの操作が始まった場合など）
+   */
+  cancelScreenSelection() {
+    if (!this.screenSelection) return;
+    this.screenSelection = null;
+    useXRStore.getState().setSelectionMarquee(null);
+  }
+
+  /**
+   * 入力ソースのレイが指しているオブジェクト
+   */
+  getTargetObject(inputSource: XRInputSource, frame: XRFrame): THREE.Object3D | null {
+    return this.raycastInputSource(inputSource, frame);
+  }
+
+  /**
+   * selectがオブジェクトの選択に使われる場合はtrue（配置しない）
+   */
+  claimsSelect(event: XRInputSourceEvent): boolean {
+    return this.findSelectTarget(event) !== null;
   }
 
   /**
    * 毎フレーム実行される更新処理
    */
-  update() {
-    // XRセッション中は無効
-    if (this.renderer.xr.isPresenting) return;
+  update(frame?: XRFrame) {
+    // 削除されたオブジェクトの選択・ホバーを解除（履歴には残さない）
+    if (this.selectedObjects.some((object) => !this.isInScene(object))) {
+      this.applySelection(this.selectedObjects.filter((object) => this.isInScene(object)));
+    }
+    this.hoveredObjects.forEach((object, source) => {
+      if (!this.isInScene(object)) this.setHover(source, null);
+    });
+    this.highlights.hover.update();
+    if (this.highlights.select !== this.highlights.hover) {
+      this.highlights.select.update();
+    }
+
+    if (this.renderer.xr.isPresenting) {
+      if (frame) this.updateInputRays(frame);
+      return;
+    }
 
-    const intersects = this.getIntersects();
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    this.setHover("pointer", this.intersectInteractive(), this.lastIntersection);
+  }
+
+  /**
+   * 各入力ソースのレイキャスト、ホバーとレイ表示の更新
+   */
+  private updateInputRays(frame: XRFrame) {
+    const inputSources = new Set<XRInputSource>(frame.session.inputSources);
+
+    // 無くなった入力ソースのレイとホバーを削除
+    this.rays.forEach((_ray, inputSource) => {
+      if (!inputSources.has(inputSource)) this.removeRay(inputSource);
+    });
 
-    if (intersects.length > 0) {
-      const object = intersects[0].object;
+    inputSources.forEach((inputSource) => {
+      const target = this.raycastInputSource(inputSource, frame);
+      this.setHover(inputSource, target, this.lastIntersection);
 
-      // ホバー状態の更新
-      if (this.hoveredObject !== object) {
-        // 前のホバーオブジェクトをリセット
-        if (this.hoveredObject) {
-          this.unhighlightObject(this.hoveredObject);
-        }
+      // 画面タップや視線のレイは表示しない
+      if (inputSource.targetRayMode !== "tracked-pointer") return;
 
-        // 新しいホバーオブジェクトをハイライト
-        this.hoveredObject = object;
-        this.highlightObject(object, 0x00ff00); // 緑でハイライト
+      const ray = this.ensureRay(inputSource);
+      const visible = this.raycaster.ray.direction.lengthSq() > 0;
+      ray.line.visible = visible;
 
-        useXRStore.getState().hoverObject(object.uuid);
+      const intersection = target ? this.lastIntersection : null;
+      const length = intersection?.distance ?? RAY_DEFAULT_LENGTH;
+      ray.line.position.copy(this.raycaster.ray.origin);
+      ray.line.quaternion.setFromRotationMatrix(this.rayMatrix);
+      ray.line.scale.set(1, 1, length);
+      (ray.line.material as THREE.LineBasicMaterial).color.setHex(
+        target ? RAY_HOVER_COLOR : RAY_COLOR
+      );
+
+      ray.cursor.visible = visible && !!intersection;
+      if (intersection) {
+        ray.cursor.position.copy(intersection.point);
       }
-    } else {
-      // ホバー解除
-      if (this.hoveredObject) {
-        this.unhighlightObject(this.hoveredObject);
-        this.hoveredObject = null;
-        useXRStore.getState().hoverObject(null);
+    });
+  }
+
+  /**
+   * 入力ソースのtargetRaySpaceからレイキャストし、指しているオブジェクトを返す
+   */
+  private raycastInputSource(inputSource: XRInputSource, frame: XRFrame): THREE.Object3D | null {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    const pose = referenceSpace ? frame.getPose(inputSource.targetRaySpace, referenceSpace) : null;
+    if (!pose) {
+      this.raycaster.ray.direction.set(0, 0, 0);
+      this.lastIntersection = null;
+      return null;
+    }
+
+    // targetRaySpaceの-Z方向がレイの向き
+    this.rayMatrix.fromArray(pose.transform.matrix);
+    this.raycaster.ray.origin.setFromMatrixPosition(this.rayMatrix);
+    this.raycaster.ray.direction.set(0, 0, -1).transformDirection(this.rayMatrix);
+    return this.intersectInteractive();
+  }
+
+  /**
+   * selectの対象（selectstart時の対象、なければ現在のレイが指すオブジェクト）
+   */
+  private findSelectTarget(event: XRInputSourceEvent): SelectTarget | null {
+    const ray = this.rays.get(event.inputSource);
+    if (ray?.pressTarget?.parent) {
+      return { object: ray.pressTarget, pose: ray.pressPose };
+    }
+    const object = this.raycastInputSource(event.inputSource, event.frame);
+    return object ? { object, pose: this.getIntersectionPose() } : null;
+  }
+
+  /**
+   * 直前のレイキャストの交差位置の姿勢
+   */
+  private getIntersectionPose(): THREE.Matrix4 | null {
+    return this.lastIntersection ? createIntersectionPose(this.lastIntersection) : null;
+  }
+
+  /**
+   * レイキャスティングで交差するインタラクティブなオブジェクトを取得
+   * ネストしたメッシュへのヒットは登録された最も外側のオブジェクトに解決する
+   */
+  private intersectInteractive(): THREE.Object3D | null {
+    const intersects = interactiveRegistry.intersect(this.raycaster, this.scene);
+    this.lastIntersection = intersects[0] ?? null;
+    return intersects.length > 0 ? interactiveRegistry.resolveRoot(intersects[0].object) : null;
+  }
+
+  /**
+   * オブジェクトがシーンに含まれているか（グループの子を含む）
+   */
+  private isInScene(object: THREE.Object3D): boolean {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (current === this.scene) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 範囲選択に中心が含まれるオブジェクト
+   */
+  private findObjectsInScreenSelection(selection: ScreenSelection): THREE.Object3D[] {
+    const canvas = this.renderer.domElement;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    const [start, end] = selection.points;
+    const min = new THREE.Vector2(Math.min(start.x, end.x), Math.min(start.y, end.y));
+    const max = new THREE.Vector2(Math.max(start.x, end.x), Math.max(start.y, end.y));
+
+    return interactiveRegistry.getRoots(this.scene).filter((object) => {
+      const center = new THREE.Box3().setFromObject(object).getCenter(new THREE.Vector3());
+      center.project(this.camera);
+      // カメラの後ろ
+      if (center.z > 1) return false;
+
+      const point = new THREE.Vector2(((center.x + 1) / 2) * width, ((1 - center.y) / 2) * height);
+      if (selection.shape === "box") {
+        return point.x >= min.x && point.x <= max.x && point.y >= min.y && point.y <= max.y;
+      }
+      return this.isInsidePolygon(point, selection.points);
+    });
+  }
+
+  /**
+   * 多角形の内外判定
+   */
+  private isInsidePolygon(point: THREE.Vector2, polygon: THREE.Vector2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
       }
     }
+    return inside;
   }
 
   /**
-   * レイキャスティングで交差するオブジェクトを取得
+   * 入力ごとのホバー状態を更新
    */
-  private getIntersects(): THREE.Intersection[] {
-    this.raycaster.setFromCamera(this.pointer, this.camera);
+  private setHover(
+    source: HoverSource,
+    object: THREE.Object3D | null,
+    intersection: THREE.Intersection | null = null
+  ) {
+    const previous = this.hoveredObjects.get(source) ?? null;
+    if (previous === object) return;
 
-    // インタラクティブなオブジェクトのみを対象
-    const interactiveObjects = this.scene.children.filter(
-      (obj) => obj.userData.interactive === true
-    );
+    if (object) {
+      this.hoveredObjects.set(source, object);
+    } else {
+      this.hoveredObjects.delete(source);
+    }
+    this.refreshHighlight(previous);
+    this.refreshHighlight(object);
 
-    return this.raycaster.intersectObjects(interactiveObjects, true);
+    // ストアには右手を優先して1つだけ反映
+    const hovered =
+      Array.from(this.hoveredObjects.entries()).find(
+        ([key]) => key !== "pointer" && key.handedness === "right"
+      )?.[1] ??
+      this.hoveredObjects.values().next().value ??
+      null;
+    useXRStore.getState().hoverObject(hovered?.uuid ?? null);
+
+    const input = describeInput(source === "pointer" ? null : source);
+    if (previous) {
+      xrEvents.dispatchEvent({ type: "hoverend", object: previous, ...input });
+    }
+    if (object) {
+      xrEvents.dispatchEvent({
+        type: "hover",
+        object,
+        pose: intersection ? createIntersectionPose(intersection) : null,
+        ...input,
+      });
+    }
   }
 
   /**
    * オブジェクトを選択
+   * additiveなら選択に追加・除外し、そうでなければそのオブジェクトだけを選択する
    */
-  private selectObject(object: THREE.Object3D) {
-    // 既に選択されている場合は解除
-    if (this.selectedObject === object) {
-      this.deselectObject();
+  private selectObject(
+    object: THREE.Object3D,
+    additive = false,
+    origin: SelectionOrigin | null = null
+  ) {
+    const selected = this.selectedObjects.includes(object);
+
+    if (additive) {
+      this.changeSelection(
+        selected
+          ? this.selectedObjects.filter((item) => item !== object)
+          : [...this.selectedObjects, object],
+        origin
+      );
       return;
     }
 
-    // 前の選択を解除
-    if (this.selectedObject) {
-      this.unhighlightObject(this.selectedObject);
+    // 既にそれだけが選択されている場合は解除
+    if (selected && this.selectedObjects.length === 1) {
+      this.deselectObject(origin);
+      return;
     }
 
-    // 新しいオブジェクトを選択
-    this.selectedObject = object;
-    this.highlightObject(object, 0xff00ff); // 紫でハイライト
-
-    useXRStore.getState().selectObject(object.uuid);
-    console.log(`Object selected: ${object.uuid}`);
+    this.changeSelection([object], origin);
   }
 
   /**
    * オブジェクトの選択を解除
    */
-  private deselectObject() {
-    if (this.selectedObject) {
-      this.unhighlightObject(this.selectedObject);
-      this.selectedObject = null;
-      useXRStore.getState().selectObject(null);
+  private deselectObject(origin: SelectionOrigin | null = null) {
+    if (this.selectedObjects.length > 0) {
+      this.changeSelection([], origin);
+    }
+  }
+
+  /**
+   * 選択の変更を履歴に記録して適用
+   * 入力の情報はundo/redoではなく最初の適用時のイベントにだけ含める
+   */
+  private changeSelection(next: THREE.Object3D[], origin: SelectionOrigin | null = null) {
+    const previous = this.selectedObjects;
+    let pendingOrigin = origin;
+    const command = {
+      label: next.length > 0 ? "Select" : "Deselect",
+      execute: () => {
+        this.applySelection(next, pendingOrigin);
+        pendingOrigin = null;
+      },
+      undo: () => this.applySelection(previous),
+    };
+
+    if (this.history) {
+      this.history.execute(command);
+    } else {
+      command.execute();
+    }
+  }
+
+  /**
+   * 選択状態を適用
+   */
+  private applySelection(objects: THREE.Object3D[], origin: SelectionOrigin | null = null) {
+    const previous = this.selectedObjects;
+
+    // 削除済みのオブジェクトは選択しない
+    this.selectedObjects = objects.filter((object) => this.isInScene(object));
+    previous.forEach((object) => this.refreshHighlight(object));
+    this.selectedObjects.forEach((object) => this.refreshHighlight(object));
+
+    const event = {
+      selection: [...this.selectedObjects],
+      ...(origin ?? { ...describeInput(null), pose: null }),
+    };
+    previous
+      .filter((object) => !this.selectedObjects.includes(object))
+      .forEach((object) => xrEvents.dispatchEvent({ type: "deselect", object, ...event }));
+    this.selectedObjects
+      .filter((object) => !previous.includes(object))
+      .forEach((object) => xrEvents.dispatchEvent({ type: "select", object, ...event }));
+
+    useXRStore.getState().setSelectedObjects(this.selectedObjects.map((object) => object.uuid));
+    if (this.selectedObjects.length > 0) {
+      console.log(`Objects selected: ${this.selectedObjects.length}`);
+    } else if (previous.length > 0) {
       console.log("Object deselected");
     }
   }
 
   /**
-   * オブジェクトをハイライト
+   * UI（オブジェクト一覧など）からの選択（履歴に記録）
    */
-  private highlightObject(object: THREE.Object3D, color: number) {
-    object.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
-        // 元の色を保存
-        if (!this.originalColors.has(child.id)) {
-          this.originalColors.set(child.id, child.material.color.clone());
-        }
+  select(object: THREE.Object3D, additive = false) {
+    this.selectObject(object, additive);
+  }
 
-        // ハイライト色を適用
-        child.material.color.setHex(color);
-        child.material.emissive.setHex(color);
-        child.material.emissiveIntensity = 0.3;
-      }
-    });
+  /**
+   * 選択を置き換える（グループ化や複製の結果を選択する場合など、履歴には残さない）
+   */
+  setSelection(objects: THREE.Object3D[]) {
+    this.applySelection(objects);
   }
 
   /**
-   * オブジェクトのハイライトを解除
+   * 操作の基準となる選択中のオブジェクト（最後に選択したもの）を取得
    */
-  private unhighlightObject(object: THREE.Object3D) {
-    object.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
-        // 元の色に戻す
-        const originalColor = this.originalColors.get(child.id);
-        if (originalColor) {
-          child.material.color.copy(originalColor);
-        }
-        child.material.emissive.setHex(0x000000);
-        child.material.emissiveIntensity = 0;
-      }
+  getSelectedObject(): THREE.Object3D | null {
+    return this.selectedObjects[this.selectedObjects.length - 1] ?? null;
+  }
+
+  /**
+   * 選択中のオブジェクトをすべて取得
+   */
+  getSelectedObjects(): THREE.Object3D[] {
+    return [...this.selectedObjects];
+  }
+
+  /**
+   * 選択・ホバーの状態に合わせてハイライトを更新（選択を優先）
+   */
+  private refreshHighlight(object: THREE.Object3D | null) {
+    if (!object) return;
+
+    const role: HighlightRole | null = this.selectedObjects.includes(object)
+      ? "select"
+      : Array.from(this.hoveredObjects.values()).includes(object)
+        ? "hover"
+        : null;
+    const active = role ? this.highlights[role] : null;
+
+    // 他の用途のハイライトを外してから適用
+    (Object.values(this.highlights) as HighlightStrategy[]).forEach((strategy) => {
+      if (strategy !== active) strategy.remove(object);
     });
+    if (role && active) {
+      active.apply(object, HIGHLIGHT_COLORS[role]);
+    }
+  }
+
+  /**
+   * ホバーまたは選択のハイライトの表示方法を変更
+   */
+  setHighlightStrategy(role: HighlightRole, strategy: HighlightStrategy) {
+    const previous = this.highlights[role];
+    if (previous === strategy) return;
+
+    const objects = this.getHighlightedObjects();
+    objects.forEach((object) => previous.remove(object));
+    this.highlights[role] = strategy;
+    objects.forEach((object) => this.refreshHighlight(object));
+  }
+
+  /**
+   * ホバーまたは選択でハイライト中のオブジェクト
+   */
+  private getHighlightedObjects(): THREE.Object3D[] {
+    return Array.from(new Set([...this.selectedObjects, ...this.hoveredObjects.values()]));
+  }
+
+  /**
+   * 入力ソースのレイとカーソルを作成（既にあればそれを返す）
+   */
+  private ensureRay(inputSource: XRInputSource): InputRay {
+    const existing = this.rays.get(inputSource);
+    if (existing) return existing;
+
+    const line = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0, 0, -1),
+      ]),
+      new THREE.LineBasicMaterial({ color: RAY_COLOR, transparent: true, opacity: 0.8 })
+    );
+    line.visible = false;
+
+    const cursor = new THREE.Mesh(
+      new THREE.SphereGeometry(CURSOR_RADIUS, 16, 8),
+      new THREE.MeshBasicMaterial({ color: RAY_HOVER_COLOR })
+    );
+    cursor.visible = false;
+
+    this.scene.add(line);
+    this.scene.add(cursor);
+
+    const ray: InputRay = { line, cursor, pressTarget: null, pressPose: null };
+    this.rays.set(inputSource, ray);
+    return ray;
+  }
+
+  private removeRay(inputSource: XRInputSource) {
+    const ray = this.rays.get(inputSource);
+    this.setHover(inputSource, null);
+    if (!ray) return;
+
+    this.scene.remove(ray.line);
+    this.scene.remove(ray.cursor);
+    ray.line.geometry.dispose();
+    (ray.line.material as THREE.Material).dispose();
+    ray.cursor.geometry.dispose();
+    (ray.cursor.material as THREE.Material).dispose();
+    this.rays.delete(inputSource);
+  }
+
+  private removeSessionListeners() {
+    if (!this.session) return;
+    this.session.removeEventListener("selectstart", this.onSelectStart);
+    this.session.removeEventListener("select", this.onSelect);
+    this.session.removeEventListener("selectend", this.onSelectEnd);
+    this.session = null;
   }
 
   /**
@@ -206,11 +754,23 @@ export class InteractionManager {
    */
   dispose() {
     const canvas = this.renderer.domElement;
-    canvas.removeEventListener("pointermove", this.onPointerMove.bind(this));
-    canvas.removeEventListener("click", this.onClick.bind(this));
+    canvas.removeEventListener("pointerdown", this.onPointerDown);
+    canvas.removeEventListener("pointermove", this.onPointerMove);
+    canvas.removeEventListener("pointerup", this.onPointerUp);
+    canvas.removeEventListener("pointercancel", this.onPointerUp);
+    canvas.removeEventListener("click", this.onClick);
+    this.cancelScreenSelection();
+    this.renderer.xr.removeEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.removeEventListener("sessionend", this.onSessionEnd);
+    this.removeSessionListeners();
+    this.rays.forEach((_ray, inputSource) => this.removeRay(inputSource));
 
-    this.originalColors.clear();
-    this.hoveredObject = null;
-    this.selectedObject = null;
+    // ハイライトを外す（ストラテジー自体の破棄は作成した側で行う）
+    this.getHighlightedObjects().forEach((object) =>
+      Object.values(this.highlights).forEach((strategy) => strategy.remove(object))
+    );
+    this.hoveredObjects.clear();
+    this.suppressedSelects.clear();
+    this.selectedObjects = [];
   }
 }
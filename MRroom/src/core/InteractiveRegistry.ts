@@ -0,0 +1,268 @@
+import * as THREE from "three";
+import { MeshBVH } from "./MeshBVH";
+import { computeLocalBounds } from "./ObjectBounds";
+
+/**
+ * インタラクティブなオブジェクトのレイヤー（既定）
+ * レンダリング用のレイヤー0はそのまま残し、レイキャスト用に追加で有効にする
+ */
+export const INTERACTIVE_LAYER = 1;
+
+// これ以上の三角形を持つメッシュにBVHを構築
+const BVH_MIN_TRIANGLES = 512;
+
+/**
+ * 登録時のオプション
+ */
+export interface InteractiveOptions {
+  // レイキャストに使うレイヤー
+  layer?: number;
+  // 高ポリゴンのメッシュにBVHを構築してレイキャストを高速化
+  bvh?: boolean;
+}
+
+/**
+ * 登録されたオブジェクト
+ */
+interface InteractiveEntry {
+  object: THREE.Object3D;
+  layer: number;
+  bvh: boolean;
+  // このオブジェクトが直接持つメッシュ（登録された子孫の中のメッシュは含まない）
+  meshes: THREE.Mesh[];
+  // メッシュ全体を囲む球（オブジェクトのローカル座標、メッシュがなければnull）
+  bounds: THREE.Sphere | null;
+  // 子の追加・削除でメッシュを集め直す
+  dirty: boolean;
+  onHierarchyChange: () => void;
+}
+
+/**
+ * InteractiveRegistry
+ * レイキャストの対象となるオブジェクトの登録簿
+ * - ネストした階層（グループやGLTFモデル）のメッシュへのヒットを、登録された最も外側の祖先に解決
+ * - レイヤーマスクで対象を絞り込み、オブジェクトごとの境界球で交差しないものを省略
+ * - オプションで高ポリゴンのメッシュにBVHを使用
+ */
+export class InteractiveRegistry {
+  private entries: Map<THREE.Object3D, InteractiveEntry> = new Map();
+  private bvhs: WeakMap<THREE.BufferGeometry, MeshBVH> = new WeakMap();
+  private worldBounds: THREE.Sphere = new THREE.Sphere();
+
+  /**
+   * オブジェクトを登録（既に登録済みならオプションを更新）
+   */
+  register(object: THREE.Object3D, options: InteractiveOptions = {}) {
+    const existing = this.entries.get(object);
+    if (existing) this.unregister(object);
+
+    const entry: InteractiveEntry = {
+      object,
+      layer: options.layer ?? INTERACTIVE_LAYER,
+      bvh: options.bvh ?? false,
+      meshes: [],
+      bounds: null,
+      dirty: true,
+      onHierarchyChange: () => {
+        entry.dirty = true;
+        this.markAncestorsDirty(object);
+      },
+    };
+    object.addEventListener("childadded", entry.onHierarchyChange);
+    object.addEventListener("childremoved", entry.onHierarchyChange);
+    this.entries.set(object, entry);
+    // 祖先が直接持つメッシュからこのオブジェクトの分を外す
+    this.markAncestorsDirty(object);
+  }
+
+  /**
+   * 登録を解除（レイヤーとBVHも元に戻す）
+   */
+  unregister(object: THREE.Object3D) {
+    const entry = this.entries.get(object);
+    if (!entry) return;
+
+    object.removeEventListener("childadded", entry.onHierarchyChange);
+    object.removeEventListener("childremoved", entry.onHierarchyChange);
+    entry.meshes.forEach((mesh) => this.releaseMesh(mesh, entry));
+    this.entries.delete(object);
+    this.markAncestorsDirty(object);
+  }
+
+  /**
+   * オブジェクトと子孫の登録をまとめて解除
+   */
+  unregisterTree(object: THREE.Object3D) {
+    object.traverse((child) => this.unregister(child));
+  }
+
+  isRegistered(object: THREE.Object3D): boolean {
+    return this.entries.has(object);
+  }
+
+  /**
+   * 子孫の構造を変更した場合に呼ぶ（直接の子の追加・削除は自動で検出）
+   */
+  refresh(object: THREE.Object3D) {
+    const entry = this.entries.get(object);
+    if (entry) entry.dirty = true;
+  }
+
+  /**
+   * ヒットしたオブジェクトを、登録された最も外側の祖先に解決（登録されていなければnull）
+   * グループ化されたオブジェクトはグループ全体が1つの対象になる
+   */
+  resolveRoot(object: THREE.Object3D): THREE.Object3D | null {
+    let root: THREE.Object3D | null = null;
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (this.entries.has(current)) root = current;
+    }
+    return root;
+  }
+
+  /**
+   * sceneに表示されている、登録された最も外側のオブジェクト
+   */
+  getRoots(scene: THREE.Object3D, layers?: THREE.Layers): THREE.Object3D[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => !layers || layers.isEnabled(entry.layer))
+      .map((entry) => entry.object)
+      .filter((object) => this.resolveRoot(object) === object && this.isActive(object, scene));
+  }
+
+  /**
+   * sceneに表示されている登録オブジェクトとの交差（近い順）
+   * layersを指定しない場合は登録されたすべてのレイヤーが対象
+   */
+  intersect(
+    raycaster: THREE.Raycaster,
+    scene: THREE.Object3D,
+    layers: THREE.Layers = this.getLayers()
+  ): THREE.Intersection[] {
+    const intersects: THREE.Intersection[] = [];
+    const mask = raycaster.layers.mask;
+    raycaster.layers.mask = layers.mask;
+
+    this.entries.forEach((entry) => {
+      if (!layers.isEnabled(entry.layer)) return;
+      if (entry.dirty) this.collectMeshes(entry);
+      if (!entry.bounds) return;
+
+      // 境界球と交差しないオブジェクトは省略
+      this.worldBounds.copy(entry.bounds).applyMatrix4(entry.object.matrixWorld);
+      if (!raycaster.ray.intersectsSphere(this.worldBounds)) return;
+      if (!this.isActive(entry.object, scene)) return;
+
+      entry.meshes.forEach((mesh) => raycaster.intersectObject(mesh, false, intersects));
+    });
+
+    raycaster.layers.mask = mask;
+    return intersects.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * 登録されたすべてのレイヤー
+   */
+  getLayers(): THREE.Layers {
+    const layers = new THREE.Layers();
+    layers.disableAll();
+    this.entries.forEach((entry) => layers.enable(entry.layer));
+    return layers;
+  }
+
+  /**
+   * このオブジェクトが直接持つメッシュを集め、レイヤー・BVH・境界球を設定
+   */
+  private collectMeshes(entry: InteractiveEntry) {
+    const previous = entry.meshes;
+    entry.meshes = [];
+
+    const visit = (object: THREE.Object3D) => {
+      if (object instanceof THREE.Mesh) entry.meshes.push(object);
+      object.children.forEach((child) => {
+        if (!this.entries.has(child)) visit(child);
+      });
+    };
+    visit(entry.object);
+
+    previous
+      .filter((mesh) => !entry.meshes.includes(mesh))
+      .forEach((mesh) => this.releaseMesh(mesh, entry));
+
+    entry.meshes.forEach((mesh) => {
+      mesh.layers.enable(entry.layer);
+      if (entry.bvh) this.applyBVH(mesh);
+    });
+
+    const box = computeLocalBounds(entry.object, entry.meshes);
+    entry.bounds = box.isEmpty() ? null : box.getBoundingSphere(new THREE.Sphere());
+    entry.dirty = false;
+  }
+
+  /**
+   * 高ポリゴンのメッシュのレイキャストをBVHに差し替え（ジオメトリごとに1回だけ構築）
+   */
+  private applyBVH(mesh: THREE.Mesh) {
+    if (Object.prototype.hasOwnProperty.call(mesh, "raycast")) return;
+
+    const position = mesh.geometry.getAttribute("position");
+    const triangles = (mesh.geometry.getIndex()?.count ?? position?.count ?? 0) / 3;
+    if (!position || triangles < BVH_MIN_TRIANGLES) return;
+
+    let bvh = this.bvhs.get(mesh.geometry);
+    if (!bvh) {
+      bvh = new MeshBVH(mesh.geometry);
+      this.bvhs.set(mesh.geometry, bvh);
+      console.log(`🌲 BVH built (${bvh.triangleCount} triangles)`);
+    }
+    const geometryBVH = bvh;
+    mesh.raycast = (raycaster, intersects) => geometryBVH.raycast(mesh, raycaster, intersects);
+  }
+
+  /**
+   * メッシュのレイヤーとレイキャストを元に戻す
+   */
+  private releaseMesh(mesh: THREE.Mesh, entry: InteractiveEntry) {
+    mesh.layers.disable(entry.layer);
+    if (Object.prototype.hasOwnProperty.call(mesh, "raycast")) {
+      delete (mesh as Partial<THREE.Mesh>).raycast;
+    }
+  }
+
+  private markAncestorsDirty(object: THREE.Object3D) {
+    for (let current = object.parent; current; current = current.parent) {
+      const entry = this.entries.get(current);
+      if (entry) entry.dirty = true;
+    }
+  }
+
+  /**
+   * オブジェクトと祖先がすべて表示されていて、sceneに含まれているか
+   */
+  private isActive(object: THREE.Object3D, scene: THREE.Object3D): boolean {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (!current.visible) return false;
+      if (current === scene) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * アプリ全体で共有する登録簿
+ */
+export const interactiveRegistry = new InteractiveRegistry();
+
+/**
+ * オブジェクトをインタラクティブとして登録
+ */
+export function registerInteractive(object: THREE.Object3D, options: InteractiveOptions = {}) {
+  interactiveRegistry.register(object, options);
+}
+
+/**
+ * インタラクティブの登録を解除
+ */
+export function unregisterInteractive(object: THREE.Object3D) {
+  interactiveRegistry.unregister(object);
+}
@@ -0,0 +1,163 @@
+import * as THREE from "three";
+import { afterEach, describe, expect, it } from "vitest";
+import { interactiveRegistry } from "./InteractiveRegistry";
+import {
+  GROUP_CATALOG_ID,
+  LAYOUT_SCHEMA_VERSION,
+  LayoutSchemaError,
+  applyLayoutMaterials,
+  applyLayoutTransform,
+  parseLayout,
+  serializeLayout,
+} from "./LayoutSerializer";
+
+function createObject(catalogId: string, color: number): THREE.Mesh {
+  const mesh = new THREE.Mesh(
+    new THREE.BoxGeometry(0.1, 0.1, 0.1),
+    new THREE.MeshStandardMaterial({ color, roughness: 0.4, metalness: 0.2 })
+  );
+  mesh.userData.catalogId = catalogId;
+  return mesh;
+}
+
+const registered: THREE.Object3D[] = [];
+
+function register(object: THREE.Object3D) {
+  interactiveRegistry.register(object);
+  registered.push(object);
+}
+
+afterEach(() => {
+  registered.splice(0).forEach((object) => interactiveRegistry.unregister(object));
+});
+
+describe("serializeLayout / parseLayout", () => {
+  it("round-trips transforms, materials and anchor handles", () => {
+    const cube = createObject("cube", 0x4488ff);
+    cube.name = "Blue cube";
+    cube.position.set(0.5, 0.75, -1);
+    cube.quaternion.setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 4);
+    cube.scale.setScalar(1.5);
+    const handles = new Map<THREE.Object3D, string>([[cube, "anchor-1"]]);
+
+    const layout = serializeLayout([cube], (object) => handles.get(object) ?? null);
+    const parsed = parseLayout(JSON.stringify(layout));
+
+    expect(parsed.schemaVersion).toBe(LAYOUT_SCHEMA_VERSION);
+    expect(parsed.objects).toHaveLength(1);
+    const [record] = parsed.objects;
+    expect(record.catalogId).toBe("cube");
+    expect(record.anchorHandle).toBe("anchor-1");
+    expect(record.materials[0].color).toBe("#4488ff");
+
+    const restored = createObject("cube", 0xffffff);
+    applyLayoutTransform(restored, record);
+    applyLayoutMaterials(restored, record);
+
+    expect(restored.name).toBe("Blue cube");
+    expect(restored.position.toArray()).toEqual(cube.position.toArray());
+    expect(restored.quaternion.angleTo(cube.quaternion)).toBeCloseTo(0);
+    expect(restored.scale.toArray()).toEqual([1.5, 1.5, 1.5]);
+    const material = restored.material as THREE.MeshStandardMaterial;
+    expect(material.color.getHex()).toBe(0x4488ff);
+    expect(material.roughness).toBeCloseTo(0.4);
+    expect(material.metalness).toBeCloseTo(0.2);
+  });
+
+  it("serializes the registered children of groups", () => {
+    const group = new THREE.Group();
+    group.userData.catalogId = GROUP_CATALOG_ID;
+    const child = createObject("sphere", 0xff0000);
+    child.position.set(0.2, 0, 0);
+    group.add(child);
+    // 登録されていない子（ハイライトなど）は書き出さない
+    group.add(new THREE.Object3D());
+    register(child);
+
+    const layout = parseLayout(JSON.stringify(serializeLayout([group], () => null)));
+
+    const [record] = layout.objects;
+    expect(record.catalogId).toBe(GROUP_CATALOG_ID);
+    expect(record.materials).toEqual([]);
+    expect(record.children).toHaveLength(1);
+    expect(record.children?.[0].catalogId).toBe("sphere");
+    expect(record.children?.[0].position).toEqual([0.2, 0, 0]);
+  });
+
+  it("accepts version 1 layouts without groups", () => {
+    const json = JSON.stringify({
+      schemaVersion: 1,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      objects: [
+        {
+          catalogId: "cube",
+          name: "Cube",
+          position: [0, 0, 0],
+          quaternion: [0, 0, 0, 1],
+          scale: [1, 1, 1],
+          materials: [],
+          anchorHandle: null,
+        },
+      ],
+    });
+
+    expect(parseLayout(json).objects[0].catalogId).toBe("cube");
+  });
+});
+
+describe("parseLayout errors", () => {
+  const validRecord = {
+    catalogId: "cube",
+    name: "Cube",
+    position: [0, 0, 0],
+    quaternion: [0, 0, 0, 1],
+    scale: [1, 1, 1],
+    materials: [],
+    anchorHandle: null,
+  };
+
+  const layoutWith = (objects: unknown) =>
+    JSON.stringify({ schemaVersion: LAYOUT_SCHEMA_VERSION, createdAt: "", objects });
+
+  it("rejects text that is not JSON", () => {
+    expect(() => parseLayout("{ not json")).toThrow(LayoutSchemaError);
+  });
+
+  it("rejects values that are not objects", () => {
+    expect(() => parseLayout("null")).toThrow("Layout file is not an object");
+    expect(() => parseLayout("42")).toThrow(LayoutSchemaError);
+  });
+
+  it("rejects unsupported schema versions", () => {
+    const json = JSON.stringify({ schemaVersion: 99, createdAt: "", objects: [] });
+
+    expect(() => parseLayout(json)).toThrow("Layout schema version 99 is not supported");
+  });
+
+  it("rejects layouts without an objects array", () => {
+    expect(() => parseLayout(layoutWith({}))).toThrow("Layout has no objects array");
+  });
+
+  it.each([
+    ["a missing catalogId", { ...validRecord, catalogId: undefined }],
+    ["a short position", { ...validRecord, position: [0, 0] }],
+    ["a non-numeric quaternion", { ...validRecord, quaternion: [0, 0, 0, "1"] }],
+    ["a non-finite scale", { ...validRecord, scale: [1, null, 1] }],
+    ["a null record", null],
+  ])("rejects records with %s", (_, record) => {
+    expect(() => parseLayout(layoutWith([record]))).toThrow("Layout object #0 is malformed");
+  });
+
+  it("reports the path of malformed group children", () => {
+    const group = {
+      ...validRecord,
+      catalogId: GROUP_CATALOG_ID,
+      children: [validRecord, { ...validRecord, scale: [1, 1] }],
+    };
+
+    expect(() => parseLayout(layoutWith([group]))).toThrow("Layout object #0.1 is malformed");
+    expect(() => parseLayout(layoutWith([{ ...group, children: {} }]))).toThrow(
+      "Layout object #0 has malformed children"
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { getOriginalMaterial } from "./HighlightStrategies";
+import { interactiveRegistry } from "./InteractiveRegistry";
+
+/**
+ * レイアウトJSONのスキーマバージョン
+ * フィールドを変更した場合はインクリメントする
+ */
+export const LAYOUT_SCHEMA_VERSION = 2;
+
+// 読み込める旧バージョン（v1はグループなし）
+const SUPPORTED_SCHEMA_VERSIONS = [1, LAYOUT_SCHEMA_VERSION];
+
+/**
+ * グループのcatalogId（カタログには登録されない）
+ */
+export const GROUP_CATALOG_ID = "group";
+
+/**
+ * メッシュごとのマテリアルパラメータ
+ */
+export interface LayoutMaterialParams {
+  color?: string;
+  emissive?: string;
+  emissiveIntensity?: number;
+  metalness?: number;
+  roughness?: number;
+  opacity?: number;
+}
+
+/**
+ * 配置オブジェクト1つ分のレコード
+ */
+export interface LayoutObjectRecord {
+  catalogId: string;
+  name: string;
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  scale: [number, number, number];
+  // 配下のメッシュを走査した順のマテリアル
+  materials: LayoutMaterialParams[];
+  // 永続アンカーのハンドル（なければnull）
+  anchorHandle: string | null;
+  // グループの子（親のローカル座標、v2以降）
+  children?: LayoutObjectRecord[];
+}
+
+/**
+ * 部屋のレイアウト
+ */
+export interface RoomLayout {
+  schemaVersion: number;
+  createdAt: string;
+  objects: LayoutObjectRecord[];
+}
+
+/**
+ * レイアウトの形式エラー
+ */
+export class LayoutSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LayoutSchemaError";
+  }
+}
+
+/**
+ * 配置済みオブジェクトをレイアウトに変換
+ */
+export function serializeLayout(
+  objects: THREE.Object3D[],
+  getAnchorHandle: (object: THREE.Object3D) => string | null
+): RoomLayout {
+  return {
+    schemaVersion: LAYOUT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    objects: objects.map((object) => serializeObject(object, getAnchorHandle)),
+  };
+}
+
+/**
+ * オブジェクト1つ分のレコード（グループは子も含める）
+ */
+export function serializeObject(
+  object: THREE.Object3D,
+  getAnchorHandle: (object: THREE.Object3D) => string | null
+): LayoutObjectRecord {
+  const record: LayoutObjectRecord = {
+    catalogId: object.userData.catalogId as string,
+    name: object.name,
+    position: object.position.toArray() as [number, number, number],
+    quaternion: object.quaternion.toArray() as [number, number, number, number],
+    scale: object.scale.toArray() as [number, number, number],
+    materials: object.userData.catalogId === GROUP_CATALOG_ID ? [] : collectMaterials(object),
+    anchorHandle: getAnchorHandle(object),
+  };
+
+  if (object.userData.catalogId === GROUP_CATALOG_ID) {
+    record.children = object.children
+      .filter((child) => interactiveRegistry.isRegistered(child))
+      .map((child) => serializeObject(child, getAnchorHandle));
+  }
+
+  return record;
+}
+
+/**
+ * JSON文字列からレイアウトを読み込む
+ * スキーマバージョンが異なる、または形式が不正な場合はLayoutSchemaErrorを投げる
+ */
+export function parseLayout(json: string): RoomLayout {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new LayoutSchemaError("Layout file is not valid JSON");
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new LayoutSchemaError("Layout file is not an object");
+  }
+
+  const layout = data as Partial<RoomLayout>;
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(layout.schemaVersion as number)) {
+    throw new LayoutSchemaError(
+      `Layout schema version ${String(layout.schemaVersion)} is not supported (expected ${LAYOUT_SCHEMA_VERSION})`
+    );
+  }
+
+  if (!Array.isArray(layout.objects)) {
+    throw new LayoutSchemaError("Layout has no objects array");
+  }
+
+  layout.objects.forEach((record, index) => validateRecord(record, `#${index}`));
+
+  return layout as RoomLayout;
+}
+
+/**
+ * レコードの形式を検証（グループは子も検証）
+ */
+function validateRecord(record: LayoutObjectRecord, path: string) {
+  if (
+    typeof record?.catalogId !== "string" ||
+    !isNumberTuple(record.position, 3) ||
+    !isNumberTuple(record.quaternion, 4) ||
+    !isNumberTuple(record.scale, 3)
+  ) {
+    throw new LayoutSchemaError(`Layout object ${path} is malformed`);
+  }
+
+  if (record.children !== undefined) {
+    if (!Array.isArray(record.children)) {
+      throw new LayoutSchemaError(`Layout object ${path} has malformed children`);
+    }
+    record.children.forEach((child, index) => validateRecord(child, `${path}.${index}`));
+  }
+}
+
+/**
+ * レコードのトランスフォームとマテリアルをオブジェクトに適用
+ */
+export function applyLayoutTransform(object: THREE.Object3D, record: LayoutObjectRecord) {
+  object.name = record.name || object.name;
+  object.position.fromArray(record.position);
+  object.quaternion.fromArray(record.quaternion);
+  object.scale.fromArray(record.scale);
+}
+
+/**
+ * レコードのマテリアルパラメータを適用（メッシュの走査順で対応付け）
+ */
+export function applyLayoutMaterials(object: THREE.Object3D, record: LayoutObjectRecord) {
+  let index = 0;
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    const params = record.materials?.[index++];
+    const material = child.material;
+    if (!params || !(material instanceof THREE.MeshStandardMaterial)) return;
+
+    if (params.color !== undefined) material.color.set(params.color);
+    if (params.emissive !== undefined) material.emissive.set(params.emissive);
+    if (params.emissiveIntensity !== undefined) material.emissiveIntensity = params.emissiveIntensity;
+    if (params.metalness !== undefined) material.metalness = params.metalness;
+    if (params.roughness !== undefined) material.roughness = params.roughness;
+    if (params.opacity !== undefined) {
+      material.opacity = params.opacity;
+      material.transparent = params.opacity < 1;
+    }
+  });
+}
+
+/**
+ * 配置済みオブジェクトを.glbとして書き出す
+ */
+export async function exportLayoutAsGLB(objects: THREE.Object3D[]): Promise<ArrayBuffer> {
+  const exporter = new GLTFExporter();
+  const result = await exporter.parseAsync(objects, { binary: true });
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error("GLTFExporter did not return binary data");
+  }
+  return result;
+}
+
+/**
+ * データをファイルとしてダウンロード
+ */
+export function downloadFile(data: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 配下のメッシュのマテリアルパラメータを収集
+ */
+function collectMaterials(object: THREE.Object3D): LayoutMaterialParams[] {
+  const materials: LayoutMaterialParams[] = [];
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    // ハイライトで色付け中のメッシュは元のマテリアルを書き出す
+    const material = getOriginalMaterial(child);
+    if (material instanceof THREE.MeshStandardMaterial) {
+      materials.push({
+        color: `#${material.color.getHexString()}`,
+        emissive: `#${material.emissive.getHexString()}`,
+        emissiveIntensity: material.emissiveIntensity,
+        metalness: material.metalness,
+        roughness: material.roughness,
+        opacity: material.opacity,
+      });
+    } else {
+      materials.push({});
+    }
+  });
+  return materials;
+}
+
+function isNumberTuple(value: unknown, length: number): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === length &&
+    value.every((item) => typeof item === "number" && Number.isFinite(item))
+  );
+}
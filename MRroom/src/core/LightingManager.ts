@@ -0,0 +1,368 @@
+import * as THREE from "three";
+import { useXRStore } from "../stores/xrStore";
+import type { HitTestManager } from "./HitTestManager";
+import { computeLocalBounds } from "./ObjectBounds";
+import { XREvent, xrEvents } from "./XREventBus";
+
+/**
+ * シーンの照明
+ * - fixed: 固定の環境光と平行光（ライト推定が使えない場合）
+ * - estimated: WebXRのライト推定（XRLightProbe）
+ */
+export type LightingSource = "fixed" | "estimated";
+
+// 固定のライト（推定が使えない場合）
+const FIXED_AMBIENT_INTENSITY = 0.8;
+const FIXED_KEY_INTENSITY = 0.5;
+const FIXED_KEY_DIRECTION = new THREE.Vector3(0, 10, 10).normalize();
+
+// 影を落とす範囲（頭を中心とした、m）
+const SHADOW_EXTENT = 3;
+const SHADOW_LIGHT_DISTANCE = 10;
+const SHADOW_MAP_SIZE = 1024;
+
+// 影を受ける板の不透明度と、オブジェクトの大きさに対する板の大きさ
+const SHADOW_OPACITY = 0.35;
+const CATCHER_SIZE_RATIO = 2.5;
+// 表面とのZファイティングを避けるための浮かせ（m）
+const CATCHER_LIFT = 0.002;
+
+// 推定した環境マップのキューブマップの大きさ（実際の大きさはブラウザが決める）
+const ENVIRONMENT_MAP_SIZE = 16;
+
+/**
+ * 配置したオブジェクトの影を受ける板
+ */
+interface ShadowCatcher {
+  mesh: THREE.Mesh;
+  // オブジェクトから見た板の姿勢
+  local: THREE.Matrix4;
+}
+
+/**
+ * LightingManager
+ * 現実の照明に合わせてシーンを照らし、配置したオブジェクトの影を現実の表面に落とす
+ * - light-estimationが有効なら、XRLightProbeの推定で主光源の向き・色・強さと球面調和の環境光を更新する
+ * - XRWebGLBindingで反射用のキューブマップが得られれば、scene.environmentに使う
+ * - 推定が使えない（未対応・未許可・VR・デスクトップ）場合は固定のライトで照らす
+ * - 配置したオブジェクトごとに、ヒットした表面に透明な影を受ける板（ShadowMaterial）を置く
+ */
+export class LightingManager {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private hitTestManager: HitTestManager;
+  private ambientLight: THREE.AmbientLight;
+  // 主光源（影を落とす）
+  private keyLight: THREE.DirectionalLight;
+  private keyDirection: THREE.Vector3 = FIXED_KEY_DIRECTION.clone();
+  // 推定した球面調和の環境光
+  private lightProbe: THREE.LightProbe;
+  private source: LightingSource = "fixed";
+
+  private session: XRSession | null = null;
+  private xrLightProbe: XRLightProbe | null = null;
+  private binding: XRWebGLBinding | null = null;
+  private environmentTarget: THREE.WebGLCubeRenderTarget | null = null;
+  // 推定前のscene.environment
+  private environment: THREE.Scene["environment"] = null;
+
+  private catchers: Map<THREE.Object3D, ShadowCatcher> = new Map();
+  private catcherGroup: THREE.Group = new THREE.Group();
+  private catcherGeometry: THREE.PlaneGeometry;
+  private catcherMaterial: THREE.ShadowMaterial;
+  // placeイベントのヒット姿勢（板を置く表面）
+  private hitPoses: WeakMap<THREE.Object3D, THREE.Matrix4> = new WeakMap();
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    hitTestManager: HitTestManager
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.hitTestManager = hitTestManager;
+
+    renderer.shadowMap.enabled = true;
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+    this.ambientLight = new THREE.AmbientLight(0xffffff, FIXED_AMBIENT_INTENSITY);
+    this.keyLight = new THREE.DirectionalLight(0xffffff, FIXED_KEY_INTENSITY);
+    this.keyLight.castShadow = true;
+    this.keyLight.shadow.mapSize.set(SHADOW_MAP_SIZE, SHADOW_MAP_SIZE);
+    this.keyLight.shadow.bias = -0.0005;
+    this.keyLight.shadow.normalBias = 0.02;
+    const shadowCamera = this.keyLight.shadow.camera;
+    shadowCamera.left = -SHADOW_EXTENT;
+    shadowCamera.right = SHADOW_EXTENT;
+    shadowCamera.top = SHADOW_EXTENT;
+    shadowCamera.bottom = -SHADOW_EXTENT;
+    shadowCamera.near = 0.1;
+    shadowCamera.far = SHADOW_LIGHT_DISTANCE * 2;
+    this.lightProbe = new THREE.LightProbe();
+    this.lightProbe.intensity = 0;
+    scene.add(this.ambientLight, this.keyLight, this.keyLight.target, this.lightProbe);
+
+    this.catcherGeometry = new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2);
+    this.catcherMaterial = new THREE.ShadowMaterial({
+      opacity: SHADOW_OPACITY,
+      depthWrite: false,
+      polygonOffset: true,
+      polygonOffsetFactor: -1,
+    });
+    this.catcherGroup.name = "ShadowCatchers";
+    scene.add(this.catcherGroup);
+
+    xrEvents.addEventListener("place", this.onPlace);
+    renderer.xr.addEventListener("sessionstart", this.onSessionStart);
+    renderer.xr.addEventListener("sessionend", this.onSessionEnd);
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame?: XRFrame) {
+    if (frame && this.xrLightProbe && frame.session === this.session) {
+      const estimate = frame.getLightEstimate?.(this.xrLightProbe);
+      if (estimate) this.applyEstimate(estimate);
+    }
+
+    this.updateShadowFrustum();
+    this.syncCatchers();
+  }
+
+  // ---- ライト推定 ----
+
+  private onSessionStart = () => {
+    const session = this.renderer.xr.getSession();
+    if (!session) return;
+    this.session = session;
+
+    // 許可されなかった場合（enabledFeaturesのないブラウザでは要求して確かめる）
+    const enabledFeatures = session.enabledFeatures;
+    if (!session.requestLightProbe || (enabledFeatures && !enabledFeatures.includes("light-estimation"))) {
+      console.log("💡 Light estimation unavailable, using fixed lights");
+      return;
+    }
+
+    session
+      .requestLightProbe({ reflectionFormat: session.preferredReflectionFormat })
+      .then((probe) => {
+        // 要求中にセッションが終了した場合
+        if (this.session !== session) return;
+        this.xrLightProbe = probe;
+        this.setupReflection(session, probe);
+      })
+      .catch((error) => {
+        console.warn("⚠️ Light estimation failed, using fixed lights:", error);
+      });
+  };
+
+  private onSessionEnd = () => {
+    this.xrLightProbe?.removeEventListener("reflectionchange", this.onReflectionChange);
+    this.xrLightProbe = null;
+    this.binding = null;
+    this.session = null;
+    this.useFixedLights();
+  };
+
+  /**
+   * 反射用のキューブマップを受け取る準備（XRWebGLBindingがあれば）
+   */
+  private setupReflection(session: XRSession, probe: XRLightProbe) {
+    if (!("XRWebGLBinding" in window)) return;
+
+    const gl = this.renderer.getContext();
+    const binding = new XRWebGLBinding(session, gl);
+    if (!binding.getReflectionCubeMap) return;
+
+    // キューブマップの形式に必要な拡張を有効にする
+    if (session.preferredReflectionFormat === "srgba8") gl.getExtension("EXT_sRGB");
+    if (session.preferredReflectionFormat === "rgba16f") gl.getExtension("OES_texture_half_float");
+
+    this.binding = binding;
+    this.environmentTarget ??= new THREE.WebGLCubeRenderTarget(ENVIRONMENT_MAP_SIZE);
+    probe.addEventListener("reflectionchange", this.onReflectionChange);
+  }
+
+  /**
+   * 推定したキューブマップをscene.environmentのテクスチャとして使う
+   * （three.jsのテクスチャにWebXRが作ったWebGLのテクスチャを差し込む）
+   */
+  private onReflectionChange = () => {
+    const target = this.environmentTarget;
+    if (!this.binding || !this.xrLightProbe || !target) return;
+
+    const cubeMap = this.binding.getReflectionCubeMap?.(this.xrLightProbe);
+    if (!cubeMap) return;
+
+    const properties = this.renderer.properties.get(target.texture) as {
+      __webglTexture?: WebGLTexture;
+    };
+    properties.__webglTexture = cubeMap;
+    target.texture.needsPMREMUpdate = true;
+
+    if (this.scene.environment !== target.texture) {
+      this.environment = this.scene.environment;
+      this.scene.environment = target.texture;
+      console.log("💡 Estimated environment map applied");
+    }
+  };
+
+  /**
+   * 推定値を反映（最初の推定で固定のライトから切り替える）
+   */
+  private applyEstimate(estimate: XRLightEstimate) {
+    if (this.source !== "estimated") {
+      this.source = "estimated";
+      this.ambientLight.intensity = 0;
+      this.lightProbe.intensity = 1;
+      useXRStore.getState().setLightingSource("estimated");
+      console.log("💡 Light estimation started");
+    }
+
+    this.lightProbe.sh.fromArray(estimate.sphericalHarmonicsCoefficients);
+
+    // 1を超える色は正規化し、最大値を強さにする
+    const { x, y, z } = estimate.primaryLightIntensity;
+    const intensity = Math.max(1, x, y, z);
+    this.keyLight.color.setRGB(x / intensity, y / intensity, z / intensity);
+    this.keyLight.intensity = intensity;
+
+    const direction = estimate.primaryLightDirection;
+    this.keyDirection.set(direction.x, direction.y, direction.z);
+    if (this.keyDirection.lengthSq() === 0) this.keyDirection.copy(FIXED_KEY_DIRECTION);
+    this.keyDirection.normalize();
+  }
+
+  /**
+   * 固定のライトに戻す
+   */
+  private useFixedLights() {
+    this.ambientLight.intensity = FIXED_AMBIENT_INTENSITY;
+    this.keyLight.color.set(0xffffff);
+    this.keyLight.intensity = FIXED_KEY_INTENSITY;
+    this.keyDirection.copy(FIXED_KEY_DIRECTION);
+    this.lightProbe.intensity = 0;
+
+    if (this.environmentTarget && this.scene.environment === this.environmentTarget.texture) {
+      this.scene.environment = this.environment;
+    }
+    this.environment = null;
+    this.environmentTarget?.dispose();
+    this.environmentTarget = null;
+
+    if (this.source !== "fixed") {
+      this.source = "fixed";
+      useXRStore.getState().setLightingSource("fixed");
+      console.log("💡 Light estimation ended, using fixed lights");
+    }
+  }
+
+  /**
+   * 影を計算する範囲を頭の周りに合わせる
+   */
+  private updateShadowFrustum() {
+    const viewer = this.renderer.xr.isPresenting ? this.renderer.xr.getCamera() : this.camera;
+    const center = viewer.getWorldPosition(new THREE.Vector3());
+    this.keyLight.target.position.copy(center);
+    this.keyLight.position.copy(center).addScaledVector(this.keyDirection, SHADOW_LIGHT_DISTANCE);
+    this.keyLight.target.updateMatrixWorld();
+  }
+
+  // ---- 影を受ける板 ----
+
+  private onPlace = (event: XREvent<"place">) => {
+    this.hitPoses.set(event.object, event.pose.clone());
+  };
+
+  /**
+   * 配置済みオブジェクトごとに板を作成・削除し、オブジェクトの姿勢に合わせる
+   */
+  private syncCatchers() {
+    const objects = new Set(this.hitTestManager.getPlacedObjects());
+    this.catchers.forEach((_catcher, object) => {
+      if (!objects.has(object)) this.removeCatcher(object);
+    });
+
+    objects.forEach((object) => {
+      const catcher = this.catchers.get(object) ?? this.createCatcher(object);
+      if (!catcher) return;
+
+      object.updateWorldMatrix(true, false);
+      catcher.mesh.matrix.multiplyMatrices(object.matrixWorld, catcher.local);
+      catcher.mesh.visible = object.visible;
+
+      // 読み込みの終わったモデルも影を落とすようにする
+      object.traverse((child) => {
+        if (child instanceof THREE.Mesh) child.castShadow = true;
+      });
+    });
+  }
+
+  /**
+   * オブジェクトの下（ヒットした表面の高さ）に、オブジェクトより一回り大きい板を置く
+   * オブジェクトのY軸は表面の法線に揃っている
+   */
+  private createCatcher(object: THREE.Object3D): ShadowCatcher | null {
+    // オブジェクトの座標系での大きさ
+    const box = computeLocalBounds(object);
+    // モデルの読み込み中
+    if (box.isEmpty()) return null;
+    const inverse = object.matrixWorld.clone().invert();
+
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    const hitPose = this.hitPoses.get(object);
+    const surfaceY = hitPose
+      ? new THREE.Vector3().setFromMatrixPosition(hitPose).applyMatrix4(inverse).y
+      : box.min.y;
+    const extent = Math.max(size.x, size.z) * CATCHER_SIZE_RATIO;
+
+    const local = new THREE.Matrix4().compose(
+      new THREE.Vector3(center.x, surfaceY + CATCHER_LIFT, center.z),
+      new THREE.Quaternion(),
+      new THREE.Vector3(extent, 1, extent)
+    );
+
+    const mesh = new THREE.Mesh(this.catcherGeometry, this.catcherMaterial);
+    mesh.name = `ShadowCatcher(${object.name})`;
+    mesh.receiveShadow = true;
+    mesh.matrixAutoUpdate = false;
+    // レイキャスト（選択・ヒットテストの代用）の対象にしない
+    mesh.raycast = () => {};
+    this.catcherGroup.add(mesh);
+
+    const catcher = { mesh, local };
+    this.catchers.set(object, catcher);
+    return catcher;
+  }
+
+  private removeCatcher(object: THREE.Object3D) {
+    const catcher = this.catchers.get(object);
+    if (!catcher) return;
+    this.catcherGroup.remove(catcher.mesh);
+    this.catchers.delete(object);
+  }
+
+  dispose() {
+    xrEvents.removeEventListener("place", this.onPlace);
+    this.renderer.xr.removeEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.removeEventListener("sessionend", this.onSessionEnd);
+    this.onSessionEnd();
+
+    this.catchers.forEach((_catcher, object) => this.removeCatcher(object));
+    this.scene.remove(
+      this.ambientLight,
+      this.keyLight,
+      this.keyLight.target,
+      this.lightProbe,
+      this.catcherGroup
+    );
+    this.keyLight.dispose();
+    this.catcherGeometry.dispose();
+    this.catcherMaterial.dispose();
+  }
+}
@@ -0,0 +1,608 @@
+import * as THREE from "three";
+import { useXRStore } from "../stores/xrStore";
+import { HitTestManager, TransformChange } from "./HitTestManager";
+import { InteractionManager } from "./InteractionManager";
+import { computeLocalBounds } from "./ObjectBounds";
+import { ObjectTransform, captureTransform, transformsEqual } from "./ObjectTransform";
+
+// 拡大率の範囲
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 4;
+
+// これ以上動かしたらドラッグとみなす（選択の切り替えをしない）
+const DRAG_THRESHOLD = 0.01; // m
+const ROTATE_THRESHOLD = 0.02; // rad
+const SCALE_THRESHOLD = 0.01;
+
+// ハンドルの表示
+const HANDLE_COLOR = 0xffcc00;
+const HANDLE_MARGIN = 1.2;
+const HANDLE_MIN_RADIUS = 0.08;
+
+/**
+ * デスクトップでのドラッグの種類
+ * - move: 支持面上の移動
+ * - rotate: 回転ハンドル（法線まわり）
+ * - scale: 拡大縮小ハンドル
+ */
+type DragMode = "move" | "rotate" | "scale";
+
+/**
+ * 操作開始時（または両手⇔片手の切り替え時）の状態
+ * オブジェクトは表面上の支点（pivot）を基準に、法線まわりの回転と拡大縮小をする
+ */
+interface ManipulationState {
+  object: THREE.Object3D;
+  // undo用の操作開始前の姿勢
+  before: ObjectTransform;
+  pivot: THREE.Vector3;
+  normal: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: number;
+  // 支点から見たオブジェクト原点のオフセット（表面座標系、拡大率1）
+  offset: THREE.Vector3;
+  plane: THREE.Plane;
+  // 表面上の角度を測る基準軸
+  axisU: THREE.Vector3;
+  axisV: THREE.Vector3;
+  moved: boolean;
+  // 一緒に動かす他の選択中のオブジェクト
+  followers: Follower[];
+}
+
+/**
+ * 基準のオブジェクトと一緒に動くオブジェクト
+ */
+interface Follower extends TransformChange {
+  // 基準のオブジェクトから見た相対姿勢
+  relative: THREE.Matrix4;
+}
+
+/**
+ * デスクトップのドラッグ
+ */
+interface DesktopDrag {
+  mode: DragMode;
+  pointerId: number;
+  start: THREE.Vector3;
+}
+
+/**
+ * XRで掴んでいる入力ソース
+ */
+interface XRGrip {
+  inputSource: XRInputSource;
+  startPosition: THREE.Vector3;
+  startYaw: number;
+}
+
+/**
+ * ManipulationManager
+ * 選択中のオブジェクトの移動・回転・拡大縮小
+ * - デスクトップ: ドラッグで支持面上を移動、回転・拡大縮小ハンドル
+ * - XR: 片手のselectで掴んでコントローラーに追従、両手のピンチで拡大縮小と回転
+ * - 複数選択中は、他の選択中のオブジェクトも一緒に動かす
+ * - オブジェクトは表面上に保ち、拡大率は範囲内に制限する
+ * - 確定した姿勢はアンカーに反映し、undo可能な操作として記録する
+ */
+export class ManipulationManager {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private interactionManager: InteractionManager;
+  private hitTestManager: HitTestManager;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private pointer: THREE.Vector2 = new THREE.Vector2();
+  private state: ManipulationState | null = null;
+  private desktopDrag: DesktopDrag | null = null;
+  private grips: Map<XRInputSource, XRGrip> = new Map();
+  private session: XRSession | null = null;
+  private handles: THREE.Group;
+  private rotateHandle: THREE.Mesh;
+  private scaleHandle: THREE.Mesh;
+  private handleMaterial: THREE.MeshBasicMaterial;
+  private handleTarget: THREE.Object3D | null = null;
+  private lastTransform: ObjectTransform | null = null;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    interactionManager: InteractionManager,
+    hitTestManager: HitTestManager
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.interactionManager = interactionManager;
+    this.hitTestManager = hitTestManager;
+
+    // 回転ハンドル（リング）と拡大縮小ハンドル（キューブ）
+    this.handleMaterial = new THREE.MeshBasicMaterial({
+      color: HANDLE_COLOR,
+      transparent: true,
+      opacity: 0.8,
+      depthTest: false,
+    });
+    this.rotateHandle = new THREE.Mesh(
+      new THREE.TorusGeometry(1, 0.06, 8, 64).rotateX(Math.PI / 2),
+      this.handleMaterial
+    );
+    this.scaleHandle = new THREE.Mesh(new THREE.BoxGeometry(0.04, 0.04, 0.04), this.handleMaterial);
+    this.handles = new THREE.Group();
+    this.handles.add(this.rotateHandle, this.scaleHandle);
+    this.handles.visible = false;
+    this.rotateHandle.renderOrder = 2;
+    this.scaleHandle.renderOrder = 2;
+    this.scene.add(this.handles);
+
+    const canvas = this.renderer.domElement;
+    canvas.addEventListener("pointerdown", this.onPointerDown);
+    canvas.addEventListener("pointermove", this.onPointerMove);
+    canvas.addEventListener("pointerup", this.onPointerUp);
+    canvas.addEventListener("pointercancel", this.onPointerUp);
+    this.renderer.xr.addEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.addEventListener("sessionend", this.onSessionEnd);
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame?: XRFrame) {
+    const selected = this.interactionManager.getSelectedObject();
+
+    // 操作中のオブジェクトが削除・選択解除された場合は終了
+    if (this.state && (this.state.object !== selected || !selected?.parent)) {
+      this.endManipulation();
+    }
+
+    if (frame && this.grips.size > 0) {
+      this.updateGrips(frame);
+    }
+
+    this.updateHandles(selected);
+    this.syncStore(selected);
+  }
+
+  /**
+   * 操作中か
+   */
+  isManipulating(): boolean {
+    return this.state !== null;
+  }
+
+  // ---- デスクトップ ----
+
+  private onPointerDown = (event: PointerEvent) => {
+    if (this.renderer.xr.isPresenting || this.desktopDrag) return;
+
+    const selected = this.interactionManager.getSelectedObject();
+    if (!selected) return;
+
+    this.setPointer(event);
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+
+    let mode: DragMode | null = null;
+    if (this.handles.visible) {
+      const handleHit = this.raycaster.intersectObjects([this.rotateHandle, this.scaleHandle])[0];
+      if (handleHit) {
+        mode = handleHit.object === this.rotateHandle ? "rotate" : "scale";
+      }
+    }
+    if (!mode && this.raycaster.intersectObject(selected, true).length > 0) {
+      mode = "move";
+    }
+    if (!mode) return;
+
+    const state = this.beginManipulation(selected);
+    const start = this.raycaster.ray.intersectPlane(state.plane, new THREE.Vector3());
+    if (!start) {
+      this.endManipulation();
+      return;
+    }
+
+    this.desktopDrag = { mode, pointerId: event.pointerId, start };
+    this.renderer.domElement.setPointerCapture(event.pointerId);
+    this.interactionManager.cancelScreenSelection();
+
+    // ハンドルのクリックで選択が解除されないようにする
+    if (mode !== "move") {
+      this.interactionManager.suppressNextSelect("pointer");
+    }
+  };
+
+  private onPointerMove = (event: PointerEvent) => {
+    const drag = this.desktopDrag;
+    const state = this.state;
+    if (!drag || !state || event.pointerId !== drag.pointerId) return;
+
+    this.setPointer(event);
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const point = this.raycaster.ray.intersectPlane(state.plane, new THREE.Vector3());
+    if (!point) return;
+
+    const wasMoved = state.moved;
+    switch (drag.mode) {
+      case "move":
+        this.applyManipulation(state, point.clone().sub(drag.start), 0, 1);
+        break;
+      case "rotate":
+        this.applyManipulation(
+          state,
+          new THREE.Vector3(),
+          this.angleOnPlane(state, point) - this.angleOnPlane(state, drag.start),
+          1
+        );
+        break;
+      case "scale": {
+        const startDistance = drag.start.distanceTo(state.pivot);
+        if (startDistance > 0.001) {
+          this.applyManipulation(
+            state,
+            new THREE.Vector3(),
+            0,
+            point.distanceTo(state.pivot) / startDistance
+          );
+        }
+        break;
+      }
+    }
+
+    // ドラッグで動かした場合はクリックで選択を切り替えない
+    if (!wasMoved && state.moved && drag.mode === "move") {
+      this.interactionManager.suppressNextSelect("pointer");
+    }
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    if (!this.desktopDrag || event.pointerId !== this.desktopDrag.pointerId) return;
+
+    if (this.renderer.domElement.hasPointerCapture(event.pointerId)) {
+      this.renderer.domElement.releasePointerCapture(event.pointerId);
+    }
+    this.desktopDrag = null;
+    this.endManipulation();
+  };
+
+  private setPointer(event: PointerEvent) {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+  }
+
+  // ---- XR ----
+
+  private onSessionStart = () => {
+    const session = this.renderer.xr.getSession();
+    if (!session) return;
+
+    this.session = session;
+    session.addEventListener("selectstart", this.onSelectStart);
+    session.addEventListener("selectend", this.onSelectEnd);
+  };
+
+  private onSessionEnd = () => {
+    this.removeSessionListeners();
+    this.grips.clear();
+    this.endManipulation();
+  };
+
+  /**
+   * 選択中のオブジェクトを指してselectstartしたら掴む
+   */
+  private onSelectStart = (event: XRInputSourceEvent) => {
+    const selected = this.interactionManager.getSelectedObject();
+    if (!selected || this.desktopDrag) return;
+    if (this.interactionManager.getTargetObject(event.inputSource, event.frame) !== selected) return;
+
+    if (!this.state) {
+      this.beginManipulation(selected);
+    }
+    this.grips.set(event.inputSource, {
+      inputSource: event.inputSource,
+      startPosition: new THREE.Vector3(),
+      startYaw: 0,
+    });
+    this.rebaseGrips(event.frame);
+  };
+
+  private onSelectEnd = (event: XRInputSourceEvent) => {
+    if (!this.grips.delete(event.inputSource)) return;
+
+    if (this.grips.size === 0) {
+      this.endManipulation();
+    } else {
+      // 両手から片手になった場合は現在の姿勢から続ける
+      this.rebaseGrips(event.frame);
+    }
+  };
+
+  /**
+   * 掴んでいる手の数が変わったときに、現在の姿勢を基準に取り直す
+   */
+  private rebaseGrips(frame: XRFrame) {
+    if (!this.state) return;
+
+    const { before, moved, followers } = this.state;
+    this.state = this.createState(this.state.object, before);
+    this.state.moved = moved;
+    this.state.followers = followers;
+
+    this.grips.forEach((grip) => {
+      const matrix = this.getGripMatrix(grip.inputSource, frame);
+      if (!matrix) return;
+      grip.startPosition.setFromMatrixPosition(matrix);
+      grip.startYaw = this.yawOfMatrix(this.state!, matrix);
+    });
+  }
+
+  /**
+   * 掴んでいる手に合わせてオブジェクトを更新
+   */
+  private updateGrips(frame: XRFrame) {
+    const state = this.state;
+    if (!state) return;
+
+    const grips = Array.from(this.grips.values());
+    const matrices = grips.map((grip) => this.getGripMatrix(grip.inputSource, frame));
+    const wasMoved = state.moved;
+
+    if (grips.length === 1) {
+      // 片手: コントローラーの移動と向きに追従
+      const matrix = matrices[0];
+      if (!matrix) return;
+      const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+      this.applyManipulation(
+        state,
+        position.sub(grips[0].startPosition),
+        this.yawOfMatrix(state, matrix) - grips[0].startYaw,
+        1
+      );
+    } else {
+      // 両手: 手の間隔で拡大縮小、手を結ぶ線の向きで回転、中点で移動
+      const [first, second] = matrices;
+      if (!first || !second) return;
+      const a = new THREE.Vector3().setFromMatrixPosition(first);
+      const b = new THREE.Vector3().setFromMatrixPosition(second);
+      const a0 = grips[0].startPosition;
+      const b0 = grips[1].startPosition;
+
+      const startDistance = a0.distanceTo(b0);
+      const factor = startDistance > 0.01 ? a.distanceTo(b) / startDistance : 1;
+      const yaw =
+        this.angleOnPlane(state, state.pivot.clone().add(b.clone().sub(a))) -
+        this.angleOnPlane(state, state.pivot.clone().add(b0.clone().sub(a0)));
+      const translation = a.clone().add(b).sub(a0).sub(b0).multiplyScalar(0.5);
+
+      this.applyManipulation(state, translation, yaw, factor);
+    }
+
+    // 掴んで動かした場合はselectで選択を切り替えない
+    if (!wasMoved && state.moved) {
+      grips.forEach((grip) => this.interactionManager.suppressNextSelect(grip.inputSource));
+    }
+  }
+
+  /**
+   * 掴む位置の姿勢（gripSpaceがなければtargetRaySpace）
+   */
+  private getGripMatrix(inputSource: XRInputSource, frame: XRFrame): THREE.Matrix4 | null {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    if (!referenceSpace) return null;
+
+    const pose = frame.getPose(inputSource.gripSpace ?? inputSource.targetRaySpace, referenceSpace);
+    return pose ? new THREE.Matrix4().fromArray(pose.transform.matrix) : null;
+  }
+
+  /**
+   * コントローラーの前方向の、表面上での角度
+   */
+  private yawOfMatrix(state: ManipulationState, matrix: THREE.Matrix4): number {
+    const forward = new THREE.Vector3(0, 0, -1).transformDirection(matrix);
+    return this.angleOnPlane(state, state.pivot.clone().add(forward));
+  }
+
+  // ---- 共通 ----
+
+  /**
+   * 操作を開始
+   */
+  private beginManipulation(object: THREE.Object3D): ManipulationState {
+    const before = this.hitTestManager.beginTransform(object);
+    this.state = this.createState(object, before);
+
+    object.updateMatrix();
+    const inverse = object.matrix.clone().invert();
+    this.state.followers = this.interactionManager
+      .getSelectedObjects()
+      .filter((other) => other !== object)
+      .map((other) => {
+        other.updateMatrix();
+        return {
+          object: other,
+          before: this.hitTestManager.beginTransform(other),
+          relative: inverse.clone().multiply(other.matrix),
+        };
+      });
+
+    return this.state;
+  }
+
+  private createState(object: THREE.Object3D, before: ObjectTransform): ManipulationState {
+    const quaternion = object.quaternion.clone();
+    const scale = object.scale.x;
+    const normal = new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion);
+    const offset = this.getPlacementOffset(object);
+    const pivot = this.computePivot(object, offset);
+    const axisU = new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion);
+
+    return {
+      object,
+      before,
+      pivot,
+      normal,
+      quaternion,
+      scale,
+      offset,
+      plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, pivot),
+      axisU,
+      axisV: new THREE.Vector3().crossVectors(normal, axisU),
+      moved: false,
+      followers: [],
+    };
+  }
+
+  /**
+   * カタログのplacementOffset（表面からオブジェクト原点までのオフセット）
+   */
+  private getPlacementOffset(object: THREE.Object3D): THREE.Vector3 {
+    return (
+      this.hitTestManager.getCatalog().get(object.userData.catalogId)?.placementOffset.clone() ??
+      new THREE.Vector3()
+    );
+  }
+
+  /**
+   * オブジェクトが置かれている表面上の点
+   */
+  private computePivot(object: THREE.Object3D, offset: THREE.Vector3): THREE.Vector3 {
+    return object.position
+      .clone()
+      .sub(offset.clone().multiplyScalar(object.scale.x).applyQuaternion(object.quaternion));
+  }
+
+  /**
+   * 開始時の姿勢に移動・回転・拡大縮小を適用
+   * 移動は支持面に沿った成分のみ、回転は法線まわりのみ、拡大率は範囲内に制限する
+   */
+  private applyManipulation(
+    state: ManipulationState,
+    translation: THREE.Vector3,
+    yaw: number,
+    scaleFactor: number
+  ) {
+    const onSurface = translation.clone().projectOnPlane(state.normal);
+    const scale = THREE.MathUtils.clamp(state.scale * scaleFactor, MIN_SCALE, MAX_SCALE);
+    const quaternion = new THREE.Quaternion()
+      .setFromAxisAngle(state.normal, yaw)
+      .multiply(state.quaternion);
+
+    const object = state.object;
+    object.quaternion.copy(quaternion);
+    object.scale.setScalar(scale);
+    object.position
+      .copy(state.pivot)
+      .add(onSurface)
+      .add(state.offset.clone().multiplyScalar(scale).applyQuaternion(quaternion));
+
+    // 他の選択中のオブジェクトは相対姿勢を保って追従
+    object.updateMatrix();
+    state.followers.forEach((follower) => {
+      new THREE.Matrix4()
+        .multiplyMatrices(object.matrix, follower.relative)
+        .decompose(follower.object.position, follower.object.quaternion, follower.object.scale);
+    });
+
+    if (
+      onSurface.length() > DRAG_THRESHOLD ||
+      Math.abs(yaw) > ROTATE_THRESHOLD ||
+      Math.abs(scale / state.scale - 1) > SCALE_THRESHOLD
+    ) {
+      state.moved = true;
+    }
+  }
+
+  /**
+   * 操作を終了して確定
+   */
+  private endManipulation() {
+    const state = this.state;
+    if (!state) return;
+
+    this.state = null;
+    this.grips.clear();
+    this.desktopDrag = null;
+    this.hitTestManager.commitTransforms([
+      { object: state.object, before: state.before },
+      ...state.followers.map(({ object, before }) => ({ object, before })),
+    ]);
+  }
+
+  /**
+   * 支点から見た点の、表面上での角度
+   */
+  private angleOnPlane(state: ManipulationState, point: THREE.Vector3): number {
+    const direction = point.clone().sub(state.pivot);
+    return Math.atan2(direction.dot(state.axisV), direction.dot(state.axisU));
+  }
+
+  /**
+   * デスクトップ用のハンドルを選択中のオブジェクトの支点に表示
+   */
+  private updateHandles(selected: THREE.Object3D | null) {
+    if (!selected || this.renderer.xr.isPresenting) {
+      this.handles.visible = false;
+      this.handleTarget = null;
+      return;
+    }
+
+    // 選択が変わったらオブジェクトの大きさに合わせる
+    if (this.handleTarget !== selected) {
+      this.handleTarget = selected;
+      const size = computeLocalBounds(selected).getSize(new THREE.Vector3());
+      const radius = Math.max((Math.max(size.x, size.z) / 2) * HANDLE_MARGIN, HANDLE_MIN_RADIUS);
+      this.rotateHandle.scale.setScalar(radius);
+      this.scaleHandle.position.set(radius, 0, radius).multiplyScalar(Math.SQRT1_2);
+    }
+
+    this.handles.position.copy(this.computePivot(selected, this.getPlacementOffset(selected)));
+    this.handles.quaternion.copy(selected.quaternion);
+    this.handles.scale.setScalar(selected.scale.x);
+    this.handles.visible = true;
+  }
+
+  /**
+   * 選択中のオブジェクトの姿勢をストアに反映（変化した場合のみ）
+   */
+  private syncStore(selected: THREE.Object3D | null) {
+    const transform = selected ? captureTransform(selected) : null;
+    const last = this.lastTransform;
+    if (
+      (transform === null && last === null) ||
+      (transform && last && transformsEqual(transform, last))
+    ) {
+      return;
+    }
+
+    this.lastTransform = transform;
+    useXRStore.getState().setSelectedObjectTransform(transform);
+  }
+
+  private removeSessionListeners() {
+    if (!this.session) return;
+    this.session.removeEventListener("selectstart", this.onSelectStart);
+    this.session.removeEventListener("selectend", this.onSelectEnd);
+    this.session = null;
+  }
+
+  /**
+   * クリーンアップ
+   */
+  dispose() {
+    this.endManipulation();
+
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener("pointerdown", this.onPointerDown);
+    canvas.removeEventListener("pointermove", this.onPointerMove);
+    canvas.removeEventListener("pointerup", this.onPointerUp);
+    canvas.removeEventListener("pointercancel", this.onPointerUp);
+    this.renderer.xr.removeEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.removeEventListener("sessionend", this.onSessionEnd);
+    this.removeSessionListeners();
+
+    this.scene.remove(this.handles);
+    this.rotateHandle.geometry.dispose();
+    this.scaleHandle.geometry.dispose();
+    this.handleMaterial.dispose();
+  }
+}
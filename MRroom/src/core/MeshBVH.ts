@@ -0,0 +1,144 @@
+import * as THREE from "three";
+
+// 葉ノードに入れる三角形の最大数
+const MAX_LEAF_TRIANGLES = 8;
+
+/**
+ * BVHのノード（葉はtriangles配列のstartからcount個の三角形を持つ）
+ */
+interface BVHNode {
+  box: THREE.Box3;
+  left: BVHNode | null;
+  right: BVHNode | null;
+  start: number;
+  count: number;
+}
+
+/**
+ * MeshBVH
+ * ジオメトリの三角形のバウンディングボリューム階層（ローカル座標）
+ * 高ポリゴンのメッシュで、レイと交差しない三角形の判定を省略する
+ */
+export class MeshBVH {
+  private geometry: THREE.BufferGeometry;
+  // 三角形の頂点インデックス（3つで1つの三角形、ノードの範囲順に並べ替える）
+  private triangles: Uint32Array;
+  private root: BVHNode;
+
+  constructor(geometry: THREE.BufferGeometry) {
+    this.geometry = geometry;
+
+    const position = geometry.getAttribute("position");
+    const index = geometry.getIndex();
+    const vertexCount = index ? index.count : position.count;
+    this.triangles = new Uint32Array(vertexCount - (vertexCount % 3));
+    for (let i = 0; i < this.triangles.length; i++) {
+      this.triangles[i] = index ? index.getX(i) : i;
+    }
+
+    this.root = this.build(0, this.triangles.length / 3);
+  }
+
+  /**
+   * 三角形の数
+   */
+  get triangleCount(): number {
+    return this.triangles.length / 3;
+  }
+
+  /**
+   * Mesh.raycastの代わりにBVHでレイキャスト
+   */
+  raycast(mesh: THREE.Mesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+    const material = Array.isArray(mesh.material) ? null : mesh.material;
+    const inverse = new THREE.Matrix4().copy(mesh.matrixWorld).invert();
+    const ray = raycaster.ray.clone().applyMatrix4(inverse);
+    const position = this.geometry.getAttribute("position");
+
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const point = new THREE.Vector3();
+    const stack: BVHNode[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!ray.intersectsBox(node.box)) continue;
+
+      if (node.left && node.right) {
+        stack.push(node.left, node.right);
+        continue;
+      }
+
+      for (let i = node.start; i < node.start + node.count; i++) {
+        const ia = this.triangles[i * 3];
+        const ib = this.triangles[i * 3 + 1];
+        const ic = this.triangles[i * 3 + 2];
+        a.fromBufferAttribute(position, ia);
+        b.fromBufferAttribute(position, ib);
+        c.fromBufferAttribute(position, ic);
+
+        // マテリアルの面の向きに合わせて裏面を除外（Mesh.raycastと同じ）
+        const hit =
+          material?.side === THREE.BackSide
+            ? ray.intersectTriangle(c, b, a, true, point)
+            : ray.intersectTriangle(a, b, c, material?.side !== THREE.DoubleSide, point);
+        if (!hit) continue;
+
+        const worldPoint = point.clone().applyMatrix4(mesh.matrixWorld);
+        const distance = raycaster.ray.origin.distanceTo(worldPoint);
+        if (distance < raycaster.near || distance > raycaster.far) continue;
+
+        intersects.push({
+          distance,
+          point: worldPoint,
+          object: mesh,
+          face: {
+            a: ia,
+            b: ib,
+            c: ic,
+            normal: THREE.Triangle.getNormal(a, b, c, new THREE.Vector3()),
+            materialIndex: 0,
+          },
+          faceIndex: i,
+        });
+      }
+    }
+  }
+
+  /**
+   * 三角形の範囲からノードを作成（重心の最長軸の中央値で分割）
+   */
+  private build(start: number, count: number): BVHNode {
+    const position = this.geometry.getAttribute("position");
+    const box = new THREE.Box3();
+    const centroids: { triangle: number[]; centroid: THREE.Vector3 }[] = [];
+    const vertex = new THREE.Vector3();
+
+    for (let i = start; i < start + count; i++) {
+      const triangle = [this.triangles[i * 3], this.triangles[i * 3 + 1], this.triangles[i * 3 + 2]];
+      const centroid = new THREE.Vector3();
+      triangle.forEach((vertexIndex) => {
+        vertex.fromBufferAttribute(position, vertexIndex);
+        box.expandByPoint(vertex);
+        centroid.add(vertex);
+      });
+      centroids.push({ triangle, centroid: centroid.divideScalar(3) });
+    }
+
+    const node: BVHNode = { box, left: null, right: null, start, count };
+    if (count <= MAX_LEAF_TRIANGLES) return node;
+
+    const size = box.getSize(new THREE.Vector3());
+    const axis = size.x >= size.y && size.x >= size.z ? "x" : size.y >= size.z ? "y" : "z";
+    centroids.sort((p, q) => p.centroid[axis] - q.centroid[axis]);
+    centroids.forEach(({ triangle }, offset) => {
+      this.triangles.set(triangle, (start + offset) * 3);
+    });
+
+    const half = Math.floor(count / 2);
+    node.left = this.build(start, half);
+    node.right = this.build(start + half, count - half);
+    return node;
+  }
+}
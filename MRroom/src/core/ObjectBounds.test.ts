@@ -0,0 +1,37 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { computeLocalBounds } from "./ObjectBounds";
+
+function createBox(size: number): THREE.Mesh {
+  return new THREE.Mesh(new THREE.BoxGeometry(size, size, size));
+}
+
+describe("computeLocalBounds", () => {
+  it("measures child meshes in the object's frame without its own scale", () => {
+    const object = new THREE.Group();
+    object.position.set(5, 0, 0);
+    object.scale.setScalar(2);
+    const child = createBox(1);
+    child.position.set(0, 1, 0);
+    object.add(child);
+
+    const bounds = computeLocalBounds(object);
+
+    expect(bounds.min.toArray()).toEqual([-0.5, 0.5, -0.5]);
+    expect(bounds.max.toArray()).toEqual([0.5, 1.5, 0.5]);
+  });
+
+  it("only includes the given meshes", () => {
+    const object = new THREE.Group();
+    const small = createBox(1);
+    object.add(small, createBox(4));
+
+    const bounds = computeLocalBounds(object, [small]);
+
+    expect(bounds.getSize(new THREE.Vector3()).toArray()).toEqual([1, 1, 1]);
+  });
+
+  it("is empty while the object has no meshes", () => {
+    expect(computeLocalBounds(new THREE.Group()).isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import * as THREE from "three";
+
+/**
+ * オブジェクトのローカル座標でのバウンディングボックス（オブジェクト自身の拡大率を含まない）
+ * meshesを省略すると子孫のメッシュすべてを含める
+ * 読み込み中のモデルなどメッシュがなければ空のボックスを返す
+ */
+export function computeLocalBounds(
+  object: THREE.Object3D,
+  meshes?: THREE.Mesh[]
+): THREE.Box3 {
+  const bounds = new THREE.Box3();
+  object.updateWorldMatrix(true, true);
+  const inverse = object.matrixWorld.clone().invert();
+
+  const addMesh = (mesh: THREE.Mesh) => {
+    if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+    const box = mesh.geometry.boundingBox!.clone();
+    bounds.union(box.applyMatrix4(inverse.clone().multiply(mesh.matrixWorld)));
+  };
+
+  if (meshes) {
+    meshes.forEach(addMesh);
+  } else {
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) addMesh(child);
+    });
+  }
+
+  return bounds;
+}
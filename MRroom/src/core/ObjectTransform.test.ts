@@ -0,0 +1,68 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import {
+  applyTransform,
+  captureTransform,
+  transformsEqual,
+  type ObjectTransform,
+} from "./ObjectTransform";
+
+const IDENTITY: ObjectTransform = {
+  position: [0, 0, 0],
+  quaternion: [0, 0, 0, 1],
+  scale: [1, 1, 1],
+};
+
+describe("captureTransform / applyTransform", () => {
+  it("restores the captured position, rotation and scale", () => {
+    const object = new THREE.Object3D();
+    object.position.set(1, 2, 3);
+    object.quaternion.setFromAxisAngle(new THREE.Vector3(0, 1, 0), 0.5);
+    object.scale.set(2, 2, 2);
+    const transform = captureTransform(object);
+
+    const restored = new THREE.Object3D();
+    applyTransform(restored, transform);
+
+    expect(restored.position.toArray()).toEqual([1, 2, 3]);
+    expect(restored.quaternion.equals(object.quaternion)).toBe(true);
+    expect(restored.scale.toArray()).toEqual([2, 2, 2]);
+  });
+
+  it("captures a copy that later changes do not affect", () => {
+    const object = new THREE.Object3D();
+    const transform = captureTransform(object);
+
+    object.position.x = 5;
+
+    expect(transform.position).toEqual([0, 0, 0]);
+  });
+});
+
+describe("transformsEqual", () => {
+  it("treats identical transforms as equal", () => {
+    expect(transformsEqual(IDENTITY, { ...IDENTITY })).toBe(true);
+  });
+
+  it("ignores differences below epsilon", () => {
+    const nearly: ObjectTransform = { ...IDENTITY, position: [1e-7, 0, -1e-7] };
+
+    expect(transformsEqual(IDENTITY, nearly)).toBe(true);
+  });
+
+  it.each([
+    ["position", { ...IDENTITY, position: [0, 0.001, 0] }],
+    ["quaternion", { ...IDENTITY, quaternion: [0, 0.01, 0, 0.99995] }],
+    ["scale", { ...IDENTITY, scale: [1, 1, 1.01] }],
+  ] as [string, ObjectTransform][])("detects a change in %s", (_, changed) => {
+    expect(transformsEqual(IDENTITY, changed)).toBe(false);
+    expect(transformsEqual(changed, IDENTITY)).toBe(false);
+  });
+
+  it("uses the given epsilon", () => {
+    const moved: ObjectTransform = { ...IDENTITY, position: [0.004, 0, 0] };
+
+    expect(transformsEqual(IDENTITY, moved, 0.01)).toBe(true);
+    expect(transformsEqual(IDENTITY, moved, 0.001)).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import * as THREE from "three";
+
+/**
+ * オブジェクトの姿勢（undoやストアに保存するための値）
+ */
+export interface ObjectTransform {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  scale: [number, number, number];
+}
+
+/**
+ * オブジェクトの現在の姿勢を取得
+ */
+export function captureTransform(object: THREE.Object3D): ObjectTransform {
+  return {
+    position: object.position.toArray() as [number, number, number],
+    quaternion: object.quaternion.toArray() as [number, number, number, number],
+    scale: object.scale.toArray() as [number, number, number],
+  };
+}
+
+/**
+ * 姿勢をオブジェクトに適用
+ */
+export function applyTransform(object: THREE.Object3D, transform: ObjectTransform) {
+  object.position.fromArray(transform.position);
+  object.quaternion.fromArray(transform.quaternion);
+  object.scale.fromArray(transform.scale);
+}
+
+/**
+ * 2つの姿勢が同じか（各成分の差がepsilon未満）
+ */
+export function transformsEqual(
+  a: ObjectTransform,
+  b: ObjectTransform,
+  epsilon: number = 1e-6
+): boolean {
+  const values = (transform: ObjectTransform) => [
+    ...transform.position,
+    ...transform.quaternion,
+    ...transform.scale,
+  ];
+  const bValues = values(b);
+  return values(a).every((value, index) => Math.abs(value - bValues[index]) < epsilon);
+}
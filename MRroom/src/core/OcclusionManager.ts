@@ -0,0 +1,537 @@
+import * as THREE from "three";
+import { useXRStore } from "../stores/xrStore";
+import type { HitTestManager } from "./HitTestManager";
+
+/**
+ * 現実の物体による遮蔽に使う情報
+ * - depth: depth-sensingの深度をオブジェクトのシェーダーでピクセルごとに比較
+ * - mesh: mesh-detectionの部屋のメッシュを深度だけ描画
+ */
+export type OcclusionSource = "depth" | "mesh";
+
+/**
+ * 検出されたメッシュ（IWSDKのXRMeshコンポーネントと同じ項目）
+ */
+export interface TrackedMesh {
+  id: number;
+  mesh: XRMesh;
+  // 家具などの個別の物体か（falseは部屋全体のメッシュ）
+  isBounded3D: boolean;
+  semanticLabel: string;
+  // メッシュ空間での範囲と大きさ
+  min: THREE.Vector3;
+  max: THREE.Vector3;
+  dimensions: THREE.Vector3;
+  matrix: THREE.Matrix4;
+  lastChangedTime: number;
+  // 深度だけを書き込む遮蔽物
+  occluder: THREE.Mesh;
+  // デバッグ表示のワイヤーフレーム
+  wireframe: THREE.Mesh;
+}
+
+// 深度テクスチャの種類（シェーダーの分岐）
+type DepthVariant = "none" | "texture" | "texture-float" | "texture-array";
+
+/**
+ * マテリアルに加えた深度の比較
+ */
+interface MaterialPatch {
+  variant: DepthVariant;
+  // オブジェクトごとの切り替え（1で遮蔽する）
+  enabled: THREE.IUniform<number>;
+}
+
+// 部屋全体のメッシュのセマンティックラベル
+const GLOBAL_MESH_LABEL = "global mesh";
+
+// デバッグ表示の色
+const MESH_COLORS: Record<string, number> = {
+  [GLOBAL_MESH_LABEL]: 0x66ccff,
+  table: 0x33cc66,
+  couch: 0xff6699,
+  other: 0xffaa33,
+};
+
+// 遮蔽物を奥にずらす距離（現実の表面に置いたものが埋もれないように、m）
+const OCCLUDER_DEPTH_BIAS = 0.02;
+// 深度の比較の許容誤差（m）
+const DEPTH_TOLERANCE = 0.03;
+
+// 遮蔽物と、遮蔽しないオブジェクトの描画順（遮蔽しないものを先に描く）
+const OCCLUDER_RENDER_ORDER = -1;
+const EXCLUDED_RENDER_ORDER = -2;
+
+const DEPTH_VARIANT_DEFINES: Record<DepthVariant, string> = {
+  none: "",
+  texture: "#define OCCLUSION_DEPTH\n",
+  "texture-float": "#define OCCLUSION_DEPTH\n#define OCCLUSION_DEPTH_FLOAT\n",
+  "texture-array": "#define OCCLUSION_DEPTH\n#define OCCLUSION_DEPTH_ARRAY\n",
+};
+
+const OCCLUSION_PARS_FRAGMENT = /* glsl */ `
+#ifdef OCCLUSION_DEPTH
+  #ifdef OCCLUSION_DEPTH_ARRAY
+    uniform sampler2DArray occlusionDepthMap;
+  #else
+    uniform sampler2D occlusionDepthMap;
+  #endif
+  uniform mat4 occlusionUvTransform;
+  uniform float occlusionRawToMeters;
+  uniform vec2 occlusionViewport;
+  uniform float occlusionNear;
+  uniform float occlusionFar;
+  uniform float occlusionTolerance;
+  uniform float occlusionActive;
+  uniform float occlusionDebug;
+  uniform float occlusionEnabled;
+
+  // 深度バッファの値からカメラまでの距離（m）
+  float occlusionViewDistance( const in float depth ) {
+    return ( occlusionNear * occlusionFar ) / ( occlusionFar - ( occlusionFar - occlusionNear ) * depth );
+  }
+
+  // 現実の表面までの距離（m、深度がなければ0）
+  float occlusionRealDistance() {
+    vec2 coord = gl_FragCoord.xy / occlusionViewport;
+  #ifdef OCCLUSION_DEPTH_ARRAY
+    // 左右の目が横に並んだフレームバッファで、深度はビューと同じ射影（three.jsのWebXRDepthSensingと同じ）
+    float layer = coord.x >= 1.0 ? 1.0 : 0.0;
+    float depth = texture( occlusionDepthMap, vec3( coord.x - layer, coord.y, layer ) ).r;
+    return depth < 1.0 ? occlusionViewDistance( depth ) : 0.0;
+  #else
+    // 正規化したビューの座標（左上が原点）から深度バッファの座標へ
+    vec2 uv = ( occlusionUvTransform * vec4( coord.x, 1.0 - coord.y, 0.0, 1.0 ) ).xy;
+    vec4 texel = texture( occlusionDepthMap, uv );
+    #ifdef OCCLUSION_DEPTH_FLOAT
+      float raw = texel.r;
+    #else
+      // luminance-alpha: 下位バイトと上位バイト
+      float raw = dot( texel.ra, vec2( 255.0, 65280.0 ) );
+    #endif
+    return raw * occlusionRawToMeters;
+  #endif
+  }
+#endif
+`;
+
+const OCCLUSION_FRAGMENT = /* glsl */ `
+#ifdef OCCLUSION_DEPTH
+  bool occlusionHidden = false;
+  if ( occlusionActive > 0.5 && occlusionEnabled > 0.5 ) {
+    float realDistance = occlusionRealDistance();
+    occlusionHidden = realDistance > 0.0 &&
+      occlusionViewDistance( gl_FragCoord.z ) > realDistance + occlusionTolerance;
+    if ( occlusionHidden && occlusionDebug < 0.5 ) discard;
+  }
+#endif
+`;
+
+// デバッグ表示では隠れる部分を捨てずに色を付ける
+const OCCLUSION_DEBUG_FRAGMENT = /* glsl */ `
+#ifdef OCCLUSION_DEPTH
+  if ( occlusionHidden ) gl_FragColor.rgb = mix( gl_FragColor.rgb, vec3( 1.0, 0.0, 1.0 ), 0.6 );
+#endif
+`;
+
+const OCCLUDER_VERTEX = /* glsl */ `
+uniform float depthBias;
+
+void main() {
+  vec4 mvPosition = modelViewMatrix * vec4( position, 1.0 );
+  mvPosition.xyz += normalize( mvPosition.xyz ) * depthBias;
+  gl_Position = projectionMatrix * mvPosition;
+}
+`;
+
+const OCCLUDER_FRAGMENT = /* glsl */ `
+void main() {
+  gl_FragColor = vec4( 0.0 );
+}
+`;
+
+function toArray(material: THREE.Material | THREE.Material[]): THREE.Material[] {
+  return Array.isArray(material) ? material : [material];
+}
+
+/**
+ * OcclusionManager
+ * 配置したオブジェクトが現実の物体（ソファ・壁など）の後ろにあるとき、隠れて見えるようにする
+ * - depth-sensing: オブジェクトのマテリアルのシェーダーで、現実の深度より奥のピクセルを捨てる
+ * - mesh-detection: 検出された部屋のメッシュを深度だけ描画し、通常の深度テストで隠す
+ * - オブジェクトごとにuserData.occlusion（falseで遮蔽しない）で切り替える
+ * - どちらの機能も許可されなければ何もしない（これまで通り手前に描画される）
+ */
+export class OcclusionManager {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private hitTestManager: HitTestManager;
+  private session: XRSession | null = null;
+  private sources: OcclusionSource[] = [];
+  private showOccluders = false;
+  private unsubscribe: () => void;
+
+  // depth-sensing
+  private depthVariant: DepthVariant = "none";
+  // WebXRが作ったWebGLのテクスチャを差し込むテクスチャ
+  private depthTexture: THREE.Texture = new THREE.Texture();
+  // すべてのマテリアルで共有するuniform
+  private uniforms = {
+    occlusionDepthMap: { value: this.depthTexture } as THREE.IUniform<THREE.Texture>,
+    occlusionUvTransform: { value: new THREE.Matrix4() },
+    occlusionRawToMeters: { value: 0.001 },
+    occlusionViewport: { value: new THREE.Vector2(1, 1) },
+    occlusionNear: { value: 0.1 },
+    occlusionFar: { value: 1000 },
+    occlusionTolerance: { value: DEPTH_TOLERANCE },
+    occlusionActive: { value: 0 },
+    occlusionDebug: { value: 0 },
+  };
+  private patches: WeakMap<THREE.Material, MaterialPatch> = new WeakMap();
+  // 遮蔽しないメッシュの元の描画順
+  private renderOrders: WeakMap<THREE.Mesh, number> = new WeakMap();
+
+  // mesh-detection
+  private meshes: Map<XRMesh, TrackedMesh> = new Map();
+  private nextMeshId = 1;
+  private meshGroup: THREE.Group = new THREE.Group();
+  private occluderMaterial: THREE.ShaderMaterial;
+
+  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, hitTestManager: HitTestManager) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.hitTestManager = hitTestManager;
+
+    this.occluderMaterial = new THREE.ShaderMaterial({
+      vertexShader: OCCLUDER_VERTEX,
+      fragmentShader: OCCLUDER_FRAGMENT,
+      uniforms: { depthBias: { value: OCCLUDER_DEPTH_BIAS } },
+      colorWrite: false,
+      side: THREE.DoubleSide,
+    });
+    this.meshGroup.name = "RoomMeshes";
+    scene.add(this.meshGroup);
+
+    this.setShowOccluders(useXRStore.getState().showOccluders);
+    this.unsubscribe = useXRStore.subscribe((state, previous) => {
+      if (state.showOccluders !== previous.showOccluders) {
+        this.setShowOccluders(state.showOccluders);
+      }
+    });
+
+    renderer.xr.addEventListener("sessionstart", this.onSessionStart);
+    renderer.xr.addEventListener("sessionend", this.onSessionEnd);
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame?: XRFrame) {
+    if (frame && this.session && frame.session === this.session) {
+      this.updateDepth(frame);
+      this.updateMeshes(frame);
+    }
+
+    this.syncObjects();
+    this.updateSources();
+  }
+
+  /**
+   * 検出されたメッシュ
+   */
+  getMeshes(): TrackedMesh[] {
+    return Array.from(this.meshes.values());
+  }
+
+  private onSessionStart = () => {
+    const session = this.renderer.xr.getSession();
+    if (!session) return;
+    this.session = session;
+
+    const enabledFeatures = session.enabledFeatures ?? [];
+    if (!enabledFeatures.includes("depth-sensing") && !enabledFeatures.includes("mesh-detection")) {
+      console.log("🧱 Occlusion unavailable (no depth-sensing or mesh-detection)");
+    }
+  };
+
+  private onSessionEnd = () => {
+    this.session = null;
+    this.depthVariant = "none";
+    this.uniforms.occlusionActive.value = 0;
+    this.meshes.forEach((tracked) => this.removeMesh(tracked));
+  };
+
+  /**
+   * 遮蔽物の表示切り替え（メッシュのワイヤーフレームと、深度で隠れる部分の色付け）
+   */
+  private setShowOccluders(visible: boolean) {
+    this.showOccluders = visible;
+    this.uniforms.occlusionDebug.value = visible ? 1 : 0;
+    this.meshes.forEach((tracked) => {
+      tracked.wireframe.visible = visible;
+    });
+  }
+
+  // ---- depth-sensing ----
+
+  /**
+   * 視点の深度をシェーダーのuniformに反映
+   * three.jsが描画するシーン全体の遮蔽（getDepthSensingMesh）は使わず、オブジェクトごとに比較する
+   */
+  private updateDepth(frame: XRFrame) {
+    this.uniforms.occlusionActive.value = 0;
+
+    const depthSensingMesh = this.renderer.xr.getDepthSensingMesh();
+    if (depthSensingMesh) depthSensingMesh.visible = false;
+
+    const session = frame.session;
+    const binding = this.renderer.xr.getBinding() as XRWebGLBinding | null;
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    if (!binding || !referenceSpace || !session.enabledFeatures?.includes("depth-sensing")) return;
+
+    const view = frame.getViewerPose(referenceSpace)?.views[0];
+    let information: XRWebGLDepthInformation | null | undefined = null;
+    try {
+      information = view ? binding.getDepthInformation(view) : null;
+    } catch {
+      // 深度が一時的に使えない（depthActiveがfalseなど）
+      return;
+    }
+    if (!information?.texture) return;
+
+    const properties = this.renderer.properties.get(this.depthTexture) as {
+      __webglTexture?: WebGLTexture;
+    };
+    properties.__webglTexture = information.texture;
+
+    if (information.textureType === "texture-array") {
+      this.depthVariant = "texture-array";
+    } else {
+      this.depthVariant = session.depthDataFormat === "float32" ? "texture-float" : "texture";
+    }
+
+    const cameraXR = this.renderer.xr.getCamera();
+    const viewport = cameraXR.cameras[0]?.viewport;
+    if (viewport) this.uniforms.occlusionViewport.value.set(viewport.z, viewport.w);
+    this.uniforms.occlusionNear.value = cameraXR.near;
+    this.uniforms.occlusionFar.value = cameraXR.far;
+    this.uniforms.occlusionUvTransform.value.fromArray(
+      information.normDepthBufferFromNormView.matrix
+    );
+    this.uniforms.occlusionRawToMeters.value = information.rawValueToMeters;
+    this.uniforms.occlusionActive.value = 1;
+  }
+
+  /**
+   * 配置済みオブジェクトのマテリアルと描画順を、オブジェクトごとの設定に合わせる
+   * ハイライトで差し替えたマテリアルも毎フレーム確認して加える
+   */
+  private syncObjects() {
+    this.hitTestManager.getPlacedObjects().forEach((object) => {
+      const enabled = object.userData.occlusion !== false;
+      object.traverse((child) => {
+        if (!(child instanceof THREE.Mesh)) return;
+        this.applyRenderOrder(child, enabled);
+        toArray(child.material).forEach((material) => this.patchMaterial(material, enabled));
+      });
+    });
+  }
+
+  /**
+   * マテリアルのフラグメントシェーダーに深度の比較を加える
+   */
+  private patchMaterial(material: THREE.Material, enabled: boolean) {
+    let patch = this.patches.get(material);
+    if (!patch) {
+      const created: MaterialPatch = { variant: "none", enabled: { value: 1 } };
+      const onBeforeCompile = material.onBeforeCompile;
+      material.onBeforeCompile = (shader, renderer) => {
+        onBeforeCompile.call(material, shader, renderer);
+        if (created.variant === "none") return;
+
+        Object.assign(shader.uniforms, this.uniforms, { occlusionEnabled: created.enabled });
+        shader.fragmentShader =
+          DEPTH_VARIANT_DEFINES[created.variant] +
+          shader.fragmentShader
+            .replace(
+              "#include <clipping_planes_pars_fragment>",
+              `#include <clipping_planes_pars_fragment>\n${OCCLUSION_PARS_FRAGMENT}`
+            )
+            .replace(
+              "#include <clipping_planes_fragment>",
+              `#include <clipping_planes_fragment>\n${OCCLUSION_FRAGMENT}`
+            )
+            .replace(
+              "#include <dithering_fragment>",
+              `#include <dithering_fragment>\n${OCCLUSION_DEBUG_FRAGMENT}`
+            );
+      };
+      material.customProgramCacheKey = () => `occlusion:${created.variant}`;
+      this.patches.set(material, created);
+      patch = created;
+    }
+
+    // 深度テクスチャの種類が変わったらシェーダーを作り直す
+    if (patch.variant !== this.depthVariant) {
+      patch.variant = this.depthVariant;
+      material.needsUpdate = true;
+    }
+    patch.enabled.value = enabled ? 1 : 0;
+  }
+
+  /**
+   * 遮蔽しないメッシュは部屋のメッシュより先に描画し、隠れないようにする
+   */
+  private applyRenderOrder(mesh: THREE.Mesh, enabled: boolean) {
+    const original = this.renderOrders.get(mesh);
+    if (!enabled && original === undefined) {
+      this.renderOrders.set(mesh, mesh.renderOrder);
+      mesh.renderOrder = EXCLUDED_RENDER_ORDER;
+    } else if (enabled && original !== undefined) {
+      mesh.renderOrder = original;
+      this.renderOrders.delete(mesh);
+    }
+  }
+
+  // ---- mesh-detection ----
+
+  /**
+   * frame.detectedMeshesの追加・更新・削除を遮蔽物に反映
+   */
+  private updateMeshes(frame: XRFrame) {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    if (!referenceSpace || !frame.session.enabledFeatures?.includes("mesh-detection")) return;
+
+    const detectedMeshes = frame.detectedMeshes;
+    if (!detectedMeshes) return;
+
+    // 検出されなくなったメッシュを削除
+    this.meshes.forEach((tracked, mesh) => {
+      if (!detectedMeshes.has(mesh)) this.removeMesh(tracked);
+    });
+
+    detectedMeshes.forEach((mesh) => {
+      const pose = frame.getPose(mesh.meshSpace, referenceSpace);
+      if (!pose) return;
+
+      const tracked = this.meshes.get(mesh) ?? this.addMesh(mesh);
+      // 形状が変わった場合はジオメトリを作り直す
+      if (mesh.lastChangedTime !== tracked.lastChangedTime) {
+        tracked.occluder.geometry.dispose();
+        this.setGeometry(tracked, this.createMeshGeometry(mesh));
+        tracked.lastChangedTime = mesh.lastChangedTime;
+      }
+
+      tracked.matrix.fromArray(pose.transform.matrix);
+      tracked.occluder.matrix.copy(tracked.matrix);
+      tracked.occluder.matrixWorldNeedsUpdate = true;
+    });
+  }
+
+  private addMesh(mesh: XRMesh): TrackedMesh {
+    const semanticLabel = mesh.semanticLabel ?? "";
+    const isBounded3D = semanticLabel !== GLOBAL_MESH_LABEL;
+    const geometry = this.createMeshGeometry(mesh);
+
+    const occluder = new THREE.Mesh(geometry, this.occluderMaterial);
+    occluder.name = `RoomMesh(${semanticLabel || "unknown"})`;
+    occluder.renderOrder = OCCLUDER_RENDER_ORDER;
+    occluder.matrixAutoUpdate = false;
+    // レイキャスト（選択・ヒットテストの代用）の対象にしない
+    occluder.raycast = () => {};
+
+    const wireframe = new THREE.Mesh(
+      geometry,
+      new THREE.MeshBasicMaterial({
+        color: MESH_COLORS[semanticLabel] ?? MESH_COLORS.other,
+        wireframe: true,
+        transparent: true,
+        opacity: 0.5,
+        depthWrite: false,
+      })
+    );
+    wireframe.visible = this.showOccluders;
+    wireframe.raycast = () => {};
+    occluder.add(wireframe);
+    this.meshGroup.add(occluder);
+
+    const tracked: TrackedMesh = {
+      id: this.nextMeshId++,
+      mesh,
+      isBounded3D,
+      semanticLabel,
+      min: new THREE.Vector3(),
+      max: new THREE.Vector3(),
+      dimensions: new THREE.Vector3(),
+      matrix: new THREE.Matrix4(),
+      lastChangedTime: mesh.lastChangedTime,
+      occluder,
+      wireframe,
+    };
+    this.setGeometry(tracked, geometry);
+    this.meshes.set(mesh, tracked);
+
+    console.log(`🧱 Mesh detected (#${tracked.id}, ${semanticLabel || "unknown"})`);
+    return tracked;
+  }
+
+  private removeMesh(tracked: TrackedMesh) {
+    this.meshes.delete(tracked.mesh);
+    this.meshGroup.remove(tracked.occluder);
+    tracked.occluder.geometry.dispose();
+    (tracked.wireframe.material as THREE.Material).dispose();
+  }
+
+  /**
+   * ジオメトリと範囲を更新
+   */
+  private setGeometry(tracked: TrackedMesh, geometry: THREE.BufferGeometry) {
+    tracked.occluder.geometry = geometry;
+    tracked.wireframe.geometry = geometry;
+
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    tracked.min.copy(box.min);
+    tracked.max.copy(box.max);
+    box.getSize(tracked.dimensions);
+  }
+
+  /**
+   * メッシュの頂点とインデックス（メッシュ空間）からジオメトリを作成
+   */
+  private createMeshGeometry(mesh: XRMesh): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(mesh.vertices), 3));
+    geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(mesh.indices), 1));
+    return geometry;
+  }
+
+  /**
+   * 使っている情報をストアに反映（変わった場合だけ）
+   */
+  private updateSources() {
+    const sources: OcclusionSource[] = [];
+    if (this.uniforms.occlusionActive.value > 0) sources.push("depth");
+    if (this.meshes.size > 0) sources.push("mesh");
+    if (sources.join() === this.sources.join()) return;
+
+    const previous = this.sources;
+    this.sources = sources;
+    useXRStore.getState().setOcclusionSources(sources);
+    if (previous.length === 0) {
+      console.log(`🧱 Occlusion started (${sources.join(", ")})`);
+    } else if (sources.length === 0) {
+      console.log("🧱 Occlusion ended");
+    }
+  }
+
+  dispose() {
+    this.unsubscribe();
+    this.renderer.xr.removeEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.removeEventListener("sessionend", this.onSessionEnd);
+    this.onSessionEnd();
+    this.scene.remove(this.meshGroup);
+    this.occluderMaterial.dispose();
+    this.renderer.properties.remove(this.depthTexture);
+  }
+}
@@ -0,0 +1,766 @@
+import * as THREE from "three";
+import { useXRStore } from "../stores/xrStore";
+import type { HitTestManager, SelectArbiter } from "./HitTestManager";
+import type { InteractionManager } from "./InteractionManager";
+import type { ManipulationManager } from "./ManipulationManager";
+import { computeLocalBounds } from "./ObjectBounds";
+import type { ObjectTransform } from "./ObjectTransform";
+import { PhysicsWorld, RigidBody, type BodyShape } from "./PhysicsWorld";
+import type { PlaneManager, TrackedPlane } from "./PlaneManager";
+import { xrEvents, type XREvent } from "./XREventBus";
+
+/**
+ * 配置済みオブジェクトの剛体
+ */
+interface PhysicsObject {
+  object: THREE.Object3D;
+  body: RigidBody;
+  // 剛体の中心（オブジェクトのローカル座標、拡大率を含まない）
+  center: THREE.Vector3;
+  scale: number;
+  // 壁・天井に掛けたもの（掴むまで落下しない）
+  mounted: boolean;
+  // 最後に剛体から反映した姿勢（それ以外の変更はundo・インスペクターによるもの）
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  // アンカーの姿勢を反映しないようにしているか
+  holding: boolean;
+  // 掴む前の姿勢（止まったらundoに記録する）
+  before: ObjectTransform | null;
+}
+
+/**
+ * 入力の姿勢のサンプル（速度の推定用）
+ */
+interface PoseSample {
+  time: number;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+/**
+ * 掴んでいるオブジェクト
+ */
+interface PhysicsGrab {
+  inputSource: XRInputSource;
+  entry: PhysicsObject;
+  // 手からオブジェクトへの相対姿勢
+  offset: THREE.Matrix4;
+  samples: PoseSample[];
+  // 入力の姿勢から得た速度（得られなければnull）
+  linearVelocity: THREE.Vector3 | null;
+  angularVelocity: THREE.Vector3 | null;
+}
+
+// 物理演算の固定のステップと、1フレームで進める最大のステップ数
+const FIXED_TIME_STEP = 1 / 60;
+const MAX_SUB_STEPS = 3;
+
+// 配置したオブジェクトを落とす高さ（m）
+const DROP_HEIGHT = 0.1;
+// 上向きでない（法線のY成分がこれ未満の）表面に置いたものは掛けたままにする
+const MOUNTED_UP_THRESHOLD = 0.75;
+
+// ヒットした表面の衝突面の半径と最大数
+const HIT_COLLIDER_RADIUS = 0.5;
+const MAX_HIT_COLLIDERS = 32;
+// この距離以内の同じ向きのヒットは既存の衝突面を使う
+const HIT_COLLIDER_MERGE_DISTANCE = 0.25;
+// 表面からこの深さまでの点を押し返す（テーブルの下は通り抜ける）
+const SURFACE_COLLIDER_DEPTH = 0.1;
+// 床が分からない間は視点からこの高さ下を床とみなす（m）
+const DEFAULT_EYE_HEIGHT = 1.6;
+
+// 密度（kg/m³）と最小の質量
+const DENSITY = 400;
+const MIN_MASS = 0.05;
+
+// 手の近くのオブジェクトを掴む距離（m）
+const GRAB_DISTANCE = 0.05;
+// 速度を推定する期間（秒）と最大の速度（m/s、rad/s）
+const VELOCITY_SAMPLE_TIME = 0.1;
+const MAX_THROW_SPEED = 10;
+const MAX_THROW_SPIN = 20;
+// 休止中のオブジェクトを起こす外部からの移動距離（m）
+const WAKE_DISTANCE = 0.01;
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * PhysicsManagerの設定
+ */
+export interface PhysicsManagerOptions {
+  hitTestManager: HitTestManager;
+  interactionManager: InteractionManager;
+  manipulationManager: ManipulationManager;
+  planeManager: PlaneManager;
+  // パネルなど他で使うsqueezeでは掴まない
+  squeezeArbiter?: SelectArbiter;
+}
+
+/**
+ * PhysicsManager
+ * 配置済みオブジェクトを剛体としてPhysicsWorldで動かす
+ * - 衝突面: 検出された平面、配置したときにヒットした表面、フォールバックの床
+ * - 配置したオブジェクトは少し上から落ちて表面に落ち着く（壁・天井に掛けたものは固定）
+ * - squeezeでコントローラー・手に持ち、離すと入力の姿勢の速度で投げる
+ * - 止まった剛体は休止し、止まったときにアンカーとの相対姿勢を更新する
+ */
+export class PhysicsManager {
+  private renderer: THREE.WebGLRenderer;
+  private hitTestManager: HitTestManager;
+  private interactionManager: InteractionManager;
+  private manipulationManager: ManipulationManager;
+  private planeManager: PlaneManager;
+  private squeezeArbiter: SelectArbiter | null;
+  private world: PhysicsWorld = new PhysicsWorld();
+  private entries: Map<THREE.Object3D, PhysicsObject> = new Map();
+  private grabs: Map<XRInputSource, PhysicsGrab> = new Map();
+  // 配置されたばかりで落とすオブジェクト（モデルの読み込みを待つ）
+  private pendingDrops: Set<THREE.Object3D> = new Set();
+  // 移動・回転の操作中のオブジェクト
+  private manipulated: Set<PhysicsObject> = new Set();
+  private hitColliderIds: string[] = [];
+  private nextHitColliderId = 1;
+  private floorHeight: number | null = null;
+  // セッション開始時の視点の高さから推定した床の高さ
+  private viewerFloorHeight: number | null = null;
+  private session: XRSession | null = null;
+  private lastTime: number | null = null;
+  private accumulator = 0;
+  private lastStats = { bodies: -1, awake: -1 };
+
+  constructor(renderer: THREE.WebGLRenderer, options: PhysicsManagerOptions) {
+    const { planeManager } = options;
+    this.renderer = renderer;
+    this.hitTestManager = options.hitTestManager;
+    this.interactionManager = options.interactionManager;
+    this.manipulationManager = options.manipulationManager;
+    this.planeManager = planeManager;
+    this.squeezeArbiter = options.squeezeArbiter ?? null;
+
+    xrEvents.addEventListener("place", this.onPlace);
+    planeManager.addEventListener("planeadded", this.onPlaneChanged);
+    planeManager.addEventListener("planeupdated", this.onPlaneChanged);
+    planeManager.addEventListener("planeremoved", this.onPlaneRemoved);
+    renderer.xr.addEventListener("sessionstart", this.onSessionStart);
+    renderer.xr.addEventListener("sessionend", this.onSessionEnd);
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   * 剛体の追加・削除と、操作・掴んでいる手に合わせた剛体の更新
+   */
+  update(frame?: XRFrame) {
+    this.syncBodies();
+    if (!useXRStore.getState().physicsEnabled) {
+      this.releaseGrabs();
+      return;
+    }
+
+    this.syncManipulation();
+    this.syncExternalChanges();
+    if (frame) {
+      this.estimateViewerFloor(frame);
+      this.updateGrabs(frame);
+    }
+  }
+
+  /**
+   * 物理演算を進める（setAnimationLoopのコールバックの時刻、ミリ秒）
+   * 固定のステップで進め、余った時間は次のフレームに持ち越す
+   */
+  step(time: number) {
+    const lastTime = this.lastTime;
+    this.lastTime = time;
+    if (lastTime === null || !useXRStore.getState().physicsEnabled) return;
+
+    this.updateFloorCollider();
+    this.accumulator = Math.min(
+      this.accumulator + (time - lastTime) / 1000,
+      FIXED_TIME_STEP * MAX_SUB_STEPS
+    );
+
+    while (this.accumulator >= FIXED_TIME_STEP) {
+      this.accumulator -= FIXED_TIME_STEP;
+      const { slept } = this.world.step(FIXED_TIME_STEP);
+      this.holdAwakeBodies();
+      slept.forEach((body) => {
+        const entry = this.findEntry(body);
+        if (entry) this.settle(entry);
+      });
+    }
+
+    this.entries.forEach((entry) => {
+      if (entry.body.dynamic && !entry.body.sleeping) this.writeObject(entry);
+    });
+    this.syncStats();
+  }
+
+  // ---- 剛体 ----
+
+  /**
+   * 配置済みオブジェクトごとに剛体を作成・削除
+   */
+  private syncBodies() {
+    const objects = new Set(this.hitTestManager.getPlacedObjects());
+    this.entries.forEach((entry, object) => {
+      if (!objects.has(object)) this.removeEntry(entry);
+    });
+    this.pendingDrops.forEach((object) => {
+      if (!objects.has(object)) this.pendingDrops.delete(object);
+    });
+
+    objects.forEach((object) => {
+      if (!this.entries.has(object)) this.createEntry(object);
+    });
+  }
+
+  /**
+   * 剛体を作成（モデルの読み込み中で大きさがわからなければ作成しない）
+   */
+  private createEntry(object: THREE.Object3D): PhysicsObject | null {
+    const bounds = computeLocalBounds(object);
+    if (bounds.isEmpty()) return null;
+
+    const up = WORLD_UP.clone().applyQuaternion(object.quaternion);
+    const mounted = up.y < MOUNTED_UP_THRESHOLD;
+    const scale = object.scale.x;
+    const center = bounds.getCenter(new THREE.Vector3());
+    const { shape, mass } = this.createShape(object, bounds, scale);
+
+    const body = new RigidBody({ shape, mass });
+    body.dynamic = !mounted;
+    const entry: PhysicsObject = {
+      object,
+      body,
+      center,
+      scale,
+      mounted,
+      position: new THREE.Vector3(),
+      quaternion: new THREE.Quaternion(),
+      holding: false,
+      before: null,
+    };
+
+    // 配置されたばかりのものは少し上から落とし、それ以外（復元・複製など）は置かれた位置で休止
+    const drop = this.pendingDrops.delete(object) && !mounted;
+    if (drop) {
+      object.position.addScaledVector(WORLD_UP, DROP_HEIGHT);
+    } else {
+      body.sleep();
+    }
+    this.readObject(entry);
+    this.world.addBody(body);
+    this.entries.set(object, entry);
+    return entry;
+  }
+
+  /**
+   * 剛体の形状と質量（球のジオメトリ1つだけなら球、それ以外はバウンディングボックス）
+   */
+  private createShape(
+    object: THREE.Object3D,
+    bounds: THREE.Box3,
+    scale: number
+  ): { shape: BodyShape; mass: number } {
+    const meshes: THREE.Mesh[] = [];
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) meshes.push(child);
+    });
+
+    const size = bounds.getSize(new THREE.Vector3()).multiplyScalar(scale);
+    if (meshes.length === 1 && meshes[0].geometry instanceof THREE.SphereGeometry) {
+      const radius = Math.max(size.x, size.y, size.z) / 2;
+      const mass = Math.max(DENSITY * (4 / 3) * Math.PI * radius ** 3, MIN_MASS);
+      return { shape: { type: "sphere", radius }, mass };
+    }
+
+    // 薄い額縁などでも頂点が表面を通り抜けないように最小の厚さを持たせる
+    const halfExtents = size.multiplyScalar(0.5).max(new THREE.Vector3().setScalar(0.005));
+    const mass = Math.max(DENSITY * 8 * halfExtents.x * halfExtents.y * halfExtents.z, MIN_MASS);
+    return { shape: { type: "box", halfExtents }, mass };
+  }
+
+  private removeEntry(entry: PhysicsObject) {
+    this.grabs.forEach((grab, inputSource) => {
+      if (grab.entry === entry) this.grabs.delete(inputSource);
+    });
+    this.manipulated.delete(entry);
+    if (entry.holding) this.hitTestManager.settleTransform(entry.object);
+    this.world.removeBody(entry.body);
+    this.entries.delete(entry.object);
+
+    // 上に載っていたものを起こす
+    const bounds = entry.body.computeBounds(new THREE.Box3()).expandByScalar(WAKE_DISTANCE);
+    this.world.wakeInside(bounds);
+  }
+
+  private findEntry(body: RigidBody): PhysicsObject | undefined {
+    return Array.from(this.entries.values()).find((entry) => entry.body === body);
+  }
+
+  /**
+   * オブジェクトの姿勢を剛体に反映
+   */
+  private readObject(entry: PhysicsObject) {
+    const { object, body } = entry;
+    body.quaternion.copy(object.quaternion);
+    body.position
+      .copy(entry.center)
+      .multiplyScalar(object.scale.x)
+      .applyQuaternion(object.quaternion)
+      .add(object.position);
+    entry.position.copy(object.position);
+    entry.quaternion.copy(object.quaternion);
+  }
+
+  /**
+   * 剛体の姿勢をオブジェクトに反映
+   */
+  private writeObject(entry: PhysicsObject) {
+    const { object, body } = entry;
+    object.quaternion.copy(body.quaternion);
+    object.position.copy(
+      entry.center
+        .clone()
+        .multiplyScalar(-object.scale.x)
+        .applyQuaternion(body.quaternion)
+        .add(body.position)
+    );
+    entry.position.copy(object.position);
+    entry.quaternion.copy(object.quaternion);
+  }
+
+  /**
+   * 動いている剛体はアンカーの姿勢を反映しない
+   */
+  private holdAwakeBodies() {
+    this.entries.forEach((entry) => {
+      if (entry.holding || entry.body.sleeping || !entry.body.dynamic) return;
+      this.hitTestManager.holdTransform(entry.object);
+      entry.holding = true;
+    });
+  }
+
+  /**
+   * 止まった剛体の姿勢を確定（投げたものはundoに記録する）
+   */
+  private settle(entry: PhysicsObject) {
+    this.writeObject(entry);
+    if (entry.before) {
+      this.hitTestManager.commitTransforms([{ object: entry.object, before: entry.before }]);
+      console.log(`🪨 ${entry.object.name} came to rest`);
+    } else if (entry.holding) {
+      this.hitTestManager.settleTransform(entry.object);
+    }
+    entry.holding = false;
+    entry.before = null;
+  }
+
+  /**
+   * undo・インスペクターなど物理演算以外による姿勢の変更を剛体に反映
+   */
+  private syncExternalChanges() {
+    const grabbed = new Set(Array.from(this.grabs.values()).map((grab) => grab.entry));
+
+    this.entries.forEach((entry) => {
+      if (grabbed.has(entry) || this.manipulated.has(entry)) return;
+      const { object, body } = entry;
+
+      const resized = object.scale.x !== entry.scale;
+      if (resized) {
+        const bounds = computeLocalBounds(object);
+        const { shape, mass } = this.createShape(object, bounds, object.scale.x);
+        body.setShape(shape, mass);
+        entry.scale = object.scale.x;
+      }
+
+      const moved =
+        !object.position.equals(entry.position) || !object.quaternion.equals(entry.quaternion);
+      if (!moved && !resized) return;
+
+      const distance = object.position.distanceTo(entry.position);
+      this.readObject(entry);
+      body.velocity.set(0, 0, 0);
+      body.angularVelocity.set(0, 0, 0);
+      entry.before = null;
+      // アンカーの追従による小さな変化では起こさない
+      if (body.dynamic && body.sleeping && (resized || distance >= WAKE_DISTANCE)) {
+        body.wake();
+      }
+    });
+  }
+
+  /**
+   * 移動・回転の操作中のオブジェクトは操作に任せ、終わったら落下させる
+   */
+  private syncManipulation() {
+    const manipulating = this.manipulationManager.isManipulating();
+    const selected = manipulating
+      ? this.interactionManager
+          .getSelectedObjects()
+          .map((object) => this.entries.get(object))
+          .filter((entry): entry is PhysicsObject => entry !== undefined)
+      : [];
+
+    selected.forEach((entry) => {
+      if (this.manipulated.has(entry)) return;
+      this.manipulated.add(entry);
+      // アンカーとundoは操作に任せる
+      this.grabs.forEach((grab, inputSource) => {
+        if (grab.entry === entry) this.grabs.delete(inputSource);
+      });
+      entry.holding = false;
+      entry.before = null;
+      entry.body.dynamic = false;
+      entry.body.sleep();
+    });
+
+    this.manipulated.forEach((entry) => {
+      if (manipulating) {
+        this.readObject(entry);
+        return;
+      }
+      this.manipulated.delete(entry);
+      this.readObject(entry);
+      entry.body.dynamic = !entry.mounted;
+      if (entry.body.dynamic) entry.body.wake();
+    });
+  }
+
+  // ---- 衝突面 ----
+
+  /**
+   * 配置したオブジェクトを落とし、ヒットした表面を衝突面にする
+   */
+  private onPlace = (event: XREvent<"place">) => {
+    this.pendingDrops.add(event.object);
+
+    const position = new THREE.Vector3().setFromMatrixPosition(event.pose);
+    if (event.surface.normal.y >= MOUNTED_UP_THRESHOLD) {
+      const floorHeight = position.y - event.surface.height;
+      if (this.floorHeight === null || floorHeight < this.floorHeight) {
+        this.floorHeight = floorHeight;
+      }
+    }
+
+    // 検出された平面上なら平面の衝突面を使う
+    if (event.plane) return;
+    const covered = this.world.getColliders().some((collider) => {
+      if (collider.radius === undefined) return false;
+      const origin = new THREE.Vector3().setFromMatrixPosition(collider.matrix);
+      const normal = new THREE.Vector3().setFromMatrixColumn(collider.matrix, 1).normalize();
+      return (
+        normal.dot(event.surface.normal) > 0.95 &&
+        origin.distanceTo(position) < HIT_COLLIDER_MERGE_DISTANCE
+      );
+    });
+    if (covered) return;
+
+    const id = `hit:${this.nextHitColliderId++}`;
+    this.world.setCollider({
+      id,
+      matrix: event.pose.clone(),
+      radius: HIT_COLLIDER_RADIUS,
+      maxDepth: SURFACE_COLLIDER_DEPTH,
+    });
+    this.hitColliderIds.push(id);
+    if (this.hitColliderIds.length > MAX_HIT_COLLIDERS) {
+      this.world.removeCollider(this.hitColliderIds.shift()!);
+    }
+  };
+
+  private onPlaneChanged = (event: { plane: TrackedPlane }) => {
+    const { plane } = event;
+    this.world.setCollider({
+      id: `plane:${plane.id}`,
+      matrix: plane.matrix.clone(),
+      polygon: plane.plane.polygon.map((point) => new THREE.Vector2(point.x, point.z)),
+      maxDepth: SURFACE_COLLIDER_DEPTH,
+    });
+  };
+
+  private onPlaneRemoved = (event: { plane: TrackedPlane }) => {
+    this.world.removeCollider(`plane:${event.plane.id}`);
+    const bounds = new THREE.Box3().setFromPoints(event.plane.worldPolygon);
+    this.world.wakeInside(bounds.expandByScalar(WAKE_DISTANCE));
+  };
+
+  /**
+   * 床の座標系でない場合、最初の視点の高さから床を仮に決める
+   */
+  private estimateViewerFloor(frame: XRFrame) {
+    if (this.viewerFloorHeight !== null) return;
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    const pose = referenceSpace ? frame.getViewerPose(referenceSpace) : null;
+    if (!pose) return;
+    this.viewerFloorHeight = pose.transform.position.y - DEFAULT_EYE_HEIGHT;
+  }
+
+  /**
+   * フォールバックの床
+   * local-floorなら0、それ以外は配置した上向きの面から推定し、
+   * 分かるまでは視点の高さから推定した床（それもなければ0）を使う
+   */
+  private updateFloorCollider() {
+    const { referenceSpaceType } = useXRStore.getState();
+    const floorHeight =
+      referenceSpaceType === "local-floor" || referenceSpaceType === "bounded-floor"
+        ? 0
+        : (this.floorHeight ?? this.viewerFloorHeight ?? 0);
+
+    // 床より下は深さに関係なく押し返す
+    this.world.setCollider({
+      id: "floor",
+      matrix: new THREE.Matrix4().makeTranslation(0, floorHeight, 0),
+      maxDepth: Infinity,
+    });
+  }
+
+  // ---- 掴んで投げる ----
+
+  private onSessionStart = () => {
+    const session = this.renderer.xr.getSession();
+    if (!session) return;
+    this.session = session;
+    session.addEventListener("squeezestart", this.onSqueezeStart);
+    session.addEventListener("squeezeend", this.onSqueezeEnd);
+
+    // 前のセッションのヒットした表面と床は座標系が異なる
+    this.hitColliderIds.forEach((id) => this.world.removeCollider(id));
+    this.hitColliderIds = [];
+    this.world.removeCollider("floor");
+    this.floorHeight = null;
+    this.viewerFloorHeight = null;
+  };
+
+  private onSessionEnd = () => {
+    this.releaseGrabs();
+    if (!this.session) return;
+    this.session.removeEventListener("squeezestart", this.onSqueezeStart);
+    this.session.removeEventListener("squeezeend", this.onSqueezeEnd);
+    this.session = null;
+  };
+
+  /**
+   * squeezeでオブジェクトを掴んでいる場合はtrue（プレビューをキャンセルしない）
+   */
+  claimsSqueeze(event: XRInputSourceEvent): boolean {
+    return this.grabs.has(event.inputSource);
+  }
+
+  /**
+   * 指している、または手の近くにあるオブジェクトを掴む
+   */
+  private onSqueezeStart = (event: XRInputSourceEvent) => {
+    if (!useXRStore.getState().physicsEnabled) return;
+    if (this.squeezeArbiter?.claimsSelect(event)) return;
+    const grip = this.getGripMatrix(event.inputSource, event.frame);
+    if (!grip) return;
+
+    const target = this.interactionManager.getTargetObject(event.inputSource, event.frame);
+    const entry =
+      (target && this.entries.get(target)) ??
+      this.findNearest(new THREE.Vector3().setFromMatrixPosition(grip));
+    if (!entry || this.manipulated.has(entry)) return;
+
+    // 別の手で掴んでいた場合は持ち替える
+    this.grabs.forEach((grab, inputSource) => {
+      if (grab.entry === entry) this.grabs.delete(inputSource);
+    });
+
+    const { object, body } = entry;
+    entry.before ??= this.hitTestManager.beginTransform(object);
+    entry.holding = true;
+    entry.mounted = false;
+    body.dynamic = false;
+    body.wake();
+
+    object.updateMatrix();
+    this.grabs.set(event.inputSource, {
+      inputSource: event.inputSource,
+      entry,
+      offset: grip.clone().invert().multiply(object.matrix),
+      samples: [],
+      linearVelocity: null,
+      angularVelocity: null,
+    });
+    console.log(`✊ Grabbed ${object.name} (${event.inputSource.handedness})`);
+  };
+
+  /**
+   * 離したら手の速度で投げる
+   */
+  private onSqueezeEnd = (event: XRInputSourceEvent) => {
+    const grab = this.grabs.get(event.inputSource);
+    if (!grab) return;
+    this.grabs.delete(event.inputSource);
+    this.throwGrab(grab);
+  };
+
+  private releaseGrabs() {
+    this.grabs.forEach((grab) => this.throwGrab(grab, false));
+    this.grabs.clear();
+  }
+
+  /**
+   * 掴んでいたオブジェクトを離す（withVelocityがfalseならその場で落とす）
+   */
+  private throwGrab(grab: PhysicsGrab, withVelocity: boolean = true) {
+    const { body } = grab.entry;
+    body.dynamic = true;
+    body.wake();
+    body.velocity.set(0, 0, 0);
+    body.angularVelocity.set(0, 0, 0);
+    if (!withVelocity) return;
+
+    const velocity = this.estimateVelocity(grab);
+    if (!velocity) return;
+
+    // 手の回転による剛体の中心の速度を加える
+    const latest = grab.samples[grab.samples.length - 1];
+    const lever = body.position.clone().sub(latest.position);
+    body.velocity
+      .copy(velocity.angular)
+      .cross(lever)
+      .add(velocity.linear)
+      .clampLength(0, MAX_THROW_SPEED);
+    body.angularVelocity.copy(velocity.angular).clampLength(0, MAX_THROW_SPIN);
+    console.log(`🤾 Threw ${grab.entry.object.name} at ${body.velocity.length().toFixed(1)} m/s`);
+  }
+
+  /**
+   * 掴んでいるオブジェクトを手の姿勢に合わせる
+   */
+  private updateGrabs(frame: XRFrame) {
+    const time = performance.now() / 1000;
+
+    this.grabs.forEach((grab) => {
+      const pose = this.getGripPose(grab.inputSource, frame);
+      if (!pose) return;
+      const grip = new THREE.Matrix4().fromArray(pose.transform.matrix);
+
+      const { object } = grab.entry;
+      const scale = object.scale.clone();
+      grip.clone().multiply(grab.offset).decompose(object.position, object.quaternion, new THREE.Vector3());
+      object.scale.copy(scale);
+      this.readObject(grab.entry);
+
+      // 入力の姿勢の速度（なければサンプルの差分で推定する）
+      grab.linearVelocity = pose.linearVelocity ? this.toVector(pose.linearVelocity) : null;
+      grab.angularVelocity = pose.angularVelocity ? this.toVector(pose.angularVelocity) : null;
+      grab.samples.push({
+        time,
+        position: new THREE.Vector3().setFromMatrixPosition(grip),
+        quaternion: new THREE.Quaternion().setFromRotationMatrix(grip),
+      });
+      while (grab.samples.length > 2 && time - grab.samples[0].time > VELOCITY_SAMPLE_TIME) {
+        grab.samples.shift();
+      }
+
+      // 動かしている手で他のオブジェクトを押せるようにする
+      grab.entry.body.velocity.copy(this.estimateVelocity(grab)?.linear ?? new THREE.Vector3());
+    });
+  }
+
+  /**
+   * 手の速度（入力の姿勢の速度を優先し、なければ最近の姿勢の差分）
+   */
+  private estimateVelocity(
+    grab: PhysicsGrab
+  ): { linear: THREE.Vector3; angular: THREE.Vector3 } | null {
+    const first = grab.samples[0];
+    const last = grab.samples[grab.samples.length - 1];
+    if (!first || !last) return null;
+
+    const dt = last.time - first.time;
+    const linear =
+      grab.linearVelocity?.clone() ??
+      (dt > 0 ? last.position.clone().sub(first.position).divideScalar(dt) : new THREE.Vector3());
+
+    let angular = grab.angularVelocity?.clone();
+    if (!angular) {
+      angular = new THREE.Vector3();
+      if (dt > 0) {
+        const delta = last.quaternion.clone().multiply(first.quaternion.clone().invert());
+        if (delta.w < 0) delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+        const angle = 2 * Math.acos(Math.min(delta.w, 1));
+        const sin = Math.sqrt(1 - delta.w * delta.w);
+        if (sin > 1e-6) {
+          angular.set(delta.x, delta.y, delta.z).divideScalar(sin).multiplyScalar(angle / dt);
+        }
+      }
+    }
+
+    return { linear, angular };
+  }
+
+  /**
+   * 手の位置に最も近い、手の届く範囲のオブジェクト
+   */
+  private findNearest(position: THREE.Vector3): PhysicsObject | null {
+    const box = new THREE.Box3();
+    let nearest: PhysicsObject | null = null;
+    let nearestDistance = Infinity;
+
+    this.entries.forEach((entry) => {
+      entry.body.computeBounds(box).expandByScalar(GRAB_DISTANCE);
+      if (!box.containsPoint(position)) return;
+      const distance = entry.body.position.distanceTo(position);
+      if (distance < nearestDistance) {
+        nearest = entry;
+        nearestDistance = distance;
+      }
+    });
+
+    return nearest;
+  }
+
+  /**
+   * 掴む位置の姿勢（gripSpaceがなければtargetRaySpace）
+   */
+  private getGripPose(inputSource: XRInputSource, frame: XRFrame): XRPose | null {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    if (!referenceSpace) return null;
+    return frame.getPose(inputSource.gripSpace ?? inputSource.targetRaySpace, referenceSpace) ?? null;
+  }
+
+  private getGripMatrix(inputSource: XRInputSource, frame: XRFrame): THREE.Matrix4 | null {
+    const pose = this.getGripPose(inputSource, frame);
+    return pose ? new THREE.Matrix4().fromArray(pose.transform.matrix) : null;
+  }
+
+  private toVector(point: DOMPointReadOnly): THREE.Vector3 {
+    return new THREE.Vector3(point.x, point.y, point.z);
+  }
+
+  /**
+   * 剛体の数をストアに反映（変化した場合のみ）
+   */
+  private syncStats() {
+    const bodies = this.entries.size;
+    let awake = 0;
+    this.entries.forEach((entry) => {
+      if (!entry.body.sleeping) awake++;
+    });
+    if (bodies === this.lastStats.bodies && awake === this.lastStats.awake) return;
+
+    this.lastStats = { bodies, awake };
+    useXRStore.getState().setPhysicsStats(bodies, awake);
+  }
+
+  dispose() {
+    xrEvents.removeEventListener("place", this.onPlace);
+    this.planeManager.removeEventListener("planeadded", this.onPlaneChanged);
+    this.planeManager.removeEventListener("planeupdated", this.onPlaneChanged);
+    this.planeManager.removeEventListener("planeremoved", this.onPlaneRemoved);
+    this.renderer.xr.removeEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.removeEventListener("sessionend", this.onSessionEnd);
+    this.onSessionEnd();
+    this.entries.forEach((entry) => {
+      if (entry.holding) this.hitTestManager.settleTransform(entry.object);
+    });
+    this.entries.clear();
+  }
+}
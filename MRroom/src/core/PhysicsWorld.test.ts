@@ -0,0 +1,264 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { PhysicsWorld, RigidBody } from "./PhysicsWorld";
+
+const STEP = 1 / 60;
+
+function createBox(size = 0.2, mass = 1): RigidBody {
+  return new RigidBody({
+    shape: { type: "box", halfExtents: new THREE.Vector3().setScalar(size / 2) },
+    mass,
+  });
+}
+
+function createSphere(radius = 0.1, mass = 1): RigidBody {
+  return new RigidBody({ shape: { type: "sphere", radius }, mass });
+}
+
+// y = height の上向きの平面
+function createFloor(world: PhysicsWorld, height = 0, id = "floor") {
+  world.setCollider({
+    id,
+    matrix: new THREE.Matrix4().makeTranslation(0, height, 0),
+    maxDepth: Infinity,
+  });
+}
+
+// 指定した秒数だけ進める（休止した剛体を返す）
+function simulate(world: PhysicsWorld, seconds: number): RigidBody[] {
+  const slept: RigidBody[] = [];
+  const steps = Math.round(seconds / STEP);
+  for (let i = 0; i < steps; i++) {
+    slept.push(...world.step(STEP).slept);
+  }
+  return slept;
+}
+
+describe("PhysicsWorld", () => {
+  describe("resting contact", () => {
+    it("drops a box onto a plane and leaves it resting on the surface", () => {
+      const world = new PhysicsWorld();
+      createFloor(world);
+      const box = createBox(0.2);
+      box.position.set(0, 0.5, 0);
+      world.addBody(box);
+
+      simulate(world, 3);
+
+      expect(box.position.y).toBeCloseTo(0.1, 2);
+      expect(box.position.x).toBeCloseTo(0, 3);
+      expect(box.position.z).toBeCloseTo(0, 3);
+      expect(box.velocity.length()).toBeLessThan(0.05);
+    });
+
+    it("rests a sphere on a plane at its radius", () => {
+      const world = new PhysicsWorld();
+      createFloor(world, 0.75);
+      const sphere = createSphere(0.1);
+      sphere.position.set(0, 1.2, 0);
+      world.addBody(sphere);
+
+      simulate(world, 3);
+
+      expect(sphere.position.y).toBeCloseTo(0.85, 2);
+    });
+
+    it("stacks a box on another box", () => {
+      const world = new PhysicsWorld();
+      createFloor(world);
+      const bottom = createBox(0.2);
+      bottom.position.set(0, 0.1, 0);
+      const top = createBox(0.2);
+      top.position.set(0, 0.35, 0);
+      world.addBody(bottom);
+      world.addBody(top);
+
+      simulate(world, 4);
+
+      expect(bottom.position.y).toBeCloseTo(0.1, 2);
+      expect(top.position.y).toBeCloseTo(0.3, 2);
+      expect(bottom.sleeping && top.sleeping).toBe(true);
+    });
+
+    it("only supports bodies inside the collider's radius", () => {
+      const world = new PhysicsWorld();
+      world.setCollider({
+        id: "table",
+        matrix: new THREE.Matrix4().makeTranslation(0, 0.75, 0),
+        radius: 0.5,
+        maxDepth: 0.1,
+      });
+      const inside = createBox(0.1);
+      inside.position.set(0, 1, 0);
+      const outside = createBox(0.1);
+      outside.position.set(1, 1, 0);
+      world.addBody(inside);
+      world.addBody(outside);
+
+      simulate(world, 2);
+
+      expect(inside.position.y).toBeCloseTo(0.8, 2);
+      expect(outside.position.y).toBeLessThan(0);
+    });
+
+    it("lets bodies pass under a surface deeper than maxDepth", () => {
+      const world = new PhysicsWorld();
+      world.setCollider({
+        id: "table",
+        matrix: new THREE.Matrix4().makeTranslation(0, 0.75, 0),
+        maxDepth: 0.1,
+      });
+      createFloor(world);
+      const box = createBox(0.1);
+      box.position.set(0, 0.4, 0);
+      world.addBody(box);
+
+      simulate(world, 2);
+
+      expect(box.position.y).toBeCloseTo(0.05, 2);
+    });
+  });
+
+  describe("sleeping", () => {
+    it("puts a resting body to sleep and reports it once", () => {
+      const world = new PhysicsWorld();
+      createFloor(world);
+      const box = createBox();
+      box.position.set(0, 0.3, 0);
+      world.addBody(box);
+
+      const slept = simulate(world, 3);
+
+      expect(box.sleeping).toBe(true);
+      expect(slept).toEqual([box]);
+      expect(box.velocity.lengthSq()).toBe(0);
+      expect(box.angularVelocity.lengthSq()).toBe(0);
+    });
+
+    it("does not move a sleeping body without support", () => {
+      const world = new PhysicsWorld();
+      const box = createBox();
+      box.position.set(0, 1, 0);
+      box.sleep();
+      world.addBody(box);
+
+      simulate(world, 1);
+
+      expect(box.position.y).toBe(1);
+    });
+
+    it("wakes a sleeping body when a moving body hits it", () => {
+      const world = new PhysicsWorld();
+      createFloor(world);
+      const target = createBox(0.2);
+      target.position.set(0, 0.1, 0);
+      world.addBody(target);
+      simulate(world, 2);
+      expect(target.sleeping).toBe(true);
+
+      const projectile = createSphere(0.1);
+      projectile.position.set(-0.5, 0.1, 0);
+      projectile.velocity.set(3, 0, 0);
+      world.addBody(projectile);
+
+      const woken: RigidBody[] = [];
+      for (let i = 0; i < 30; i++) {
+        woken.push(...world.step(STEP).woken);
+      }
+
+      expect(woken).toContain(target);
+      expect(target.position.x).toBeGreaterThan(0.01);
+    });
+
+    it("wakes bodies whose support was removed", () => {
+      const world = new PhysicsWorld();
+      createFloor(world, 0.75, "table");
+      createFloor(world, 0);
+      const box = createBox(0.2);
+      box.position.set(0, 0.85, 0);
+      world.addBody(box);
+      simulate(world, 2);
+      expect(box.sleeping).toBe(true);
+
+      world.removeCollider("table");
+      const woken = world.wakeInside(
+        new THREE.Box3(new THREE.Vector3(-1, 0.7, -1), new THREE.Vector3(1, 0.8, 1))
+      );
+      simulate(world, 2);
+
+      expect(woken).toEqual([box]);
+      expect(box.position.y).toBeCloseTo(0.1, 2);
+    });
+  });
+
+  describe("throwing", () => {
+    it("keeps the release velocity and follows a ballistic arc", () => {
+      const world = new PhysicsWorld();
+      const ball = createSphere(0.05);
+      ball.position.set(0, 1.5, 0);
+      ball.velocity.set(4, 2, 0);
+      world.addBody(ball);
+
+      const seconds = 0.5;
+      simulate(world, seconds);
+
+      // 速度を先に更新する積分なので、落下は放物線より1ステップ分だけ先行する
+      const drop = 0.5 * 9.81 * seconds * (seconds + STEP);
+      // 空気抵抗（1秒あたり5%）の分だけ遅くなる
+      expect(ball.position.x).toBeCloseTo(4 * seconds, 1);
+      expect(ball.position.y).toBeCloseTo(1.5 + 2 * seconds - drop, 1);
+      expect(ball.velocity.x).toBeGreaterThan(3.9);
+      expect(ball.velocity.y).toBeCloseTo(2 - 9.81 * seconds, 1);
+    });
+
+    it("pushes a resting body with a kinematic (held) body moving into it", () => {
+      const world = new PhysicsWorld();
+      createFloor(world);
+      const box = createBox(0.2);
+      box.position.set(0, 0.1, 0);
+      world.addBody(box);
+
+      const hand = createSphere(0.05);
+      hand.dynamic = false;
+      hand.position.set(-0.16, 0.1, 0);
+      hand.velocity.set(1, 0, 0);
+      world.addBody(hand);
+
+      for (let i = 0; i < 10; i++) {
+        world.step(STEP);
+        hand.position.addScaledVector(hand.velocity, STEP);
+      }
+
+      expect(box.position.x).toBeGreaterThan(0.05);
+      expect(hand.position.x).toBeCloseTo(-0.16 + 10 * STEP, 5);
+    });
+
+    it("stops a thrown box on the floor", () => {
+      const world = new PhysicsWorld();
+      createFloor(world);
+      const box = createBox(0.2);
+      box.position.set(0, 1, 0);
+      box.velocity.set(2, 1, 0);
+      box.angularVelocity.set(0, 0, 5);
+      world.addBody(box);
+
+      simulate(world, 5);
+
+      expect(box.sleeping).toBe(true);
+      expect(box.position.y).toBeGreaterThan(0.09);
+      expect(box.position.y).toBeLessThan(0.15);
+      expect(box.position.x).toBeGreaterThan(0.5);
+    });
+  });
+
+  it("stops bodies falling forever at the kill height", () => {
+    const world = new PhysicsWorld();
+    const box = createBox();
+    world.addBody(box);
+
+    const slept = simulate(world, 5);
+
+    expect(slept).toEqual([box]);
+    expect(box.position.y).toBe(-50);
+  });
+});
@@ -0,0 +1,823 @@
+import * as THREE from "three";
+
+/**
+ * 剛体の形状（剛体の中心を原点とするローカル座標）
+ */
+export type BodyShape =
+  | { type: "box"; halfExtents: THREE.Vector3 }
+  | { type: "sphere"; radius: number };
+
+/**
+ * 静的な衝突面（表面の上側だけを押し返す平面）
+ * - polygon: 平面のローカル座標（XZ平面）の範囲
+ * - radius: 中心からの半径の範囲
+ * どちらもなければ無限平面
+ */
+export interface PlaneCollider {
+  id: string;
+  // 平面の姿勢（Y軸が法線）
+  matrix: THREE.Matrix4;
+  polygon?: THREE.Vector2[];
+  radius?: number;
+  // この深さより下にある点は押し返さない（テーブルの下を通り抜けられるように）
+  maxDepth: number;
+}
+
+/**
+ * 剛体の設定
+ */
+export interface RigidBodyOptions {
+  shape: BodyShape;
+  mass: number;
+  restitution?: number;
+  friction?: number;
+}
+
+/**
+ * 接触点
+ * normalはbからaの向き（aを押し返す向き）、bがnullなら静的な衝突面
+ */
+interface Contact {
+  a: RigidBody;
+  b: RigidBody | null;
+  colliderId?: string;
+  // 接触した部位（前のステップの力積を引き継ぐためのキー）
+  feature: string;
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  depth: number;
+}
+
+/**
+ * 前のステップで累積した力積
+ */
+interface CachedImpulse {
+  normal: number;
+  tangents: [number, number];
+}
+
+/**
+ * 速度の拘束を解くための接触点の値（反復の間で力積を累積する）
+ */
+interface ContactConstraint {
+  contact: Contact;
+  // 接線方向（摩擦）の2軸
+  tangents: [THREE.Vector3, THREE.Vector3];
+  // 方向ごとの実効質量
+  normalMass: number;
+  tangentMasses: [number, number];
+  // 反発による目標の速度
+  bounce: number;
+  friction: number;
+  normalImpulse: number;
+  tangentImpulses: [number, number];
+}
+
+// 重力（m/s²）
+const GRAVITY = new THREE.Vector3(0, -9.81, 0);
+// 速度の反復回数
+const SOLVER_ITERATIONS = 8;
+// めり込みの許容量と位置補正の割合
+const PENETRATION_SLOP = 0.002;
+const POSITION_CORRECTION = 0.6;
+// この速度より遅い衝突では跳ね返らない
+const RESTITUTION_THRESHOLD = 0.5;
+// 空気抵抗（1秒あたりの減衰）
+const LINEAR_DAMPING = 0.05;
+const ANGULAR_DAMPING = 0.3;
+// 接触している剛体の回転の減衰（転がり抵抗）
+const CONTACT_ANGULAR_DAMPING = 3;
+// この速度以下が続いたら休止する
+const SLEEP_LINEAR_VELOCITY = 0.05;
+const SLEEP_ANGULAR_VELOCITY = 0.1;
+const SLEEP_TIME = 0.5;
+// 落下し続けるオブジェクトの下限（フォールバックの床がない場合の保険）
+const KILL_HEIGHT = -50;
+
+let nextBodyId = 1;
+
+const BOX_CORNERS = [-1, 1].flatMap((x) =>
+  [-1, 1].flatMap((y) => [-1, 1].map((z) => new THREE.Vector3(x, y, z)))
+);
+
+/**
+ * RigidBody
+ * 直方体または球の剛体
+ * dynamicがfalseの間は質量無限大として扱い、速度はvelocityのまま（掴んでいる間など）
+ */
+export class RigidBody {
+  readonly id: number = nextBodyId++;
+  readonly position: THREE.Vector3 = new THREE.Vector3();
+  readonly quaternion: THREE.Quaternion = new THREE.Quaternion();
+  readonly velocity: THREE.Vector3 = new THREE.Vector3();
+  readonly angularVelocity: THREE.Vector3 = new THREE.Vector3();
+  shape: BodyShape;
+  dynamic = true;
+  sleeping = false;
+  restitution: number;
+  friction: number;
+  private mass: number;
+  private inverseInertia: THREE.Vector3 = new THREE.Vector3();
+  private sleepTimer = 0;
+
+  constructor(options: RigidBodyOptions) {
+    this.shape = options.shape;
+    this.mass = options.mass;
+    this.restitution = options.restitution ?? 0.3;
+    this.friction = options.friction ?? 0.5;
+    this.setShape(options.shape, options.mass);
+  }
+
+  /**
+   * 形状と質量を変更（拡大縮小したとき）
+   */
+  setShape(shape: BodyShape, mass: number = this.mass) {
+    this.shape = shape;
+    this.mass = mass;
+
+    if (shape.type === "sphere") {
+      const inertia = 0.4 * mass * shape.radius * shape.radius;
+      this.inverseInertia.setScalar(1 / inertia);
+    } else {
+      const size = shape.halfExtents.clone().multiplyScalar(2);
+      const x2 = size.x * size.x;
+      const y2 = size.y * size.y;
+      const z2 = size.z * size.z;
+      this.inverseInertia.set(
+        12 / (mass * (y2 + z2)),
+        12 / (mass * (x2 + z2)),
+        12 / (mass * (x2 + y2))
+      );
+    }
+  }
+
+  get inverseMass(): number {
+    return this.isMovable ? 1 / this.mass : 0;
+  }
+
+  /**
+   * 力積で動くか（掴んでいる剛体と休止中の剛体は動かない）
+   */
+  get isMovable(): boolean {
+    return this.dynamic && !this.sleeping;
+  }
+
+  /**
+   * 休止中の剛体を起こすほど動いているか
+   */
+  get isMoving(): boolean {
+    return (
+      this.velocity.lengthSq() > SLEEP_LINEAR_VELOCITY ** 2 ||
+      this.angularVelocity.lengthSq() > SLEEP_ANGULAR_VELOCITY ** 2
+    );
+  }
+
+  /**
+   * ワールド座標の慣性テンソルの逆行列をベクトルに適用
+   */
+  applyInverseInertia(vector: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    if (!this.isMovable) return target.set(0, 0, 0);
+    const inverse = this.quaternion.clone().invert();
+    return target
+      .copy(vector)
+      .applyQuaternion(inverse)
+      .multiply(this.inverseInertia)
+      .applyQuaternion(this.quaternion);
+  }
+
+  /**
+   * 点の速度（並進と回転）
+   */
+  velocityAt(point: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    const r = point.clone().sub(this.position);
+    return target.copy(this.angularVelocity).cross(r).add(this.velocity);
+  }
+
+  /**
+   * 点に力積を加える
+   */
+  applyImpulse(impulse: THREE.Vector3, point: THREE.Vector3) {
+    if (!this.isMovable) return;
+    this.velocity.addScaledVector(impulse, this.inverseMass);
+    const torque = point.clone().sub(this.position).cross(impulse);
+    this.angularVelocity.add(this.applyInverseInertia(torque, torque));
+  }
+
+  /**
+   * ワールド座標のAABB
+   */
+  computeBounds(target: THREE.Box3): THREE.Box3 {
+    if (this.shape.type === "sphere") {
+      return target.setFromCenterAndSize(
+        this.position,
+        new THREE.Vector3().setScalar(this.shape.radius * 2)
+      );
+    }
+
+    const rotation = new THREE.Matrix3().setFromMatrix4(
+      new THREE.Matrix4().makeRotationFromQuaternion(this.quaternion)
+    );
+    const e = rotation.elements;
+    const h = this.shape.halfExtents;
+    const extent = new THREE.Vector3(
+      Math.abs(e[0]) * h.x + Math.abs(e[3]) * h.y + Math.abs(e[6]) * h.z,
+      Math.abs(e[1]) * h.x + Math.abs(e[4]) * h.y + Math.abs(e[7]) * h.z,
+      Math.abs(e[2]) * h.x + Math.abs(e[5]) * h.y + Math.abs(e[8]) * h.z
+    );
+    return target.set(this.position.clone().sub(extent), this.position.clone().add(extent));
+  }
+
+  /**
+   * 直方体の頂点（ワールド座標）
+   */
+  corners(): THREE.Vector3[] {
+    if (this.shape.type !== "box") return [];
+    const h = this.shape.halfExtents;
+    return BOX_CORNERS.map((corner) =>
+      corner.clone().multiply(h).applyQuaternion(this.quaternion).add(this.position)
+    );
+  }
+
+  wake() {
+    this.sleeping = false;
+    this.sleepTimer = 0;
+  }
+
+  sleep() {
+    this.sleeping = true;
+    this.velocity.set(0, 0, 0);
+    this.angularVelocity.set(0, 0, 0);
+  }
+
+  /**
+   * 速度が小さい状態が続いたか判定して休止させる（休止したらtrue）
+   */
+  updateSleep(dt: number): boolean {
+    if (this.isMoving) {
+      this.sleepTimer = 0;
+      return false;
+    }
+    this.sleepTimer += dt;
+    if (this.sleepTimer < SLEEP_TIME) return false;
+    this.sleep();
+    return true;
+  }
+}
+
+/**
+ * PhysicsWorld
+ * 剛体と静的な衝突面の簡易的な物理演算（インパルス法）
+ * - 直方体の頂点・球と平面、剛体同士（球・直方体）の接触
+ * - 摩擦と反発、めり込みの位置補正
+ * - 止まった剛体は休止し、動いている剛体が触れるまで計算しない
+ */
+export class PhysicsWorld {
+  private bodies: Set<RigidBody> = new Set();
+  private colliders: Map<string, PlaneCollider> = new Map();
+  private colliderInverses: Map<string, THREE.Matrix4> = new Map();
+  // 接触で起きた剛体（stepの呼び出し元に通知する）
+  private woken: RigidBody[] = [];
+  private impulses: Map<string, CachedImpulse> = new Map();
+
+  addBody(body: RigidBody) {
+    this.bodies.add(body);
+  }
+
+  removeBody(body: RigidBody) {
+    this.bodies.delete(body);
+  }
+
+  /**
+   * 衝突面の追加・更新
+   */
+  setCollider(collider: PlaneCollider) {
+    this.colliders.set(collider.id, collider);
+    this.colliderInverses.set(collider.id, collider.matrix.clone().invert());
+  }
+
+  removeCollider(id: string) {
+    this.colliders.delete(id);
+    this.colliderInverses.delete(id);
+  }
+
+  getColliders(): PlaneCollider[] {
+    return Array.from(this.colliders.values());
+  }
+
+  /**
+   * 範囲に触れている休止中の剛体を起こす（支えがなくなったとき）
+   */
+  wakeInside(bounds: THREE.Box3): RigidBody[] {
+    const box = new THREE.Box3();
+    const woken = Array.from(this.bodies).filter(
+      (body) => body.dynamic && body.sleeping && body.computeBounds(box).intersectsBox(bounds)
+    );
+    woken.forEach((body) => body.wake());
+    return woken;
+  }
+
+  /**
+   * 1ステップ進める
+   * 休止した剛体と、接触で起きた剛体を返す
+   */
+  step(dt: number): { slept: RigidBody[]; woken: RigidBody[] } {
+    const slept: RigidBody[] = [];
+    this.woken = [];
+
+    const active = Array.from(this.bodies).filter((body) => body.dynamic && !body.sleeping);
+    // 掴んでいる剛体は動いていれば他の剛体を押す
+    const moving = Array.from(this.bodies).filter(
+      (body) => !body.dynamic && body.velocity.lengthSq() > 0
+    );
+    if (active.length === 0 && moving.length === 0) {
+      this.impulses.clear();
+      return { slept, woken: this.woken };
+    }
+
+    // 重力を加える前の速度で、休止中の剛体を起こすか判定する
+    const disturbing = new Set(Array.from(this.bodies).filter((body) => body.isMoving));
+
+    active.forEach((body) => {
+      body.velocity.addScaledVector(GRAVITY, dt);
+      body.velocity.multiplyScalar(Math.max(0, 1 - LINEAR_DAMPING * dt));
+      body.angularVelocity.multiplyScalar(Math.max(0, 1 - ANGULAR_DAMPING * dt));
+    });
+
+    const contacts = this.findContacts(active, moving, disturbing);
+    const constraints = contacts
+      .map((contact) => this.createConstraint(contact))
+      .filter((constraint): constraint is ContactConstraint => constraint !== null)
+      // 下の接触から解く（積み重ねたものが安定する）
+      .sort((x, y) => x.contact.point.y - y.contact.point.y);
+    // 前のステップの力積から始める（積み重ねたものが震えないように）
+    constraints.forEach((constraint) => this.warmStart(constraint));
+
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+      constraints.forEach((constraint) => this.solveVelocity(constraint));
+    }
+    this.impulses = new Map(
+      constraints.map((constraint) => [
+        this.contactKey(constraint.contact),
+        { normal: constraint.normalImpulse, tangents: constraint.tangentImpulses },
+      ])
+    );
+
+    const touching = new Set(contacts.flatMap((contact) => [contact.a, contact.b]));
+    active.forEach((body) => {
+      if (touching.has(body)) {
+        body.angularVelocity.multiplyScalar(Math.max(0, 1 - CONTACT_ANGULAR_DAMPING * dt));
+      }
+    });
+
+    active.forEach((body) => this.integrate(body, dt));
+    this.correctPositions(contacts);
+
+    active.forEach((body) => {
+      if (body.position.y < KILL_HEIGHT) {
+        body.position.y = KILL_HEIGHT;
+        body.sleep();
+        slept.push(body);
+      } else if (!body.sleeping && body.updateSleep(dt)) {
+        slept.push(body);
+      }
+    });
+
+    return { slept, woken: this.woken };
+  }
+
+  /**
+   * 動いている剛体の接触を探す
+   */
+  private findContacts(
+    active: RigidBody[],
+    moving: RigidBody[],
+    disturbing: Set<RigidBody>
+  ): Contact[] {
+    const contacts: Contact[] = [];
+    const bounds = new Map<RigidBody, THREE.Box3>();
+    this.bodies.forEach((body) => bounds.set(body, body.computeBounds(new THREE.Box3())));
+
+    active.forEach((body) => {
+      this.colliders.forEach((collider) => {
+        contacts.push(...this.collidePlane(body, collider));
+      });
+    });
+
+    // 剛体同士（少なくとも一方が動いている組み合わせ）
+    const all = Array.from(this.bodies);
+    const activeSet = new Set([...active, ...moving]);
+    for (let i = 0; i < all.length; i++) {
+      for (let j = i + 1; j < all.length; j++) {
+        const a = all[i];
+        const b = all[j];
+        if (!activeSet.has(a) && !activeSet.has(b)) continue;
+        if (!a.dynamic && !b.dynamic) continue;
+        if (!bounds.get(a)!.intersectsBox(bounds.get(b)!)) continue;
+
+        const pair = this.collideBodies(a, b);
+        if (pair.length === 0) continue;
+        contacts.push(...pair);
+
+        // 動いている剛体が触れたら起こす
+        [a, b].forEach((body, i) => {
+          const other = i === 0 ? b : a;
+          if (body.sleeping && body.dynamic && disturbing.has(other)) {
+            body.wake();
+            this.woken.push(body);
+          }
+        });
+      }
+    }
+
+    return contacts;
+  }
+
+  /**
+   * 剛体と衝突面の接触
+   */
+  private collidePlane(body: RigidBody, collider: PlaneCollider): Contact[] {
+    const normal = new THREE.Vector3().setFromMatrixColumn(collider.matrix, 1).normalize();
+    const origin = new THREE.Vector3().setFromMatrixPosition(collider.matrix);
+    const inverse = this.colliderInverses.get(collider.id)!;
+    const contacts: Contact[] = [];
+
+    const test = (
+      point: THREE.Vector3,
+      distance: number,
+      surface: THREE.Vector3,
+      feature: string
+    ) => {
+      if (distance >= 0 || distance < -collider.maxDepth) return;
+      if (!this.isInsideCollider(collider, surface.clone().applyMatrix4(inverse))) return;
+      contacts.push({
+        a: body,
+        b: null,
+        colliderId: collider.id,
+        feature,
+        point,
+        normal: normal.clone(),
+        depth: -distance,
+      });
+    };
+
+    if (body.shape.type === "sphere") {
+      const centerDistance = body.position.clone().sub(origin).dot(normal);
+      const point = body.position.clone().addScaledVector(normal, -body.shape.radius);
+      test(
+        point,
+        centerDistance - body.shape.radius,
+        body.position.clone().addScaledVector(normal, -centerDistance),
+        "sphere"
+      );
+    } else {
+      body.corners().forEach((corner, index) => {
+        const distance = corner.clone().sub(origin).dot(normal);
+        test(corner, distance, corner.clone().addScaledVector(normal, -distance), `corner${index}`);
+      });
+    }
+
+    return contacts;
+  }
+
+  /**
+   * 衝突面の範囲内か（平面のローカル座標）
+   */
+  private isInsideCollider(collider: PlaneCollider, local: THREE.Vector3): boolean {
+    if (collider.radius !== undefined) {
+      return local.x * local.x + local.z * local.z <= collider.radius * collider.radius;
+    }
+    const polygon = collider.polygon;
+    if (!polygon) return true;
+
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if (a.y > local.z !== b.y > local.z && local.x < ((b.x - a.x) * (local.z - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * 剛体同士の接触
+   */
+  private collideBodies(a: RigidBody, b: RigidBody): Contact[] {
+    if (a.shape.type === "sphere" && b.shape.type === "sphere") {
+      const offset = a.position.clone().sub(b.position);
+      const distance = offset.length();
+      const depth = a.shape.radius + b.shape.radius - distance;
+      if (depth <= 0) return [];
+      const normal = distance > 1e-6 ? offset.divideScalar(distance) : new THREE.Vector3(0, 1, 0);
+      const point = b.position.clone().addScaledVector(normal, b.shape.radius);
+      return [{ a, b, feature: "sphere", point, normal, depth }];
+    }
+    if (a.shape.type === "sphere") return this.collideSphereBox(a, b);
+    if (b.shape.type === "sphere") return this.flip(this.collideSphereBox(b, a));
+    return this.collideBoxes(a, b);
+  }
+
+  /**
+   * 球と直方体の接触（aが球）
+   */
+  private collideSphereBox(sphere: RigidBody, box: RigidBody): Contact[] {
+    if (sphere.shape.type !== "sphere" || box.shape.type !== "box") return [];
+    const radius = sphere.shape.radius;
+    const h = box.shape.halfExtents;
+    const inverse = box.quaternion.clone().invert();
+    const local = sphere.position.clone().sub(box.position).applyQuaternion(inverse);
+    const closest = local.clone().clamp(h.clone().negate(), h);
+
+    const offset = local.clone().sub(closest);
+    const distance = offset.length();
+    let normal: THREE.Vector3;
+    let depth: number;
+
+    if (distance > 1e-6) {
+      if (distance >= radius) return [];
+      normal = offset.divideScalar(distance);
+      depth = radius - distance;
+    } else {
+      // 球の中心が直方体の内側: 最も近い面から押し出す
+      const { axis, sign, gap } = this.nearestFace(local, h);
+      normal = new THREE.Vector3().setComponent(axis, sign);
+      closest.setComponent(axis, sign * h.getComponent(axis));
+      depth = radius + gap;
+    }
+
+    return [
+      {
+        a: sphere,
+        b: box,
+        feature: "sphere",
+        point: closest.applyQuaternion(box.quaternion).add(box.position),
+        normal: normal.applyQuaternion(box.quaternion),
+        depth,
+      },
+    ];
+  }
+
+  /**
+   * 直方体同士の接触
+   * 面の法線（両方の3軸）のうち重なりが最も小さい軸を法線とし、
+   * 相手の面より内側にある頂点を接触点にする（辺同士の接触は扱わない）
+   */
+  private collideBoxes(a: RigidBody, b: RigidBody): Contact[] {
+    if (a.shape.type !== "box" || b.shape.type !== "box") return [];
+    const axesA = this.boxAxes(a);
+    const axesB = this.boxAxes(b);
+    const offset = a.position.clone().sub(b.position);
+
+    let normal: THREE.Vector3 | null = null;
+    let overlap = Infinity;
+    for (const axis of [...axesA, ...axesB]) {
+      const distance = offset.dot(axis);
+      const value =
+        this.projectedRadius(a, axesA, axis) + this.projectedRadius(b, axesB, axis) - Math.abs(distance);
+      if (value <= 0) return [];
+      if (value < overlap) {
+        overlap = value;
+        normal = axis.clone().multiplyScalar(distance >= 0 ? 1 : -1);
+      }
+    }
+    if (!normal) return [];
+
+    const n = normal;
+    const contacts: Contact[] = [];
+    // bの面より内側にあるaの頂点、aの面より内側にあるbの頂点
+    const surfaceB = b.position.dot(n) + this.projectedRadius(b, axesB, n);
+    const surfaceA = a.position.dot(n) - this.projectedRadius(a, axesA, n);
+    a.corners().forEach((corner, index) => {
+      const depth = surfaceB - corner.dot(n);
+      if (depth > 0 && depth <= overlap + PENETRATION_SLOP && this.isAbove(b, axesB, n, corner)) {
+        contacts.push({ a, b, feature: `a${index}`, point: corner, normal: n.clone(), depth });
+      }
+    });
+    b.corners().forEach((corner, index) => {
+      const depth = corner.dot(n) - surfaceA;
+      if (depth > 0 && depth <= overlap + PENETRATION_SLOP && this.isAbove(a, axesA, n, corner)) {
+        contacts.push({ a, b, feature: `b${index}`, point: corner, normal: n.clone(), depth });
+      }
+    });
+    return contacts;
+  }
+
+  /**
+   * 直方体の3軸（ワールド座標）
+   */
+  private boxAxes(body: RigidBody): THREE.Vector3[] {
+    return [
+      new THREE.Vector3(1, 0, 0).applyQuaternion(body.quaternion),
+      new THREE.Vector3(0, 1, 0).applyQuaternion(body.quaternion),
+      new THREE.Vector3(0, 0, 1).applyQuaternion(body.quaternion),
+    ];
+  }
+
+  /**
+   * 直方体を軸に投影した半径
+   */
+  private projectedRadius(body: RigidBody, axes: THREE.Vector3[], axis: THREE.Vector3): number {
+    if (body.shape.type !== "box") return 0;
+    const h = body.shape.halfExtents;
+    return (
+      h.x * Math.abs(axes[0].dot(axis)) +
+      h.y * Math.abs(axes[1].dot(axis)) +
+      h.z * Math.abs(axes[2].dot(axis))
+    );
+  }
+
+  /**
+   * 点が直方体の法線に近い面の範囲内にあるか（法線に最も近い軸以外で判定）
+   */
+  private isAbove(
+    body: RigidBody,
+    axes: THREE.Vector3[],
+    normal: THREE.Vector3,
+    point: THREE.Vector3
+  ): boolean {
+    if (body.shape.type !== "box") return false;
+    const h = body.shape.halfExtents;
+    const local = point.clone().sub(body.position);
+    const facing = axes.reduce(
+      (best, axis, i) => (Math.abs(axis.dot(normal)) > Math.abs(axes[best].dot(normal)) ? i : best),
+      0
+    );
+    return axes.every(
+      (axis, i) => i === facing || Math.abs(local.dot(axis)) <= h.getComponent(i) + PENETRATION_SLOP
+    );
+  }
+
+  /**
+   * 直方体の内側の点から最も近い面
+   */
+  private nearestFace(local: THREE.Vector3, h: THREE.Vector3) {
+    let axis = 0;
+    let gap = Infinity;
+    for (let i = 0; i < 3; i++) {
+      const value = h.getComponent(i) - Math.abs(local.getComponent(i));
+      if (value < gap) {
+        gap = value;
+        axis = i;
+      }
+    }
+    return { axis, sign: local.getComponent(axis) >= 0 ? 1 : -1, gap };
+  }
+
+  private flip(contacts: Contact[]): Contact[] {
+    return contacts.map((contact) => ({
+      ...contact,
+      a: contact.b!,
+      b: contact.a,
+      normal: contact.normal.clone().negate(),
+    }));
+  }
+
+  /**
+   * 接触点の拘束の準備（反発の目標速度と摩擦の軸）
+   */
+  private createConstraint(contact: Contact): ContactConstraint | null {
+    const { a, b, point, normal } = contact;
+    const normalMass = this.effectiveMass(contact, normal);
+    if (normalMass <= 0) return null;
+
+    const relative = a.velocityAt(point, new THREE.Vector3());
+    if (b) relative.sub(b.velocityAt(point, new THREE.Vector3()));
+    const normalSpeed = relative.dot(normal);
+    const restitution = Math.max(a.restitution, b?.restitution ?? 0);
+
+    const first = new THREE.Vector3().crossVectors(
+      normal,
+      Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0)
+    );
+    first.normalize();
+    const second = new THREE.Vector3().crossVectors(normal, first);
+
+    return {
+      contact,
+      tangents: [first, second],
+      normalMass,
+      tangentMasses: [this.effectiveMass(contact, first), this.effectiveMass(contact, second)],
+      bounce: normalSpeed < -RESTITUTION_THRESHOLD ? -restitution * normalSpeed : 0,
+      friction: Math.sqrt(a.friction * (b?.friction ?? a.friction)),
+      normalImpulse: 0,
+      tangentImpulses: [0, 0],
+    };
+  }
+
+  private contactKey(contact: Contact): string {
+    return `${contact.a.id}:${contact.b?.id ?? contact.colliderId}:${contact.feature}`;
+  }
+
+  /**
+   * 前のステップで同じ部位に加えた力積を最初に加える
+   */
+  private warmStart(constraint: ContactConstraint) {
+    const cached = this.impulses.get(this.contactKey(constraint.contact));
+    if (!cached) return;
+
+    constraint.normalImpulse = cached.normal;
+    constraint.tangentImpulses = [...cached.tangents];
+    const [first, second] = constraint.tangents;
+    const impulse = constraint.contact.normal
+      .clone()
+      .multiplyScalar(cached.normal)
+      .addScaledVector(first, cached.tangents[0])
+      .addScaledVector(second, cached.tangents[1]);
+    this.applyPair(constraint.contact, impulse);
+  }
+
+  /**
+   * 接触点の速度の拘束（法線方向の反発と接線方向の摩擦）
+   * 累積した力積を制限する（法線は押すだけ、摩擦はクーロン摩擦の範囲）
+   */
+  private solveVelocity(constraint: ContactConstraint) {
+    const { contact, tangents } = constraint;
+    const { a, b, point, normal } = contact;
+    const relative = () => {
+      const velocity = a.velocityAt(point, new THREE.Vector3());
+      return b ? velocity.sub(b.velocityAt(point, new THREE.Vector3())) : velocity;
+    };
+
+    const normalSpeed = relative().dot(normal);
+    const previous = constraint.normalImpulse;
+    constraint.normalImpulse = Math.max(
+      previous + (constraint.bounce - normalSpeed) / constraint.normalMass,
+      0
+    );
+    this.applyPair(contact, normal.clone().multiplyScalar(constraint.normalImpulse - previous));
+
+    const limit = constraint.friction * constraint.normalImpulse;
+    tangents.forEach((tangent, i) => {
+      if (constraint.tangentMasses[i] <= 0) return;
+      const speed = relative().dot(tangent);
+      const before = constraint.tangentImpulses[i];
+      constraint.tangentImpulses[i] = THREE.MathUtils.clamp(
+        before - speed / constraint.tangentMasses[i],
+        -limit,
+        limit
+      );
+      this.applyPair(contact, tangent.clone().multiplyScalar(constraint.tangentImpulses[i] - before));
+    });
+  }
+
+  /**
+   * 接触点での方向ごとの実効質量の逆数
+   */
+  private effectiveMass(contact: Contact, direction: THREE.Vector3): number {
+    const term = (body: RigidBody) => {
+      const r = contact.point.clone().sub(body.position);
+      const rn = r.clone().cross(direction);
+      return body.inverseMass + body.applyInverseInertia(rn, rn).cross(r).dot(direction);
+    };
+    return term(contact.a) + (contact.b ? term(contact.b) : 0);
+  }
+
+  private applyPair(contact: Contact, impulse: THREE.Vector3) {
+    contact.a.applyImpulse(impulse, contact.point);
+    contact.b?.applyImpulse(impulse.clone().negate(), contact.point);
+  }
+
+  /**
+   * 速度と向きを進める
+   */
+  private integrate(body: RigidBody, dt: number) {
+    body.position.addScaledVector(body.velocity, dt);
+
+    const w = body.angularVelocity;
+    const spin = new THREE.Quaternion(w.x * dt * 0.5, w.y * dt * 0.5, w.z * dt * 0.5, 0).multiply(
+      body.quaternion
+    );
+    body.quaternion.set(
+      body.quaternion.x + spin.x,
+      body.quaternion.y + spin.y,
+      body.quaternion.z + spin.z,
+      body.quaternion.w + spin.w
+    );
+    body.quaternion.normalize();
+  }
+
+  /**
+   * めり込みの解消（剛体・衝突面の組み合わせごとに最も深い接触で押し出す）
+   */
+  private correctPositions(contacts: Contact[]) {
+    const deepest = new Map<RigidBody, Map<RigidBody | string, Contact>>();
+
+    contacts.forEach((contact) => {
+      const other = contact.b ?? contact.colliderId!;
+      const byOther = deepest.get(contact.a) ?? new Map<RigidBody | string, Contact>();
+      deepest.set(contact.a, byOther);
+      const current = byOther.get(other);
+      if (!current || contact.depth > current.depth) byOther.set(other, contact);
+    });
+
+    Array.from(deepest.values()).flatMap((byOther) => Array.from(byOther.values())).forEach(({ a, b, normal, depth }) => {
+      const correction = Math.max(depth - PENETRATION_SLOP, 0) * POSITION_CORRECTION;
+      if (correction === 0) return;
+      const total = a.inverseMass + (b?.inverseMass ?? 0);
+      if (total === 0) return;
+      a.position.addScaledVector(normal, (correction * a.inverseMass) / total);
+      b?.position.addScaledVector(normal, (-correction * b.inverseMass) / total);
+    });
+  }
+}
@@ -0,0 +1,283 @@
+import * as THREE from "three";
+import { PlacedObjectRecord, useXRStore } from "../stores/xrStore";
+import type { AnchorInfo } from "./AnchorManager";
+import { CommandHistory } from "./CommandHistory";
+import { getOriginalMaterial } from "./HighlightStrategies";
+import type { HitTestManager } from "./HitTestManager";
+import { ObjectTransform, captureTransform, transformsEqual } from "./ObjectTransform";
+
+// アンカーの微小な補正でストアを更新しないための許容誤差
+const TRANSFORM_EPSILON = 1e-4;
+
+/**
+ * PlacedObjectSync
+ * 配置済みオブジェクトとストアのレコードを双方向に同期する
+ * - シーン → ストア: 毎フレーム、変更があったレコードだけを書き込む
+ * - ストア → シーン: UIによる名前・表示・遮蔽・色・姿勢の変更と削除をシーンに反映（undo可能）
+ */
+export class PlacedObjectSync {
+  private hitTestManager: HitTestManager;
+  private history: CommandHistory;
+  // 最初に見つけた時刻（undoで戻したオブジェクトは元の時刻のまま）
+  private createdAt: WeakMap<THREE.Object3D, number> = new WeakMap();
+  // 自分でストアに書き込んでいる間は購読を無視
+  private writing = false;
+  private unsubscribe: () => void;
+
+  constructor(hitTestManager: HitTestManager, history: CommandHistory) {
+    this.hitTestManager = hitTestManager;
+    this.history = history;
+    this.unsubscribe = useXRStore.subscribe((state, previous) => {
+      if (this.writing || state.placedObjects === previous.placedObjects) return;
+      this.applyStoreChanges(state.placedObjects, previous.placedObjects);
+    });
+  }
+
+  /**
+   * シーンの状態をストアに反映（毎フレーム呼ぶ）
+   */
+  update() {
+    const { placedObjects, placedObjectIds } = useXRStore.getState();
+    const objects = this.hitTestManager.getPlacedObjects();
+
+    let changed = objects.length !== placedObjectIds.length;
+    const records = objects.map((object, index) => {
+      const existing = placedObjects[object.uuid];
+      const record = this.createRecord(object);
+      if (existing && recordsEqual(existing, record) && placedObjectIds[index] === object.uuid) {
+        return existing;
+      }
+      changed = true;
+      return record;
+    });
+    if (!changed) return;
+
+    this.writing = true;
+    useXRStore.getState().setPlacedObjects(records);
+    this.writing = false;
+  }
+
+  /**
+   * オブジェクトの現在の状態からレコードを作成
+   */
+  private createRecord(object: THREE.Object3D): PlacedObjectRecord {
+    let createdAt = this.createdAt.get(object);
+    if (createdAt === undefined) {
+      createdAt = Date.now();
+      this.createdAt.set(object, createdAt);
+    }
+
+    const color = findColor(object);
+    return {
+      id: object.uuid,
+      type: object.userData.catalogId ?? "unknown",
+      name: object.name,
+      transform: captureTransform(object),
+      color: color ? `#${color.getHexString()}` : null,
+      visible: object.visible,
+      occlusion: object.userData.occlusion !== false,
+      anchor: this.hitTestManager.getAnchorInfo(object),
+      createdAt,
+    };
+  }
+
+  /**
+   * UIによるストアの変更をシーンに反映
+   */
+  private applyStoreChanges(
+    next: Record<string, PlacedObjectRecord>,
+    previous: Record<string, PlacedObjectRecord>
+  ) {
+    const objects = new Map(
+      this.hitTestManager.getPlacedObjects().map((object) => [object.uuid, object])
+    );
+
+    // ストアから消えたレコードはシーンからも削除
+    const removed = Object.keys(previous)
+      .filter((id) => !next[id])
+      .map((id) => objects.get(id))
+      .filter((object): object is THREE.Object3D => object !== undefined);
+    if (removed.length > 0) this.hitTestManager.removeObjects(removed);
+
+    Object.values(next).forEach((record) => {
+      const object = objects.get(record.id);
+      if (!object || record === previous[record.id]) return;
+
+      if (record.name !== object.name) {
+        this.editObject(object, "name", record.name, `Rename ${object.name}`);
+      }
+      if (record.visible !== object.visible) {
+        const label = `${record.visible ? "Show" : "Hide"} ${object.name}`;
+        this.editObject(object, "visible", record.visible, label);
+      }
+      if (record.occlusion !== (object.userData.occlusion !== false)) {
+        this.editOcclusion(object, record.occlusion);
+      }
+      const color = findColor(object);
+      if (record.color && color && record.color !== `#${color.getHexString()}`) {
+        this.editColor(object, record.color);
+      }
+      if (!transformsEqual(record.transform, captureTransform(object), TRANSFORM_EPSILON)) {
+        this.editTransform(object, record.transform);
+      }
+    });
+  }
+
+  /**
+   * 名前・表示の変更（undo可能、続けた変更は1回のundoにまとめる）
+   */
+  private editObject<K extends "name" | "visible">(
+    object: THREE.Object3D,
+    key: K,
+    value: THREE.Object3D[K],
+    label: string
+  ) {
+    const before = object[key];
+    this.history.execute({
+      label,
+      execute: () => {
+        object[key] = value;
+      },
+      undo: () => {
+        object[key] = before;
+      },
+      mergeKey: `edit:${object.uuid}:${key}`,
+    });
+  }
+
+  /**
+   * 現実の物体による遮蔽の切り替え（undo可能、OcclusionManagerがuserDataを参照する）
+   */
+  private editOcclusion(object: THREE.Object3D, occlusion: boolean) {
+    const before = object.userData.occlusion !== false;
+    this.history.execute({
+      label: `${occlusion ? "Enable" : "Disable"} occlusion for ${object.name}`,
+      execute: () => {
+        object.userData.occlusion = occlusion;
+      },
+      undo: () => {
+        object.userData.occlusion = before;
+      },
+      mergeKey: `edit:${object.uuid}:occlusion`,
+    });
+  }
+
+  /**
+   * 色の変更（undo可能、カラーピッカーの連続した変更は1回のundoにまとめる）
+   */
+  private editColor(object: THREE.Object3D, color: string) {
+    const before = findColor(object)!.clone();
+    const after = new THREE.Color(color);
+    this.history.execute({
+      label: `Color ${object.name}`,
+      execute: () => setColor(object, after),
+      undo: () => setColor(object, before),
+      mergeKey: `edit:${object.uuid}:color`,
+    });
+  }
+
+  /**
+   * 姿勢の変更（undo可能）
+   * 拡大率だけの変更では、オブジェクトが置かれている表面上の点を固定する
+   */
+  private editTransform(object: THREE.Object3D, transform: ObjectTransform) {
+    const before = this.hitTestManager.beginTransform(object);
+    const current = new THREE.Vector3().fromArray(before.scale);
+    const scale = new THREE.Vector3().fromArray(transform.scale);
+    const onlyScale = transformsEqual(
+      { ...transform, scale: before.scale },
+      before,
+      TRANSFORM_EPSILON
+    );
+
+    if (onlyScale) {
+      const offset =
+        this.hitTestManager.getCatalog().get(object.userData.catalogId)?.placementOffset ??
+        new THREE.Vector3();
+      const pivot = object.position
+        .clone()
+        .sub(offset.clone().multiplyScalar(current.x).applyQuaternion(object.quaternion));
+      object.scale.copy(scale);
+      object.position.copy(
+        pivot.add(offset.clone().multiplyScalar(scale.x).applyQuaternion(object.quaternion))
+      );
+    } else {
+      object.position.fromArray(transform.position);
+      object.quaternion.fromArray(transform.quaternion);
+      object.scale.copy(scale);
+    }
+
+    this.hitTestManager.commitTransforms([{ object, before }], `edit:${object.uuid}:transform`);
+  }
+
+  dispose() {
+    this.unsubscribe();
+  }
+}
+
+/**
+ * レコードが同じか
+ */
+function recordsEqual(a: PlacedObjectRecord, b: PlacedObjectRecord): boolean {
+  return (
+    a.id === b.id &&
+    a.type === b.type &&
+    a.name === b.name &&
+    a.color === b.color &&
+    a.visible === b.visible &&
+    a.occlusion === b.occlusion &&
+    a.createdAt === b.createdAt &&
+    anchorsEqual(a.anchor, b.anchor) &&
+    transformsEqual(a.transform, b.transform, TRANSFORM_EPSILON)
+  );
+}
+
+function anchorsEqual(a: AnchorInfo | null, b: AnchorInfo | null): boolean {
+  if (!a || !b) return a === b;
+  return a.attached === b.attached && a.tracked === b.tracked && a.handle === b.handle;
+}
+
+type ColorMaterial = THREE.Material & { color: THREE.Color };
+
+function hasColor(material: THREE.Material): material is ColorMaterial {
+  return (material as Partial<ColorMaterial>).color instanceof THREE.Color;
+}
+
+function toArray(material: THREE.Material | THREE.Material[]): THREE.Material[] {
+  return Array.isArray(material) ? material : [material];
+}
+
+/**
+ * 色を持つマテリアル（ハイライト前の元のマテリアル）
+ */
+function getColorMaterials(object: THREE.Object3D): ColorMaterial[] {
+  const materials: ColorMaterial[] = [];
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      materials.push(...toArray(getOriginalMaterial(child)).filter(hasColor));
+    }
+  });
+  return materials;
+}
+
+/**
+ * オブジェクトの色（最初のメッシュの色）
+ */
+function findColor(object: THREE.Object3D): THREE.Color | null {
+  return getColorMaterials(object)[0]?.color ?? null;
+}
+
+/**
+ * オブジェクトのすべてのメッシュの色を変更
+ * 発光色でハイライト中のマテリアルにも反映し、変更をすぐに表示する
+ */
+function setColor(object: THREE.Object3D, color: THREE.Color) {
+  getColorMaterials(object).forEach((material) => material.color.copy(color));
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || child.material === getOriginalMaterial(child)) return;
+    toArray(child.material)
+      .filter(hasColor)
+      .filter((material) => (material as { emissive?: unknown }).emissive instanceof THREE.Color)
+      .forEach((material) => material.color.copy(color));
+  });
+}
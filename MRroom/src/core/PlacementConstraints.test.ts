@@ -0,0 +1,149 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { PlacementConstraints, type PlacementConstraintSettings } from "./PlacementConstraints";
+
+const UP = new THREE.Vector3(0, 1, 0);
+const IDENTITY = new THREE.Quaternion();
+// 底面が原点にある20cmの立方体
+const CUBE_BOUNDS = new THREE.Box3(
+  new THREE.Vector3(-0.1, 0, -0.1),
+  new THREE.Vector3(0.1, 0.2, 0.1)
+);
+
+function settings(
+  overrides: Partial<PlacementConstraintSettings> = {}
+): PlacementConstraintSettings {
+  return { snapMode: "none", gridSize: 0.1, collisionMode: "reject", ...overrides };
+}
+
+// 配置済みの20cmの立方体
+function placedCube(x: number, z: number): THREE.Mesh {
+  const mesh = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.2, 0.2));
+  mesh.position.set(x, 0.1, z);
+  return mesh;
+}
+
+function apply(
+  position: THREE.Vector3,
+  others: THREE.Object3D[],
+  overrides: Partial<PlacementConstraintSettings> = {},
+  normal: THREE.Vector3 = UP
+) {
+  const constraints = new PlacementConstraints(new THREE.Scene());
+  return constraints.apply(position, IDENTITY, 1, CUBE_BOUNDS, normal, others, settings(overrides));
+}
+
+describe("PlacementConstraints", () => {
+  it("accepts a placement away from other objects unchanged", () => {
+    const position = new THREE.Vector3(1, 0, 0);
+
+    const result = apply(position, [placedCube(0, 0)]);
+
+    expect(result).toMatchObject({ valid: true, snapped: false, nudged: false });
+    expect(result.position.toArray()).toEqual([1, 0, 0]);
+    expect(result.position).not.toBe(position);
+  });
+
+  it("allows objects that only touch", () => {
+    const result = apply(new THREE.Vector3(0.2, 0, 0), [placedCube(0, 0)]);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects overlapping placements in reject mode", () => {
+    const result = apply(new THREE.Vector3(0.1, 0, 0), [placedCube(0, 0)]);
+
+    expect(result.valid).toBe(false);
+    expect(result.nudged).toBe(false);
+  });
+
+  it("skips collision checks when the bounds are unknown", () => {
+    const constraints = new PlacementConstraints(new THREE.Scene());
+
+    const result = constraints.apply(
+      new THREE.Vector3(0, 0, 0),
+      IDENTITY,
+      1,
+      null,
+      UP,
+      [placedCube(0, 0)],
+      settings()
+    );
+
+    expect(result.valid).toBe(true);
+  });
+
+  describe("nudge", () => {
+    it("pushes an overlapping placement along the surface until it fits", () => {
+      const result = apply(new THREE.Vector3(0.15, 0, 0.02), [placedCube(0, 0)], {
+        collisionMode: "nudge",
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.nudged).toBe(true);
+      // 押し出しが最小のX方向へ、表面から離れずに
+      expect(result.position.x).toBeGreaterThanOrEqual(0.2 - 0.005);
+      expect(result.position.y).toBe(0);
+      expect(result.position.z).toBeCloseTo(0.02);
+    });
+
+    it("rejects a placement that would have to move too far", () => {
+      const others = [-0.2, 0, 0.2].flatMap((x) => [-0.2, 0, 0.2].map((z) => placedCube(x, z)));
+
+      const result = apply(new THREE.Vector3(0, 0, 0), others, { collisionMode: "nudge" });
+
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe("grid snapping", () => {
+    it("snaps to the grid on horizontal surfaces", () => {
+      const result = apply(new THREE.Vector3(0.23, 0.75, -0.46), [], { snapMode: "grid" });
+
+      expect(result.snapped).toBe(true);
+      expect(result.position.x).toBeCloseTo(0.2);
+      expect(result.position.y).toBeCloseTo(0.75);
+      expect(result.position.z).toBeCloseTo(-0.5);
+    });
+
+    it("snaps within the plane of a wall without leaving it", () => {
+      const normal = new THREE.Vector3(0, 0, 1);
+
+      const result = apply(new THREE.Vector3(0.37, 1.22, -2), [], { snapMode: "grid" }, normal);
+
+      expect(result.position.x).toBeCloseTo(0.4);
+      expect(result.position.y).toBeCloseTo(1.2);
+      expect(result.position.z).toBeCloseTo(-2);
+    });
+
+    it("ignores a grid size of zero", () => {
+      const result = apply(new THREE.Vector3(0.23, 0, 0), [], { snapMode: "grid", gridSize: 0 });
+
+      expect(result.snapped).toBe(false);
+      expect(result.position.x).toBe(0.23);
+    });
+  });
+
+  describe("neighbor snapping", () => {
+    it("places an object flush against a nearby neighbour", () => {
+      const result = apply(new THREE.Vector3(0.23, 0, 0.01), [placedCube(0, 0)], {
+        snapMode: "neighbor",
+      });
+
+      expect(result.snapped).toBe(true);
+      expect(result.valid).toBe(true);
+      // 隣に並べ、奥行きの辺を揃える
+      expect(result.position.x).toBeCloseTo(0.2);
+      expect(result.position.z).toBeCloseTo(0);
+    });
+
+    it("does not snap to neighbours further than 5 cm", () => {
+      const result = apply(new THREE.Vector3(0.4, 0, 0.3), [placedCube(0, 0)], {
+        snapMode: "neighbor",
+      });
+
+      expect(result.snapped).toBe(false);
+      expect(result.position.toArray()).toEqual([0.4, 0, 0.3]);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import * as THREE from "three";
+
+/**
+ * スナップの種類
+ * - none: スナップしない
+ * - grid: 表面上のグリッドにスナップ
+ * - neighbor: 近くの配置済みオブジェクトの辺にスナップ
+ */
+export type SnapMode = "none" | "grid" | "neighbor";
+
+/**
+ * 既存オブジェクトと重なった場合の扱い
+ * - reject: 配置しない
+ * - nudge: 重ならない位置まで表面に沿って押し出す
+ */
+export type CollisionMode = "reject" | "nudge";
+
+/**
+ * 制約の設定
+ */
+export interface PlacementConstraintSettings {
+  snapMode: SnapMode;
+  gridSize: number;
+  collisionMode: CollisionMode;
+}
+
+/**
+ * 制約を適用した配置結果
+ */
+export interface ConstrainedPlacement {
+  position: THREE.Vector3;
+  valid: boolean;
+  snapped: boolean;
+  nudged: boolean;
+}
+
+// 隣接オブジェクトにスナップする距離
+const NEIGHBOR_SNAP_DISTANCE = 0.05;
+// 接触しているだけの場合は重なりとみなさない
+const OVERLAP_TOLERANCE = 0.002;
+// 押し出しの反復回数と最大距離
+const MAX_NUDGE_ITERATIONS = 4;
+const MAX_NUDGE_DISTANCE = 0.3;
+
+// 可視化の色
+const VALID_COLOR = 0x00ff00;
+const INVALID_COLOR = 0xff3333;
+const GRID_COLOR = 0x88ccff;
+const GRID_DIVISIONS = 8;
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * PlacementConstraints
+ * 配置位置にスナップと衝突判定を適用し、レティクル周りに可視化する
+ * - 配置済みオブジェクトとのバウンディングボックスの重なりを判定
+ * - グリッドまたは隣接オブジェクトの辺へのスナップ
+ */
+export class PlacementConstraints {
+  private scene: THREE.Scene;
+  private footprint: THREE.Box3Helper;
+  private grid: THREE.GridHelper | null = null;
+  private gridSize = 0;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    this.footprint = new THREE.Box3Helper(new THREE.Box3(), VALID_COLOR);
+    this.footprint.visible = false;
+    this.scene.add(this.footprint);
+  }
+
+  /**
+   * 配置候補に制約を適用
+   * localBoundsは配置するオブジェクトの（拡大率1、回転なしの）バウンディングボックス
+   */
+  apply(
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion,
+    scale: number,
+    localBounds: THREE.Box3 | null,
+    normal: THREE.Vector3,
+    others: THREE.Object3D[],
+    settings: PlacementConstraintSettings
+  ): ConstrainedPlacement {
+    const result: ConstrainedPlacement = {
+      position: position.clone(),
+      valid: true,
+      snapped: false,
+      nudged: false,
+    };
+
+    const axes = this.getSurfaceAxes(normal);
+
+    if (settings.snapMode === "grid" && settings.gridSize > 0) {
+      this.snapToGrid(result, axes, settings.gridSize);
+    }
+
+    if (!localBounds) {
+      return result;
+    }
+
+    const otherBoxes = others
+      .map((object) => new THREE.Box3().setFromObject(object))
+      .filter((box) => !box.isEmpty())
+      .map((box) => box.expandByScalar(-OVERLAP_TOLERANCE));
+
+    const box = this.computeWorldBox(localBounds, result.position, quaternion, scale);
+
+    if (settings.snapMode === "neighbor") {
+      this.snapToNeighbor(result, box, otherBoxes, normal);
+    }
+
+    if (!this.findOverlap(box, otherBoxes)) {
+      return result;
+    }
+
+    if (settings.collisionMode === "nudge") {
+      this.nudge(result, box, otherBoxes, normal);
+    } else {
+      result.valid = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * レティクル周りの可視化を更新
+   * グリッドはsurfacePointを通る表面上に表示する
+   */
+  updateIndicator(
+    position: THREE.Vector3,
+    valid: boolean,
+    surfacePoint: THREE.Vector3,
+    quaternion: THREE.Quaternion,
+    scale: number,
+    localBounds: THREE.Box3 | null,
+    normal: THREE.Vector3,
+    settings: PlacementConstraintSettings
+  ) {
+    // 配置予定のバウンディングボックス
+    if (localBounds) {
+      this.footprint.box.copy(this.computeWorldBox(localBounds, position, quaternion, scale));
+      (this.footprint.material as THREE.LineBasicMaterial).color.setHex(
+        valid ? VALID_COLOR : INVALID_COLOR
+      );
+      this.footprint.visible = true;
+    } else {
+      this.footprint.visible = false;
+    }
+
+    // グリッドモードでは表面上にグリッドを表示
+    if (settings.snapMode === "grid" && settings.gridSize > 0) {
+      const grid = this.ensureGrid(settings.gridSize);
+      const axes = this.getSurfaceAxes(normal);
+      grid.quaternion.setFromRotationMatrix(
+        new THREE.Matrix4().makeBasis(axes.u, axes.normal, axes.v)
+      );
+      grid.position
+        .copy(position)
+        .addScaledVector(normal, -position.clone().sub(surfacePoint).dot(normal));
+      grid.visible = true;
+    } else if (this.grid) {
+      this.grid.visible = false;
+    }
+  }
+
+  /**
+   * 可視化を非表示
+   */
+  hideIndicator() {
+    this.footprint.visible = false;
+    if (this.grid) this.grid.visible = false;
+  }
+
+  /**
+   * クリーンアップ
+   */
+  dispose() {
+    this.scene.remove(this.footprint);
+    this.footprint.geometry.dispose();
+    (this.footprint.material as THREE.Material).dispose();
+    this.disposeGrid();
+  }
+
+  /**
+   * 表面上の2軸（水平面はワールドのX/Z、壁は水平方向と鉛直方向）
+   */
+  private getSurfaceAxes(normal: THREE.Vector3) {
+    if (Math.abs(normal.y) > 0.75) {
+      return {
+        u: new THREE.Vector3(1, 0, 0),
+        v: new THREE.Vector3(0, 0, 1),
+        normal: new THREE.Vector3(0, Math.sign(normal.y), 0),
+      };
+    }
+
+    const u = new THREE.Vector3().crossVectors(WORLD_UP, normal).normalize();
+    const n = normal.clone().setY(0).normalize();
+    const v = new THREE.Vector3().crossVectors(u, n).normalize();
+    return { u, v, normal: n };
+  }
+
+  /**
+   * 表面上のグリッドにスナップ
+   */
+  private snapToGrid(
+    result: ConstrainedPlacement,
+    axes: { u: THREE.Vector3; v: THREE.Vector3 },
+    gridSize: number
+  ) {
+    [axes.u, axes.v].forEach((axis) => {
+      const coordinate = result.position.dot(axis);
+      const snapped = Math.round(coordinate / gridSize) * gridSize;
+      result.position.addScaledVector(axis, snapped - coordinate);
+    });
+    result.snapped = true;
+  }
+
+  /**
+   * 近くのオブジェクトの辺に揃える（表面上の軸ごとに最も近い辺）
+   */
+  private snapToNeighbor(
+    result: ConstrainedPlacement,
+    box: THREE.Box3,
+    others: THREE.Box3[],
+    normal: THREE.Vector3
+  ) {
+    // 重なり判定用に縮めた分を戻し、実際の辺に揃える（縮めた辺では接触が重なりになる）
+    const edges = others.map((other) => other.clone().expandByScalar(OVERLAP_TOLERANCE));
+
+    this.getPlaneAxisIndices(normal).forEach((axis) => {
+      let best: number | null = null;
+
+      edges.forEach((other) => {
+        const candidates = [
+          other.max.getComponent(axis) - box.min.getComponent(axis), // 隣に並べる
+          other.min.getComponent(axis) - box.max.getComponent(axis),
+          other.min.getComponent(axis) - box.min.getComponent(axis), // 辺を揃える
+          other.max.getComponent(axis) - box.max.getComponent(axis),
+        ];
+        candidates.forEach((delta) => {
+          if (
+            Math.abs(delta) <= NEIGHBOR_SNAP_DISTANCE &&
+            (best === null || Math.abs(delta) < Math.abs(best))
+          ) {
+            best = delta;
+          }
+        });
+      });
+
+      if (best !== null) {
+        const offset = new THREE.Vector3().setComponent(axis, best);
+        result.position.add(offset);
+        box.translate(offset);
+        result.snapped = true;
+      }
+    });
+  }
+
+  /**
+   * 重ならない位置まで表面に沿って押し出す
+   */
+  private nudge(
+    result: ConstrainedPlacement,
+    box: THREE.Box3,
+    others: THREE.Box3[],
+    normal: THREE.Vector3
+  ) {
+    const axes = this.getPlaneAxisIndices(normal);
+    const start = result.position.clone();
+
+    for (let i = 0; i < MAX_NUDGE_ITERATIONS; i++) {
+      const other = this.findOverlap(box, others);
+      if (!other) break;
+
+      // 押し出し量が最小の軸で押し出す
+      let bestOffset: THREE.Vector3 | null = null;
+      axes.forEach((axis) => {
+        const pushPositive = other.max.getComponent(axis) - box.min.getComponent(axis);
+        const pushNegative = other.min.getComponent(axis) - box.max.getComponent(axis);
+        const delta = Math.abs(pushPositive) < Math.abs(pushNegative) ? pushPositive : pushNegative;
+        const offset = new THREE.Vector3().setComponent(
+          axis,
+          delta + Math.sign(delta) * OVERLAP_TOLERANCE
+        );
+        if (!bestOffset || offset.lengthSq() < bestOffset.lengthSq()) {
+          bestOffset = offset;
+        }
+      });
+
+      if (!bestOffset) break;
+      result.position.add(bestOffset);
+      box.translate(bestOffset);
+      result.nudged = true;
+    }
+
+    result.valid =
+      !this.findOverlap(box, others) && result.position.distanceTo(start) <= MAX_NUDGE_DISTANCE;
+  }
+
+  /**
+   * 表面に沿ったワールド軸のインデックス（0: X, 1: Y, 2: Z）
+   */
+  private getPlaneAxisIndices(normal: THREE.Vector3): number[] {
+    if (Math.abs(normal.y) > 0.75) {
+      return [0, 2];
+    }
+    // 壁では鉛直方向と、法線に近くない水平軸
+    return [1, Math.abs(normal.x) > Math.abs(normal.z) ? 2 : 0];
+  }
+
+  private findOverlap(box: THREE.Box3, others: THREE.Box3[]): THREE.Box3 | undefined {
+    return others.find((other) => other.intersectsBox(box));
+  }
+
+  private computeWorldBox(
+    localBounds: THREE.Box3,
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion,
+    scale: number
+  ): THREE.Box3 {
+    const matrix = new THREE.Matrix4().compose(
+      position,
+      quaternion,
+      new THREE.Vector3(scale, scale, scale)
+    );
+    return localBounds.clone().applyMatrix4(matrix);
+  }
+
+  /**
+   * グリッドの作成（セルサイズが変わった場合は作り直す）
+   */
+  private ensureGrid(gridSize: number): THREE.GridHelper {
+    if (this.grid && this.gridSize === gridSize) {
+      return this.grid;
+    }
+
+    this.disposeGrid();
+    this.grid = new THREE.GridHelper(gridSize * GRID_DIVISIONS, GRID_DIVISIONS, GRID_COLOR, GRID_COLOR);
+    const material = this.grid.material as THREE.LineBasicMaterial;
+    material.transparent = true;
+    material.opacity = 0.4;
+    this.gridSize = gridSize;
+    this.scene.add(this.grid);
+    return this.grid;
+  }
+
+  private disposeGrid() {
+    if (!this.grid) return;
+    this.scene.remove(this.grid);
+    this.grid.geometry.dispose();
+    (this.grid.material as THREE.Material).dispose();
+    this.grid = null;
+  }
+}
@@ -0,0 +1,299 @@
+import * as THREE from "three";
+import { SpawnFactory } from "./SpawnCatalog";
+
+/**
+ * プレビューの配置姿勢
+ */
+export interface PreviewTransform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+// ゴーストの色
+const GHOST_COLOR = 0x88ccff;
+const GHOST_NOT_ALLOWED_COLOR = 0xff3333;
+
+// サムスティック操作
+const THUMBSTICK_DEADZONE = 0.2;
+const ROTATION_SPEED = Math.PI / 2; // rad/s
+const SCALE_SPEED = 1.0; // 倍率/s
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+
+/**
+ * 2本指ジェスチャーの状態
+ */
+interface TwoFingerGesture {
+  angle: number;
+  distance: number;
+}
+
+/**
+ * PlacementPreview
+ * レティクル位置に配置予定のオブジェクトを半透明で表示し、
+ * 配置前の回転・拡大縮小を受け付ける
+ * - サムスティック: 左右で回転、上下で拡大縮小
+ * - スマートフォン: 2本指のひねりで回転、ピンチで拡大縮小
+ */
+export class PlacementPreview {
+  private scene: THREE.Scene;
+  private ghost: THREE.Object3D | null = null;
+  private ghostItemId: string | null = null;
+  private ghostMaterial: THREE.MeshBasicMaterial;
+  // 拡大率1・回転なしでのバウンディングボックス（衝突判定用）
+  private localBounds: THREE.Box3 | null = null;
+  private rotation = 0;
+  private scale = 1;
+  private cancelled = false;
+  private gesture: TwoFingerGesture | null = null;
+  // 2本指ジェスチャー後、指が全て離れるまでselectを無視する
+  private suppressSelect = false;
+  private lastTime: number | null = null;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.ghostMaterial = new THREE.MeshBasicMaterial({
+      color: GHOST_COLOR,
+      transparent: true,
+      opacity: 0.4,
+      depthWrite: false,
+    });
+  }
+
+  /**
+   * プレビューするオブジェクトを設定（変更時のみ作り直す）
+   */
+  setItem(factory: SpawnFactory | undefined) {
+    const itemId = factory?.id ?? null;
+    if (itemId === this.ghostItemId) return;
+
+    this.clearGhost();
+    this.ghostItemId = itemId;
+    if (!factory) return;
+
+    const attach = (object: THREE.Object3D) => {
+      // 読み込み中に別のオブジェクトに切り替わった場合は破棄
+      if (this.ghostItemId !== factory.id || this.ghost) {
+        this.disposeGhostObject(object);
+        return;
+      }
+      this.applyGhostMaterial(object);
+      object.visible = false;
+      this.localBounds = new THREE.Box3().setFromObject(object);
+      this.ghost = object;
+      this.scene.add(object);
+    };
+
+    try {
+      const created = factory.create();
+      if (created instanceof Promise) {
+        created.then(attach).catch((error) => {
+          console.warn(`⚠️ Failed to create preview for "${factory.id}":`, error);
+        });
+      } else {
+        attach(created);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to create preview for "${factory.id}":`, error);
+    }
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   * transformがnullの場合はプレビューを非表示にする
+   */
+  update(frame: XRFrame, transform: PreviewTransform | null, allowed: boolean) {
+    const now = performance.now();
+    const deltaTime = this.lastTime === null ? 0 : (now - this.lastTime) / 1000;
+    this.lastTime = now;
+
+    this.handleInput(frame.session, deltaTime);
+
+    if (!this.ghost) return;
+
+    if (!transform || this.cancelled) {
+      this.ghost.visible = false;
+      return;
+    }
+
+    this.ghost.position.copy(transform.position);
+    this.ghost.quaternion.copy(transform.quaternion);
+    this.ghost.scale.setScalar(this.scale);
+    this.ghost.visible = true;
+    this.ghostMaterial.color.setHex(allowed ? GHOST_COLOR : GHOST_NOT_ALLOWED_COLOR);
+  }
+
+  /**
+   * サムスティックと2本指ジェスチャーの処理
+   */
+  private handleInput(session: XRSession, deltaTime: number) {
+    const touches: THREE.Vector2[] = [];
+
+    session.inputSources.forEach((inputSource) => {
+      const gamepad = inputSource.gamepad;
+      if (!gamepad) return;
+
+      if (inputSource.targetRayMode === "screen" && gamepad.axes.length >= 2) {
+        touches.push(new THREE.Vector2(gamepad.axes[0], gamepad.axes[1]));
+        return;
+      }
+
+      // xr-standardマッピングのサムスティック（axes[2], axes[3]）
+      if (gamepad.axes.length >= 4) {
+        const x = gamepad.axes[2];
+        const y = gamepad.axes[3];
+        if (Math.abs(x) > THUMBSTICK_DEADZONE) {
+          this.rotation -= x * ROTATION_SPEED * deltaTime;
+        }
+        if (Math.abs(y) > THUMBSTICK_DEADZONE) {
+          this.setScale(this.scale * (1 - y * SCALE_SPEED * deltaTime));
+        }
+      }
+    });
+
+    if (touches.length >= 2) {
+      const delta = touches[1].clone().sub(touches[0]);
+      const current: TwoFingerGesture = {
+        angle: Math.atan2(delta.y, delta.x),
+        distance: delta.length(),
+      };
+
+      if (this.gesture) {
+        // 角度の差分を -π〜π に正規化
+        let angleDelta = current.angle - this.gesture.angle;
+        angleDelta = Math.atan2(Math.sin(angleDelta), Math.cos(angleDelta));
+        this.rotation -= angleDelta;
+
+        if (this.gesture.distance > 0.01) {
+          this.setScale(this.scale * (current.distance / this.gesture.distance));
+        }
+      }
+
+      this.gesture = current;
+      this.suppressSelect = true;
+    } else {
+      this.gesture = null;
+      if (touches.length === 0) {
+        this.suppressSelect = false;
+      }
+    }
+  }
+
+  /**
+   * selectを配置として扱わない場合はtrue
+   * 2本指ジェスチャーの指が離れたときのselectや、キャンセル後の再開
+   */
+  consumeSelect(): boolean {
+    if (this.suppressSelect) {
+      return true;
+    }
+
+    if (this.cancelled) {
+      // キャンセル後の最初のselectはプレビューを再開するだけ
+      this.cancelled = false;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * プレビューをキャンセル（回転・拡大縮小もリセット）
+   */
+  cancel() {
+    this.cancelled = true;
+    this.rotation = 0;
+    this.scale = 1;
+    if (this.ghost) {
+      this.ghost.visible = false;
+    }
+    console.log("↩️ Placement preview cancelled");
+  }
+
+  /**
+   * 表面の法線まわりの回転（ラジアン）
+   */
+  getRotation(): number {
+    return this.rotation;
+  }
+
+  /**
+   * 配置するオブジェクトのローカルのバウンディングボックス（読み込み前はnull）
+   */
+  getLocalBounds(): THREE.Box3 | null {
+    return this.localBounds;
+  }
+
+  /**
+   * 拡大率
+   */
+  getScale(): number {
+    return this.scale;
+  }
+
+  /**
+   * セッション終了時などに状態を初期化
+   */
+  reset() {
+    this.rotation = 0;
+    this.scale = 1;
+    this.cancelled = false;
+    this.gesture = null;
+    this.suppressSelect = false;
+    this.lastTime = null;
+    if (this.ghost) {
+      this.ghost.visible = false;
+    }
+  }
+
+  /**
+   * クリーンアップ
+   */
+  dispose() {
+    this.clearGhost();
+    this.ghostItemId = null;
+    this.ghostMaterial.dispose();
+  }
+
+  private setScale(scale: number) {
+    this.scale = THREE.MathUtils.clamp(scale, MIN_SCALE, MAX_SCALE);
+  }
+
+  /**
+   * ゴースト用の共有マテリアルに差し替え、元のマテリアルは破棄する
+   */
+  private applyGhostMaterial(object: THREE.Object3D) {
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach((material: THREE.Material) => material.dispose());
+        child.material = this.ghostMaterial;
+        child.renderOrder = 1;
+      }
+    });
+  }
+
+  private clearGhost() {
+    this.localBounds = null;
+    if (!this.ghost) return;
+    this.scene.remove(this.ghost);
+    this.disposeGhostObject(this.ghost);
+    this.ghost = null;
+  }
+
+  /**
+   * ゴーストのジオメトリを破棄（共有マテリアルは残す）
+   */
+  private disposeGhostObject(object: THREE.Object3D) {
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        if (child.material !== this.ghostMaterial) {
+          const materials = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach((material: THREE.Material) => material.dispose());
+        }
+      }
+    });
+  }
+}
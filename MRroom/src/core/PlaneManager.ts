@@ -0,0 +1,349 @@
+import * as THREE from "three";
+import { useXRStore } from "../stores/xrStore";
+import { SurfaceType } from "./SurfaceClassifier";
+
+/**
+ * 検出された平面
+ */
+export interface TrackedPlane {
+  id: number;
+  plane: XRPlane;
+  // セマンティックラベル（ラベルがない場合は向きから推定した表面の種類）
+  label: string;
+  surfaceType: SurfaceType;
+  // 平面の姿勢（Y軸が法線）
+  matrix: THREE.Matrix4;
+  // ワールド座標のポリゴン頂点
+  worldPolygon: THREE.Vector3[];
+  lastChangedTime: number;
+  overlay: THREE.Mesh;
+  labelSprite: THREE.Sprite;
+}
+
+/**
+ * PlaneManagerのイベント
+ */
+export interface PlaneManagerEventMap {
+  planeadded: { plane: TrackedPlane };
+  planeupdated: { plane: TrackedPlane };
+  planeremoved: { plane: TrackedPlane };
+}
+
+// セマンティックラベルごとのオーバーレイの色
+const PLANE_COLORS: Record<string, number> = {
+  floor: 0x3399ff,
+  wall: 0xffaa33,
+  ceiling: 0xaa66ff,
+  table: 0x33cc66,
+  other: 0xcccccc,
+};
+
+// ポイントが平面上にあるとみなす距離
+const PLANE_DISTANCE_TOLERANCE = 0.05;
+
+const HORIZONTAL_THRESHOLD = 0.75;
+
+/**
+ * PlaneManager
+ * WebXRの平面検出（plane-detection）で検出された平面を追跡する
+ * - frame.detectedPlanesの追加・更新・削除をイベントで通知
+ * - 平面を半透明のオーバーレイとセマンティックラベルで表示
+ * - 床の範囲と部屋の範囲を計算してストアに反映
+ */
+export class PlaneManager extends THREE.EventDispatcher<PlaneManagerEventMap> {
+  private scene: THREE.Scene;
+  private referenceSpace: XRReferenceSpace | null = null;
+  private planes: Map<XRPlane, TrackedPlane> = new Map();
+  private nextId = 1;
+  private overlaysVisible = true;
+
+  constructor(scene: THREE.Scene) {
+    super();
+    this.scene = scene;
+  }
+
+  /**
+   * XRセッション開始時の処理
+   */
+  setSession(session: XRSession, referenceSpace: XRReferenceSpace) {
+    this.referenceSpace = referenceSpace;
+    if (session.enabledFeatures && !session.enabledFeatures.includes("plane-detection")) {
+      console.warn("⚠️ Plane detection is not enabled for this session");
+    }
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame: XRFrame) {
+    const detectedPlanes = frame.detectedPlanes;
+    if (!detectedPlanes || !this.referenceSpace) return;
+
+    let changed = false;
+
+    // 検出されなくなった平面を削除
+    this.planes.forEach((tracked, plane) => {
+      if (!detectedPlanes.has(plane)) {
+        this.removePlane(tracked);
+        changed = true;
+      }
+    });
+
+    detectedPlanes.forEach((plane) => {
+      const pose = frame.getPose(plane.planeSpace, this.referenceSpace!);
+      if (!pose) return;
+
+      const tracked = this.planes.get(plane);
+      if (!tracked) {
+        this.addPlane(plane, pose);
+        changed = true;
+        return;
+      }
+
+      // 形状が変わった場合はジオメトリを作り直す
+      if (plane.lastChangedTime !== tracked.lastChangedTime) {
+        tracked.overlay.geometry.dispose();
+        tracked.overlay.geometry = this.createPlaneGeometry(plane);
+        tracked.lastChangedTime = plane.lastChangedTime;
+        this.updatePose(tracked, pose);
+        this.dispatchEvent({ type: "planeupdated", plane: tracked });
+        changed = true;
+      } else if (!tracked.matrix.equals(new THREE.Matrix4().fromArray(pose.transform.matrix))) {
+        this.updatePose(tracked, pose);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.updateRoomBounds();
+    }
+  }
+
+  /**
+   * ヒット姿勢の位置を含む平面を探す（なければnull）
+   */
+  findPlaneAt(hitMatrix: THREE.Matrix4): TrackedPlane | null {
+    const position = new THREE.Vector3().setFromMatrixPosition(hitMatrix);
+    const inverse = new THREE.Matrix4();
+    const local = new THREE.Vector3();
+
+    for (const tracked of this.planes.values()) {
+      // 平面のローカル座標（XZ平面上にポリゴンがある）
+      local.copy(position).applyMatrix4(inverse.copy(tracked.matrix).invert());
+      if (Math.abs(local.y) > PLANE_DISTANCE_TOLERANCE) continue;
+      if (this.isInsidePolygon(local.x, local.z, tracked.plane.polygon)) {
+        return tracked;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 追跡中の平面
+   */
+  getPlanes(): TrackedPlane[] {
+    return Array.from(this.planes.values());
+  }
+
+  /**
+   * 平面のオーバーレイの表示切り替え
+   */
+  setOverlaysVisible(visible: boolean) {
+    this.overlaysVisible = visible;
+    this.planes.forEach((tracked) => {
+      tracked.overlay.visible = visible;
+    });
+  }
+
+  /**
+   * XRセッション終了時の処理
+   */
+  onSessionEnd() {
+    this.planes.forEach((tracked) => this.removePlane(tracked));
+    this.referenceSpace = null;
+    this.updateRoomBounds();
+  }
+
+  /**
+   * クリーンアップ
+   */
+  dispose() {
+    this.planes.forEach((tracked) => this.removePlane(tracked));
+    this.referenceSpace = null;
+  }
+
+  private addPlane(plane: XRPlane, pose: XRPose) {
+    const surfaceType = this.resolveSurfaceType(plane, pose);
+    const label = plane.semanticLabel ?? surfaceType;
+    const color = PLANE_COLORS[label] ?? PLANE_COLORS[surfaceType] ?? PLANE_COLORS.other;
+
+    const overlay = new THREE.Mesh(
+      this.createPlaneGeometry(plane),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 0.25,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      })
+    );
+    overlay.matrixAutoUpdate = false;
+    overlay.visible = this.overlaysVisible;
+
+    const labelSprite = this.createLabelSprite(label);
+    overlay.add(labelSprite);
+    this.scene.add(overlay);
+
+    const tracked: TrackedPlane = {
+      id: this.nextId++,
+      plane,
+      label,
+      surfaceType,
+      matrix: new THREE.Matrix4(),
+      worldPolygon: [],
+      lastChangedTime: plane.lastChangedTime,
+      overlay,
+      labelSprite,
+    };
+    this.updatePose(tracked, pose);
+    this.planes.set(plane, tracked);
+
+    console.log(`🟦 Plane detected (#${tracked.id}, ${label})`);
+    this.dispatchEvent({ type: "planeadded", plane: tracked });
+  }
+
+  private removePlane(tracked: TrackedPlane) {
+    this.planes.delete(tracked.plane);
+    this.scene.remove(tracked.overlay);
+    tracked.overlay.geometry.dispose();
+    (tracked.overlay.material as THREE.Material).dispose();
+    tracked.labelSprite.material.map?.dispose();
+    tracked.labelSprite.material.dispose();
+    this.dispatchEvent({ type: "planeremoved", plane: tracked });
+  }
+
+  private updatePose(tracked: TrackedPlane, pose: XRPose) {
+    tracked.matrix.fromArray(pose.transform.matrix);
+    tracked.overlay.matrix.copy(tracked.matrix);
+    tracked.overlay.matrixWorldNeedsUpdate = true;
+    tracked.worldPolygon = tracked.plane.polygon.map((point) =>
+      new THREE.Vector3(point.x, point.y, point.z).applyMatrix4(tracked.matrix)
+    );
+
+    // ラベルはポリゴンの中心の少し上に表示
+    const center = new THREE.Vector3();
+    tracked.plane.polygon.forEach((point) => center.add(new THREE.Vector3(point.x, 0, point.z)));
+    center.divideScalar(Math.max(tracked.plane.polygon.length, 1));
+    tracked.labelSprite.position.set(center.x, 0.05, center.z);
+  }
+
+  /**
+   * 平面のポリゴン（平面空間のXZ平面）からジオメトリを作成
+   */
+  private createPlaneGeometry(plane: XRPlane): THREE.BufferGeometry {
+    const shape = new THREE.Shape(
+      plane.polygon.map((point) => new THREE.Vector2(point.x, point.z))
+    );
+    // ShapeのXY平面を平面空間のXZ平面に回転
+    return new THREE.ShapeGeometry(shape).rotateX(Math.PI / 2);
+  }
+
+  /**
+   * セマンティックラベルのスプライトを作成
+   */
+  private createLabelSprite(label: string): THREE.Sprite {
+    const canvas = document.createElement("canvas");
+    canvas.width = 256;
+    canvas.height = 64;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.fillStyle = "rgba(0, 0, 0, 0.6)";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = "white";
+      context.font = "bold 36px sans-serif";
+      context.textAlign = "center";
+      context.textBaseline = "middle";
+      context.fillText(label, canvas.width / 2, canvas.height / 2);
+    }
+
+    const sprite = new THREE.Sprite(
+      new THREE.SpriteMaterial({
+        map: new THREE.CanvasTexture(canvas),
+        transparent: true,
+        depthTest: false,
+      })
+    );
+    sprite.scale.set(0.3, 0.075, 1);
+    return sprite;
+  }
+
+  /**
+   * セマンティックラベルから表面の種類を決定（ラベルがなければ向きと高さから推定）
+   */
+  private resolveSurfaceType(plane: XRPlane, pose: XRPose): SurfaceType {
+    switch (plane.semanticLabel) {
+      case "floor":
+        return "floor";
+      case "wall":
+      case "door":
+      case "window":
+        return "wall";
+      case "ceiling":
+        return "ceiling";
+      case "table":
+      case "desk":
+        return "table";
+    }
+
+    const matrix = new THREE.Matrix4().fromArray(pose.transform.matrix);
+    const normal = new THREE.Vector3().setFromMatrixColumn(matrix, 1).normalize();
+    if (plane.orientation === "vertical" || Math.abs(normal.y) < HORIZONTAL_THRESHOLD) {
+      return "wall";
+    }
+    if (normal.y < 0) {
+      return "ceiling";
+    }
+    return matrix.elements[13] >= 0.25 ? "table" : "floor";
+  }
+
+  /**
+   * 床の範囲（床の平面の和）と部屋の範囲（床・壁・天井の和）をストアに反映
+   */
+  private updateRoomBounds() {
+    const floorExtents = new THREE.Box3();
+    const roomBounds = new THREE.Box3();
+
+    this.planes.forEach((tracked) => {
+      if (tracked.surfaceType === "table") return;
+      tracked.worldPolygon.forEach((point) => {
+        roomBounds.expandByPoint(point);
+        if (tracked.surfaceType === "floor") {
+          floorExtents.expandByPoint(point);
+        }
+      });
+    });
+
+    useXRStore
+      .getState()
+      .setRoomBounds(
+        floorExtents.isEmpty() ? null : floorExtents,
+        roomBounds.isEmpty() ? null : roomBounds,
+        this.planes.size
+      );
+  }
+
+  /**
+   * ポリゴン内判定（平面空間のXZ座標）
+   */
+  private isInsidePolygon(x: number, z: number, polygon: DOMPointReadOnly[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if (a.z > z !== b.z > z && x < ((b.x - a.x) * (z - a.z)) / (b.z - a.z) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+}
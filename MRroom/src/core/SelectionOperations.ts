@@ -0,0 +1,108 @@
+import * as THREE from "three";
+import { HitTestManager } from "./HitTestManager";
+import { InteractionManager } from "./InteractionManager";
+import { GROUP_CATALOG_ID } from "./LayoutSerializer";
+
+/**
+ * 整列・等間隔配置の軸（ワールド座標の水平軸）
+ */
+export type SelectionAxis = "x" | "z";
+
+/**
+ * SelectionOperations
+ * 選択中のオブジェクトすべてに対する操作（削除・複製・整列・等間隔配置・グループ化）
+ * グループ解除以外の操作は、選択がいくつあっても1回のundoで元に戻る
+ */
+export class SelectionOperations {
+  private hitTestManager: HitTestManager;
+  private interactionManager: InteractionManager;
+
+  constructor(hitTestManager: HitTestManager, interactionManager: InteractionManager) {
+    this.hitTestManager = hitTestManager;
+    this.interactionManager = interactionManager;
+  }
+
+  /**
+   * 選択中のオブジェクトを削除
+   */
+  deleteSelected() {
+    this.hitTestManager.removeObjects(this.interactionManager.getSelectedObjects());
+  }
+
+  /**
+   * 選択中のオブジェクトを複製し、複製を選択する
+   */
+  duplicateSelected() {
+    const copies = this.hitTestManager.duplicateObjects(
+      this.interactionManager.getSelectedObjects()
+    );
+    if (copies.length > 0) {
+      this.interactionManager.setSelection(copies);
+    }
+  }
+
+  /**
+   * 基準のオブジェクト（最後に選択したもの）に軸の位置を揃える
+   */
+  alignSelected(axis: SelectionAxis) {
+    const reference = this.interactionManager.getSelectedObject();
+    const objects = this.interactionManager.getSelectedObjects();
+    if (!reference || objects.length < 2) return;
+
+    const target = reference.position[axis];
+    this.transform(objects, (object) => {
+      object.position[axis] = target;
+    });
+  }
+
+  /**
+   * 両端のオブジェクトの間に等間隔で並べる
+   */
+  distributeSelected(axis: SelectionAxis) {
+    const objects = this.interactionManager
+      .getSelectedObjects()
+      .sort((a, b) => a.position[axis] - b.position[axis]);
+    if (objects.length < 3) return;
+
+    const start = objects[0].position[axis];
+    const step = (objects[objects.length - 1].position[axis] - start) / (objects.length - 1);
+    this.transform(objects, (object) => {
+      object.position[axis] = start + step * objects.indexOf(object);
+    });
+  }
+
+  /**
+   * 選択中のオブジェクトをグループ化し、グループを選択する
+   */
+  groupSelected() {
+    const group = this.hitTestManager.groupObjects(this.interactionManager.getSelectedObjects());
+    if (group) {
+      this.interactionManager.setSelection([group]);
+    }
+  }
+
+  /**
+   * 選択中のグループを解除し、中身を選択する
+   */
+  ungroupSelected() {
+    const members = this.interactionManager
+      .getSelectedObjects()
+      .filter((object) => object.userData.catalogId === GROUP_CATALOG_ID)
+      .flatMap((group) => this.hitTestManager.ungroupObject(group));
+    if (members.length > 0) {
+      this.interactionManager.setSelection(members);
+    }
+  }
+
+  /**
+   * 姿勢の変更をまとめて記録
+   */
+  private transform(objects: THREE.Object3D[], apply: (object: THREE.Object3D) => void) {
+    const changes = objects.map((object) => ({
+      object,
+      before: this.hitTestManager.beginTransform(object),
+    }));
+    objects.forEach(apply);
+    this.hitTestManager.commitTransforms(changes);
+  }
+}
@@ -0,0 +1,499 @@
+import * as THREE from "three";
+import type { SelectArbiter } from "./HitTestManager";
+import type { UIKitPanel } from "./UIKitPanel";
+
+/**
+ * SpatialPanelのオプション
+ */
+export interface SpatialPanelOptions {
+  // UIKitの1単位の大きさ（m）
+  pixelSize?: number;
+  // 頭から見たパネルの位置（頭の水平の向き基準、-Zが正面）
+  offset?: THREE.Vector3;
+  // 視線からこれ以上外れたら追従する（rad）
+  followAngle?: number;
+  // 追従の速さ（大きいほど速い）
+  followSpeed?: number;
+  // 押せる要素が押された
+  onPress?: (id: string) => void;
+}
+
+const DEFAULT_OPTIONS = {
+  pixelSize: 0.01,
+  offset: new THREE.Vector3(-0.3, -0.2, -0.9),
+  followAngle: THREE.MathUtils.degToRad(40),
+  followSpeed: 4,
+};
+
+// 置き直した位置の距離の範囲（m）
+const MIN_DISTANCE = 0.35;
+const MAX_DISTANCE = 2.5;
+// 頭との距離がこれ以上ずれたら追従する（m）
+const FOLLOW_DISTANCE_TOLERANCE = 0.5;
+// 目標にこれより近づいたら追従をやめる（m）
+const FOLLOW_STOP_DISTANCE = 0.02;
+// これ以上動かしたらクリックではなくドラッグとみなす（px）
+const CLICK_THRESHOLD = 5;
+
+/**
+ * パネルを掴んでいる入力（XRの入力ソース、またはデスクトップのポインター）
+ */
+interface PanelGrab {
+  source: XRInputSource | "pointer";
+  // 入力のレイから見たパネルの位置
+  offset: THREE.Vector3;
+  // デスクトップ: ドラッグする平面
+  plane: THREE.Plane | null;
+}
+
+/**
+ * SpatialPanel
+ * UIKitPanelをワールド空間に表示する板
+ * - レイ（XRの入力ソース・デスクトップのマウス）で指した要素をhoverし、selectで押す
+ * - ボタン以外の場所をselect、またはどこでもsqueezeで掴んで動かせる
+ * - 視界から外れたり離れすぎたりすると、ゆっくりユーザーの前に戻る（置き直した位置を覚える）
+ * - パネルを指しているselectは配置に使わない（SelectArbiter）
+ */
+export class SpatialPanel implements SelectArbiter {
+  readonly mesh: THREE.Mesh;
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private panel: UIKitPanel;
+  private material: THREE.MeshBasicMaterial;
+  private options: typeof DEFAULT_OPTIONS;
+  private onPress: ((id: string) => void) | null;
+  private offset: THREE.Vector3;
+  private session: XRSession | null = null;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private clock: THREE.Clock = new THREE.Clock();
+  private grab: PanelGrab | null = null;
+  // selectstartで押した要素（selectの時点で同じ要素を指していれば押したことにする）
+  private pressed: Map<XRInputSource | "pointer", string> = new Map();
+  // デスクトップ: マウスの位置と押した位置
+  private pointer: THREE.Vector2 = new THREE.Vector2();
+  private pointerDown: { x: number; y: number } | null = null;
+  private following = false;
+  private placed = false;
+  // 頭の姿勢（毎フレーム更新）
+  private headPosition: THREE.Vector3 = new THREE.Vector3();
+  private headQuaternion: THREE.Quaternion = new THREE.Quaternion();
+  private headYaw: THREE.Quaternion = new THREE.Quaternion();
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    panel: UIKitPanel,
+    options: SpatialPanelOptions = {}
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.panel = panel;
+    this.options = {
+      pixelSize: options.pixelSize ?? DEFAULT_OPTIONS.pixelSize,
+      offset: (options.offset ?? DEFAULT_OPTIONS.offset).clone(),
+      followAngle: options.followAngle ?? DEFAULT_OPTIONS.followAngle,
+      followSpeed: options.followSpeed ?? DEFAULT_OPTIONS.followSpeed,
+    };
+    this.onPress = options.onPress ?? null;
+    this.offset = this.options.offset.clone();
+
+    this.material = new THREE.MeshBasicMaterial({
+      map: panel.texture,
+      transparent: true,
+      side: THREE.DoubleSide,
+    });
+    this.mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), this.material);
+    this.mesh.name = "SpatialPanel";
+    // 配置したオブジェクトより手前に表示
+    this.mesh.renderOrder = 1;
+    this.updateSize();
+    this.scene.add(this.mesh);
+
+    const canvas = this.renderer.domElement;
+    // 他のmanagerより先に処理し、パネルの上の操作が範囲選択・選択解除にならないようにする
+    canvas.addEventListener("pointerdown", this.onPointerDown, { capture: true });
+    canvas.addEventListener("pointermove", this.onPointerMove);
+    canvas.addEventListener("pointerup", this.onPointerUp);
+    canvas.addEventListener("click", this.onClick, { capture: true });
+    this.renderer.xr.addEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.addEventListener("sessionend", this.onSessionEnd);
+  }
+
+  /**
+   * テクスチャの大きさに合わせて板の大きさを変える
+   */
+  private updateSize() {
+    if (this.material.map !== this.panel.texture) {
+      this.material.map = this.panel.texture;
+      this.material.needsUpdate = true;
+    }
+    const { pixelSize } = this.options;
+    this.mesh.scale.set(this.panel.width * pixelSize, this.panel.height * pixelSize, 1);
+  }
+
+  /**
+   * idのある要素のテキストを変更
+   */
+  setText(id: string, text: string) {
+    if (this.panel.setText(id, text)) this.updateSize();
+  }
+
+  /**
+   * selectがパネルに向いている場合はtrue（配置しない）
+   */
+  claimsSelect(event: XRInputSourceEvent): boolean {
+    if (this.pressed.has(event.inputSource) || this.grab?.source === event.inputSource) return true;
+    return this.raycastInputSource(event.inputSource, event.frame) !== null;
+  }
+
+  /**
+   * 毎フレーム実行される更新処理
+   */
+  update(frame?: XRFrame) {
+    const deltaTime = Math.min(this.clock.getDelta(), 0.1);
+    if (!this.updateHead(frame)) return;
+
+    // 最初のフレームで頭の前に置く
+    if (!this.placed) {
+      this.mesh.position.copy(this.getFollowTarget());
+      this.faceHead(1);
+      this.placed = true;
+    }
+
+    if (this.renderer.xr.isPresenting && frame) {
+      this.updateInputs(frame);
+    }
+
+    if (this.grab) {
+      this.faceHead(1);
+    } else {
+      this.updateFollow(deltaTime);
+    }
+  }
+
+  /**
+   * 頭の姿勢（XRではビューアー、それ以外はカメラ）
+   */
+  private updateHead(frame?: XRFrame): boolean {
+    if (this.renderer.xr.isPresenting) {
+      const referenceSpace = this.renderer.xr.getReferenceSpace();
+      const pose = frame && referenceSpace ? frame.getViewerPose(referenceSpace) : null;
+      if (!pose) return false;
+
+      const { position, orientation } = pose.transform;
+      this.headPosition.set(position.x, position.y, position.z);
+      this.headQuaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+    } else {
+      this.camera.updateMatrixWorld();
+      this.camera.matrixWorld.decompose(this.headPosition, this.headQuaternion, new THREE.Vector3());
+    }
+
+    // 水平の向き（上下を向いてもパネルの高さは変えない）
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.headQuaternion);
+    this.headYaw.setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.atan2(-forward.x, -forward.z));
+    return true;
+  }
+
+  private getFollowTarget(): THREE.Vector3 {
+    return this.offset.clone().applyQuaternion(this.headYaw).add(this.headPosition);
+  }
+
+  /**
+   * 視界から外れたか離れすぎたら、頭の前の位置へ滑らかに戻す
+   */
+  private updateFollow(deltaTime: number) {
+    const target = this.getFollowTarget();
+    const toPanel = this.mesh.position.clone().sub(this.headPosition);
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.headQuaternion);
+
+    if (!this.following) {
+      const outOfView = toPanel.angleTo(forward) > this.options.followAngle;
+      const outOfReach =
+        Math.abs(toPanel.length() - this.offset.length()) > FOLLOW_DISTANCE_TOLERANCE;
+      this.following = outOfView || outOfReach;
+    }
+
+    const t = 1 - Math.exp(-this.options.followSpeed * deltaTime);
+    if (this.following) {
+      this.mesh.position.lerp(target, t);
+      if (this.mesh.position.distanceTo(target) < FOLLOW_STOP_DISTANCE) {
+        this.following = false;
+      }
+    }
+    this.faceHead(t);
+  }
+
+  /**
+   * パネルを頭の方に向ける（水平に回転するだけ、tで補間）
+   */
+  private faceHead(t: number) {
+    const toHead = this.headPosition.clone().sub(this.mesh.position);
+    const yaw = Math.atan2(toHead.x, toHead.z);
+    const target = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw);
+    this.mesh.quaternion.slerp(target, t);
+  }
+
+  /**
+   * 置き直した位置を、頭から見た位置として覚える（距離は範囲内に制限）
+   */
+  private rememberOffset() {
+    const offset = this.mesh.position
+      .clone()
+      .sub(this.headPosition)
+      .applyQuaternion(this.headYaw.clone().invert());
+    const distance = THREE.MathUtils.clamp(offset.length(), MIN_DISTANCE, MAX_DISTANCE);
+    this.offset.copy(offset.setLength(distance));
+    this.following = false;
+  }
+
+  // ---- XR ----
+
+  private onSessionStart = () => {
+    const session = this.renderer.xr.getSession();
+    if (!session) return;
+
+    this.session = session;
+    session.addEventListener("selectstart", this.onSelectStart);
+    session.addEventListener("select", this.onSelect);
+    session.addEventListener("selectend", this.onSelectEnd);
+    session.addEventListener("squeezestart", this.onSqueezeStart);
+    session.addEventListener("squeezeend", this.onSqueezeEnd);
+    // セッションの座標で置き直す
+    this.placed = false;
+    this.endGrab();
+  };
+
+  private onSessionEnd = () => {
+    this.removeSessionListeners();
+    this.pressed.clear();
+    this.endGrab();
+    this.panel.setHovered(null);
+    this.placed = false;
+  };
+
+  /**
+   * 入力ソースのレイを追従させて掴んだパネルを動かし、指している要素をhoverする
+   */
+  private updateInputs(frame: XRFrame) {
+    let hovered: string | null = null;
+
+    frame.session.inputSources.forEach((inputSource) => {
+      const hit = this.raycastInputSource(inputSource, frame);
+      if (this.grab?.source === inputSource) {
+        this.mesh.position.copy(this.grab.offset).applyMatrix4(this.rayMatrix(this.raycaster.ray));
+        return;
+      }
+      // 画面タップは押している間だけ
+      if (inputSource.targetRayMode === "screen" && !this.pressed.has(inputSource)) return;
+      hovered ??= hit ? this.panel.hitTest(hit) : null;
+    });
+
+    // 掴んでいた入力ソースが無くなった場合は離す
+    const grabSource = this.grab?.source;
+    if (grabSource && grabSource !== "pointer" && !Array.from(frame.session.inputSources).includes(grabSource)) {
+      this.endGrab();
+    }
+    this.panel.setHovered(hovered);
+  }
+
+  private onSelectStart = (event: XRInputSourceEvent) => {
+    const hit = this.raycastInputSource(event.inputSource, event.frame);
+    if (!hit) return;
+
+    const id = this.panel.hitTest(hit);
+    if (id) {
+      this.pressed.set(event.inputSource, id);
+    } else {
+      this.startGrab(event.inputSource);
+    }
+  };
+
+  private onSelect = (event: XRInputSourceEvent) => {
+    const id = this.pressed.get(event.inputSource);
+    if (!id) return;
+
+    const hit = this.raycastInputSource(event.inputSource, event.frame);
+    if (hit && this.panel.hitTest(hit) === id) this.press(id);
+  };
+
+  private onSelectEnd = (event: XRInputSourceEvent) => {
+    this.pressed.delete(event.inputSource);
+    if (this.grab?.source === event.inputSource) this.endGrab();
+  };
+
+  private onSqueezeStart = (event: XRInputSourceEvent) => {
+    if (this.raycastInputSource(event.inputSource, event.frame)) {
+      this.startGrab(event.inputSource);
+    }
+  };
+
+  private onSqueezeEnd = (event: XRInputSourceEvent) => {
+    if (this.grab?.source === event.inputSource) this.endGrab();
+  };
+
+  /**
+   * 入力ソースのtargetRaySpaceからパネルにレイキャストし、当たった位置のUVを返す
+   */
+  private raycastInputSource(inputSource: XRInputSource, frame: XRFrame): THREE.Vector2 | null {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    const pose = referenceSpace ? frame.getPose(inputSource.targetRaySpace, referenceSpace) : null;
+    if (!pose) return null;
+
+    const matrix = new THREE.Matrix4().fromArray(pose.transform.matrix);
+    this.raycaster.ray.origin.setFromMatrixPosition(matrix);
+    this.raycaster.ray.direction.set(0, 0, -1).transformDirection(matrix);
+    return this.intersect();
+  }
+
+  // ---- デスクトップ ----
+
+  private updatePointer(event: PointerEvent | MouseEvent) {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+  }
+
+  private onPointerDown = (event: PointerEvent) => {
+    if (this.renderer.xr.isPresenting || event.button !== 0) return;
+
+    this.updatePointer(event);
+    this.pointerDown = null;
+    const hit = this.intersect();
+    if (!hit) return;
+
+    event.stopImmediatePropagation();
+    this.pointerDown = { x: event.clientX, y: event.clientY };
+    const id = this.panel.hitTest(hit);
+    if (id) {
+      this.pressed.set("pointer", id);
+    } else {
+      this.startGrab("pointer");
+    }
+  };
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (this.renderer.xr.isPresenting) return;
+
+    this.updatePointer(event);
+    const grab = this.grab;
+    if (grab?.source === "pointer" && grab.plane) {
+      const point = this.raycaster.ray.intersectPlane(grab.plane, new THREE.Vector3());
+      if (point) this.mesh.position.copy(grab.offset).add(point);
+      return;
+    }
+
+    const hit = this.intersect();
+    this.panel.setHovered(hit ? this.panel.hitTest(hit) : null);
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    if (event.button !== 0) return;
+    if (this.grab?.source === "pointer") this.endGrab();
+  };
+
+  /**
+   * クリック（ユーザーの操作として扱われるため、セッションの開始はここで行う）
+   */
+  private onClick = (event: MouseEvent) => {
+    const pointerDown = this.pointerDown;
+    if (this.renderer.xr.isPresenting || !pointerDown) return;
+
+    // パネルの上で押した操作は他のmanagerに渡さない
+    event.stopImmediatePropagation();
+    this.pointerDown = null;
+    const id = this.pressed.get("pointer");
+    this.pressed.delete("pointer");
+
+    const moved = Math.hypot(event.clientX - pointerDown.x, event.clientY - pointerDown.y);
+    this.updatePointer(event);
+    const hit = this.intersect();
+    if (id && moved <= CLICK_THRESHOLD && hit && this.panel.hitTest(hit) === id) {
+      this.press(id);
+    }
+  };
+
+  // ---- 共通 ----
+
+  /**
+   * raycasterのレイとパネルの交差（UV、当たらなければnull）
+   */
+  private intersect(): THREE.Vector2 | null {
+    if (!this.mesh.visible) return null;
+    this.mesh.updateMatrixWorld();
+    const hit = this.raycaster.intersectObject(this.mesh, false)[0];
+    return hit?.uv ?? null;
+  }
+
+  /**
+   * レイの原点と向きの姿勢（-Zがレイの向き）
+   */
+  private rayMatrix(ray: THREE.Ray): THREE.Matrix4 {
+    const quaternion = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 0, -1),
+      ray.direction
+    );
+    return new THREE.Matrix4().compose(ray.origin, quaternion, new THREE.Vector3(1, 1, 1));
+  }
+
+  /**
+   * 直前にレイキャストした入力でパネルを掴む
+   */
+  private startGrab(source: XRInputSource | "pointer") {
+    const ray = this.raycaster.ray;
+    if (source === "pointer") {
+      // カメラに向いた、パネルを通る平面の上で動かす
+      const normal = this.camera.getWorldDirection(new THREE.Vector3()).negate();
+      const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, this.mesh.position);
+      const start = ray.intersectPlane(plane, new THREE.Vector3());
+      if (!start) return;
+      this.grab = { source, offset: this.mesh.position.clone().sub(start), plane };
+    } else {
+      const inverse = this.rayMatrix(ray).invert();
+      this.grab = { source, offset: this.mesh.position.clone().applyMatrix4(inverse), plane: null };
+    }
+    this.following = false;
+    this.panel.setHovered(null);
+  }
+
+  private endGrab() {
+    if (!this.grab) return;
+    this.grab = null;
+    this.rememberOffset();
+  }
+
+  private press(id: string) {
+    console.log(`🟦 Panel button pressed: ${id}`);
+    this.onPress?.(id);
+  }
+
+  private removeSessionListeners() {
+    if (!this.session) return;
+    this.session.removeEventListener("selectstart", this.onSelectStart);
+    this.session.removeEventListener("select", this.onSelect);
+    this.session.removeEventListener("selectend", this.onSelectEnd);
+    this.session.removeEventListener("squeezestart", this.onSqueezeStart);
+    this.session.removeEventListener("squeezeend", this.onSqueezeEnd);
+    this.session = null;
+  }
+
+  dispose() {
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener("pointerdown", this.onPointerDown, { capture: true });
+    canvas.removeEventListener("pointermove", this.onPointerMove);
+    canvas.removeEventListener("pointerup", this.onPointerUp);
+    canvas.removeEventListener("click", this.onClick, { capture: true });
+    this.renderer.xr.removeEventListener("sessionstart", this.onSessionStart);
+    this.renderer.xr.removeEventListener("sessionend", this.onSessionEnd);
+    this.removeSessionListeners();
+    this.scene.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    this.material.dispose();
+    this.panel.dispose();
+  }
+}
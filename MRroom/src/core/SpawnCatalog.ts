@@ -0,0 +1,244 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { InteractiveOptions } from "./InteractiveRegistry";
+import { SurfaceType } from "./SurfaceClassifier";
+
+/**
+ * 配置可能なオブジェクトのファクトリ
+ */
+export interface SpawnFactory {
+  id: string;
+  label: string;
+  // ヒット位置からの配置オフセット（表面座標系、Y軸が法線方向）
+  placementOffset: THREE.Vector3;
+  // 配置可能な表面
+  surfaces: SurfaceType[];
+  // 配置したオブジェクトをインタラクティブとして登録する際のオプション
+  interactive?: InteractiveOptions;
+  create: () => THREE.Object3D | Promise<THREE.Object3D>;
+}
+
+/**
+ * プリミティブ用ファクトリのオプション
+ */
+export interface PrimitiveFactoryOptions {
+  id: string;
+  label: string;
+  geometry: () => THREE.BufferGeometry;
+  material: () => THREE.Material;
+  placementOffset?: THREE.Vector3;
+  surfaces?: SurfaceType[];
+}
+
+/**
+ * GLTFモデル用ファクトリのオプション
+ */
+export interface GLTFFactoryOptions {
+  id: string;
+  label: string;
+  // public/models 以下のURL（例: "models/chair.glb"）
+  url: string;
+  scale?: number;
+  // レイキャストにBVHを使う（既定: true）
+  bvh?: boolean;
+  placementOffset?: THREE.Vector3;
+  surfaces?: SurfaceType[];
+}
+
+/**
+ * 複数メッシュから構成されるプレハブ用ファクトリのオプション
+ */
+export interface PrefabFactoryOptions {
+  id: string;
+  label: string;
+  build: () => THREE.Object3D;
+  placementOffset?: THREE.Vector3;
+  surfaces?: SurfaceType[];
+}
+
+// 指定がない場合は水平面（床・テーブル）に置く
+const DEFAULT_SURFACES: SurfaceType[] = ["floor", "table"];
+
+/**
+ * SpawnCatalog
+ * 名前付きのオブジェクトファクトリを登録・生成するレジストリ
+ */
+export class SpawnCatalog {
+  private factories: Map<string, SpawnFactory> = new Map();
+
+  /**
+   * ファクトリを登録（同じIDは上書き）
+   */
+  register(factory: SpawnFactory): this {
+    if (this.factories.has(factory.id)) {
+      console.warn(`⚠️ Spawn factory "${factory.id}" is overwritten`);
+    }
+    this.factories.set(factory.id, factory);
+    return this;
+  }
+
+  /**
+   * ファクトリの登録解除
+   */
+  unregister(id: string) {
+    this.factories.delete(id);
+  }
+
+  /**
+   * ファクトリを取得
+   */
+  get(id: string): SpawnFactory | undefined {
+    return this.factories.get(id);
+  }
+
+  /**
+   * 登録済みファクトリの一覧
+   */
+  list(): SpawnFactory[] {
+    return Array.from(this.factories.values());
+  }
+}
+
+/**
+ * プリミティブ（単一メッシュ）のファクトリを作成
+ */
+export function createPrimitiveFactory(options: PrimitiveFactoryOptions): SpawnFactory {
+  return {
+    id: options.id,
+    label: options.label,
+    placementOffset: options.placementOffset ?? new THREE.Vector3(),
+    surfaces: options.surfaces ?? DEFAULT_SURFACES,
+    create: () => new THREE.Mesh(options.geometry(), options.material()),
+  };
+}
+
+const gltfLoader = new GLTFLoader();
+const gltfCache: Map<string, Promise<THREE.Object3D>> = new Map();
+
+/**
+ * GLTFモデルのファクトリを作成
+ * モデルは一度だけ読み込み、生成のたびにジオメトリとマテリアルを複製する
+ */
+export function createGLTFFactory(options: GLTFFactoryOptions): SpawnFactory {
+  return {
+    id: options.id,
+    label: options.label,
+    placementOffset: options.placementOffset ?? new THREE.Vector3(),
+    surfaces: options.surfaces ?? DEFAULT_SURFACES,
+    interactive: { bvh: options.bvh ?? true },
+    create: async () => {
+      let source = gltfCache.get(options.url);
+      if (!source) {
+        source = gltfLoader.loadAsync(options.url).then((gltf) => gltf.scene);
+        gltfCache.set(options.url, source);
+        // 失敗した読み込みはキャッシュしない
+        source.catch(() => gltfCache.delete(options.url));
+      }
+
+      const object = (await source).clone(true);
+      object.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry = child.geometry.clone();
+          child.material = Array.isArray(child.material)
+            ? child.material.map((material) => material.clone())
+            : child.material.clone();
+        }
+      });
+      if (options.scale !== undefined) {
+        object.scale.setScalar(options.scale);
+      }
+      return object;
+    },
+  };
+}
+
+/**
+ * プレハブ（複数メッシュ）のファクトリを作成
+ */
+export function createPrefabFactory(options: PrefabFactoryOptions): SpawnFactory {
+  return {
+    id: options.id,
+    label: options.label,
+    placementOffset: options.placementOffset ?? new THREE.Vector3(),
+    surfaces: options.surfaces ?? DEFAULT_SURFACES,
+    create: options.build,
+  };
+}
+
+/**
+ * 壁掛けの額縁（枠と絵の複数メッシュ）
+ * 表面座標系のXZ平面に沿って平らに置かれる
+ */
+function buildPictureFrame(): THREE.Object3D {
+  const group = new THREE.Group();
+  const frameMaterial = new THREE.MeshStandardMaterial({ color: 0x8b5a2b, roughness: 0.8 });
+  const border = 0.02;
+  const width = 0.3;
+  const height = 0.2;
+
+  const bars: Array<[number, number, number, number]> = [
+    [width, border, 0, -(height - border) / 2],
+    [width, border, 0, (height - border) / 2],
+    [border, height, -(width - border) / 2, 0],
+    [border, height, (width - border) / 2, 0],
+  ];
+  bars.forEach(([barWidth, barDepth, x, z]) => {
+    const bar = new THREE.Mesh(new THREE.BoxGeometry(barWidth, 0.02, barDepth), frameMaterial);
+    bar.position.set(x, 0.01, z);
+    group.add(bar);
+  });
+
+  const canvas = new THREE.Mesh(
+    new THREE.PlaneGeometry(width - border * 2, height - border * 2).rotateX(-Math.PI / 2),
+    new THREE.MeshStandardMaterial({ color: 0xf5f5dc, roughness: 0.9 })
+  );
+  canvas.position.y = 0.005;
+  group.add(canvas);
+
+  return group;
+}
+
+/**
+ * 標準のカタログ（キューブ・球体・円柱・額縁）を作成
+ */
+export function createDefaultCatalog(): SpawnCatalog {
+  return new SpawnCatalog()
+    .register(
+      createPrimitiveFactory({
+        id: "cube",
+        label: "Red Cube",
+        geometry: () => new THREE.BoxGeometry(0.1, 0.1, 0.1),
+        material: () =>
+          new THREE.MeshStandardMaterial({ color: 0xff0000, metalness: 0.3, roughness: 0.7 }),
+        placementOffset: new THREE.Vector3(0, 0.05, 0),
+      })
+    )
+    .register(
+      createPrimitiveFactory({
+        id: "sphere",
+        label: "Green Sphere",
+        geometry: () => new THREE.SphereGeometry(0.05, 16, 16),
+        material: () =>
+          new THREE.MeshStandardMaterial({ color: 0x00ff00, metalness: 0.5, roughness: 0.5 }),
+        placementOffset: new THREE.Vector3(0, 0.05, 0),
+      })
+    )
+    .register(
+      createPrimitiveFactory({
+        id: "cylinder",
+        label: "Blue Cylinder",
+        geometry: () => new THREE.CylinderGeometry(0.025, 0.025, 0.15, 24),
+        material: () =>
+          new THREE.MeshStandardMaterial({ color: 0x0000ff, metalness: 0.4, roughness: 0.6 }),
+        placementOffset: new THREE.Vector3(0, 0.075, 0),
+      })
+    )
+    .register(
+      createPrefabFactory({
+        id: "picture-frame",
+        label: "Picture Frame",
+        build: buildPictureFrame,
+        surfaces: ["wall"],
+      })
+    );
+}
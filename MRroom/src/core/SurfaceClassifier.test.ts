@@ -0,0 +1,101 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { classifySurface, computeSurfaceAlignment } from "./SurfaceClassifier";
+
+// Y軸が法線を向いたヒット姿勢
+function hitPose(position: THREE.Vector3, normal: THREE.Vector3): THREE.Matrix4 {
+  const rotation = new THREE.Quaternion().setFromUnitVectors(
+    new THREE.Vector3(0, 1, 0),
+    normal.clone().normalize()
+  );
+  return new THREE.Matrix4().compose(position, rotation, new THREE.Vector3(1, 1, 1));
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+describe("classifySurface", () => {
+  it("classifies low upward surfaces as the floor", () => {
+    const surface = classifySurface(hitPose(new THREE.Vector3(0, 0.1, -1), UP), 0);
+
+    expect(surface.type).toBe("floor");
+    expect(surface.height).toBeCloseTo(0.1);
+    expect(surface.normal.y).toBeCloseTo(1);
+  });
+
+  it("classifies upward surfaces 25 cm or more above the floor as tables", () => {
+    expect(classifySurface(hitPose(new THREE.Vector3(0, 0.25, 0), UP), 0).type).toBe("table");
+    expect(classifySurface(hitPose(new THREE.Vector3(0, 0.24, 0), UP), 0).type).toBe("floor");
+  });
+
+  it("measures the height from the given floor height", () => {
+    const surface = classifySurface(hitPose(new THREE.Vector3(0, -0.8, 0), UP), -1.6);
+
+    expect(surface.type).toBe("table");
+    expect(surface.height).toBeCloseTo(0.8);
+  });
+
+  it("classifies vertical surfaces as walls and downward surfaces as ceilings", () => {
+    const origin = new THREE.Vector3(0, 1, 0);
+
+    expect(classifySurface(hitPose(origin, new THREE.Vector3(0, 0, 1)), 0).type).toBe("wall");
+    expect(classifySurface(hitPose(origin, new THREE.Vector3(0, -1, 0)), 0).type).toBe(
+      "ceiling"
+    );
+  });
+
+  it("treats surfaces tilted about 40 degrees as horizontal", () => {
+    const within = new THREE.Vector3(0, 1, 0).applyAxisAngle(
+      new THREE.Vector3(1, 0, 0),
+      THREE.MathUtils.degToRad(40)
+    );
+    const beyond = new THREE.Vector3(0, 1, 0).applyAxisAngle(
+      new THREE.Vector3(1, 0, 0),
+      THREE.MathUtils.degToRad(45)
+    );
+
+    expect(classifySurface(hitPose(new THREE.Vector3(), within), 0).type).toBe("floor");
+    expect(classifySurface(hitPose(new THREE.Vector3(), beyond), 0).type).toBe("wall");
+  });
+});
+
+describe("computeSurfaceAlignment", () => {
+  it("uses the hit rotation on horizontal surfaces", () => {
+    const pose = hitPose(new THREE.Vector3(0, 0.75, 0), UP).multiply(
+      new THREE.Matrix4().makeRotationY(Math.PI / 3)
+    );
+    const surface = classifySurface(pose, 0);
+
+    const rotation = computeSurfaceAlignment(pose, surface);
+
+    expect(rotation.angleTo(new THREE.Quaternion().setFromRotationMatrix(pose))).toBeCloseTo(0);
+  });
+
+  it("points the object's Y axis out of a wall and its top (-Z) upward", () => {
+    const normal = new THREE.Vector3(1, 0, 1).normalize();
+    // 法線の周りに回転したヒット姿勢でも向きは同じになる
+    const pose = hitPose(new THREE.Vector3(1, 1.2, 0), normal).multiply(
+      new THREE.Matrix4().makeRotationY(1.1)
+    );
+    const surface = classifySurface(pose, 0);
+
+    const rotation = computeSurfaceAlignment(pose, surface);
+
+    const y = new THREE.Vector3(0, 1, 0).applyQuaternion(rotation);
+    const top = new THREE.Vector3(0, 0, -1).applyQuaternion(rotation);
+    expect(y.distanceTo(normal)).toBeCloseTo(0);
+    expect(top.distanceTo(UP)).toBeCloseTo(0);
+  });
+
+  it("keeps the top as upright as possible on tilted walls", () => {
+    const normal = new THREE.Vector3(0, 0.3, 1).normalize();
+    const pose = hitPose(new THREE.Vector3(0, 1, -2), normal);
+    const surface = classifySurface(pose, 0);
+
+    const rotation = computeSurfaceAlignment(pose, surface);
+
+    const top = new THREE.Vector3(0, 0, -1).applyQuaternion(rotation);
+    expect(top.dot(normal)).toBeCloseTo(0);
+    expect(top.x).toBeCloseTo(0);
+    expect(top.y).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,71 @@
+import * as THREE from "three";
+
+/**
+ * 表面の種類
+ */
+export type SurfaceType = "floor" | "table" | "wall" | "ceiling";
+
+export const ALL_SURFACE_TYPES: SurfaceType[] = ["floor", "table", "wall", "ceiling"];
+
+/**
+ * ヒット位置の表面情報
+ */
+export interface SurfaceInfo {
+  type: SurfaceType;
+  // 表面の法線（ワールド座標）
+  normal: THREE.Vector3;
+  // 床からの高さ
+  height: number;
+}
+
+// 法線のY成分がこれ以上なら上向きの水平面（約40度以内）
+const HORIZONTAL_THRESHOLD = 0.75;
+// 床からこれ以上高い上向きの面はテーブル
+const TABLE_MIN_HEIGHT = 0.25;
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * ヒット姿勢から表面を分類する
+ * WebXRのヒット姿勢はY軸が表面の法線を向いている
+ */
+export function classifySurface(hitMatrix: THREE.Matrix4, floorHeight: number): SurfaceInfo {
+  const normal = new THREE.Vector3().setFromMatrixColumn(hitMatrix, 1).normalize();
+  const height = new THREE.Vector3().setFromMatrixPosition(hitMatrix).y - floorHeight;
+
+  let type: SurfaceType;
+  if (normal.y >= HORIZONTAL_THRESHOLD) {
+    type = height >= TABLE_MIN_HEIGHT ? "table" : "floor";
+  } else if (normal.y <= -HORIZONTAL_THRESHOLD) {
+    type = "ceiling";
+  } else {
+    type = "wall";
+  }
+
+  return { type, normal, height };
+}
+
+/**
+ * 表面の法線に合わせたオブジェクトの向きを計算する
+ * 壁ではオブジェクトの -Z 方向（上辺）が上を向くように揃え、
+ * それ以外はヒット姿勢の向きをそのまま使う
+ */
+export function computeSurfaceAlignment(
+  hitMatrix: THREE.Matrix4,
+  surface: SurfaceInfo
+): THREE.Quaternion {
+  if (surface.type !== "wall") {
+    return new THREE.Quaternion().setFromRotationMatrix(hitMatrix);
+  }
+
+  const normal = surface.normal;
+  const zAxis = WORLD_UP.clone()
+    .addScaledVector(normal, -WORLD_UP.dot(normal))
+    .normalize()
+    .negate();
+  const xAxis = new THREE.Vector3().crossVectors(normal, zAxis).normalize();
+
+  return new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(xAxis, normal, zAxis)
+  );
+}
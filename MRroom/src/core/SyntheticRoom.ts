@@ -0,0 +1,153 @@
+import * as THREE from "three";
+import type { HitTestProvider } from "./HitTestProvider";
+import type { RecordedPose } from "./XRRecording";
+import { toRecordedPose } from "./VirtualXRSession";
+
+/**
+ * 合成の部屋の寸法（m）
+ */
+export interface SyntheticRoomOptions {
+  width?: number;
+  depth?: number;
+  height?: number;
+  tableSize?: [number, number];
+  tableHeight?: number;
+  // テーブルの中心（床の上、x/z）
+  tablePosition?: [number, number];
+}
+
+const DEFAULT_OPTIONS: Required<SyntheticRoomOptions> = {
+  width: 5,
+  depth: 5,
+  height: 2.6,
+  tableSize: [1.2, 0.7],
+  tableHeight: 0.75,
+  tablePosition: [0, -1.2],
+};
+
+// 床・壁・テーブルの厚さ
+const SLAB_THICKNESS = 0.04;
+// テーブルの脚の太さ
+const LEG_SIZE = 0.05;
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * SyntheticRoom
+ * エミュレーション・VR用の部屋（床・4面の壁・テーブル）
+ * ヒットテストは部屋のメッシュへのレイキャストで答える
+ * - ヒットの姿勢は当たった点で、Y軸を面の法線に合わせる（実機のヒットテストと同じ向き）
+ * - シーンにはエミュレーション・VRのセッション中だけ追加する
+ */
+export class SyntheticRoom implements HitTestProvider {
+  readonly group: THREE.Group = new THREE.Group();
+  private surfaces: THREE.Mesh[] = [];
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+
+  constructor(options: SyntheticRoomOptions = {}) {
+    const { width, depth, height, tableSize, tableHeight, tablePosition } = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+    };
+    this.group.name = "SyntheticRoom";
+
+    const floorMaterial = new THREE.MeshStandardMaterial({
+      color: 0x8a8f98,
+      transparent: true,
+      opacity: 0.6,
+    });
+    const wallMaterial = new THREE.MeshStandardMaterial({
+      color: 0xd8dce3,
+      transparent: true,
+      opacity: 0.35,
+      side: THREE.DoubleSide,
+    });
+    const tableMaterial = new THREE.MeshStandardMaterial({ color: 0x9a6b3f });
+
+    // 床（上面がy=0）
+    this.addSurface(
+      new THREE.BoxGeometry(width, SLAB_THICKNESS, depth),
+      floorMaterial,
+      new THREE.Vector3(0, -SLAB_THICKNESS / 2, 0)
+    );
+
+    // 壁（内側の面がヒットする）
+    const walls: [number, number, number, number][] = [
+      [width, 0, 0, -depth / 2],
+      [width, 0, 0, depth / 2],
+      [depth, Math.PI / 2, -width / 2, 0],
+      [depth, Math.PI / 2, width / 2, 0],
+    ];
+    walls.forEach(([length, rotation, x, z]) => {
+      const wall = this.addSurface(
+        new THREE.BoxGeometry(length, height, SLAB_THICKNESS),
+        wallMaterial,
+        new THREE.Vector3(x, height / 2, z)
+      );
+      wall.rotation.y = rotation;
+    });
+
+    // テーブルの天板と脚
+    const [tableWidth, tableDepth] = tableSize;
+    const [tableX, tableZ] = tablePosition;
+    this.addSurface(
+      new THREE.BoxGeometry(tableWidth, SLAB_THICKNESS, tableDepth),
+      tableMaterial,
+      new THREE.Vector3(tableX, tableHeight - SLAB_THICKNESS / 2, tableZ)
+    );
+    const legHeight = tableHeight - SLAB_THICKNESS;
+    const legGeometry = new THREE.BoxGeometry(LEG_SIZE, legHeight, LEG_SIZE);
+    [-1, 1].forEach((sx) =>
+      [-1, 1].forEach((sz) => {
+        const leg = new THREE.Mesh(legGeometry, tableMaterial);
+        leg.position.set(
+          tableX + sx * (tableWidth / 2 - LEG_SIZE),
+          legHeight / 2,
+          tableZ + sz * (tableDepth / 2 - LEG_SIZE)
+        );
+        this.group.add(leg);
+      })
+    );
+
+    this.group.updateMatrixWorld(true);
+  }
+
+  private addSurface(
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    position: THREE.Vector3
+  ): THREE.Mesh {
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.copy(position);
+    this.group.add(mesh);
+    this.surfaces.push(mesh);
+    return mesh;
+  }
+
+  /**
+   * レイが最初に当たった面の姿勢（部屋の外に向かうレイは空）
+   */
+  hitTest(ray: THREE.Ray): RecordedPose[] {
+    this.group.updateMatrixWorld();
+    this.raycaster.set(ray.origin, ray.direction);
+    const hit = this.raycaster.intersectObjects(this.surfaces, false)[0];
+    if (!hit?.face) return [];
+
+    const normal = hit.face.normal.clone().transformDirection(hit.object.matrixWorld);
+    // 裏面に当たった場合はレイの方を向ける
+    if (normal.dot(ray.direction) > 0) normal.negate();
+
+    const orientation = new THREE.Quaternion().setFromUnitVectors(UP, normal);
+    return [toRecordedPose(hit.point, orientation)];
+  }
+
+  dispose() {
+    this.group.removeFromParent();
+    this.group.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+  }
+}
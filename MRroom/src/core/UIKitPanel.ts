@@ -0,0 +1,555 @@
+import * as THREE from "three";
+
+/**
+ * UIKitMLをコンパイルしたJSONの要素
+ * 子は要素か文字列（テキスト）
+ */
+export interface UIKitElement {
+  type: string;
+  sourceTag: string;
+  children: (UIKitElement | string)[];
+  // id・classとインラインのスタイル
+  properties: Record<string, unknown>;
+  // タグごとの既定のスタイル（buttonの中央揃えなど）
+  defaultProperties: Record<string, unknown>;
+  dataUid?: string;
+}
+
+/**
+ * クラスのスタイル（hoverなどの状態は入れ子のオブジェクト）
+ */
+export interface UIKitClass {
+  content: Record<string, unknown>;
+}
+
+/**
+ * UIKitMLをコンパイルしたJSON（public/ui/*.json）
+ */
+export interface UIKitDocument {
+  element: UIKitElement;
+  classes: Record<string, UIKitClass>;
+}
+
+/**
+ * UIKitのJSONの形式エラー
+ */
+export class UIKitSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UIKitSchemaError";
+  }
+}
+
+/**
+ * UIKitPanelのオプション
+ */
+export interface UIKitPanelOptions {
+  // 1単位あたりのテクスチャのピクセル数（文字の鮮明さ）
+  pixelsPerUnit?: number;
+  fontFamily?: string;
+}
+
+// 子に引き継ぐスタイル（CSSと同じ）
+const INHERITED_STYLES = ["color", "fontSize", "fontWeight", "lineHeight", "textAlign"];
+// UIKitの既定値
+const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_LINE_HEIGHT = 1.2;
+const DEFAULT_COLOR = "#ffffff";
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  light: 300,
+  normal: 400,
+  medium: 500,
+  "semi-bold": 600,
+  bold: 700,
+  "extra-bold": 800,
+};
+
+type Style = Record<string, string>;
+
+/**
+ * レイアウトの結果（単位はUIKitの単位、パネルの左上が原点）
+ */
+interface LayoutNode {
+  id: string | null;
+  tag: string;
+  style: Style;
+  // hover中に上書きするスタイル
+  hoverStyle: Style;
+  // 子がすべて文字列ならそのテキスト
+  text: string | null;
+  lines: string[];
+  children: LayoutNode[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * JSONをUIKitのドキュメントとして読み込む（形式が正しくなければUIKitSchemaError）
+ */
+export function parseUIKitDocument(json: string): UIKitDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new UIKitSchemaError("UIKit file is not valid JSON");
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new UIKitSchemaError("UIKit file is not an object");
+  }
+
+  const document = data as Partial<UIKitDocument>;
+  const validate = (element: unknown, path: string) => {
+    const candidate = element as Partial<UIKitElement> | null;
+    if (typeof candidate !== "object" || candidate === null || !Array.isArray(candidate.children)) {
+      throw new UIKitSchemaError(`UIKit element ${path} is malformed`);
+    }
+    candidate.children.forEach((child, index) => {
+      if (typeof child !== "string") validate(child, `${path}/${index}`);
+    });
+  };
+  validate(document.element, "root");
+
+  return {
+    element: document.element as UIKitElement,
+    classes: document.classes ?? {},
+  };
+}
+
+/**
+ * URLからUIKitのドキュメントを読み込む
+ */
+export async function loadUIKitDocument(url: string): Promise<UIKitDocument> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url} (${response.status})`);
+  }
+  return parseUIKitDocument(await response.text());
+}
+
+/**
+ * UIKitPanel
+ * コンパイル済みのUIKitのドキュメントをキャンバスに描画し、テクスチャとして提供する
+ * - レイアウトはflexboxの一部（縦・横の並び、flex、gap、padding/margin、幅の%指定）
+ * - テキストは幅に合わせて折り返す
+ * - idのある要素のテキスト変更とhoverのスタイルに対応（box-shadowなどは描画しない）
+ * - テクスチャ上の位置（UV）から、押せる要素（button・cursor: pointer）を探せる
+ */
+export class UIKitPanel {
+  readonly canvas: HTMLCanvasElement = document.createElement("canvas");
+  texture: THREE.CanvasTexture;
+  // パネルの大きさ（UIKitの単位）
+  width = 0;
+  height = 0;
+  private context: CanvasRenderingContext2D;
+  private root: LayoutNode;
+  private nodes: Map<string, LayoutNode> = new Map();
+  private hovered: LayoutNode | null = null;
+  private pixelsPerUnit: number;
+  private fontFamily: string;
+
+  constructor(uikitDocument: UIKitDocument, options: UIKitPanelOptions = {}) {
+    this.pixelsPerUnit = options.pixelsPerUnit ?? 12;
+    this.fontFamily = options.fontFamily ?? "Arial, sans-serif";
+    this.context = this.canvas.getContext("2d")!;
+    this.root = this.createNode(uikitDocument.element, uikitDocument.classes, {});
+    this.texture = this.createTexture();
+    this.render();
+  }
+
+  private createTexture(): THREE.CanvasTexture {
+    const texture = new THREE.CanvasTexture(this.canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+  }
+
+  /**
+   * 要素とクラスのスタイルを解決してノードを作成（idのある要素を登録）
+   */
+  private createNode(
+    element: UIKitElement,
+    classes: Record<string, UIKitClass>,
+    inherited: Style
+  ): LayoutNode {
+    const style: Style = {};
+    const hoverStyle: Style = {};
+    const assign = (source: Record<string, unknown>) => {
+      Object.entries(source).forEach(([key, value]) => {
+        if (key === "hover" && typeof value === "object" && value !== null) {
+          Object.entries(value).forEach(([hoverKey, hoverValue]) => {
+            hoverStyle[hoverKey] = String(hoverValue);
+          });
+        } else if (key !== "id" && key !== "class") {
+          style[key] = String(value);
+        }
+      });
+    };
+
+    INHERITED_STYLES.forEach((key) => {
+      if (inherited[key] !== undefined) style[key] = inherited[key];
+    });
+    assign(element.defaultProperties ?? {});
+    String(element.properties.class ?? "")
+      .split(/\s+/)
+      .filter((name) => classes[name])
+      .forEach((name) => assign(classes[name].content));
+    assign(element.properties);
+
+    const id = typeof element.properties.id === "string" ? element.properties.id : null;
+    const textOnly = element.children.every((child) => typeof child === "string");
+    const node: LayoutNode = {
+      id,
+      tag: element.sourceTag,
+      style,
+      hoverStyle,
+      text: textOnly ? element.children.join("") : null,
+      lines: [],
+      // 要素と文字列が混在する場合、文字列は親のスタイルのテキストとして扱う
+      children: textOnly
+        ? []
+        : element.children.map((child) =>
+            typeof child === "string"
+              ? this.createNode(
+                  { type: "text", sourceTag: "span", children: [child], properties: {}, defaultProperties: {} },
+                  classes,
+                  style
+                )
+              : this.createNode(child, classes, style)
+          ),
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+    };
+    if (id) this.nodes.set(id, node);
+    return node;
+  }
+
+  /**
+   * idのある要素のテキストを変更（変化があれば描画し直す）
+   */
+  setText(id: string, text: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node || node.text === null) return false;
+    if (node.text !== text) {
+      node.text = text;
+      this.render();
+    }
+    return true;
+  }
+
+  getText(id: string): string | null {
+    return this.nodes.get(id)?.text ?? null;
+  }
+
+  /**
+   * hover中の要素を変更（nullで解除）
+   */
+  setHovered(id: string | null) {
+    const node = id ? (this.nodes.get(id) ?? null) : null;
+    if (node === this.hovered) return;
+    this.hovered = node;
+    this.render();
+  }
+
+  /**
+   * テクスチャ上の位置（UV、vは下から上）にある、押せる要素のid
+   */
+  hitTest(uv: THREE.Vector2): string | null {
+    const x = uv.x * this.width;
+    const y = (1 - uv.y) * this.height;
+
+    let found: string | null = null;
+    const visit = (node: LayoutNode, offsetX: number, offsetY: number) => {
+      const left = offsetX + node.x;
+      const top = offsetY + node.y;
+      if (x < left || x > left + node.width || y < top || y > top + node.height) return;
+      if (node.id && this.isPressable(node)) found = node.id;
+      node.children.forEach((child) => visit(child, left, top));
+    };
+    visit(this.root, 0, 0);
+    return found;
+  }
+
+  private isPressable(node: LayoutNode): boolean {
+    return node.tag === "button" || node.style.cursor === "pointer";
+  }
+
+  /**
+   * レイアウトしてキャンバスに描画する（大きさが変わればテクスチャを作り直す）
+   */
+  private render() {
+    const rootWidth = this.resolveLength(this.root.style.width, Infinity);
+    this.layout(this.root, rootWidth ?? 100, rootWidth === null);
+    this.width = this.root.width;
+    this.height = this.root.height;
+
+    const width = Math.ceil(this.width * this.pixelsPerUnit);
+    const height = Math.ceil(this.height * this.pixelsPerUnit);
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      // テクスチャの大きさは初回のアップロードで固定されるため作り直す
+      this.texture.dispose();
+      this.texture = this.createTexture();
+    }
+
+    const context = this.context;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, width, height);
+    context.scale(this.pixelsPerUnit, this.pixelsPerUnit);
+    this.draw(this.root, 0, 0);
+    this.texture.needsUpdate = true;
+  }
+
+  /**
+   * ノードの大きさと子の位置を決める
+   * available: 使える幅（marginを除く）、shrink: 内容の幅に縮める
+   */
+  private layout(node: LayoutNode, available: number, shrink: boolean) {
+    const style = node.style;
+    const fixedWidth = this.resolveLength(style.width, available);
+    const [paddingTop, paddingRight, paddingBottom, paddingLeft] = this.edges(style, "padding");
+    const border = this.number(style.borderWidth, 0);
+    const horizontal = paddingLeft + paddingRight + border * 2;
+    const vertical = paddingTop + paddingBottom + border * 2;
+    const inner = Math.max((fixedWidth ?? available) - horizontal, 0);
+
+    let contentWidth = 0;
+    let contentHeight = 0;
+
+    if (node.text !== null) {
+      this.applyFont(style);
+      node.lines = this.wrapText(node.text, inner);
+      contentWidth = Math.max(0, ...node.lines.map((line) => this.context.measureText(line).width));
+      contentHeight = node.lines.length * this.lineHeight(style);
+    } else if (style.flexDirection === "row") {
+      [contentWidth, contentHeight] = this.layoutRow(node, inner);
+    } else {
+      [contentWidth, contentHeight] = this.layoutColumn(node, inner);
+    }
+
+    node.width = fixedWidth ?? (shrink ? Math.min(contentWidth, inner) + horizontal : available);
+    node.height = contentHeight + vertical;
+
+    // 子の位置をpadding・borderの内側に移す
+    node.children.forEach((child) => {
+      child.x += paddingLeft + border;
+      child.y += paddingTop + border;
+    });
+  }
+
+  /**
+   * 縦の並び（alignItemsで横方向の揃え）
+   */
+  private layoutColumn(node: LayoutNode, inner: number): [number, number] {
+    const align = node.style.alignItems ?? "stretch";
+    const gap = this.number(node.style.gap, 0);
+    let y = 0;
+    let width = 0;
+
+    node.children.forEach((child, index) => {
+      const [top, right, bottom, left] = this.edges(child.style, "margin");
+      const available = Math.max(inner - left - right, 0);
+      this.layout(child, available, align !== "stretch");
+
+      const free = available - child.width;
+      child.x = left + (align === "center" ? free / 2 : align === "flex-end" ? free : 0);
+      child.y = y + top;
+      y += top + child.height + bottom + (index < node.children.length - 1 ? gap : 0);
+      width = Math.max(width, left + child.width + right);
+    });
+    return [width, y];
+  }
+
+  /**
+   * 横の並び（flexで残りの幅を分け、justifyContentで余白を配分）
+   */
+  private layoutRow(node: LayoutNode, inner: number): [number, number] {
+    const style = node.style;
+    const gap = this.number(style.gap, 0);
+    const children = node.children;
+    const margins = children.map((child) => this.edges(child.style, "margin"));
+    const flexes = children.map((child) => this.number(child.style.flex, 0));
+
+    // flexのない子は内容の幅
+    let used = gap * Math.max(children.length - 1, 0);
+    children.forEach((child, index) => {
+      const [, right, , left] = margins[index];
+      used += left + right;
+      if (flexes[index] > 0) return;
+      this.layout(child, Math.max(inner - used, 0), true);
+      used += child.width;
+    });
+
+    // flexのある子で残りを分ける
+    const totalFlex = flexes.reduce((sum, flex) => sum + flex, 0);
+    const remaining = Math.max(inner - used, 0);
+    children.forEach((child, index) => {
+      if (flexes[index] > 0) {
+        this.layout(child, (remaining * flexes[index]) / totalFlex, false);
+        used += child.width;
+      }
+    });
+
+    const height = Math.max(
+      0,
+      ...children.map((child, index) => margins[index][0] + child.height + margins[index][2])
+    );
+    const free = totalFlex > 0 ? 0 : Math.max(inner - used, 0);
+    const justify = style.justifyContent ?? "flex-start";
+    const between = justify === "space-between" && children.length > 1 ? free / (children.length - 1) : 0;
+    let x = justify === "center" ? free / 2 : justify === "flex-end" ? free : 0;
+
+    children.forEach((child, index) => {
+      const [top, right, bottom, left] = margins[index];
+      // 既定（stretch）では行の高さに揃える
+      if ((style.alignItems ?? "stretch") === "stretch") {
+        child.height = height - top - bottom;
+      }
+      child.x = x + left;
+      child.y = top;
+      x += left + child.width + right + gap + between;
+    });
+    return [Math.min(used, inner), height];
+  }
+
+  /**
+   * ノードと子を描画（座標は親の左上から）
+   */
+  private draw(node: LayoutNode, offsetX: number, offsetY: number) {
+    const style = node === this.hovered ? { ...node.style, ...node.hoverStyle } : node.style;
+    const x = offsetX + node.x;
+    const y = offsetY + node.y;
+    const context = this.context;
+    const radius = Math.min(this.number(style.borderRadius, 0), node.width / 2, node.height / 2);
+    const border = this.number(style.borderWidth, 0);
+
+    if (style.backgroundColor) {
+      context.beginPath();
+      context.roundRect(x, y, node.width, node.height, radius);
+      context.fillStyle = style.backgroundColor;
+      context.fill();
+    }
+    if (border > 0 && style.borderColor) {
+      context.beginPath();
+      context.roundRect(
+        x + border / 2,
+        y + border / 2,
+        node.width - border,
+        node.height - border,
+        Math.max(radius - border / 2, 0)
+      );
+      context.lineWidth = border;
+      context.strokeStyle = style.borderColor;
+      context.stroke();
+    }
+
+    if (node.text !== null) {
+      this.drawText(node, style, x, y);
+    }
+    node.children.forEach((child) => this.draw(child, x, y));
+  }
+
+  private drawText(node: LayoutNode, style: Style, x: number, y: number) {
+    const context = this.context;
+    const [paddingTop, paddingRight, paddingBottom, paddingLeft] = this.edges(style, "padding");
+    const border = this.number(style.borderWidth, 0);
+    const left = x + paddingLeft + border;
+    const right = x + node.width - paddingRight - border;
+    const lineHeight = this.lineHeight(style);
+    const textHeight = node.lines.length * lineHeight;
+    const top = y + paddingTop + border;
+    const bottom = y + node.height - paddingBottom - border;
+    const startY =
+      style.verticalAlign === "middle"
+        ? (top + bottom - textHeight) / 2
+        : style.verticalAlign === "bottom"
+          ? bottom - textHeight
+          : top;
+
+    this.applyFont(style);
+    context.fillStyle = style.color ?? DEFAULT_COLOR;
+    context.textBaseline = "middle";
+    const align = style.textAlign ?? "left";
+    context.textAlign = align === "center" ? "center" : align === "right" ? "right" : "left";
+    const textX = align === "center" ? (left + right) / 2 : align === "right" ? right : left;
+
+    node.lines.forEach((line, index) => {
+      context.fillText(line, textX, startY + (index + 0.5) * lineHeight);
+    });
+  }
+
+  /**
+   * 幅に合わせてテキストを折り返す（改行は保持し、行内の空白はまとめる）
+   */
+  private wrapText(text: string, width: number): string[] {
+    const lines: string[] = [];
+    text.split("\n").forEach((paragraph) => {
+      const words = paragraph.trim().split(/\s+/).filter(Boolean);
+      if (words.length === 0) return;
+
+      let line = words[0];
+      words.slice(1).forEach((word) => {
+        const candidate = `${line} ${word}`;
+        if (this.context.measureText(candidate).width > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  /**
+   * フォントを設定（キャンバスはUIKitの単位で拡大済み）
+   */
+  private applyFont(style: Style) {
+    const size = this.number(style.fontSize, DEFAULT_FONT_SIZE);
+    const weight = FONT_WEIGHTS[style.fontWeight ?? "normal"] ?? this.number(style.fontWeight, 400);
+    this.context.font = `${weight} ${size}px ${this.fontFamily}`;
+  }
+
+  private lineHeight(style: Style): number {
+    return this.number(style.fontSize, DEFAULT_FONT_SIZE) * this.number(style.lineHeight, DEFAULT_LINE_HEIGHT);
+  }
+
+  /**
+   * 上・右・下・左の値（padding/margin、個別の指定が優先）
+   */
+  private edges(style: Style, property: "padding" | "margin"): [number, number, number, number] {
+    const all = this.number(style[property], 0);
+    return (["Top", "Right", "Bottom", "Left"] as const).map((side) =>
+      this.number(style[`${property}${side}`], all)
+    ) as [number, number, number, number];
+  }
+
+  /**
+   * 長さ（数値または親の幅に対する%）、指定がなければnull
+   */
+  private resolveLength(value: string | undefined, parent: number): number | null {
+    if (value === undefined || value === "auto") return null;
+    if (value.endsWith("%")) {
+      return Number.isFinite(parent) ? (parseFloat(value) / 100) * parent : null;
+    }
+    const length = parseFloat(value);
+    return Number.isFinite(length) ? length : null;
+  }
+
+  private number(value: string | undefined, fallback: number): number {
+    const parsed = value === undefined ? NaN : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+
+  dispose() {
+    this.texture.dispose();
+    this.nodes.clear();
+    this.hovered = null;
+  }
+}
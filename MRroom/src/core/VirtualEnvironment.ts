@@ -0,0 +1,72 @@
+import * as THREE from "three";
+import type { HitTestProvider } from "./HitTestProvider";
+import { SyntheticRoom } from "./SyntheticRoom";
+import { VirtualGround } from "./VirtualGround";
+
+// VR・デスクトップの背景色（ARはカメラ映像のため透明）
+const BACKGROUND_COLOR = 0x1f2329;
+
+/**
+ * VirtualEnvironment
+ * セッションのモードに合わせて、現実の代わりになる仮想の周囲を表示する
+ * - immersive-vr: 合成の部屋（床・家具がヒットテストの対象）
+ * - inline: デスクトップの地面
+ * - immersive-ar: 何も表示しない（現実世界のヒットテストを使う）
+ * セッションが終了すると元に戻す
+ */
+export class VirtualEnvironment {
+  private scene: THREE.Scene;
+  readonly room: SyntheticRoom;
+  readonly ground: VirtualGround;
+  private session: XRSession | null = null;
+  // 表示前の背景
+  private background: THREE.Scene["background"] = null;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.room = new SyntheticRoom();
+    this.ground = new VirtualGround();
+  }
+
+  /**
+   * モードの周囲を表示し、ヒットテストに使うものを返す（ARではnull）
+   */
+  enter(session: XRSession, mode: XRSessionMode): HitTestProvider | null {
+    this.leave();
+
+    const target = mode === "immersive-vr" ? this.room : mode === "inline" ? this.ground : null;
+    if (!target) return null;
+
+    this.session = session;
+    session.addEventListener("end", this.onSessionEnd);
+    this.background = this.scene.background;
+    this.scene.background = new THREE.Color(BACKGROUND_COLOR);
+    this.scene.add(target.group);
+    console.log(`🟦 Virtual ${mode === "inline" ? "ground" : "room"} ready`);
+    return target;
+  }
+
+  /**
+   * 仮想の周囲を外す
+   */
+  leave() {
+    if (!this.session) return;
+
+    this.session.removeEventListener("end", this.onSessionEnd);
+    this.session = null;
+    this.room.group.removeFromParent();
+    this.ground.group.removeFromParent();
+    this.scene.background = this.background;
+    this.background = null;
+  }
+
+  private onSessionEnd = () => {
+    this.leave();
+  };
+
+  dispose() {
+    this.leave();
+    this.room.dispose();
+    this.ground.dispose();
+  }
+}
@@ -0,0 +1,54 @@
+import * as THREE from "three";
+import type { HitTestProvider } from "./HitTestProvider";
+import type { RecordedPose } from "./XRRecording";
+import { toRecordedPose } from "./VirtualXRSession";
+
+// 地面の大きさ（m、中心から端まで）
+const GROUND_RADIUS = 10;
+const GRID_DIVISIONS = 40;
+
+/**
+ * VirtualGround
+ * デスクトップ（inline）用のy=0の地面とグリッド
+ * ヒットテストは地面の平面との交点で答える（向きは常に上向き）
+ */
+export class VirtualGround implements HitTestProvider {
+  readonly group: THREE.Group = new THREE.Group();
+  private plane: THREE.Plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+  constructor() {
+    this.group.name = "VirtualGround";
+
+    const ground = new THREE.Mesh(
+      new THREE.CircleGeometry(GROUND_RADIUS, 64),
+      new THREE.MeshStandardMaterial({ color: 0x3a3f47 })
+    );
+    ground.rotation.x = -Math.PI / 2;
+    this.group.add(ground);
+
+    const grid = new THREE.GridHelper(GROUND_RADIUS * 2, GRID_DIVISIONS, 0x666666, 0x4a4f57);
+    // 地面と重ならないように少し上に表示
+    grid.position.y = 0.001;
+    this.group.add(grid);
+  }
+
+  /**
+   * 地面より上から下向きのレイが当たった点（範囲外・上向きのレイは空）
+   */
+  hitTest(ray: THREE.Ray): RecordedPose[] {
+    const point = ray.intersectPlane(this.plane, new THREE.Vector3());
+    if (!point || ray.origin.y < 0) return [];
+    if (Math.hypot(point.x, point.z) > GROUND_RADIUS) return [];
+    return [toRecordedPose(point, new THREE.Quaternion())];
+  }
+
+  dispose() {
+    this.group.removeFromParent();
+    this.group.traverse((object) => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+  }
+}
@@ -0,0 +1,261 @@
+import * as THREE from "three";
+import type { HitTestSourceKind } from "./HitTestSourcePolicy";
+import type { RecordedFrame, RecordedInputSource, RecordedPose } from "./XRRecording";
+
+// 仮想のゲームパッドのボタン数
+const VIRTUAL_GAMEPAD_BUTTONS = 8;
+
+// 仮想のフレームが提供しない機能（記録の有効な機能からも除く）
+const UNSUPPORTED_FEATURES = ["anchors", "plane-detection", "mesh-detection", "depth-sensing"];
+
+/**
+ * 1フレーム分の姿勢とヒット結果（記録ファイルのフレームと同じ形式）
+ */
+export type VirtualFrameState = Pick<RecordedFrame, "viewer" | "inputs" | "hits">;
+
+/**
+ * 姿勢の配列をXRPose相当の値に変換
+ */
+function createPose(pose: RecordedPose): XRPose {
+  const [px, py, pz, qx, qy, qz, qw] = pose;
+  const matrix = new THREE.Matrix4().compose(
+    new THREE.Vector3(px, py, pz),
+    new THREE.Quaternion(qx, qy, qz, qw),
+    new THREE.Vector3(1, 1, 1)
+  );
+  const transform = {
+    position: { x: px, y: py, z: pz, w: 1 },
+    orientation: { x: qx, y: qy, z: qz, w: qw },
+    matrix: new Float32Array(matrix.elements),
+  };
+  return { transform, emulatedPosition: false } as unknown as XRPose;
+}
+
+/**
+ * 位置と回転を姿勢の配列に変換
+ */
+export function toRecordedPose(position: THREE.Vector3, quaternion: THREE.Quaternion): RecordedPose {
+  return [position.x, position.y, position.z, quaternion.x, quaternion.y, quaternion.z, quaternion.w];
+}
+
+/**
+ * 姿勢の配列をXRHitTestResult相当の値に変換（アンカーは作成できない）
+ */
+export function createHitTestResult(pose: RecordedPose): XRHitTestResult {
+  return { getPose: () => createPose(pose) } as unknown as XRHitTestResult;
+}
+
+/**
+ * 仮想のXRSpace（keyでフレームのどの姿勢かを表す）
+ */
+export class VirtualSpace extends EventTarget {
+  readonly key: string;
+
+  constructor(key: string) {
+    super();
+    this.key = key;
+  }
+}
+
+/**
+ * 仮想のXRInputSource（ゲームパッドの状態はフレームごとに書き換える）
+ */
+export class VirtualInputSource {
+  readonly id: number;
+  readonly handedness: XRHandedness;
+  readonly targetRayMode: XRTargetRayMode;
+  readonly profiles: string[];
+  readonly targetRaySpace: VirtualSpace;
+  readonly gripSpace?: VirtualSpace;
+  readonly gamepad?: { buttons: GamepadButton[]; axes: number[]; mapping: GamepadMappingType };
+
+  constructor(record: RecordedInputSource) {
+    this.id = record.id;
+    this.handedness = record.handedness;
+    this.targetRayMode = record.targetRayMode;
+    this.profiles = record.profiles;
+    this.targetRaySpace = new VirtualSpace(`ray:${record.id}`);
+    if (record.hasGrip) this.gripSpace = new VirtualSpace(`grip:${record.id}`);
+    if (record.hasGamepad) {
+      this.gamepad = {
+        buttons: Array.from({ length: VIRTUAL_GAMEPAD_BUTTONS }, () => ({
+          pressed: false,
+          touched: false,
+          value: 0,
+        })),
+        axes: [],
+        mapping: "xr-standard",
+      };
+    }
+  }
+
+  /**
+   * ボタン（押されているボタンのビットマスク）とスティックの状態を適用
+   */
+  applyGamepad(buttons: number | undefined, axes: number[] | undefined) {
+    if (!this.gamepad) return;
+    this.gamepad.buttons = this.gamepad.buttons.map((_button, index) => {
+      const pressed = ((buttons ?? 0) & (1 << index)) !== 0;
+      return { pressed, touched: pressed, value: pressed ? 1 : 0 };
+    });
+    this.gamepad.axes = axes ?? [];
+  }
+}
+
+/**
+ * 仮想のヒットテストソース（フレームのどの種類のヒットを返すか）
+ */
+class VirtualHitTestSource {
+  readonly kind: HitTestSourceKind;
+
+  constructor(kind: HitTestSourceKind) {
+    this.kind = kind;
+  }
+
+  cancel() {}
+}
+
+/**
+ * 仮想のXRSession
+ * managerが使うAPI（reference space・ヒットテストソース・入力ソース・イベント）だけを実装する
+ * アンカー・平面検出・メッシュ検出・深度には対応しない
+ */
+export class VirtualSession extends EventTarget {
+  readonly enabledFeatures: string[];
+  readonly visibilityState: XRVisibilityState = "visible";
+  readonly referenceSpace = new VirtualSpace("reference");
+  readonly viewerSpace = new VirtualSpace("viewer");
+  inputSources: VirtualInputSource[] = [];
+  private ended = false;
+
+  constructor(enabledFeatures: string[]) {
+    super();
+    this.enabledFeatures = enabledFeatures.filter(
+      (feature) => !UNSUPPORTED_FEATURES.includes(feature)
+    );
+  }
+
+  async requestReferenceSpace(type: XRReferenceSpaceType): Promise<VirtualSpace> {
+    return type === "viewer" ? this.viewerSpace : this.referenceSpace;
+  }
+
+  async requestHitTestSource(options: { space: VirtualSpace }): Promise<VirtualHitTestSource> {
+    if (options.space === this.viewerSpace) return new VirtualHitTestSource("gaze");
+
+    const inputSource = this.inputSources.find((item) => item.targetRaySpace === options.space);
+    return new VirtualHitTestSource(inputSource?.handedness === "left" ? "left" : "right");
+  }
+
+  async requestHitTestSourceForTransientInput(): Promise<VirtualHitTestSource> {
+    return new VirtualHitTestSource("transient");
+  }
+
+  /**
+   * 入力ソースのイベント（select・squeezeなど）を発生させる
+   */
+  dispatchInputEvent(type: string, inputSource: VirtualInputSource, frame: VirtualFrame) {
+    this.dispatchEvent(Object.assign(new Event(type), { frame, inputSource }));
+  }
+
+  /**
+   * 入力ソースの追加・削除を発生させる
+   */
+  dispatchInputSourcesChange(added: VirtualInputSource[], removed: VirtualInputSource[]) {
+    this.dispatchEvent(
+      Object.assign(new Event("inputsourceschange"), { session: this, added, removed })
+    );
+  }
+
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  async end() {
+    if (this.ended) return;
+    this.ended = true;
+    this.dispatchEvent(new Event("end"));
+  }
+}
+
+/**
+ * 仮想のXRFrame（1フレーム分の姿勢とヒット結果を返す）
+ */
+export class VirtualFrame {
+  readonly session: VirtualSession;
+  private state: VirtualFrameState;
+
+  constructor(session: VirtualSession, state: VirtualFrameState) {
+    this.session = session;
+    this.state = state;
+  }
+
+  getViewerPose(): XRViewerPose | undefined {
+    if (!this.state.viewer) return undefined;
+    return { ...createPose(this.state.viewer), views: [] } as unknown as XRViewerPose;
+  }
+
+  getPose(space: VirtualSpace): XRPose | undefined {
+    if (space === this.session.viewerSpace) return this.getViewerPose();
+    if (space === this.session.referenceSpace) return createPose([0, 0, 0, 0, 0, 0, 1]);
+
+    const [type, id] = space.key.split(":");
+    const input = this.state.inputs.find((item) => item.id === Number(id));
+    const pose = type === "grip" ? input?.grip : input?.ray;
+    return pose ? createPose(pose) : undefined;
+  }
+
+  getHitTestResults(source: VirtualHitTestSource): XRHitTestResult[] {
+    return (this.state.hits[source.kind] ?? []).map(createHitTestResult);
+  }
+
+  getHitTestResultsForTransientInput(source: VirtualHitTestSource) {
+    const results = this.getHitTestResults(source);
+    if (results.length === 0) return [];
+
+    const inputSource =
+      this.session.inputSources.find((item) => item.targetRayMode === "screen") ??
+      this.session.inputSources[0];
+    return [{ inputSource, results }];
+  }
+
+  /**
+   * managerに渡すためのXRFrame型
+   */
+  asXRFrame(): XRFrame {
+    return this as unknown as XRFrame;
+  }
+}
+
+/**
+ * renderer.xrのセッションを仮想のセッションに差し替え、sessionstartを発生させる
+ * XRのフレームバッファは使わず通常のカメラで描画する（isPresentingはtrue）
+ * 戻り値の関数でsessionendを発生させて元に戻す
+ */
+export function installVirtualSession(
+  renderer: THREE.WebGLRenderer,
+  session: VirtualSession
+): () => void {
+  const xr = renderer.xr;
+  const saved = {
+    enabled: xr.enabled,
+    isPresenting: xr.isPresenting,
+    getSession: xr.getSession,
+    getReferenceSpace: xr.getReferenceSpace,
+  };
+  const xrSession = session as unknown as XRSession;
+  const referenceSpace = session.referenceSpace as unknown as XRReferenceSpace;
+
+  xr.enabled = false;
+  xr.isPresenting = true;
+  xr.getSession = () => xrSession;
+  xr.getReferenceSpace = () => referenceSpace;
+  xr.dispatchEvent({ type: "sessionstart" });
+
+  return () => {
+    xr.dispatchEvent({ type: "sessionend" });
+    xr.enabled = saved.enabled;
+    xr.isPresenting = saved.isPresenting;
+    xr.getSession = saved.getSession;
+    xr.getReferenceSpace = saved.getReferenceSpace;
+  };
+}
@@ -0,0 +1,130 @@
+// @vitest-environment happy-dom
+import * as THREE from "three";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HitTestManager } from "./HitTestManager";
+import { XREmulator } from "./XREmulator";
+
+// テーブルの天板の中心（SyntheticRoomの既定の寸法）
+const TABLE_TOP = new THREE.Vector3(0, 0.75, -1.2);
+
+/**
+ * three.jsのWebXRManagerの代わりにIWERのセッションを表示するレンダラー
+ * - setSessionでベースレイヤーを設定し、sessionstartを発生させる（WebGLは使わない）
+ * - フレームごとにonFrameを呼ぶ
+ */
+class TestRenderer {
+  readonly domElement = document.createElement("canvas");
+  onFrame: (frame: XRFrame) => void = () => {};
+  private session: XRSession | null = null;
+
+  readonly xr = Object.assign(new THREE.EventDispatcher<{ sessionstart: object }>(), {
+    getSession: () => this.session,
+    setReferenceSpaceType: () => {},
+    setSession: async (session: XRSession) => {
+      this.session = session;
+      const layer = new XRWebGLLayer(session, createContext(this.domElement));
+      await session.updateRenderState({ baseLayer: layer });
+      this.xr.dispatchEvent({ type: "sessionstart" });
+
+      const loop = (_time: number, frame: XRFrame) => {
+        session.requestAnimationFrame(loop);
+        this.onFrame(frame);
+      };
+      session.requestAnimationFrame(loop);
+    },
+  });
+
+  asWebGLRenderer(): THREE.WebGLRenderer {
+    return this as unknown as THREE.WebGLRenderer;
+  }
+}
+
+// IWERがフレームの最初に画面を消去するのに使う最小限のWebGLコンテキスト
+function createContext(canvas: HTMLCanvasElement): WebGLRenderingContext {
+  return {
+    canvas,
+    drawingBufferWidth: canvas.width,
+    drawingBufferHeight: canvas.height,
+    getParameter: () => [0, 0, 0, 0],
+    clearColor: () => {},
+    clearDepth: () => {},
+    clearStencil: () => {},
+    clear: () => {},
+  } as unknown as WebGLRenderingContext;
+}
+
+// 次のフレームのコールバックまで待つ
+function nextFrame(session: XRSession): Promise<XRFrame> {
+  return new Promise((resolve) => session.requestAnimationFrame((_time, frame) => resolve(frame)));
+}
+
+async function waitFor(session: XRSession, condition: () => boolean, maxFrames = 30) {
+  for (let i = 0; i < maxFrames && !condition(); i++) {
+    await nextFrame(session);
+  }
+  expect(condition()).toBe(true);
+}
+
+let emulator: XREmulator | null = null;
+
+beforeEach(() => {
+  // IWERはWebGL2のプロトタイプにmakeXRCompatibleを追加する
+  vi.stubGlobal("WebGL2RenderingContext", class {});
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await emulator?.device.activeSession?.end();
+  emulator?.dispose();
+  emulator = null;
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("XREmulator", () => {
+  it("does not offer modes other than immersive-ar", async () => {
+    const renderer = new TestRenderer();
+    emulator = new XREmulator(renderer.asWebGLRenderer(), new THREE.Scene(), new THREE.PerspectiveCamera());
+
+    expect(await emulator.isSessionSupported("immersive-vr")).toBe(false);
+    await expect(emulator.requestSession("immersive-vr", {})).rejects.toThrow(
+      "Emulator does not support immersive-vr"
+    );
+  });
+
+  it("places an object on the synthetic room through an emulated session", async () => {
+    const renderer = new TestRenderer();
+    const scene = new THREE.Scene();
+    emulator = new XREmulator(renderer.asWebGLRenderer(), scene, new THREE.PerspectiveCamera());
+    const hitTestManager = new HitTestManager(renderer.asWebGLRenderer(), scene);
+    renderer.onFrame = (frame) => hitTestManager.update(frame);
+
+    const session = await emulator.requestSession("immersive-ar", {
+      requiredFeatures: ["hit-test"],
+      optionalFeatures: ["local-floor", "anchors"],
+    });
+    expect(navigator.xr?.constructor.name).toBe("XRSystem");
+    await emulator.setSession(session, "local-floor");
+    await hitTestManager.onSessionStart(session, "local-floor");
+
+    // テーブルの前に立ち、右手で天板の中心を指す
+    emulator.setHeadPose({ x: 0, y: 1.6, z: 0 }, 0, -0.6);
+    emulator.pointHandAt(TABLE_TOP);
+    await waitFor(session, () => (hitTestManager.getFrameHitResults().get("right")?.length ?? 0) > 0);
+
+    emulator.select();
+    await waitFor(session, () => hitTestManager.getPlacedObjects().length === 1);
+
+    const [object] = hitTestManager.getPlacedObjects();
+    expect(object.position.x).toBeCloseTo(TABLE_TOP.x, 2);
+    expect(object.position.z).toBeCloseTo(TABLE_TOP.z, 2);
+    expect(object.position.y).toBeGreaterThanOrEqual(TABLE_TOP.y - 0.01);
+    // IWERのヒット結果からアンカーを作成できる（次のフレームで作成される）
+    await waitFor(session, () => hitTestManager.getAnchorInfo(object)?.attached === true);
+
+    await session.end();
+    expect(emulator.isEmulating()).toBe(false);
+    expect(navigator.xr).toBeUndefined();
+  });
+});
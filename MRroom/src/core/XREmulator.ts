@@ -0,0 +1,449 @@
+import * as THREE from "three";
+import { XRDevice, metaQuest3 } from "iwer";
+import type { XRSessionProvider } from "./XRSessionController";
+import { SyntheticRoom } from "./SyntheticRoom";
+
+// 移動速度（m/s）と視点の回転速度（rad/s）
+const MOVE_SPEED = 1.5;
+const LOOK_SPEED = 1.5;
+// 右ドラッグで視点を回転する量（rad/px）
+const MOUSE_LOOK_SPEED = 0.004;
+const MAX_PITCH = Math.PI / 2 - 0.01;
+// 視点に対する右手の位置
+const HAND_OFFSET = new THREE.Vector3(0.2, -0.3, -0.3);
+// 何にも当たらない場合のレイの長さ
+const FAR_DISTANCE = 10;
+
+// 右手のコントローラーのボタンと、ゲームパッド（xr-standard）での番号
+const BUTTON_INDICES = {
+  trigger: 0,
+  squeeze: 1,
+  "a-button": 4,
+  "b-button": 5,
+} as const;
+type ButtonId = keyof typeof BUTTON_INDICES;
+// キーで押すボタン
+const BUTTON_KEYS: Record<string, ButtonId> = { Digit1: "a-button", Digit2: "b-button" };
+
+type EnvironmentModuleConstructor = Parameters<XRDevice["installSEM"]>[0];
+type EnvironmentModule = InstanceType<EnvironmentModuleConstructor>;
+type EnvironmentMatrix = ReturnType<EnvironmentModule["computeHitTestResults"]>[number];
+type EmulatedController = NonNullable<XRDevice["controllers"]["right"]>;
+
+/**
+ * 頭の初期姿勢
+ */
+export interface EmulatedHeadPose {
+  position: THREE.Vector3;
+  // Y軸まわりの回転（0で-Z方向を向く）
+  yaw: number;
+  // 上下の回転
+  pitch: number;
+}
+
+/**
+ * 合成の部屋でヒットテストに答えるIWERの環境モジュール
+ * 部屋の表示はシーンで行うため、描画・平面・メッシュ・深度は持たない
+ */
+function createRoomEnvironment(room: SyntheticRoom): EnvironmentModuleConstructor {
+  return class RoomEnvironment implements EnvironmentModule {
+    readonly version = "synthetic-room";
+    planesVisible = false;
+    boundingBoxesVisible = false;
+    meshesVisible = false;
+    readonly environmentCanvas = document.createElement("canvas");
+    readonly trackedPlanes: EnvironmentModule["trackedPlanes"] = new Set();
+    readonly trackedMeshes: EnvironmentModule["trackedMeshes"] = new Set();
+
+    render() {}
+    loadEnvironment() {}
+    loadDefaultEnvironment() {}
+    deleteAll() {}
+
+    /**
+     * レイ（-Z方向）が当たった部屋の面の姿勢
+     */
+    computeHitTestResults(rayMatrix: EnvironmentMatrix): EnvironmentMatrix[] {
+      const matrix = new THREE.Matrix4().fromArray(Array.from(rayMatrix));
+      const ray = new THREE.Ray(
+        new THREE.Vector3().setFromMatrixPosition(matrix),
+        new THREE.Vector3(0, 0, -1).transformDirection(matrix)
+      );
+      return room.hitTest(ray).map(([px, py, pz, qx, qy, qz, qw]) => {
+        const pose = new THREE.Matrix4().compose(
+          new THREE.Vector3(px, py, pz),
+          new THREE.Quaternion(qx, qy, qz, qw),
+          new THREE.Vector3(1, 1, 1)
+        );
+        return new Float32Array(pose.elements);
+      });
+    }
+
+    computeDepthBuffer() {
+      return null;
+    }
+  };
+}
+
+/**
+ * XREmulator
+ * WebXRのないデスクトップで、IWER（Immersive Web Emulation Runtime）のQuest 3を使って
+ * 合成の部屋の中のimmersive-arセッションを提供する
+ * - XRSessionControllerのセッションの提供元として使う（セッション中だけnavigator.xrをIWERに置き換える）
+ * - ヒットテストはIWERの環境モジュールとして合成の部屋に当てる
+ * - 頭: WASDで移動、Q/Eで下降・上昇、右ドラッグまたは矢印キーで視点の回転
+ * - 右手: マウスの下の点を指す。左クリックでselect、中クリックまたはGでsqueeze
+ *   I/J/K/Lでスティック、1/2でA/Bボタン
+ * - setHeadPose・pointHandAt・select・squeezeで自動操作できる
+ */
+export class XREmulator implements XRSessionProvider {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  readonly room: SyntheticRoom;
+  readonly device: XRDevice;
+  private controller: EmulatedController;
+  private session: XRSession | null = null;
+  // エミュレーション前のカメラの姿勢
+  private cameraMatrix: THREE.Matrix4 = new THREE.Matrix4();
+
+  private head: EmulatedHeadPose = {
+    position: new THREE.Vector3(0, 1.6, 1.5),
+    yaw: 0,
+    pitch: -0.3,
+  };
+  // マウスの位置（NDC）
+  private pointer: THREE.Vector2 = new THREE.Vector2();
+  // pointHandAtで指定した点（nullならマウスの下を指す）
+  private aimTarget: THREE.Vector3 | null = null;
+  private keys: Set<string> = new Set();
+  // 押したことがセッションに伝わってから離すボタン（同じフレーム内のクリックを取りこぼさない）
+  private releasing: Set<ButtonId> = new Set();
+  private looking = false;
+  private lastTime = 0;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    room: SyntheticRoom = new SyntheticRoom()
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.room = room;
+
+    this.device = new XRDevice(metaQuest3, { stereoEnabled: false });
+    this.device.installSEM(createRoomEnvironment(room));
+    // アプリのUIをエミュレーターの画面より前に表示する
+    this.device.canvasContainer.style.zIndex = "0";
+
+    const controller = this.device.controllers.right;
+    if (!controller) {
+      throw new Error("Emulated device has no right controller");
+    }
+    this.controller = controller;
+  }
+
+  isEmulating(): boolean {
+    return this.session !== null;
+  }
+
+  async isSessionSupported(mode: XRSessionMode): Promise<boolean> {
+    return mode === "immersive-ar";
+  }
+
+  /**
+   * IWERのランタイムを組み込んでセッションを作成（対応していない機能はIWERがNotSupportedErrorにする）
+   * ランタイムはセッションが終了するまで組み込んだままにする
+   */
+  async requestSession(mode: XRSessionMode, init: XRSessionInit): Promise<XRSession> {
+    if (mode !== "immersive-ar") {
+      throw new DOMException(`Emulator does not support ${mode}`, "NotSupportedError");
+    }
+
+    // 実機のWebXRがあるブラウザでも置き換える
+    this.device.installRuntime({ forceInstall: true });
+    try {
+      return await navigator.xr!.requestSession(mode, init);
+    } catch (error) {
+      this.device.uninstallRuntime();
+      throw error;
+    }
+  }
+
+  /**
+   * renderer.xrにセッションを設定し、部屋と操作を有効にする
+   */
+  async setSession(session: XRSession, referenceSpaceType: XRReferenceSpaceType) {
+    this.session = session;
+    this.camera.updateMatrix();
+    this.cameraMatrix.copy(this.camera.matrix);
+    this.scene.add(this.room.group);
+    this.keys.clear();
+    this.releasing.clear();
+    this.lastTime = performance.now();
+    this.applyHead();
+    this.applyHand();
+
+    session.addEventListener("end", this.onSessionEnd);
+    session.requestAnimationFrame(this.onFrame);
+    this.attachControls();
+
+    this.renderer.xr.setReferenceSpaceType(referenceSpaceType);
+    await this.renderer.xr.setSession(session);
+    console.log("🟦 Emulating AR session in synthetic room");
+  }
+
+  /**
+   * 頭の姿勢を設定
+   */
+  setHeadPose(position: THREE.Vector3Like, yaw = this.head.yaw, pitch = this.head.pitch) {
+    this.head.position.set(position.x, position.y, position.z);
+    this.head.yaw = yaw;
+    this.head.pitch = THREE.MathUtils.clamp(pitch, -MAX_PITCH, MAX_PITCH);
+    this.applyHead();
+    this.applyHand();
+  }
+
+  /**
+   * 右手で指定した点を指す（nullでマウスの下を指すのに戻す）
+   */
+  pointHandAt(point: THREE.Vector3Like | null) {
+    this.aimTarget = point ? new THREE.Vector3(point.x, point.y, point.z) : null;
+    this.applyHand();
+  }
+
+  /**
+   * 右手でselect（トリガーを次のフレームで押し、その次のフレームで離す）
+   */
+  select() {
+    this.pressButton("trigger");
+    this.releaseButton("trigger");
+  }
+
+  /**
+   * 右手でsqueeze（グリップを次のフレームで押し、その次のフレームで離す）
+   */
+  squeeze() {
+    this.pressButton("squeeze");
+    this.releaseButton("squeeze");
+  }
+
+  /**
+   * フレームごとに頭と右手の姿勢、スティックを更新し、押し終わったボタンを離す
+   * 変更はIWERの次のフレームに反映される
+   */
+  private onFrame = (time: number, frame: XRFrame) => {
+    if (frame.session !== this.session) return;
+    frame.session.requestAnimationFrame(this.onFrame);
+
+    this.moveHead(Math.min((time - this.lastTime) / 1000, 0.1));
+    this.lastTime = time;
+    this.applyHead();
+    this.applyHand();
+    this.controller.updateAxes("thumbstick", ...this.getThumbstick());
+
+    this.releasing.forEach((id) => {
+      if (!this.controller.inputSource.gamepad?.buttons[BUTTON_INDICES[id]]?.pressed) return;
+      this.controller.updateButtonValue(id, 0);
+      this.releasing.delete(id);
+    });
+  };
+
+  private pressButton(id: ButtonId) {
+    this.releasing.delete(id);
+    this.controller.updateButtonValue(id, 1);
+  }
+
+  private releaseButton(id: ButtonId) {
+    this.releasing.add(id);
+  }
+
+  /**
+   * 頭の姿勢をデバイスとカメラに適用（カメラはセッション中three.jsがデバイスの姿勢で更新する）
+   */
+  private applyHead() {
+    this.camera.position.copy(this.head.position);
+    this.camera.quaternion.setFromEuler(
+      new THREE.Euler(this.head.pitch, this.head.yaw, 0, "YXZ")
+    );
+    this.camera.updateMatrixWorld();
+
+    const { position, quaternion } = this.camera;
+    this.device.position.set(position.x, position.y, position.z);
+    this.device.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+  }
+
+  /**
+   * 右手のレイをマウスの下（またはpointHandAtの点）に向ける
+   */
+  private applyHand() {
+    const handPosition = HAND_OFFSET.clone().applyMatrix4(this.camera.matrixWorld);
+    const target = this.aimTarget ?? this.getPointerTarget();
+    const orientation = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 0, -1),
+      target.clone().sub(handPosition).normalize()
+    );
+    this.controller.position.set(handPosition.x, handPosition.y, handPosition.z);
+    this.controller.quaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+  }
+
+  /**
+   * キー入力で頭を動かす
+   */
+  private moveHead(delta: number) {
+    const axis = (negative: string, positive: string) =>
+      (this.keys.has(positive) ? 1 : 0) - (this.keys.has(negative) ? 1 : 0);
+
+    this.head.yaw -= axis("ArrowLeft", "ArrowRight") * LOOK_SPEED * delta;
+    this.head.pitch = THREE.MathUtils.clamp(
+      this.head.pitch + axis("ArrowDown", "ArrowUp") * LOOK_SPEED * delta,
+      -MAX_PITCH,
+      MAX_PITCH
+    );
+
+    // 前後左右は水平面内で移動
+    const move = new THREE.Vector3(axis("KeyA", "KeyD"), axis("KeyQ", "KeyE"), -axis("KeyS", "KeyW"));
+    if (move.lengthSq() === 0) return;
+    move.normalize().multiplyScalar(MOVE_SPEED * delta);
+    move.applyAxisAngle(new THREE.Vector3(0, 1, 0), this.head.yaw);
+    this.head.position.add(move);
+  }
+
+  private getThumbstick(): [number, number] {
+    const axis = (negative: string, positive: string) =>
+      (this.keys.has(positive) ? 1 : 0) - (this.keys.has(negative) ? 1 : 0);
+    return [axis("KeyJ", "KeyL"), axis("KeyI", "KeyK")];
+  }
+
+  /**
+   * マウスの下の部屋の点（当たらなければ遠くの点）
+   */
+  private getPointerTarget(): THREE.Vector3 {
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const ray = this.raycaster.ray;
+    const [hit] = this.room.hitTest(ray);
+    return hit ? new THREE.Vector3(hit[0], hit[1], hit[2]) : ray.at(FAR_DISTANCE, new THREE.Vector3());
+  }
+
+  private attachControls() {
+    const canvas = this.renderer.domElement;
+    canvas.addEventListener("pointerdown", this.onPointerDown);
+    canvas.addEventListener("pointermove", this.onPointerMove);
+    canvas.addEventListener("pointerup", this.onPointerUp);
+    canvas.addEventListener("contextmenu", this.onContextMenu);
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+    window.addEventListener("blur", this.onBlur);
+  }
+
+  private detachControls() {
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener("pointerdown", this.onPointerDown);
+    canvas.removeEventListener("pointermove", this.onPointerMove);
+    canvas.removeEventListener("pointerup", this.onPointerUp);
+    canvas.removeEventListener("contextmenu", this.onContextMenu);
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+    window.removeEventListener("blur", this.onBlur);
+  }
+
+  private onPointerMove = (event: PointerEvent) => {
+    if (this.looking) {
+      this.head.yaw -= event.movementX * MOUSE_LOOK_SPEED;
+      this.head.pitch = THREE.MathUtils.clamp(
+        this.head.pitch - event.movementY * MOUSE_LOOK_SPEED,
+        -MAX_PITCH,
+        MAX_PITCH
+      );
+      return;
+    }
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.aimTarget = null;
+  };
+
+  private onPointerDown = (event: PointerEvent) => {
+    if (event.button === 0) {
+      this.onPointerMove(event);
+      this.applyHand();
+      this.pressButton("trigger");
+    } else if (event.button === 1) {
+      event.preventDefault();
+      this.pressButton("squeeze");
+    } else if (event.button === 2) {
+      this.looking = true;
+    }
+    this.renderer.domElement.setPointerCapture(event.pointerId);
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    if (event.button === 0) {
+      this.releaseButton("trigger");
+    } else if (event.button === 1) {
+      this.releaseButton("squeeze");
+    } else if (event.button === 2) {
+      this.looking = false;
+    }
+  };
+
+  private onContextMenu = (event: MouseEvent) => {
+    event.preventDefault();
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.target instanceof HTMLInputElement) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (event.repeat) return;
+
+    if (event.code === "KeyG") {
+      this.squeeze();
+    } else if (event.code in BUTTON_KEYS) {
+      this.pressButton(BUTTON_KEYS[event.code]);
+    } else {
+      this.keys.add(event.code);
+    }
+  };
+
+  private onKeyUp = (event: KeyboardEvent) => {
+    if (event.code in BUTTON_KEYS) {
+      this.releaseButton(BUTTON_KEYS[event.code]);
+    }
+    this.keys.delete(event.code);
+  };
+
+  // ウィンドウからフォーカスが外れたらキーとボタンを離す
+  private onBlur = () => {
+    this.keys.clear();
+    this.looking = false;
+    (Object.keys(BUTTON_INDICES) as ButtonId[])
+      .filter((id) => this.controller.getButtonValue(id) > 0)
+      .forEach((id) => this.releaseButton(id));
+  };
+
+  /**
+   * セッション終了時に部屋と操作を外し、navigator.xrとカメラを元に戻す
+   */
+  private onSessionEnd = () => {
+    this.session?.removeEventListener("end", this.onSessionEnd);
+    this.session = null;
+    this.detachControls();
+    this.room.group.removeFromParent();
+    this.device.uninstallRuntime();
+    this.cameraMatrix.decompose(this.camera.position, this.camera.quaternion, this.camera.scale);
+    console.log("⏹️ AR emulation ended");
+  };
+
+  dispose() {
+    if (this.session) {
+      this.session.end();
+    }
+    this.room.dispose();
+  }
+}
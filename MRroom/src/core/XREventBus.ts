@@ -0,0 +1,109 @@
+import * as THREE from "three";
+import type { TrackedPlane } from "./PlaneManager";
+import type { SurfaceInfo } from "./SurfaceClassifier";
+
+/**
+ * イベントを発生させた入力
+ * デスクトップのポインターや履歴（undo/redo）による変更ではinputSourceはnull、handednessは"none"
+ */
+export interface XREventInput {
+  inputSource: XRInputSource | null;
+  handedness: XRHandedness;
+}
+
+/**
+ * オブジェクトが配置された
+ */
+export interface XRPlaceEvent extends XREventInput {
+  object: THREE.Object3D;
+  catalogId: string;
+  // ヒット姿勢（Y軸が表面の法線）
+  pose: THREE.Matrix4;
+  surface: SurfaceInfo;
+  // ヒット位置を含む検出された平面（平面検出が無効、または平面外ならnull）
+  plane: TrackedPlane | null;
+}
+
+/**
+ * レイ・ポインターがオブジェクトを指した
+ */
+export interface XRHoverEvent extends XREventInput {
+  object: THREE.Object3D;
+  // 交差位置の姿勢（Y軸が交差した面の法線）
+  pose: THREE.Matrix4 | null;
+}
+
+/**
+ * レイ・ポインターがオブジェクトから外れた
+ */
+export interface XRHoverEndEvent extends XREventInput {
+  object: THREE.Object3D;
+}
+
+/**
+ * オブジェクトが選択された・選択から外れた
+ */
+export interface XRSelectionEvent extends XREventInput {
+  object: THREE.Object3D;
+  // 変更後の選択中のオブジェクト
+  selection: THREE.Object3D[];
+  // 選択した位置の姿勢（範囲選択や履歴による変更ではnull）
+  pose: THREE.Matrix4 | null;
+}
+
+/**
+ * オブジェクトがシーンから削除された
+ */
+export interface XRRemoveEvent {
+  object: THREE.Object3D;
+}
+
+/**
+ * XREventBusのイベント
+ */
+export interface XREventMap {
+  place: XRPlaceEvent;
+  hover: XRHoverEvent;
+  hoverend: XRHoverEndEvent;
+  select: XRSelectionEvent;
+  deselect: XRSelectionEvent;
+  remove: XRRemoveEvent;
+}
+
+export type XREventType = keyof XREventMap;
+
+/**
+ * リスナーが受け取るイベント（typeとtargetを含む）
+ */
+export type XREvent<T extends XREventType> = XREventMap[T] & THREE.Event<T, XREventBus>;
+
+/**
+ * XREventBus
+ * HitTestManagerとInteractionManagerが発生させるイベントの型付きイベントバス
+ */
+export class XREventBus extends THREE.EventDispatcher<XREventMap> {}
+
+/**
+ * アプリ全体で共有するイベントバス
+ */
+export const xrEvents = new XREventBus();
+
+/**
+ * 入力ソースからイベントの入力情報を作成
+ */
+export function describeInput(inputSource: XRInputSource | null): XREventInput {
+  return { inputSource, handedness: inputSource?.handedness ?? "none" };
+}
+
+/**
+ * 交差位置と面の法線（ワールド座標）から姿勢を作成
+ */
+export function createIntersectionPose(intersection: THREE.Intersection): THREE.Matrix4 {
+  const normal = intersection.face
+    ? intersection.face.normal
+        .clone()
+        .transformDirection(intersection.object.matrixWorld)
+    : new THREE.Vector3(0, 1, 0);
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal);
+  return new THREE.Matrix4().compose(intersection.point, quaternion, new THREE.Vector3(1, 1, 1));
+}
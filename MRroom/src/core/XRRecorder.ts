@@ -0,0 +1,194 @@
+import * as THREE from "three";
+import type { HitTestManager } from "./HitTestManager";
+import {
+  RECORDING_SCHEMA_VERSION,
+  RecordedEvent,
+  RecordedFrame,
+  RecordedInputSource,
+  RecordedInputState,
+  XRRecording,
+  encodePose,
+} from "./XRRecording";
+
+// ヒットテストソースごとに保存するヒット結果の最大数
+const MAX_HITS_PER_SOURCE = 4;
+
+const INPUT_EVENT_TYPES = [
+  "selectstart",
+  "select",
+  "selectend",
+  "squeezestart",
+  "squeeze",
+  "squeezeend",
+] as const;
+
+/**
+ * XRRecorder
+ * XRセッションの視点・入力ソースの姿勢・ヒット結果・イベントをフレームごとに記録する
+ * 記録はXRReplayDriverでデスクトップのブラウザから再生できる
+ */
+export class XRRecorder {
+  private renderer: THREE.WebGLRenderer;
+  private hitTestManager: HitTestManager;
+  private session: XRSession | null = null;
+  private recording: XRRecording | null = null;
+  private inputIds: Map<XRInputSource, number> = new Map();
+  // 次のフレームに含めるイベント
+  private pendingEvents: RecordedEvent[] = [];
+  private startTime = 0;
+
+  constructor(renderer: THREE.WebGLRenderer, hitTestManager: HitTestManager) {
+    this.renderer = renderer;
+    this.hitTestManager = hitTestManager;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * 記録を開始
+   */
+  start(session: XRSession, mode: XRSessionMode, referenceSpaceType: XRReferenceSpaceType) {
+    this.stop();
+
+    this.session = session;
+    this.recording = {
+      schemaVersion: RECORDING_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      mode,
+      referenceSpaceType,
+      enabledFeatures: session.enabledFeatures ?? [],
+      inputSources: [],
+      frames: [],
+    };
+    this.startTime = performance.now();
+    this.pendingEvents = [];
+
+    Array.from(session.inputSources).forEach((inputSource) => this.registerInput(inputSource));
+    INPUT_EVENT_TYPES.forEach((type) => session.addEventListener(type, this.onInputEvent));
+    session.addEventListener("inputsourceschange", this.onInputSourcesChange);
+    console.log("⏺️ Recording XR session");
+  }
+
+  /**
+   * 現在のフレームを記録（managerの更新後に毎フレーム呼ぶ）
+   */
+  capture(frame?: XRFrame) {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    if (!this.recording || !frame || !referenceSpace) return;
+
+    const viewerPose = frame.getViewerPose(referenceSpace);
+    const inputs = Array.from(frame.session.inputSources).map((inputSource) =>
+      this.captureInput(inputSource, frame, referenceSpace)
+    );
+
+    const hits: RecordedFrame["hits"] = {};
+    this.hitTestManager.getFrameHitResults().forEach((results, kind) => {
+      hits[kind] = results
+        .slice(0, MAX_HITS_PER_SOURCE)
+        .map((result) => result.getPose(referenceSpace))
+        .filter((pose): pose is XRPose => !!pose)
+        .map((pose) => encodePose(pose.transform));
+    });
+
+    const record: RecordedFrame = {
+      t: Math.round(performance.now() - this.startTime),
+      viewer: viewerPose ? encodePose(viewerPose.transform) : null,
+      inputs,
+      hits,
+    };
+    if (this.pendingEvents.length > 0) {
+      record.events = this.pendingEvents;
+      this.pendingEvents = [];
+    }
+    this.recording.frames.push(record);
+  }
+
+  /**
+   * 記録を終了して返す（何も記録していなければnull）
+   */
+  stop(): XRRecording | null {
+    const recording = this.recording;
+    if (this.session) {
+      INPUT_EVENT_TYPES.forEach((type) => this.session?.removeEventListener(type, this.onInputEvent));
+      this.session.removeEventListener("inputsourceschange", this.onInputSourcesChange);
+    }
+    this.session = null;
+    this.recording = null;
+    this.inputIds.clear();
+    this.pendingEvents = [];
+
+    if (!recording || recording.frames.length === 0) return null;
+    console.log(`⏹️ Recorded ${recording.frames.length} frames`);
+    return recording;
+  }
+
+  /**
+   * 入力ソースの状態を記録
+   */
+  private captureInput(
+    inputSource: XRInputSource,
+    frame: XRFrame,
+    referenceSpace: XRReferenceSpace
+  ): RecordedInputState {
+    const id = this.registerInput(inputSource);
+    const rayPose = frame.getPose(inputSource.targetRaySpace, referenceSpace);
+    const state: RecordedInputState = { id, ray: rayPose ? encodePose(rayPose.transform) : null };
+
+    if (inputSource.gripSpace) {
+      const gripPose = frame.getPose(inputSource.gripSpace, referenceSpace);
+      state.grip = gripPose ? encodePose(gripPose.transform) : null;
+    }
+
+    const gamepad = inputSource.gamepad;
+    if (gamepad) {
+      state.buttons = gamepad.buttons.reduce(
+        (mask, button, index) => (button.pressed ? mask | (1 << index) : mask),
+        0
+      );
+      state.axes = gamepad.axes.map((value) => Math.round(value * 1000) / 1000);
+    }
+    return state;
+  }
+
+  /**
+   * 入力ソースにidを割り当てる（初めて見た入力ソースは記録に追加）
+   */
+  private registerInput(inputSource: XRInputSource): number {
+    const existing = this.inputIds.get(inputSource);
+    if (existing !== undefined) return existing;
+
+    const id = this.inputIds.size;
+    this.inputIds.set(inputSource, id);
+    const record: RecordedInputSource = {
+      id,
+      handedness: inputSource.handedness,
+      targetRayMode: inputSource.targetRayMode,
+      profiles: Array.from(inputSource.profiles),
+      hasGrip: !!inputSource.gripSpace,
+      hasGamepad: !!inputSource.gamepad,
+    };
+    this.recording?.inputSources.push(record);
+    return id;
+  }
+
+  private onInputEvent = (event: XRInputSourceEvent) => {
+    this.pendingEvents.push({
+      type: event.type as (typeof INPUT_EVENT_TYPES)[number],
+      input: this.registerInput(event.inputSource),
+    });
+  };
+
+  private onInputSourcesChange = (event: XRInputSourcesChangeEvent) => {
+    this.pendingEvents.push({
+      type: "inputsourceschange",
+      added: Array.from(event.added).map((inputSource) => this.registerInput(inputSource)),
+      removed: Array.from(event.removed).map((inputSource) => this.registerInput(inputSource)),
+    });
+  };
+
+  dispose() {
+    this.stop();
+  }
+}
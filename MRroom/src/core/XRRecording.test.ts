@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  RECORDING_SCHEMA_VERSION,
+  RecordingSchemaError,
+  encodePose,
+  parseRecording,
+  type XRRecording,
+} from "./XRRecording";
+
+// 位置と向きだけを持つ姿勢（encodePoseはmatrixを使わない）
+function rigidTransform(
+  position: [number, number, number],
+  orientation: [number, number, number, number]
+): XRRigidTransform {
+  const [x, y, z] = position;
+  const [qx, qy, qz, qw] = orientation;
+  return {
+    position: { x, y, z, w: 1 },
+    orientation: { x: qx, y: qy, z: qz, w: qw },
+  } as XRRigidTransform;
+}
+
+function createRecording(overrides: Partial<XRRecording> = {}): XRRecording {
+  return {
+    schemaVersion: RECORDING_SCHEMA_VERSION,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    mode: "immersive-ar",
+    referenceSpaceType: "local-floor",
+    enabledFeatures: ["hit-test"],
+    inputSources: [
+      {
+        id: 0,
+        handedness: "right",
+        targetRayMode: "tracked-pointer",
+        profiles: ["generic-trigger"],
+        hasGrip: true,
+        hasGamepad: true,
+      },
+    ],
+    frames: [
+      {
+        t: 0,
+        viewer: [0, 1.6, 0, 0, 0, 0, 1],
+        inputs: [{ id: 0, ray: [0.2, 1.2, -0.3, 0, 0, 0, 1], buttons: 1 }],
+        hits: { gaze: [[0, 0, -1, 0, 0, 0, 1]] },
+        events: [{ type: "select", input: 0 }],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("encodePose", () => {
+  it("stores position and orientation as a rounded array", () => {
+    const pose = encodePose(
+      rigidTransform([0.123456, 1.6, -2.00004], [0, 0.7071068, 0, 0.7071068])
+    );
+
+    expect(pose).toEqual([0.1235, 1.6, -2, 0, 0.7071, 0, 0.7071]);
+  });
+});
+
+describe("parseRecording", () => {
+  it("round-trips a recording through JSON", () => {
+    const recording = createRecording();
+
+    expect(parseRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it("rejects text that is not JSON", () => {
+    expect(() => parseRecording("not json")).toThrow(RecordingSchemaError);
+  });
+
+  it("rejects values that are not objects", () => {
+    expect(() => parseRecording("null")).toThrow("Recording file is not an object");
+  });
+
+  it("rejects other schema versions", () => {
+    const json = JSON.stringify(createRecording({ schemaVersion: 2 }));
+
+    expect(() => parseRecording(json)).toThrow("Recording schema version 2 is not supported");
+  });
+
+  it("rejects recordings without input sources or frames", () => {
+    const { inputSources: _, ...withoutInputs } = createRecording();
+
+    expect(() => parseRecording(JSON.stringify(withoutInputs))).toThrow(
+      "Recording has no input sources or frames"
+    );
+    expect(() => parseRecording(JSON.stringify(createRecording({ frames: [] })))).toThrow(
+      "Recording has no frames"
+    );
+  });
+
+  it.each([
+    ["no time", { inputs: [], hits: {} }],
+    ["no inputs", { t: 0, hits: {} }],
+    ["no hits", { t: 0, inputs: [] }],
+    ["null hits", { t: 0, inputs: [], hits: null }],
+    ["a null frame", null],
+  ])("rejects frames with %s", (_, frame) => {
+    const recording = createRecording();
+    const json = JSON.stringify({ ...recording, frames: [recording.frames[0], frame] });
+
+    expect(() => parseRecording(json)).toThrow("Recording frame #1 is malformed");
+  });
+});
@@ -0,0 +1,147 @@
+import type { HitTestSourceKind } from "./HitTestSourcePolicy";
+
+/**
+ * 記録ファイルのスキーマバージョン
+ * フィールドを変更した場合はインクリメントする
+ */
+export const RECORDING_SCHEMA_VERSION = 1;
+
+/**
+ * 姿勢（位置xyzと回転の四元数xyzw、reference space基準）
+ * ファイルを小さくするため配列で保存する
+ */
+export type RecordedPose = [number, number, number, number, number, number, number];
+
+// 保存する数値の桁数（0.1mm / 1e-4）
+const POSE_PRECISION = 1e4;
+
+/**
+ * 記録された入力ソース（セッション中に現れた順のidで参照）
+ */
+export interface RecordedInputSource {
+  id: number;
+  handedness: XRHandedness;
+  targetRayMode: XRTargetRayMode;
+  profiles: string[];
+  hasGrip: boolean;
+  hasGamepad: boolean;
+}
+
+/**
+ * フレームごとの入力ソースの状態
+ */
+export interface RecordedInputState {
+  id: number;
+  ray: RecordedPose | null;
+  grip?: RecordedPose | null;
+  // 押されているボタンのビットマスク
+  buttons?: number;
+  axes?: number[];
+}
+
+/**
+ * フレームの間に発生したセッションのイベント
+ */
+export type RecordedEvent =
+  | {
+      type: "selectstart" | "select" | "selectend" | "squeezestart" | "squeeze" | "squeezeend";
+      input: number;
+    }
+  | { type: "inputsourceschange"; added: number[]; removed: number[] };
+
+/**
+ * 1フレーム分の記録
+ */
+export interface RecordedFrame {
+  // 記録開始からの時間（ms）
+  t: number;
+  viewer: RecordedPose | null;
+  inputs: RecordedInputState[];
+  // ヒットテストソースの種類ごとのヒット結果（近い順）
+  hits: Partial<Record<HitTestSourceKind, RecordedPose[]>>;
+  // このフレームの前に発生したイベント（発生順）
+  events?: RecordedEvent[];
+}
+
+/**
+ * XRセッションの記録
+ */
+export interface XRRecording {
+  schemaVersion: number;
+  createdAt: string;
+  mode: XRSessionMode;
+  referenceSpaceType: XRReferenceSpaceType;
+  enabledFeatures: string[];
+  inputSources: RecordedInputSource[];
+  frames: RecordedFrame[];
+}
+
+/**
+ * 記録ファイルの形式エラー
+ */
+export class RecordingSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingSchemaError";
+  }
+}
+
+/**
+ * XRRigidTransformを記録用の姿勢に変換
+ */
+export function encodePose(transform: XRRigidTransform): RecordedPose {
+  const { position, orientation } = transform;
+  return [
+    position.x,
+    position.y,
+    position.z,
+    orientation.x,
+    orientation.y,
+    orientation.z,
+    orientation.w,
+  ].map((value) => Math.round(value * POSE_PRECISION) / POSE_PRECISION) as RecordedPose;
+}
+
+/**
+ * JSONを記録として読み込む（形式が正しくなければRecordingSchemaError）
+ */
+export function parseRecording(json: string): XRRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new RecordingSchemaError("Recording file is not valid JSON");
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new RecordingSchemaError("Recording file is not an object");
+  }
+
+  const recording = data as Partial<XRRecording>;
+  if (recording.schemaVersion !== RECORDING_SCHEMA_VERSION) {
+    throw new RecordingSchemaError(
+      `Recording schema version ${String(recording.schemaVersion)} is not supported (expected ${RECORDING_SCHEMA_VERSION})`
+    );
+  }
+
+  if (!Array.isArray(recording.inputSources) || !Array.isArray(recording.frames)) {
+    throw new RecordingSchemaError("Recording has no input sources or frames");
+  }
+
+  if (recording.frames.length === 0) {
+    throw new RecordingSchemaError("Recording has no frames");
+  }
+
+  recording.frames.forEach((frame, index) => {
+    if (
+      typeof frame?.t !== "number" ||
+      !Array.isArray(frame.inputs) ||
+      typeof frame.hits !== "object" ||
+      frame.hits === null
+    ) {
+      throw new RecordingSchemaError(`Recording frame #${index} is malformed`);
+    }
+  });
+
+  return recording as XRRecording;
+}
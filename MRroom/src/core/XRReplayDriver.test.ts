@@ -0,0 +1,56 @@
+import * as THREE from "three";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useXRStore } from "../stores/xrStore";
+import { XRReplayDriver } from "./XRReplayDriver";
+import { RECORDING_SCHEMA_VERSION, type XRRecording } from "./XRRecording";
+
+const RECORDING: XRRecording = {
+  schemaVersion: RECORDING_SCHEMA_VERSION,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  mode: "immersive-ar",
+  referenceSpaceType: "local-floor",
+  enabledFeatures: ["hit-test"],
+  inputSources: [],
+  frames: [{ t: 0, viewer: [0, 1.6, 0, 0, 0, 0, 1], inputs: [], hits: {} }],
+};
+
+// installVirtualSessionが差し替えるrenderer.xrのプロパティだけを持つレンダラー
+function createRenderer(): THREE.WebGLRenderer {
+  const xr = Object.assign(new THREE.EventDispatcher(), {
+    enabled: true,
+    isPresenting: false,
+    getSession: () => null,
+    getReferenceSpace: () => null,
+  });
+  return { xr } as unknown as THREE.WebGLRenderer;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("XRReplayDriver", () => {
+  it("restores renderer.xr and the camera when onSessionStart fails", async () => {
+    const renderer = createRenderer();
+    const { getSession } = renderer.xr;
+    const camera = new THREE.PerspectiveCamera();
+    camera.position.set(1, 2, 3);
+    const error = new Error("hit test setup failed");
+    const replay = new XRReplayDriver(renderer, camera, RECORDING, {
+      onSessionStart: () => Promise.reject(error),
+      onFrame: () => {},
+    });
+
+    await expect(replay.start()).rejects.toBe(error);
+
+    expect(renderer.xr.enabled).toBe(true);
+    expect(renderer.xr.isPresenting).toBe(false);
+    expect(renderer.xr.getSession).toBe(getSession);
+    expect(camera.position.toArray()).toEqual([1, 2, 3]);
+    expect(useXRStore.getState().replayState).toBeNull();
+  });
+});
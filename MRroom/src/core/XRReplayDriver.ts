@@ -0,0 +1,241 @@
+import * as THREE from "three";
+import { useXRStore } from "../stores/xrStore";
+import {
+  VirtualFrame,
+  VirtualInputSource,
+  VirtualSession,
+  installVirtualSession,
+} from "./VirtualXRSession";
+import type { RecordedFrame, XRRecording } from "./XRRecording";
+
+/**
+ * 再生の状態（ストアに反映）
+ */
+export interface XRReplayState {
+  // 適用済みのフレーム（開始前は-1）
+  frame: number;
+  frameCount: number;
+  playing: boolean;
+  // 記録開始からの時間（ms）
+  time: number;
+  duration: number;
+}
+
+/**
+ * XRReplayDriverのオプション
+ */
+export interface XRReplayDriverOptions {
+  // 再生用のセッションの初期化（HitTestManager.onSessionStartなど）
+  onSessionStart: (session: XRSession, referenceSpaceType: XRReferenceSpaceType) => Promise<void>;
+  // managerの更新（一時停止中はframeなし）
+  onFrame: (frame?: XRFrame) => void;
+}
+
+/**
+ * XRReplayDriver
+ * XRRecorderの記録を、実際のセッションの代わりに同じmanagerへ入力する
+ * - 再生中はrenderer.xrを仮想のセッションに差し替える（managerからは通常のXRセッションに見える）
+ * - カメラは記録された視点に合わせる
+ * - 1回のtickで1フレーム進む（記録時のフレームレートに関係なく全フレームを順番に処理）
+ * - 後ろへのシークは姿勢だけを戻し、配置などの結果は取り消さない
+ */
+export class XRReplayDriver {
+  private renderer: THREE.WebGLRenderer;
+  private camera: THREE.Camera;
+  private recording: XRRecording;
+  private options: XRReplayDriverOptions;
+  private session: VirtualSession;
+  private inputSources: Map<number, VirtualInputSource>;
+  private current = -1;
+  private playing = false;
+  private started = false;
+  // renderer.xrを元に戻す関数（再生中のみ）
+  private uninstall: (() => void) | null = null;
+  // 再生前のカメラの姿勢
+  private cameraMatrix: THREE.Matrix4 = new THREE.Matrix4();
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    camera: THREE.Camera,
+    recording: XRRecording,
+    options: XRReplayDriverOptions
+  ) {
+    this.renderer = renderer;
+    this.camera = camera;
+    this.recording = recording;
+    this.options = options;
+    this.session = new VirtualSession(recording.enabledFeatures);
+    this.inputSources = new Map(
+      recording.inputSources.map((record) => [record.id, new VirtualInputSource(record)])
+    );
+  }
+
+  /**
+   * 再生用のセッションを開始（最初のフレームの入力ソースで初期化）
+   * onSessionStartが失敗した場合はrenderer.xrとカメラを元に戻してから投げ直す
+   */
+  async start() {
+    if (this.started) return;
+    this.started = true;
+
+    this.camera.updateMatrix();
+    this.cameraMatrix.copy(this.camera.matrix);
+    this.applyInputSources(this.recording.frames[0]);
+    this.uninstall = installVirtualSession(this.renderer, this.session);
+    try {
+      await this.options.onSessionStart(
+        this.session as unknown as XRSession,
+        this.recording.referenceSpaceType
+      );
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    this.seek(0);
+    console.log(`▶️ Replaying ${this.recording.frames.length} frames`);
+  }
+
+  /**
+   * 毎フレーム呼ぶ（再生中は1フレーム進める）
+   */
+  tick() {
+    if (!this.uninstall) return;
+
+    if (this.playing) {
+      if (this.current >= this.recording.frames.length - 1) {
+        this.pause();
+      } else {
+        this.advance();
+        return;
+      }
+    }
+    this.options.onFrame();
+  }
+
+  play() {
+    if (this.current >= this.recording.frames.length - 1) return;
+    this.playing = true;
+    this.publish();
+  }
+
+  pause() {
+    this.playing = false;
+    this.publish();
+  }
+
+  /**
+   * 1フレーム進める（一時停止する）
+   */
+  step() {
+    this.playing = false;
+    if (this.current < this.recording.frames.length - 1) {
+      this.advance();
+    } else {
+      this.publish();
+    }
+  }
+
+  /**
+   * 指定したフレームに移動
+   * 前方へは途中のフレームとイベントをすべて処理し、後方へは姿勢だけを戻す
+   */
+  seek(index: number) {
+    const target = Math.max(0, Math.min(index, this.recording.frames.length - 1));
+    if (target > this.current) {
+      while (this.current < target) this.advance();
+      return;
+    }
+
+    this.current = target;
+    const record = this.recording.frames[target];
+    this.applyInputSources(record);
+    this.applyFrame(record);
+  }
+
+  /**
+   * 再生を終了し、renderer.xrとカメラを元に戻す
+   */
+  async stop() {
+    if (!this.uninstall) return;
+
+    this.playing = false;
+    await this.session.end();
+    this.uninstall();
+    this.uninstall = null;
+    this.cameraMatrix.decompose(this.camera.position, this.camera.quaternion, this.camera.scale);
+
+    useXRStore.getState().setReplayState(null);
+    console.log("⏹️ Replay stopped");
+  }
+
+  /**
+   * 次のフレームのイベントを発生させてから、そのフレームでmanagerを更新
+   */
+  private advance() {
+    this.current++;
+    const record = this.recording.frames[this.current];
+    this.applyInputSources(record);
+
+    const frame = new VirtualFrame(this.session, record);
+    record.events?.forEach((recorded) => {
+      if (recorded.type === "inputsourceschange") {
+        this.session.dispatchInputSourcesChange(
+          this.findInputSources(recorded.added),
+          this.findInputSources(recorded.removed)
+        );
+        return;
+      }
+
+      const inputSource = this.inputSources.get(recorded.input);
+      if (inputSource) this.session.dispatchInputEvent(recorded.type, inputSource, frame);
+    });
+
+    this.applyFrame(record, frame);
+  }
+
+  private findInputSources(ids: number[]): VirtualInputSource[] {
+    return ids
+      .map((id) => this.inputSources.get(id))
+      .filter((inputSource): inputSource is VirtualInputSource => inputSource !== undefined);
+  }
+
+  /**
+   * 視点をカメラに適用してmanagerを更新
+   */
+  private applyFrame(record: RecordedFrame, frame?: VirtualFrame) {
+    if (record.viewer) {
+      const [px, py, pz, qx, qy, qz, qw] = record.viewer;
+      this.camera.position.set(px, py, pz);
+      this.camera.quaternion.set(qx, qy, qz, qw);
+      this.camera.updateMatrixWorld();
+    }
+
+    this.options.onFrame((frame ?? new VirtualFrame(this.session, record)).asXRFrame());
+    this.publish();
+  }
+
+  /**
+   * フレームに記録された入力ソースをセッションの入力ソースにする
+   */
+  private applyInputSources(record: RecordedFrame) {
+    record.inputs.forEach((input) =>
+      this.inputSources.get(input.id)?.applyGamepad(input.buttons, input.axes)
+    );
+    this.session.inputSources = this.findInputSources(record.inputs.map((input) => input.id));
+  }
+
+  /**
+   * 再生の状態をストアに反映
+   */
+  private publish() {
+    const frames = this.recording.frames;
+    useXRStore.getState().setReplayState({
+      frame: this.current,
+      frameCount: frames.length,
+      playing: this.playing,
+      time: frames[Math.max(this.current, 0)].t,
+      duration: frames[frames.length - 1].t,
+    });
+  }
+}
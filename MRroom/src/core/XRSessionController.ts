@@ -0,0 +1,521 @@
+import * as THREE from "three";
+import { XRState, useXRStore } from "../stores/xrStore";
+
+/**
+ * セッションのエラーの種類
+ * - permission-denied: ユーザーまたはブラウザがXRの使用を許可しなかった
+ * - hit-test-unavailable: ヒットテストが有効にならなかった
+ * - reference-space-fallback: 要求したreference spaceが使えず、別のものに切り替えた（警告）
+ * - session-failed: その他の理由でセッションを開始・継続できなかった
+ */
+export type XRSessionErrorKind =
+  | "permission-denied"
+  | "hit-test-unavailable"
+  | "reference-space-fallback"
+  | "session-failed";
+
+/**
+ * XRセッションのエラー
+ */
+export class XRSessionError extends Error {
+  readonly kind: XRSessionErrorKind;
+  // 再試行で回復できる可能性があるか
+  readonly recoverable: boolean;
+
+  constructor(kind: XRSessionErrorKind, message: string, recoverable = true) {
+    super(message);
+    this.name = "XRSessionError";
+    this.kind = kind;
+    this.recoverable = recoverable;
+  }
+}
+
+/**
+ * XRの使用が許可されなかった（再試行で許可を求め直せる）
+ */
+export class XRPermissionDeniedError extends XRSessionError {
+  constructor(message = "Permission to use AR was denied") {
+    super("permission-denied", message);
+    this.name = "XRPermissionDeniedError";
+  }
+}
+
+/**
+ * ヒットテストが使えない（このデバイスでは再試行しても回復しない）
+ */
+export class XRHitTestUnavailableError extends XRSessionError {
+  constructor(message = "Hit test is not available on this device") {
+    super("hit-test-unavailable", message, false);
+    this.name = "XRHitTestUnavailableError";
+  }
+}
+
+/**
+ * 要求したreference spaceの代わりに別のものを使用した（セッションは継続）
+ */
+export class XRReferenceSpaceFallbackError extends XRSessionError {
+  readonly requested: XRReferenceSpaceType;
+  readonly used: XRReferenceSpaceType;
+
+  constructor(requested: XRReferenceSpaceType, used: XRReferenceSpaceType) {
+    super("reference-space-fallback", `"${requested}" reference space unavailable, using "${used}"`);
+    this.name = "XRReferenceSpaceFallbackError";
+    this.requested = requested;
+    this.used = used;
+  }
+}
+
+/**
+ * 状態ごとに遷移できる次の状態
+ */
+const TRANSITIONS: Record<XRState, XRState[]> = {
+  [XRState.Unsupported]: [XRState.Idle],
+  [XRState.Idle]: [XRState.Requesting, XRState.Unsupported],
+  [XRState.Requesting]: [XRState.Active, XRState.VisibleBlurred, XRState.Idle, XRState.Error],
+  [XRState.Active]: [XRState.VisibleBlurred, XRState.Ending, XRState.Idle, XRState.Error],
+  [XRState.VisibleBlurred]: [XRState.Active, XRState.Ending, XRState.Idle, XRState.Error],
+  [XRState.Ending]: [XRState.Idle, XRState.Error],
+  [XRState.Error]: [XRState.Requesting, XRState.Idle, XRState.Unsupported],
+};
+
+/**
+ * セッションの提供元（実際のWebXR、またはデスクトップのエミュレーター）
+ */
+export interface XRSessionProvider {
+  isSessionSupported(mode: XRSessionMode): Promise<boolean>;
+  requestSession(mode: XRSessionMode, init: XRSessionInit): Promise<XRSession>;
+  // 確認済みのreference spaceでレンダラーにセッションを設定
+  setSession(session: XRSession, referenceSpaceType: XRReferenceSpaceType): Promise<void>;
+}
+
+/**
+ * navigator.xrとrenderer.xrによる通常のセッション
+ */
+export function createWebXRSessionProvider(renderer: THREE.WebGLRenderer): XRSessionProvider {
+  return {
+    isSessionSupported: async (mode) =>
+      navigator.xr ? navigator.xr.isSessionSupported(mode).catch(() => false) : false,
+    requestSession: (mode, init) => {
+      if (!navigator.xr) throw new XRSessionError("session-failed", "WebXR is not available", false);
+      return navigator.xr.requestSession(mode, init);
+    },
+    setSession: async (session, referenceSpaceType) => {
+      renderer.xr.setReferenceSpaceType(referenceSpaceType);
+      await renderer.xr.setSession(session);
+    },
+  };
+}
+
+/**
+ * セッションのモードの表示名（UIで共通）
+ */
+export const SESSION_MODE_LABELS: Record<XRSessionMode, string> = {
+  "immersive-ar": "AR",
+  "immersive-vr": "VR",
+  inline: "3D view",
+};
+
+/**
+ * セッションのモードごとに要求する機能
+ */
+export interface XRSessionFeatures {
+  requiredFeatures: string[];
+  optionalFeatures: string[];
+}
+
+/**
+ * モードごとの既定の機能
+ * VRとinlineにはヒットテストがないため、仮想の部屋・地面で代用する（必須にしない）
+ */
+export const DEFAULT_SESSION_FEATURES: Record<XRSessionMode, XRSessionFeatures> = {
+  "immersive-ar": {
+    requiredFeatures: ["hit-test"],
+    optionalFeatures: [
+      "local-floor",
+      "bounded-floor",
+      "hand-tracking",
+      "anchors",
+      "plane-detection",
+      "dom-overlay",
+      "light-estimation",
+      "depth-sensing",
+      "mesh-detection",
+    ],
+  },
+  "immersive-vr": {
+    requiredFeatures: [],
+    optionalFeatures: ["local-floor", "bounded-floor", "hand-tracking"],
+  },
+  inline: {
+    requiredFeatures: [],
+    optionalFeatures: [],
+  },
+};
+
+/**
+ * depth-sensingを要求する場合の深度の形式
+ * three.js（r170）はXRWebGLBinding経由でしか深度を読まないため、GPUの深度だけを要求する
+ */
+export const DEPTH_SENSING_INIT: XRDepthStateInit = {
+  usagePreference: ["gpu-optimized"],
+  dataFormatPreference: ["luminance-alpha", "float32"],
+};
+
+/**
+ * three.jsがdepth-sensingの深度を読めるか
+ * （レイヤーに対応していないブラウザではXRWebGLBindingがなく、描画ループでエラーになる）
+ */
+function canReadDepthSensing(): boolean {
+  return "XRWebGLBinding" in window && "createProjectionLayer" in XRWebGLBinding.prototype;
+}
+
+/**
+ * XRSessionControllerのオプション
+ */
+export interface XRSessionControllerOptions {
+  // 選べるモード（対応しているもののうち先頭を既定で選ぶ）
+  modes?: XRSessionMode[];
+  features?: Partial<Record<XRSessionMode, XRSessionFeatures>>;
+  // 試すreference spaceの順番（先頭が要求するもの）
+  referenceSpaceTypes?: XRReferenceSpaceType[];
+  // dom-overlayを要求する場合に、セッション中に表示する要素（HUD）
+  domOverlayRoot?: HTMLElement | null;
+  // すべてのモードの提供元（既定はnavigator.xrとrenderer.xr、setProviderでモードごとに変更）
+  provider?: XRSessionProvider;
+  // レンダラーにセッションを設定した後の初期化（失敗するとセッションを終了してerrorになる）
+  onSessionStart?: (
+    session: XRSession,
+    referenceSpaceType: XRReferenceSpaceType,
+    mode: XRSessionMode
+  ) => Promise<void>;
+}
+
+interface ResolvedOptions {
+  modes: XRSessionMode[];
+  features: Record<XRSessionMode, XRSessionFeatures>;
+  referenceSpaceTypes: XRReferenceSpaceType[];
+  domOverlayRoot: HTMLElement | null;
+}
+
+const DEFAULT_OPTIONS: ResolvedOptions = {
+  modes: ["immersive-ar", "immersive-vr", "inline"],
+  features: DEFAULT_SESSION_FEATURES,
+  referenceSpaceTypes: ["local-floor", "local", "viewer"],
+  domOverlayRoot: null,
+};
+
+/**
+ * XRSessionController
+ * XRセッションのライフサイクルを状態機械として管理する
+ * unsupported → idle → requesting → active ⇄ visible-blurred → ending → idle
+ * - モード（AR・VR・inline）はisSessionSupportedで対応しているものから選ぶ
+ * - 失敗はerror状態と型付きのエラーになり、retry()でページを再読み込みせずにやり直せる
+ * - 配置済みオブジェクトはシーンに残るので、再開したセッションでそのまま使える
+ */
+export class XRSessionController {
+  private options: ResolvedOptions;
+  private onSessionStart: XRSessionControllerOptions["onSessionStart"];
+  private providers: Map<XRSessionMode, XRSessionProvider> = new Map();
+  private session: XRSession | null = null;
+  // 開始中・実行中のセッションのモード
+  private sessionMode: XRSessionMode | null = null;
+
+  constructor(renderer: THREE.WebGLRenderer, options: XRSessionControllerOptions = {}) {
+    const { onSessionStart, provider, features, ...rest } = options;
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...rest,
+      features: { ...DEFAULT_OPTIONS.features, ...features },
+    };
+    this.onSessionStart = onSessionStart;
+    const defaultProvider = provider ?? createWebXRSessionProvider(renderer);
+    this.options.modes.forEach((mode) => this.providers.set(mode, defaultProvider));
+    navigator.xr?.addEventListener("devicechange", this.onDeviceChange);
+  }
+
+  /**
+   * セッションの提供元を切り替え（既定はすべてのモード）
+   * セッション中でなければ対応状況を確認し直す
+   */
+  async setProvider(provider: XRSessionProvider, modes: XRSessionMode[] = this.options.modes) {
+    modes.forEach((mode) => this.providers.set(mode, provider));
+    const state = this.getState();
+    if (state === XRState.Unsupported || state === XRState.Idle) {
+      await this.checkSupport();
+    }
+  }
+
+  getState(): XRState {
+    return useXRStore.getState().xrState;
+  }
+
+  /**
+   * 次に開始するセッションのモード
+   */
+  getMode(): XRSessionMode {
+    return useXRStore.getState().sessionMode;
+  }
+
+  /**
+   * 次に開始するセッションのモードを選択（セッション中は変更しない）
+   */
+  setMode(mode: XRSessionMode) {
+    if (this.session || !this.options.modes.includes(mode)) return;
+    useXRStore.getState().setSessionMode(mode);
+  }
+
+  /**
+   * 各モードに対応しているか確認（どれにも対応していなければunsupported）
+   * 選択中のモードが使えなければ、対応しているモードのうち先頭のものを選ぶ
+   */
+  async checkSupport(): Promise<boolean> {
+    const results = await Promise.all(
+      this.options.modes.map((mode) =>
+        (this.providers.get(mode)?.isSessionSupported(mode) ?? Promise.resolve(false)).catch(
+          () => false
+        )
+      )
+    );
+    const supportedModes = this.options.modes.filter((_mode, index) => results[index]);
+    const store = useXRStore.getState();
+    store.setSupportedSessionModes(supportedModes);
+    if (!supportedModes.includes(this.getMode()) && supportedModes.length > 0) {
+      this.setMode(supportedModes[0]);
+    }
+
+    const state = this.getState();
+    if (state === XRState.Unsupported || state === XRState.Idle) {
+      this.transition(supportedModes.length > 0 ? XRState.Idle : XRState.Unsupported);
+    }
+    return supportedModes.length > 0;
+  }
+
+  /**
+   * セッションを開始（idle / errorから）
+   */
+  async start() {
+    const state = this.getState();
+    if (state !== XRState.Idle && state !== XRState.Error) return;
+
+    const mode = this.getMode();
+    const provider = this.providers.get(mode);
+    const features = this.options.features[mode];
+    if (!provider) return;
+
+    useXRStore.getState().setSessionError(null);
+    this.sessionMode = mode;
+    this.transition(XRState.Requesting);
+
+    const init: XRSessionInit = {
+      requiredFeatures: features.requiredFeatures,
+      optionalFeatures: features.optionalFeatures,
+    };
+    if (features.optionalFeatures.includes("depth-sensing")) {
+      if (canReadDepthSensing()) {
+        init.depthSensing = DEPTH_SENSING_INIT;
+      } else {
+        init.optionalFeatures = features.optionalFeatures.filter(
+          (feature) => feature !== "depth-sensing"
+        );
+      }
+    }
+    const wantsDomOverlay = [...features.requiredFeatures, ...features.optionalFeatures].includes(
+      "dom-overlay"
+    );
+    if (wantsDomOverlay && this.options.domOverlayRoot) {
+      init.domOverlay = { root: this.options.domOverlayRoot };
+    }
+
+    let session: XRSession;
+    try {
+      session = await provider.requestSession(mode, init);
+    } catch (error) {
+      this.fail(this.toSessionError(error));
+      return;
+    }
+
+    this.attachSession(session);
+
+    try {
+      const enabledFeatures = [...(session.enabledFeatures ?? [])];
+      // enabledFeaturesのないブラウザでもdom-overlayの有無はdomOverlayStateで分かる
+      if (session.domOverlayState && !enabledFeatures.includes("dom-overlay")) {
+        enabledFeatures.push("dom-overlay");
+      }
+      if (
+        features.requiredFeatures.includes("hit-test") &&
+        (!session.requestHitTestSource ||
+          (session.enabledFeatures && !enabledFeatures.includes("hit-test")))
+      ) {
+        throw new XRHitTestUnavailableError();
+      }
+
+      const warnings: XRSessionError[] = [];
+      const referenceSpaceType = await this.negotiateReferenceSpace(session, warnings);
+      await provider.setSession(session, referenceSpaceType);
+      await this.onSessionStart?.(session, referenceSpaceType, mode);
+
+      // 初期化中にセッションが終了した場合
+      if (this.session !== session) return;
+
+      useXRStore.getState().setSessionDetails(enabledFeatures, referenceSpaceType, warnings);
+      warnings.forEach((warning) => console.warn(`⚠️ ${warning.message}`));
+      this.transition(session.visibilityState === "visible" ? XRState.Active : XRState.VisibleBlurred);
+      console.log(`✅ XR session started (${mode}, ${referenceSpaceType})`);
+    } catch (error) {
+      this.fail(this.toSessionError(error));
+      // 開始できなかったセッションは終了（配置済みオブジェクトはそのまま残る）
+      await session.end().catch(() => {});
+    }
+  }
+
+  /**
+   * セッションを終了（active / visible-blurredから）
+   */
+  async end() {
+    const state = this.getState();
+    if (!this.session || (state !== XRState.Active && state !== XRState.VisibleBlurred)) return;
+
+    this.transition(XRState.Ending);
+    try {
+      await this.session.end();
+    } catch (error) {
+      // 既に終了している場合はendイベントでidleになる
+      console.warn("⚠️ Failed to end XR session:", error);
+    }
+  }
+
+  /**
+   * エラーからやり直す
+   */
+  async retry() {
+    if (this.getState() !== XRState.Error) return;
+    await this.start();
+  }
+
+  /**
+   * エラーを閉じてidleに戻る
+   */
+  dismissError() {
+    if (this.getState() !== XRState.Error) return;
+    useXRStore.getState().setSessionError(null);
+    this.transition(XRState.Idle);
+    this.checkSupport();
+  }
+
+  /**
+   * 状態を遷移（許可されていない遷移は無視）
+   */
+  private transition(next: XRState) {
+    const current = this.getState();
+    if (current === next) return;
+    if (!TRANSITIONS[current].includes(next)) {
+      console.warn(`⚠️ Invalid XR state transition: ${current} → ${next}`);
+      return;
+    }
+    useXRStore.getState().setXRState(next);
+  }
+
+  /**
+   * エラー状態にする
+   */
+  private fail(error: XRSessionError) {
+    console.error(`❌ XR session error (${error.kind}):`, error.message);
+    useXRStore.getState().setSessionError(error);
+    this.transition(XRState.Error);
+  }
+
+  /**
+   * 使えるreference spaceを順番に試す（先頭以外を使った場合は警告を追加）
+   */
+  private async negotiateReferenceSpace(
+    session: XRSession,
+    warnings: XRSessionError[]
+  ): Promise<XRReferenceSpaceType> {
+    const [requested] = this.options.referenceSpaceTypes;
+    for (const type of this.options.referenceSpaceTypes) {
+      try {
+        await session.requestReferenceSpace(type);
+        if (type !== requested) warnings.push(new XRReferenceSpaceFallbackError(requested, type));
+        return type;
+      } catch {
+        // 次の候補を試す
+      }
+    }
+    throw new XRSessionError("session-failed", "No supported reference space");
+  }
+
+  /**
+   * 例外を型付きのエラーに変換
+   */
+  private toSessionError(error: unknown): XRSessionError {
+    if (error instanceof XRSessionError) return error;
+    if (error instanceof DOMException) {
+      if (error.name === "NotAllowedError" || error.name === "SecurityError") {
+        return new XRPermissionDeniedError();
+      }
+      // 必須機能が使えない場合（isSessionSupportedで確認済みなのでモードは対応している）
+      const mode = this.sessionMode ?? this.getMode();
+      if (
+        error.name === "NotSupportedError" &&
+        this.options.features[mode].requiredFeatures.includes("hit-test")
+      ) {
+        return new XRHitTestUnavailableError();
+      }
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new XRSessionError("session-failed", message || "XR session failed to start");
+  }
+
+  private attachSession(session: XRSession) {
+    this.session = session;
+    session.addEventListener("visibilitychange", this.onVisibilityChange);
+    session.addEventListener("end", this.onSessionEnd);
+  }
+
+  private detachSession() {
+    if (!this.session) return;
+    this.session.removeEventListener("visibilitychange", this.onVisibilityChange);
+    this.session.removeEventListener("end", this.onSessionEnd);
+    this.session = null;
+    this.sessionMode = null;
+  }
+
+  /**
+   * 表示状態の変化（システムUIの表示中などはvisible-blurred）
+   */
+  private onVisibilityChange = () => {
+    if (!this.session) return;
+    const state = this.getState();
+    if (state !== XRState.Active && state !== XRState.VisibleBlurred) return;
+
+    this.transition(
+      this.session.visibilityState === "visible" ? XRState.Active : XRState.VisibleBlurred
+    );
+  };
+
+  /**
+   * セッション終了（ユーザー・システムによる終了を含む）
+   */
+  private onSessionEnd = () => {
+    this.detachSession();
+    useXRStore.getState().setSessionDetails([], null, []);
+    // 開始に失敗して終了した場合はエラーを表示したままにする
+    if (this.getState() !== XRState.Error) {
+      this.transition(XRState.Idle);
+    }
+    console.log("XR session ended");
+  };
+
+  /**
+   * XRデバイスの接続・切断
+   */
+  private onDeviceChange = () => {
+    this.checkSupport();
+  };
+
+  dispose() {
+    navigator.xr?.removeEventListener("devicechange", this.onDeviceChange);
+    this.detachSession();
+  }
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import { XREvent, XREventType, xrEvents } from "../core/XREventBus";
+
+/**
+ * xrEventsのイベントを購読するフック
+ * アンマウント時に自動で購読を解除する（リスナーは毎回作り直しても再購読しない）
+ */
+export function useXREvent<T extends XREventType>(
+  type: T,
+  listener: (event: XREvent<T>) => void
+) {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => {
+    const handleEvent = (event: XREvent<T>) => listenerRef.current(event);
+    xrEvents.addEventListener(type, handleEvent);
+    return () => xrEvents.removeEventListener(type, handleEvent);
+  }, [type]);
+}
@@ -1,13 +1,60 @@
 import { create } from "zustand";
 import * as THREE from "three";
+import type { AnchorInfo } from "../core/AnchorManager";
+import type { HighlightStyle } from "../core/HighlightStrategies";
+import type { HitTestHandedness, HitTestSourceKind } from "../core/HitTestSourcePolicy";
+import type { MarqueeShape } from "../core/InteractionManager";
+import type { LightingSource } from "../core/LightingManager";
+import type { OcclusionSource } from "../core/OcclusionManager";
+import type { ObjectTransform } from "../core/ObjectTransform";
+import type { CollisionMode, SnapMode } from "../core/PlacementConstraints";
+import type { SurfaceType } from "../core/SurfaceClassifier";
+import type { XRReplayState } from "../core/XRReplayDriver";
+import type { XRSessionError } from "../core/XRSessionController";
 
-// XRセッション状態の型定義
+// XRセッション状態の型定義（XRSessionControllerが遷移させる）
 export enum XRState {
-  NonImmersive = "non-immersive",
-  ImmersiveVR = "immersive-vr",
-  ImmersiveAR = "immersive-ar",
+  // このブラウザ・デバイスではセッションを開始できない
+  Unsupported = "unsupported",
+  Idle = "idle",
+  // requestSessionから初期化完了まで
+  Requesting = "requesting",
+  Active = "active",
+  // システムのUIなどで入力を受け付けない（hiddenも含む）
+  VisibleBlurred = "visible-blurred",
+  Ending = "ending",
+  Error = "error",
 }
 
+// 範囲選択の表示（キャンバス左上からのピクセル座標）
+export interface SelectionMarquee {
+  shape: MarqueeShape;
+  points: [number, number][];
+}
+
+// 配置済みオブジェクトのレコード（シーンと双方向に同期）
+export interface PlacedObjectRecord {
+  // Object3Dのuuid
+  id: string;
+  // SpawnCatalogのID（グループは"group"）
+  type: string;
+  name: string;
+  transform: ObjectTransform;
+  // 最初のメッシュの色（"#rrggbb"、色を持たない場合はnull）
+  color: string | null;
+  visible: boolean;
+  // 現実の物体の後ろで隠れるか
+  occlusion: boolean;
+  anchor: AnchorInfo | null;
+  // 配置（または読み込み）した時刻（ms）
+  createdAt: number;
+}
+
+// UIから変更できる項目
+export type PlacedObjectEdit = Partial<
+  Pick<PlacedObjectRecord, "name" | "visible" | "occlusion" | "color" | "transform">
+>;
+
 // ストアの型定義
 interface XRStore {
   // 状態
@@ -19,13 +66,89 @@ interface XRStore {
   isLoading: boolean;
   error: string | null;
 
+  // XRセッション関連
+  // 次に開始するセッションのモード
+  sessionMode: XRSessionMode;
+  // このブラウザで開始できるモード
+  supportedSessionModes: XRSessionMode[];
+  // セッションの開始・継続に失敗した理由（error状態の間）
+  sessionError: XRSessionError | null;
+  // セッションは継続しているが、想定と異なる点（reference spaceの切り替えなど）
+  sessionWarnings: XRSessionError[];
+  // セッションで有効になった機能
+  enabledFeatures: string[];
+  referenceSpaceType: XRReferenceSpaceType | null;
+  // デスクトップのエミュレーター（合成の部屋）でセッションを提供しているか
+  emulating: boolean;
+  // ヒットテストに使う手（次のセッションから適用）
+  hitTestHandedness: HitTestHandedness;
+  // シーンの照明（ライト推定が使えなければ固定のライト）
+  lightingSource: LightingSource;
+  // 現実の物体による遮蔽に使っている情報（空なら遮蔽しない）
+  occlusionSources: OcclusionSource[];
+  // 遮蔽物（部屋のメッシュと深度で隠れる部分）を表示する
+  showOccluders: boolean;
+  // 配置済みオブジェクトの物理演算（落下・掴んで投げる、既定はオフ）
+  physicsEnabled: boolean;
+  // 物理演算の剛体の数と、そのうち動いているものの数
+  physicsBodyCount: number;
+  awakeBodyCount: number;
+
+  // 記録・再生関連
+  // 次のXRセッションを記録するか
+  recordSessions: boolean;
+  // 最後に記録したセッションのフレーム数（記録がなければ0）
+  recordedFrameCount: number;
+  // 再生中の状態（再生していなければnull）
+  replayState: XRReplayState | null;
+
   // ヒットテスト関連
   hitTestResults: XRHitTestResult[];
   reticleVisible: boolean;
+  // ヒットを生成したソース
+  hitTestSource: HitTestSourceKind | null;
+  // レティクル位置の表面と、選択中のオブジェクトを置けるか
+  surfaceType: SurfaceType | null;
+  placementAllowed: boolean;
+
+  // 平面検出関連
+  // 床の範囲と部屋の範囲（平面が検出されていなければnull）
+  floorExtents: THREE.Box3 | null;
+  roomBounds: THREE.Box3 | null;
+  detectedPlaneCount: number;
+  // ヒットテストを検出された平面上に限定する
+  restrictHitTestToPlanes: boolean;
+
+  // 配置するオブジェクト（SpawnCatalogのID）
+  activeSpawnItemId: string;
+
+  // 配置の制約（スナップと衝突判定）
+  snapMode: SnapMode;
+  gridSize: number;
+  collisionMode: CollisionMode;
+
+  // 操作履歴
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // 配置済みオブジェクト（idごとのレコードと配置順のid）
+  placedObjects: Record<string, PlacedObjectRecord>;
+  placedObjectIds: string[];
 
   // インタラクション状態
+  // 操作の基準となる選択中のオブジェクト（最後に選択したもの）
   selectedObjectId: string | null;
+  // 選択中のすべてのオブジェクト（重複なし）
+  selectedObjectIds: string[];
+  selectionMarquee: SelectionMarquee | null;
+  // XRでselectするたびに選択に追加するモード
+  xrSelectMode: boolean;
   hoveredObjectId: string | null;
+  // ホバー・選択のハイライトの表示方法
+  hoverHighlight: HighlightStyle;
+  selectHighlight: HighlightStyle;
+  // 選択中のオブジェクトの姿勢（移動・回転・拡大縮小で更新）
+  selectedObjectTransform: ObjectTransform | null;
 
   // アクション
   setRenderer: (renderer: THREE.WebGLRenderer) => void;
@@ -36,13 +159,68 @@ interface XRStore {
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
 
+  // XRセッションアクション
+  setSessionMode: (mode: XRSessionMode) => void;
+  setSupportedSessionModes: (modes: XRSessionMode[]) => void;
+  setSessionError: (error: XRSessionError | null) => void;
+  setSessionDetails: (
+    enabledFeatures: string[],
+    referenceSpaceType: XRReferenceSpaceType | null,
+    warnings: XRSessionError[]
+  ) => void;
+  setEmulating: (emulating: boolean) => void;
+  setHitTestHandedness: (handedness: HitTestHandedness) => void;
+  setLightingSource: (source: LightingSource) => void;
+  setOcclusionSources: (sources: OcclusionSource[]) => void;
+  setShowOccluders: (visible: boolean) => void;
+  setPhysicsEnabled: (enabled: boolean) => void;
+  setPhysicsStats: (bodyCount: number, awakeCount: number) => void;
+
+  // 記録・再生アクション
+  setRecordSessions: (enabled: boolean) => void;
+  setRecordedFrameCount: (count: number) => void;
+  setReplayState: (state: XRReplayState | null) => void;
+
   // ヒットテストアクション
   setHitTestResults: (results: XRHitTestResult[]) => void;
   setReticleVisible: (visible: boolean) => void;
+  setHitTestSource: (source: HitTestSourceKind | null) => void;
+  setPlacementSurface: (surfaceType: SurfaceType | null, placementAllowed: boolean) => void;
+
+  // 平面検出アクション
+  setRoomBounds: (
+    floorExtents: THREE.Box3 | null,
+    roomBounds: THREE.Box3 | null,
+    detectedPlaneCount: number
+  ) => void;
+  setRestrictHitTestToPlanes: (restrict: boolean) => void;
+
+  // 配置アクション
+  setActiveSpawnItem: (id: string) => void;
+
+  // 配置の制約アクション
+  setSnapMode: (mode: SnapMode) => void;
+  setGridSize: (size: number) => void;
+  setCollisionMode: (mode: CollisionMode) => void;
+
+  // 操作履歴アクション
+  setHistoryState: (canUndo: boolean, canRedo: boolean) => void;
+
+  // 配置済みオブジェクトアクション
+  // シーンの状態を反映（PlacedObjectSyncから呼ばれる）
+  setPlacedObjects: (records: PlacedObjectRecord[]) => void;
+  // UIからの変更（PlacedObjectSyncがシーンに反映する）
+  updatePlacedObject: (id: string, edit: PlacedObjectEdit) => void;
+  removePlacedObject: (id: string) => void;
 
   // インタラクションアクション
-  selectObject: (id: string | null) => void;
+  setSelectedObjects: (ids: string[]) => void;
+  setSelectionMarquee: (marquee: SelectionMarquee | null) => void;
+  setXRSelectMode: (enabled: boolean) => void;
   hoverObject: (id: string | null) => void;
+  setHoverHighlight: (style: HighlightStyle) => void;
+  setSelectHighlight: (style: HighlightStyle) => void;
+  setSelectedObjectTransform: (transform: ObjectTransform | null) => void;
 
   // リセット
   reset: () => void;
@@ -53,14 +231,52 @@ const initialState = {
   renderer: null,
   scene: null,
   camera: null,
-  xrState: XRState.NonImmersive,
+  xrState: XRState.Unsupported,
   isInitialized: false,
   isLoading: false,
   error: null,
+  sessionMode: "immersive-ar" as XRSessionMode,
+  supportedSessionModes: [],
+  sessionError: null,
+  sessionWarnings: [],
+  enabledFeatures: [],
+  referenceSpaceType: null,
+  emulating: false,
+  hitTestHandedness: "right" as HitTestHandedness,
+  lightingSource: "fixed" as LightingSource,
+  occlusionSources: [],
+  showOccluders: false,
+  physicsEnabled: false,
+  physicsBodyCount: 0,
+  awakeBodyCount: 0,
+  recordSessions: false,
+  recordedFrameCount: 0,
+  replayState: null,
   hitTestResults: [],
   reticleVisible: false,
+  hitTestSource: null,
+  surfaceType: null,
+  placementAllowed: false,
+  floorExtents: null,
+  roomBounds: null,
+  detectedPlaneCount: 0,
+  restrictHitTestToPlanes: false,
+  activeSpawnItemId: "cube",
+  snapMode: "none" as SnapMode,
+  gridSize: 0.1,
+  collisionMode: "nudge" as CollisionMode,
+  canUndo: false,
+  canRedo: false,
+  placedObjects: {},
+  placedObjectIds: [],
   selectedObjectId: null,
+  selectedObjectIds: [],
+  selectionMarquee: null,
+  xrSelectMode: false,
   hoveredObjectId: null,
+  hoverHighlight: "tint" as HighlightStyle,
+  selectHighlight: "tint" as HighlightStyle,
+  selectedObjectTransform: null,
 };
 
 // Zustand store作成
@@ -90,18 +306,131 @@ export const useXRStore = create<XRStore>((set) => ({
   // エラー設定
   setError: (error) => set({ error }),
 
+  // セッションのモード設定
+  setSessionMode: (sessionMode) => set({ sessionMode }),
+  setSupportedSessionModes: (supportedSessionModes) => set({ supportedSessionModes }),
+
+  // XRセッションのエラー設定
+  setSessionError: (sessionError) => set({ sessionError }),
+
+  // XRセッションの機能とreference space設定
+  setSessionDetails: (enabledFeatures, referenceSpaceType, sessionWarnings) =>
+    set({ enabledFeatures, referenceSpaceType, sessionWarnings }),
+
+  // エミュレーション設定
+  setEmulating: (emulating) => set({ emulating }),
+
+  // ヒットテストに使う手の設定
+  setHitTestHandedness: (hitTestHandedness) => set({ hitTestHandedness }),
+
+  // 照明の設定
+  setLightingSource: (lightingSource) => set({ lightingSource }),
+
+  // 遮蔽の設定
+  setOcclusionSources: (occlusionSources) => set({ occlusionSources }),
+
+  // 遮蔽物の表示設定
+  setShowOccluders: (showOccluders) => set({ showOccluders }),
+
+  // 物理演算の設定
+  setPhysicsEnabled: (physicsEnabled) => set({ physicsEnabled }),
+
+  // 物理演算の剛体の数設定
+  setPhysicsStats: (physicsBodyCount, awakeBodyCount) => set({ physicsBodyCount, awakeBodyCount }),
+
+  // セッションの記録設定
+  setRecordSessions: (recordSessions) => set({ recordSessions }),
+
+  // 記録したフレーム数設定
+  setRecordedFrameCount: (recordedFrameCount) => set({ recordedFrameCount }),
+
+  // 再生状態設定
+  setReplayState: (replayState) => set({ replayState }),
+
   // ヒットテスト結果設定
   setHitTestResults: (hitTestResults) => set({ hitTestResults }),
 
   // レティクル表示設定
   setReticleVisible: (reticleVisible) => set({ reticleVisible }),
 
+  // ヒットテストソース設定
+  setHitTestSource: (hitTestSource) => set({ hitTestSource }),
+
+  // 配置先の表面設定
+  setPlacementSurface: (surfaceType, placementAllowed) => set({ surfaceType, placementAllowed }),
+
+  // 床と部屋の範囲設定
+  setRoomBounds: (floorExtents, roomBounds, detectedPlaneCount) =>
+    set({ floorExtents, roomBounds, detectedPlaneCount }),
+
+  // ヒットテストを平面上に限定するか設定
+  setRestrictHitTestToPlanes: (restrictHitTestToPlanes) => set({ restrictHitTestToPlanes }),
+
+  // 配置オブジェクト選択
+  setActiveSpawnItem: (activeSpawnItemId) => set({ activeSpawnItemId }),
+
+  // スナップモード設定
+  setSnapMode: (snapMode) => set({ snapMode }),
+
+  // グリッドのセルサイズ設定
+  setGridSize: (gridSize) => set({ gridSize }),
+
+  // 衝突時の扱い設定
+  setCollisionMode: (collisionMode) => set({ collisionMode }),
+
+  // 操作履歴の状態設定
+  setHistoryState: (canUndo, canRedo) => set({ canUndo, canRedo }),
+
+  // 配置済みオブジェクトの同期
+  setPlacedObjects: (records) =>
+    set({
+      placedObjects: Object.fromEntries(records.map((record) => [record.id, record])),
+      placedObjectIds: records.map((record) => record.id),
+    }),
+
+  // 配置済みオブジェクトの変更
+  updatePlacedObject: (id, edit) =>
+    set((state) => {
+      const record = state.placedObjects[id];
+      if (!record) return {};
+      return { placedObjects: { ...state.placedObjects, [id]: { ...record, ...edit } } };
+    }),
+
+  // 配置済みオブジェクトの削除
+  removePlacedObject: (id) =>
+    set((state) => {
+      if (!state.placedObjects[id]) return {};
+      const placedObjects = { ...state.placedObjects };
+      delete placedObjects[id];
+      return {
+        placedObjects,
+        placedObjectIds: state.placedObjectIds.filter((item) => item !== id),
+      };
+    }),
+
   // オブジェクト選択
-  selectObject: (selectedObjectId) => set({ selectedObjectId }),
+  setSelectedObjects: (selectedObjectIds) =>
+    set({
+      selectedObjectIds,
+      selectedObjectId: selectedObjectIds[selectedObjectIds.length - 1] ?? null,
+    }),
+
+  // 範囲選択の表示
+  setSelectionMarquee: (selectionMarquee) => set({ selectionMarquee }),
+
+  // XRの選択モード
+  setXRSelectMode: (xrSelectMode) => set({ xrSelectMode }),
 
   // オブジェクトホバー
   hoverObject: (hoveredObjectId) => set({ hoveredObjectId }),
 
+  // ハイライトの表示方法
+  setHoverHighlight: (hoverHighlight) => set({ hoverHighlight }),
+  setSelectHighlight: (selectHighlight) => set({ selectHighlight }),
+
+  // 選択中のオブジェクトの姿勢
+  setSelectedObjectTransform: (selectedObjectTransform) => set({ selectedObjectTransform }),
+
   // リセット
   reset: () => set(initialState),
 }));
@@ -13,3 +13,39 @@ interface ImportMeta {
     readonly dispose: (callback: () => void) => void;
   };
 }
+
+interface Window {
+  // 開発時にコンソール・自動テストから操作するエミュレーター
+  mrroomEmulator?: import("./core/XREmulator").XREmulator;
+}
+
+// WebXR Lighting Estimation（@types/webxrに含まれていない）
+type XRReflectionFormat = "srgba8" | "rgba16f";
+
+interface XRLightProbeInit {
+  reflectionFormat?: XRReflectionFormat;
+}
+
+interface XRLightProbe extends EventTarget {
+  readonly probeSpace: XRSpace;
+}
+
+interface XRLightEstimate {
+  readonly sphericalHarmonicsCoefficients: Float32Array;
+  // 主光源の方向（光源に向かう向き）と色ごとの強さ
+  readonly primaryLightDirection: DOMPointReadOnly;
+  readonly primaryLightIntensity: DOMPointReadOnly;
+}
+
+interface XRSession {
+  readonly preferredReflectionFormat?: XRReflectionFormat;
+  requestLightProbe?(options?: XRLightProbeInit): Promise<XRLightProbe>;
+}
+
+interface XRFrame {
+  getLightEstimate?(lightProbe: XRLightProbe): XRLightEstimate | null;
+}
+
+interface XRWebGLBinding {
+  getReflectionCubeMap?(lightProbe: XRLightProbe): WebGLTexture | null;
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// テストはNode上で純粋なモジュールだけを実行する（HTTPS証明書の生成などは不要）
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});